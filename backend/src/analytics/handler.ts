@@ -0,0 +1,157 @@
+/**
+ * Analytics Lambda Handler
+ * Serves tenant-scoped KPIs from orders, fulfillment and marketing_campaigns
+ */
+
+import { DataScopeError, resolveDataScope } from "../shared/dataScope";
+import { query } from "../shared/db";
+import {
+  ForbiddenError,
+  LambdaResponse,
+  NotFoundError,
+  successResponse,
+  TenantRequest,
+  toErrorResponse,
+  ValidationError,
+} from "../shared/http";
+import { loadPermissions } from "../shared/permissions";
+import {
+  METRIC_DEFINITIONS,
+  isMetricKey,
+  resolveVisibleMetrics,
+  runMetric,
+} from "./metrics";
+import { parseMetricFilters } from "./validation";
+import {
+  MetricKey,
+  MetricAvailability,
+  MetricResponse,
+} from "./types";
+
+/**
+ * Retrieves the metric names visible to a role from role_metric_visibility
+ */
+async function getVisibleMetricNames(
+  tenantId: string,
+  role: string,
+): Promise<string[]> {
+  const result = await query<{ metric_name: string }>(
+    `SELECT metric_name FROM role_metric_visibility
+     WHERE tenant_id = $1 AND role = $2 AND is_visible = true`,
+    [tenantId, role],
+  );
+
+  return result.rows.map((row) => row.metric_name);
+}
+
+/**
+ * Lists the KPIs and whether the caller's role may query them
+ * GET /metrics
+ */
+export async function listMetrics(
+  request: TenantRequest<unknown>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const user = await loadPermissions(context.tenantId, context.userId);
+
+    const visibleNames = await getVisibleMetricNames(
+      context.tenantId,
+      user.role,
+    );
+    const visible = new Set(resolveVisibleMetrics(visibleNames));
+
+    const metrics: MetricAvailability[] = (
+      Object.keys(METRIC_DEFINITIONS) as MetricKey[]
+    ).map((metric) => ({ metric, visible: visible.has(metric) }));
+
+    return successResponse(200, { metrics, count: metrics.length });
+  } catch (error: any) {
+    console.error("Error listing metrics:", error);
+    return toErrorResponse(error, "Failed to list metrics");
+  }
+}
+
+/**
+ * Returns summary, time series and breakdown for one KPI
+ * GET /metrics/{metric}?startDate=&endDate=&region=&storeId=&channel=&granularity=&groupBy=
+ */
+export async function getMetric(
+  request: TenantRequest<{ metric: string }>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const user = await loadPermissions(context.tenantId, context.userId);
+    const metric = request.params.metric;
+
+    if (!metric) {
+      throw new ValidationError("Metric is required", "metric");
+    }
+
+    if (!isMetricKey(metric)) {
+      throw new NotFoundError("Metric not found", "metric");
+    }
+
+    const definition = METRIC_DEFINITIONS[metric];
+
+    // Validate filters
+    const validation = parseMetricFilters(request.query, definition);
+    if (!validation.valid) {
+      throw new ValidationError(validation.error!, validation.field);
+    }
+
+    // Honor role_metric_visibility for the role in the database, which
+    // may be newer than the token's custom:role
+    const visibleNames = await getVisibleMetricNames(
+      context.tenantId,
+      user.role,
+    );
+    if (!resolveVisibleMetrics(visibleNames).includes(metric)) {
+      throw new ForbiddenError(
+        `Metric ${metric} is not visible to role ${user.role}`,
+      );
+    }
+
+    // Apply the same data scope as the embedded dashboard
+    const { scope } = await resolveDataScope(
+      context.tenantId,
+      context.userId,
+    );
+
+    // KPI tables have no team or custom columns; refuse rather than
+    // return rows the user's rules would hide
+    if (scope.team !== null || scope.custom !== null) {
+      throw new ForbiddenError(
+        "Team and custom data rules cannot be applied to native KPIs",
+      );
+    }
+
+    const result = await runMetric(
+      definition,
+      context.tenantId,
+      validation.filters!,
+      scope,
+    );
+
+    const response: MetricResponse = {
+      metric,
+      filters: validation.filters!,
+      ...result,
+    };
+
+    console.log(
+      `Metric ${metric} served for user ${context.email} in tenant ${context.tenantId}`,
+    );
+    return successResponse(200, response);
+  } catch (error: any) {
+    console.error("Error getting metric:", error);
+
+    // Malformed governance rules fail closed
+    return toErrorResponse(
+      error instanceof DataScopeError
+        ? new ForbiddenError(error.message)
+        : error,
+      "Failed to load metric",
+    );
+  }
+}
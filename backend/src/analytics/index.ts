@@ -0,0 +1,19 @@
+/**
+ * Analytics Lambda Entry Point
+ * Routes requests to appropriate handlers based on HTTP method and path
+ */
+
+import { createRouter, permissionRoute, route } from '../shared/http';
+import { listMetrics, getMetric } from './handler';
+
+/**
+ * Lambda handler function
+ * Routes requests based on HTTP method and resource path
+ */
+export const handler = createRouter([
+  route('GET', '/metrics', permissionRoute('dashboards:view', listMetrics)),
+  route('GET', '/metrics/{metric}', permissionRoute('dashboards:view', getMetric)),
+]);
+
+// Export handler functions for testing
+export { listMetrics, getMetric };
@@ -0,0 +1,237 @@
+/**
+ * KPI definitions and query execution for the analytics API
+ * Each metric is described declaratively and executed by one generic runner
+ */
+
+import { DataScope } from '../shared/dataScope';
+import { query } from '../shared/db';
+import {
+  MetricKey,
+  MetricFilters,
+  MetricValues,
+  SeriesPoint,
+  BreakdownRow,
+} from './types';
+
+/**
+ * Declarative description of a KPI
+ */
+export interface MetricDefinition {
+  /** role_metric_visibility names (case-insensitive) that grant access */
+  visibilityNames: string[];
+  /** FROM clause, including joins */
+  from: string;
+  tenantColumn: string;
+  dateColumn: string;
+  regionColumn?: string;
+  storeColumn?: string;
+  channelColumn?: string;
+  /** Aggregate select list shared by summary, series and breakdown */
+  select: string;
+  /** Allowed breakdown dimensions mapped to their column */
+  groupByColumns: { [groupBy: string]: string };
+  defaultGroupBy: string;
+  /** Column used to rank breakdown rows */
+  sortColumn: string;
+}
+
+/**
+ * Maximum number of breakdown rows returned
+ */
+const BREAKDOWN_LIMIT = 50;
+
+const ORDERS_FROM = 'orders o';
+
+const ORDERS_COLUMNS = {
+  tenantColumn: 'o.tenant_id',
+  dateColumn: 'o.order_date',
+  regionColumn: 'o.region',
+  storeColumn: 'o.store_id',
+  channelColumn: 'o.channel',
+};
+
+const ORDERS_GROUP_BY = {
+  region: 'o.region',
+  store: 'o.store_id',
+  channel: 'o.channel',
+};
+
+/**
+ * KPI catalog
+ * Names in visibilityNames cover both the Roles page metric names
+ * (e.g. Net_Revenue) and the names used in the seed data (e.g. sla_met)
+ */
+export const METRIC_DEFINITIONS: Record<MetricKey, MetricDefinition> = {
+  revenue: {
+    visibilityNames: ['net_revenue'],
+    from: ORDERS_FROM,
+    ...ORDERS_COLUMNS,
+    select: `COUNT(*)::int AS order_count,
+      COALESCE(SUM(o.gross_revenue), 0)::float8 AS gross_revenue,
+      COALESCE(SUM(o.discount_amount), 0)::float8 AS discount_amount,
+      COALESCE(SUM(o.net_revenue), 0)::float8 AS net_revenue,
+      ROUND(AVG(o.net_revenue), 2)::float8 AS avg_order_value`,
+    groupByColumns: ORDERS_GROUP_BY,
+    defaultGroupBy: 'region',
+    sortColumn: 'net_revenue',
+  },
+  margin: {
+    visibilityNames: ['margin'],
+    from: ORDERS_FROM,
+    ...ORDERS_COLUMNS,
+    // The schema has no cost data, so margin is net revenue after discounts
+    select: `COALESCE(SUM(o.gross_revenue), 0)::float8 AS gross_revenue,
+      COALESCE(SUM(o.net_revenue), 0)::float8 AS net_revenue,
+      ROUND(100.0 * SUM(o.net_revenue) / NULLIF(SUM(o.gross_revenue), 0), 2)::float8 AS margin_pct`,
+    groupByColumns: ORDERS_GROUP_BY,
+    defaultGroupBy: 'region',
+    sortColumn: 'net_revenue',
+  },
+  'fulfillment-sla': {
+    visibilityNames: ['fulfillment_sla', 'sla_met'],
+    from: `fulfillment f
+      JOIN orders o ON o.order_id = f.order_id AND o.tenant_id = f.tenant_id`,
+    ...ORDERS_COLUMNS,
+    tenantColumn: 'f.tenant_id',
+    select: `COUNT(*)::int AS shipments,
+      (COUNT(*) FILTER (WHERE f.sla_met))::int AS sla_met_count,
+      ROUND(100.0 * COUNT(*) FILTER (WHERE f.sla_met) / NULLIF(COUNT(*), 0), 2)::float8 AS sla_rate,
+      ROUND(AVG(f.days_to_ship), 2)::float8 AS avg_days_to_ship`,
+    groupByColumns: {
+      ...ORDERS_GROUP_BY,
+      warehouse: 'f.warehouse',
+      carrier: 'f.carrier',
+    },
+    defaultGroupBy: 'carrier',
+    sortColumn: 'shipments',
+  },
+  'campaign-roi': {
+    visibilityNames: ['campaign_roi', 'revenue_attributed'],
+    from: 'marketing_campaigns m',
+    tenantColumn: 'm.tenant_id',
+    dateColumn: 'm.date',
+    channelColumn: 'm.channel',
+    select: `COALESCE(SUM(m.spend), 0)::float8 AS spend,
+      COALESCE(SUM(m.revenue_attributed), 0)::float8 AS revenue_attributed,
+      COALESCE(SUM(m.conversions), 0)::int AS conversions,
+      ROUND(100.0 * (SUM(m.revenue_attributed) - SUM(m.spend)) / NULLIF(SUM(m.spend), 0), 2)::float8 AS roi_pct,
+      ROUND(SUM(m.spend) / NULLIF(SUM(m.conversions), 0), 2)::float8 AS cac`,
+    groupByColumns: {
+      channel: 'm.channel',
+    },
+    defaultGroupBy: 'channel',
+    sortColumn: 'revenue_attributed',
+  },
+};
+
+/**
+ * Checks whether a path segment is a known metric
+ */
+export function isMetricKey(metric: string): metric is MetricKey {
+  return Object.prototype.hasOwnProperty.call(METRIC_DEFINITIONS, metric);
+}
+
+/**
+ * Returns the metric keys unlocked by a role's visible metric names
+ *
+ * @param visibleNames - Visible metric names from role_metric_visibility
+ */
+export function resolveVisibleMetrics(visibleNames: string[]): MetricKey[] {
+  const names = new Set(visibleNames.map((name) => name.toLowerCase()));
+
+  return (Object.keys(METRIC_DEFINITIONS) as MetricKey[]).filter((metric) =>
+    METRIC_DEFINITIONS[metric].visibilityNames.some((name) => names.has(name)),
+  );
+}
+
+/**
+ * Builds the tenant-scoped WHERE clause for a metric
+ * Filters and governance scope are always passed as parameters
+ */
+function buildWhereClause(
+  definition: MetricDefinition,
+  tenantId: string,
+  filters: MetricFilters,
+  scope: DataScope,
+): { clause: string; params: any[] } {
+  const params: any[] = [tenantId, filters.startDate, filters.endDate];
+  const conditions = [
+    `${definition.tenantColumn} = $1`,
+    `${definition.dateColumn} BETWEEN $2 AND $3`,
+  ];
+
+  const addCondition = (column: string | undefined, operator: string, value: any) => {
+    if (column && value !== undefined) {
+      params.push(value);
+      conditions.push(`${column} ${operator.replace('?', `$${params.length}`)}`);
+    }
+  };
+
+  addCondition(definition.regionColumn, '= ?', filters.region);
+  addCondition(definition.storeColumn, '= ?', filters.storeId);
+  addCondition(definition.channelColumn, '= ?', filters.channel);
+  addCondition(definition.regionColumn, '= ANY(?)', scope.region ?? undefined);
+  addCondition(definition.storeColumn, '= ANY(?)', scope.store ?? undefined);
+
+  return { clause: conditions.join(' AND '), params };
+}
+
+/**
+ * Runs summary, time-series and breakdown queries for a metric
+ *
+ * @param definition - Metric definition
+ * @param tenantId - Tenant to scope every query to
+ * @param filters - Validated filters
+ * @param scope - The caller's data scope; region and store apply where the
+ *   metric's table has the column
+ */
+export async function runMetric(
+  definition: MetricDefinition,
+  tenantId: string,
+  filters: MetricFilters,
+  scope: DataScope,
+): Promise<{ summary: MetricValues; series: SeriesPoint[]; breakdown: BreakdownRow[] }> {
+  const { clause, params } = buildWhereClause(definition, tenantId, filters, scope);
+  const groupColumn = definition.groupByColumns[filters.groupBy];
+
+  // granularity and groupColumn come from whitelists, never from raw input
+  const [summaryResult, seriesResult, breakdownResult] = await Promise.all([
+    query<MetricValues>(
+      `SELECT ${definition.select}
+       FROM ${definition.from}
+       WHERE ${clause}`,
+      params,
+    ),
+    query<{ period: string } & MetricValues>(
+      `SELECT TO_CHAR(DATE_TRUNC('${filters.granularity}', ${definition.dateColumn}), 'YYYY-MM-DD') AS period,
+         ${definition.select}
+       FROM ${definition.from}
+       WHERE ${clause}
+       GROUP BY 1
+       ORDER BY 1`,
+      params,
+    ),
+    query<{ key: string } & MetricValues>(
+      `SELECT COALESCE(${groupColumn}::text, 'Unknown') AS key,
+         ${definition.select}
+       FROM ${definition.from}
+       WHERE ${clause}
+       GROUP BY 1
+       ORDER BY ${definition.sortColumn} DESC NULLS LAST
+       LIMIT ${BREAKDOWN_LIMIT}`,
+      params,
+    ),
+  ]);
+
+  return {
+    summary: summaryResult.rows[0] || {},
+    series: seriesResult.rows.map(({ period, ...values }) => ({
+      period: period as string,
+      values,
+    })),
+    breakdown: breakdownResult.rows.map(({ key, ...values }) => ({
+      key: key as string,
+      values,
+    })),
+  };
+}
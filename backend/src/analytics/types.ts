@@ -0,0 +1,67 @@
+/**
+ * Analytics Types
+ * ShopPulse Analytics - Native KPI API
+ */
+
+/**
+ * KPI endpoints exposed under /metrics/{metric}
+ */
+export type MetricKey = 'revenue' | 'margin' | 'fulfillment-sla' | 'campaign-roi';
+
+/**
+ * Time-series bucket size
+ */
+export type Granularity = 'day' | 'week' | 'month';
+
+/**
+ * Filters parsed from the query string
+ */
+export interface MetricFilters {
+  startDate: string;
+  endDate: string;
+  region?: string;
+  storeId?: string;
+  channel?: string;
+  granularity: Granularity;
+  groupBy: string;
+}
+
+/**
+ * Aggregated values for one metric, keyed by column name
+ */
+export type MetricValues = { [column: string]: number | null };
+
+/**
+ * One time-series point
+ */
+export interface SeriesPoint {
+  period: string;
+  values: MetricValues;
+}
+
+/**
+ * One breakdown row
+ */
+export interface BreakdownRow {
+  key: string;
+  values: MetricValues;
+}
+
+/**
+ * Metric endpoint response
+ */
+export interface MetricResponse {
+  metric: MetricKey;
+  filters: MetricFilters;
+  summary: MetricValues;
+  series: SeriesPoint[];
+  breakdown: BreakdownRow[];
+}
+
+/**
+ * Metric catalog entry for GET /metrics
+ */
+export interface MetricAvailability {
+  metric: MetricKey;
+  visible: boolean;
+}
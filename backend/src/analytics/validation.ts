@@ -0,0 +1,123 @@
+/**
+ * Query string validation for the analytics API
+ */
+
+import { MetricDefinition } from './metrics';
+import { Granularity, MetricFilters } from './types';
+
+/**
+ * Valid time-series granularities
+ */
+const VALID_GRANULARITIES: readonly Granularity[] = ['day', 'week', 'month'];
+
+/**
+ * Default reporting window when no dates are given (inclusive)
+ */
+const DEFAULT_RANGE_DAYS = 30;
+
+/**
+ * Longest date range a single request may cover
+ */
+const MAX_RANGE_DAYS = 731;
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Validates an ISO calendar date (YYYY-MM-DD)
+ *
+ * @param value - Date string to validate
+ * @returns True if valid, false otherwise
+ */
+export function isValidDate(value: string): boolean {
+  if (!DATE_REGEX.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Formats a Date as YYYY-MM-DD (UTC)
+ */
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parses and validates metric filters from query string parameters
+ *
+ * @param params - Query string parameters
+ * @param definition - Metric the filters apply to
+ * @returns Validation result with parsed filters if valid
+ */
+export function parseMetricFilters(
+  params: { [key: string]: string } | null,
+  definition: MetricDefinition
+): { valid: boolean; error?: string; field?: string; filters?: MetricFilters } {
+  const input = params || {};
+
+  const endDate = input.endDate || formatDate(new Date());
+  if (!isValidDate(endDate)) {
+    return { valid: false, error: 'endDate must be a valid YYYY-MM-DD date', field: 'endDate' };
+  }
+
+  const startDate =
+    input.startDate ||
+    formatDate(new Date(Date.parse(`${endDate}T00:00:00Z`) - (DEFAULT_RANGE_DAYS - 1) * MS_PER_DAY));
+  if (!isValidDate(startDate)) {
+    return { valid: false, error: 'startDate must be a valid YYYY-MM-DD date', field: 'startDate' };
+  }
+
+  const rangeDays = (Date.parse(endDate) - Date.parse(startDate)) / MS_PER_DAY;
+  if (rangeDays < 0) {
+    return { valid: false, error: 'startDate must be on or before endDate', field: 'startDate' };
+  }
+  if (rangeDays >= MAX_RANGE_DAYS) {
+    return { valid: false, error: `Date range cannot exceed ${MAX_RANGE_DAYS} days`, field: 'startDate' };
+  }
+
+  const granularity = (input.granularity || 'day') as Granularity;
+  if (!VALID_GRANULARITIES.includes(granularity)) {
+    return {
+      valid: false,
+      error: `granularity must be one of: ${VALID_GRANULARITIES.join(', ')}`,
+      field: 'granularity',
+    };
+  }
+
+  const groupBy = input.groupBy || definition.defaultGroupBy;
+  if (!Object.prototype.hasOwnProperty.call(definition.groupByColumns, groupBy)) {
+    return {
+      valid: false,
+      error: `groupBy must be one of: ${Object.keys(definition.groupByColumns).join(', ')}`,
+      field: 'groupBy',
+    };
+  }
+
+  if (input.region && !definition.regionColumn) {
+    return { valid: false, error: 'region filter is not supported for this metric', field: 'region' };
+  }
+
+  if (input.storeId && !definition.storeColumn) {
+    return { valid: false, error: 'storeId filter is not supported for this metric', field: 'storeId' };
+  }
+
+  if (input.channel && !definition.channelColumn) {
+    return { valid: false, error: 'channel filter is not supported for this metric', field: 'channel' };
+  }
+
+  return {
+    valid: true,
+    filters: {
+      startDate,
+      endDate,
+      region: input.region || undefined,
+      storeId: input.storeId || undefined,
+      channel: input.channel || undefined,
+      granularity,
+      groupBy,
+    },
+  };
+}
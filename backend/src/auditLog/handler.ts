@@ -0,0 +1,107 @@
+/**
+ * Audit Log Lambda Handler
+ * Lists the tenant's administrative actions recorded in audit_events
+ */
+
+import { query } from "../shared/db";
+import {
+  LambdaResponse,
+  successResponse,
+  TenantRequest,
+  toErrorResponse,
+} from "../shared/http";
+import {
+  auditQuerySchema,
+  DEFAULT_AUDIT_PAGE_SIZE,
+  parseParams,
+} from "../shared/validation";
+import {
+  AuditEvent,
+  ListAuditEventsQuery,
+  ListAuditEventsResponse,
+} from "./types";
+
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Lists audit events, newest first, one page at a time
+ * Filters combine with AND; a date-only `to` includes that whole day
+ * GET /audit?action=&targetType=&targetId=&actor=&from=&to=&limit=&cursor=
+ */
+export async function listAuditEvents(
+  request: TenantRequest<unknown>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const filters = parseParams<ListAuditEventsQuery>(
+      auditQuerySchema,
+      request.query,
+    );
+    const limit = filters.limit
+      ? Number(filters.limit)
+      : DEFAULT_AUDIT_PAGE_SIZE;
+
+    const conditions = ["tenant_id = $1"];
+    const values: unknown[] = [context.tenantId];
+    // Each "?" in the condition is bound to the value
+    const addCondition = (sql: string, value: unknown) => {
+      values.push(value);
+      conditions.push(sql.split("?").join(`$${values.length}`));
+    };
+
+    if (filters.action) {
+      addCondition("action = ?", filters.action);
+    }
+    if (filters.targetType) {
+      addCondition("target_type = ?", filters.targetType);
+    }
+    if (filters.targetId?.trim()) {
+      addCondition("target_id = ?", filters.targetId.trim());
+    }
+    if (filters.actor?.trim()) {
+      addCondition(
+        "(actor_user_id = ? OR LOWER(actor_email) = LOWER(?))",
+        filters.actor.trim(),
+      );
+    }
+    if (filters.from?.trim()) {
+      addCondition("created_at >= ?", filters.from.trim());
+    }
+    if (filters.to?.trim()) {
+      const to = filters.to.trim();
+      addCondition(
+        DATE_ONLY_REGEX.test(to)
+          ? "created_at < ?::date + 1"
+          : "created_at <= ?",
+        to,
+      );
+    }
+    if (filters.cursor) {
+      addCondition("event_id < ?", filters.cursor);
+    }
+
+    // Fetch one extra row to tell whether another page follows
+    values.push(limit + 1);
+    const result = await query<AuditEvent>(
+      `SELECT event_id, actor_user_id, actor_email, action, target_type, target_id,
+              before, after, request_id, created_at
+       FROM audit_events
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY event_id DESC
+       LIMIT $${values.length}`,
+      values,
+    );
+
+    const events = result.rows.slice(0, limit);
+    const response: ListAuditEventsResponse = {
+      events,
+      next_cursor:
+        result.rows.length > limit ? events[events.length - 1].event_id : null,
+    };
+
+    return successResponse(200, response);
+  } catch (error: any) {
+    console.error("Error listing audit events:", error);
+    return toErrorResponse(error, "Failed to list audit events");
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Audit Log Lambda Entry Point
+ * Routes requests to appropriate handlers based on HTTP method and path
+ */
+
+import { createRouter, permissionRoute, route } from '../shared/http';
+import { listAuditEvents } from './handler';
+
+/**
+ * Lambda handler function
+ * Routes requests based on HTTP method and resource path
+ */
+export const handler = createRouter([
+  route('GET', '/audit', permissionRoute('audit:read', listAuditEvents)),
+]);
+
+// Export handler functions for testing
+export { listAuditEvents };
@@ -0,0 +1,45 @@
+/**
+ * Type definitions for the Audit Log
+ */
+
+import type { AuditAction, AuditTargetType } from '../shared/audit';
+
+/**
+ * Row from the audit_events table
+ * event_id is a BIGSERIAL and comes back from pg as a string
+ */
+export interface AuditEvent {
+  event_id: string;
+  actor_user_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  target_type: AuditTargetType;
+  target_id: string;
+  before: unknown;
+  after: unknown;
+  request_id: string | null;
+  created_at: string;
+}
+
+/**
+ * GET /audit query string (validated by auditQuerySchema)
+ */
+export interface ListAuditEventsQuery {
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  actor?: string;
+  from?: string;
+  to?: string;
+  limit?: string;
+  cursor?: string;
+}
+
+/**
+ * Events newest first; pass next_cursor as `cursor` for the next page
+ * next_cursor is null on the last page
+ */
+export interface ListAuditEventsResponse {
+  events: AuditEvent[];
+  next_cursor: string | null;
+}
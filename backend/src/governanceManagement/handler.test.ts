@@ -0,0 +1,135 @@
+import { query, withTransaction } from '../shared/db';
+import { TenantRequest } from '../shared/http';
+import { loadPermissions } from '../shared/permissions';
+import { PLAN_ENTITLEMENTS } from '../shared/tenantGuard';
+import { createRule, deleteRule, updateRule } from './handler';
+
+jest.mock('../shared/db', () => ({ query: jest.fn(), withTransaction: jest.fn() }));
+jest.mock('../shared/permissions', () => ({
+  ...jest.requireActual('../shared/permissions'),
+  loadPermissions: jest.fn(),
+}));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockWithTransaction = withTransaction as jest.MockedFunction<typeof withTransaction>;
+const mockLoadPermissions = loadPermissions as jest.MockedFunction<typeof loadPermissions>;
+
+const client = { query: jest.fn() };
+
+const RULE_ID = '6f1c2a4e-8b3d-4f5a-9c7e-1d2b3c4d5e6f';
+
+/**
+ * The caller's own region rule
+ */
+const OWN_RULE = {
+  rule_id: RULE_ID,
+  tenant_id: 'T001',
+  user_id: 'U001',
+  dimension: 'region',
+  values: ['NA'],
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+};
+
+function request<Params>(params: Params, body: unknown = null): TenantRequest<Params> {
+  return {
+    params,
+    query: {},
+    body: body === null ? null : JSON.stringify(body),
+    context: { tenantId: 'T001', userId: 'sub-1', email: 'manager@example.com', requestId: 'req-1' },
+    tenant: {
+      tenantId: 'T001',
+      tenantName: 'Acme',
+      planTier: 'Standard',
+      entitlements: PLAN_ENTITLEMENTS.Standard,
+    },
+  } as unknown as TenantRequest<Params>;
+}
+
+/**
+ * Caller U001, who holds governance:write
+ */
+function givenCaller(isTenantAdmin: boolean) {
+  mockLoadPermissions.mockResolvedValue({
+    userId: 'U001',
+    role: isTenantAdmin ? 'Admin' : 'Regional Manager',
+    isTenantAdmin,
+    permissions: ['dashboards:view', 'governance:write'],
+  });
+}
+
+function parseBody(response: { body: string }) {
+  return JSON.parse(response.body);
+}
+
+describe('governanceManagement handler', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockWithTransaction.mockImplementation(async (fn) => fn(client as any));
+    mockQuery.mockResolvedValue({ rows: [{ tenant_id: 'T001' }] } as any);
+    client.query.mockResolvedValue({ rows: [OWN_RULE] });
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('own rules', () => {
+    it('stops callers other than tenant admins creating rules for themselves', async () => {
+      givenCaller(false);
+
+      const response = await createRule(request({}, { user_id: 'U001', dimension: 'region', values: ['EU'] }));
+
+      expect(response.statusCode).toBe(403);
+      expect(parseBody(response).error).toBe('Only tenant admins can change their own governance rules');
+      expect(mockWithTransaction).not.toHaveBeenCalled();
+    });
+
+    it('stops callers other than tenant admins updating their own rules', async () => {
+      givenCaller(false);
+
+      const response = await updateRule(request({ ruleId: RULE_ID }, { values: ['NA', 'EU'] }));
+
+      expect(response.statusCode).toBe(403);
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops callers other than tenant admins deleting their own rules', async () => {
+      givenCaller(false);
+
+      const response = await deleteRule(request({ ruleId: RULE_ID }));
+
+      // Thrown inside the transaction after the DELETE, which withTransaction rolls back
+      expect(response.statusCode).toBe(403);
+      expect(client.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO audit_events'),
+        expect.anything()
+      );
+    });
+
+    it('lets tenant admins change their own rules', async () => {
+      givenCaller(true);
+
+      const response = await updateRule(request({ ruleId: RULE_ID }, { values: ['NA', 'EU'] }));
+
+      expect(response.statusCode).toBe(200);
+    });
+  });
+
+  it("lets callers change other users' rules", async () => {
+    givenCaller(false);
+    client.query.mockResolvedValue({ rows: [{ ...OWN_RULE, user_id: 'U002', values: ['EU'] }] });
+
+    const response = await createRule(request({}, { user_id: 'U002', dimension: 'region', values: ['EU'] }));
+
+    expect(response.statusCode).toBe(201);
+    expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO governance_rules'), [
+      'T001',
+      'U002',
+      'region',
+      ['EU'],
+    ]);
+  });
+});
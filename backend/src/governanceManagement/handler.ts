@@ -0,0 +1,294 @@
+/**
+ * Governance Management Lambda Handler
+ * Implements CRUD operations for per-user governance rules with tenant isolation
+ */
+
+import { recordAuditEvent } from "../shared/audit";
+import { query, withTransaction } from "../shared/db";
+import {
+  ForbiddenError,
+  LambdaResponse,
+  NotFoundError,
+  RequestContext,
+  successResponse,
+  TenantRequest,
+  toErrorResponse,
+} from "../shared/http";
+import { loadPermissions } from "../shared/permissions";
+import { parseBody, parseParams } from "../shared/validation";
+import {
+  createRuleSchema,
+  updateRuleSchema,
+  ruleParamsSchema,
+  normalizeValues,
+} from "./validation";
+import {
+  GovernanceRule,
+  CreateGovernanceRuleRequest,
+  UpdateGovernanceRuleRequest,
+  ListGovernanceRulesResponse,
+} from "./types";
+
+const RULE_COLUMNS =
+  "rule_id, tenant_id, user_id, dimension, values, created_at, updated_at";
+
+/**
+ * Fields of a rule recorded in audit events
+ */
+function ruleSnapshot(rule: GovernanceRule) {
+  return {
+    user_id: rule.user_id,
+    dimension: rule.dimension,
+    values: rule.values,
+  };
+}
+
+/**
+ * Validates that a user belongs to the specified tenant and is not deleted
+ */
+async function validateUserTenant(
+  userId: string,
+  tenantId: string,
+): Promise<boolean> {
+  const result = await query<{ tenant_id: string }>(
+    "SELECT tenant_id FROM users WHERE user_id = $1 AND status != $2",
+    [userId, "Deleted"],
+  );
+
+  if (result.rows.length === 0) {
+    return false;
+  }
+
+  return result.rows[0].tenant_id === tenantId;
+}
+
+/**
+ * Stops callers other than tenant admins from changing their own rules
+ * Rules narrow what a user can see, so editing your own would widen it
+ *
+ * @throws ForbiddenError (403) if the rule targets a caller who is not a
+ *   tenant admin
+ */
+async function assertNotOwnRule(
+  context: RequestContext,
+  userId: string,
+): Promise<void> {
+  const caller = await loadPermissions(context.tenantId, context.userId);
+  if (caller.userId === userId && !caller.isTenantAdmin) {
+    throw new ForbiddenError(
+      "Only tenant admins can change their own governance rules",
+    );
+  }
+}
+
+/**
+ * Lists governance rules for the tenant, optionally filtered by user
+ * GET /governance/rules?userId={userId}
+ */
+export async function listRules(
+  request: TenantRequest<unknown>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const userId = request.query.userId;
+
+    const result = userId
+      ? await query<GovernanceRule>(
+          `SELECT ${RULE_COLUMNS}
+           FROM governance_rules
+           WHERE tenant_id = $1 AND user_id = $2
+           ORDER BY dimension, created_at`,
+          [context.tenantId, userId],
+        )
+      : await query<GovernanceRule>(
+          `SELECT ${RULE_COLUMNS}
+           FROM governance_rules
+           WHERE tenant_id = $1
+           ORDER BY user_id, dimension, created_at`,
+          [context.tenantId],
+        );
+
+    const response: ListGovernanceRulesResponse = {
+      rules: result.rows,
+      count: result.rowCount,
+    };
+
+    return successResponse(200, response);
+  } catch (error: any) {
+    console.error("Error listing governance rules:", error);
+    return toErrorResponse(error, "Failed to list governance rules");
+  }
+}
+
+/**
+ * Creates a governance rule for a user
+ * POST /governance/rules
+ */
+export async function createRule(
+  request: TenantRequest<unknown>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const requestData = parseBody<CreateGovernanceRuleRequest>(
+      createRuleSchema,
+      request.body,
+    );
+
+    // Validate tenant ownership of the target user
+    const isValidTenant = await validateUserTenant(
+      requestData.user_id,
+      context.tenantId,
+    );
+    if (!isValidTenant) {
+      throw new NotFoundError("User not found", "user_id");
+    }
+
+    await assertNotOwnRule(context, requestData.user_id);
+
+    const rule = await withTransaction(async (client) => {
+      const result = await client.query<GovernanceRule>(
+        `INSERT INTO governance_rules (tenant_id, user_id, dimension, values)
+         VALUES ($1, $2, $3, $4)
+         RETURNING ${RULE_COLUMNS}`,
+        [
+          context.tenantId,
+          requestData.user_id,
+          requestData.dimension,
+          normalizeValues(requestData.values),
+        ],
+      );
+      const created = result.rows[0];
+
+      await recordAuditEvent(client, context, {
+        action: "governance_rule.created",
+        targetType: "governance_rule",
+        targetId: created.rule_id,
+        after: ruleSnapshot(created),
+      });
+
+      return created;
+    });
+
+    console.log(
+      `Governance rule created: ${rule.rule_id} (${rule.dimension}) for user ${rule.user_id} in tenant ${context.tenantId}`,
+    );
+    return successResponse(201, rule);
+  } catch (error: any) {
+    console.error("Error creating governance rule:", error);
+    return toErrorResponse(error, "Failed to create governance rule");
+  }
+}
+
+/**
+ * Updates the dimension and/or values of a governance rule
+ * PUT /governance/rules/{ruleId}
+ */
+export async function updateRule(
+  request: TenantRequest<{ ruleId: string }>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const { ruleId } = parseParams<{ ruleId: string }>(
+      ruleParamsSchema,
+      request.params,
+    );
+    const requestData = parseBody<UpdateGovernanceRuleRequest>(
+      updateRuleSchema,
+      request.body,
+    );
+
+    const rule = await withTransaction(async (client) => {
+      const current = await client.query<GovernanceRule>(
+        `SELECT ${RULE_COLUMNS} FROM governance_rules
+         WHERE rule_id = $1 AND tenant_id = $2
+         FOR UPDATE`,
+        [ruleId, context.tenantId],
+      );
+
+      if (current.rows.length === 0) {
+        throw new NotFoundError("Governance rule not found");
+      }
+
+      await assertNotOwnRule(context, current.rows[0].user_id);
+
+      const result = await client.query<GovernanceRule>(
+        `UPDATE governance_rules
+         SET dimension = COALESCE($1, dimension),
+             values = COALESCE($2, values)
+         WHERE rule_id = $3 AND tenant_id = $4
+         RETURNING ${RULE_COLUMNS}`,
+        [
+          requestData.dimension ?? null,
+          requestData.values ? normalizeValues(requestData.values) : null,
+          ruleId,
+          context.tenantId,
+        ],
+      );
+      const updated = result.rows[0];
+
+      await recordAuditEvent(client, context, {
+        action: "governance_rule.updated",
+        targetType: "governance_rule",
+        targetId: ruleId,
+        before: ruleSnapshot(current.rows[0]),
+        after: ruleSnapshot(updated),
+      });
+
+      return updated;
+    });
+
+    console.log(
+      `Governance rule updated: ${ruleId} in tenant ${context.tenantId}`,
+    );
+    return successResponse(200, rule);
+  } catch (error: any) {
+    console.error("Error updating governance rule:", error);
+    return toErrorResponse(error, "Failed to update governance rule");
+  }
+}
+
+/**
+ * Deletes a governance rule
+ * DELETE /governance/rules/{ruleId}
+ */
+export async function deleteRule(
+  request: TenantRequest<{ ruleId: string }>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const { ruleId } = parseParams<{ ruleId: string }>(
+      ruleParamsSchema,
+      request.params,
+    );
+
+    await withTransaction(async (client) => {
+      const result = await client.query<GovernanceRule>(
+        `DELETE FROM governance_rules WHERE rule_id = $1 AND tenant_id = $2
+         RETURNING ${RULE_COLUMNS}`,
+        [ruleId, context.tenantId],
+      );
+
+      if (result.rows.length === 0) {
+        throw new NotFoundError("Governance rule not found");
+      }
+
+      // Throwing rolls the delete back
+      await assertNotOwnRule(context, result.rows[0].user_id);
+
+      await recordAuditEvent(client, context, {
+        action: "governance_rule.deleted",
+        targetType: "governance_rule",
+        targetId: ruleId,
+        before: ruleSnapshot(result.rows[0]),
+      });
+    });
+
+    console.log(
+      `Governance rule deleted: ${ruleId} from tenant ${context.tenantId}`,
+    );
+    return successResponse(200, { success: true, ruleId });
+  } catch (error: any) {
+    console.error("Error deleting governance rule:", error);
+    return toErrorResponse(error, "Failed to delete governance rule");
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Governance Management Lambda Entry Point
+ * Routes requests to appropriate handlers based on HTTP method and path
+ */
+
+import { createRouter, permissionRoute, route } from '../shared/http';
+import {
+  listRules,
+  createRule,
+  updateRule,
+  deleteRule,
+} from './handler';
+
+/**
+ * Lambda handler function
+ * Routes requests based on HTTP method and resource path
+ */
+export const handler = createRouter([
+  route('GET', '/governance/rules', permissionRoute('governance:write', listRules)),
+  route('POST', '/governance/rules', permissionRoute('governance:write', createRule)),
+  route('PUT', '/governance/rules/{ruleId}', permissionRoute('governance:write', updateRule)),
+  route('DELETE', '/governance/rules/{ruleId}', permissionRoute('governance:write', deleteRule)),
+]);
+
+// Export handler functions for testing
+export {
+  listRules,
+  createRule,
+  updateRule,
+  deleteRule,
+};
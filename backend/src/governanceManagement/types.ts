@@ -0,0 +1,47 @@
+/**
+ * Governance Management Types
+ * ShopPulse Analytics - Per-user data-access scopes
+ */
+
+/**
+ * Dimensions allowed by the chk_governance_dimension constraint
+ */
+export type GovernanceDimension = 'region' | 'store' | 'team' | 'custom';
+
+/**
+ * Governance rule data structure from database
+ */
+export interface GovernanceRule {
+  rule_id: string;
+  tenant_id: string;
+  user_id: string;
+  dimension: GovernanceDimension;
+  values: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Create governance rule request body
+ */
+export interface CreateGovernanceRuleRequest {
+  user_id: string;
+  dimension: GovernanceDimension;
+  values: string[];
+}
+
+/**
+ * Update governance rule request body
+ */
+export interface UpdateGovernanceRuleRequest {
+  dimension?: GovernanceDimension;
+  values?: string[];
+}
+
+/**
+ * List governance rules response
+ */
+export interface ListGovernanceRulesResponse {
+  rules: GovernanceRule[];
+  count: number;
+}
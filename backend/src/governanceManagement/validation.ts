@@ -0,0 +1,90 @@
+/**
+ * Validation utilities for governance management
+ */
+
+import { Schema } from '../shared/validation';
+import { GovernanceDimension } from './types';
+
+/**
+ * Valid governance dimensions (mirrors chk_governance_dimension in schema.sql)
+ */
+export const VALID_DIMENSIONS: readonly GovernanceDimension[] = ['region', 'store', 'team', 'custom'];
+
+/**
+ * UUID format used by governance_rules.rule_id
+ */
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validates a list of scope values
+ * Values are later joined into comma-separated QuickSight session tags and
+ * the embed handler refuses rules that would match all rows, so commas and
+ * wildcards are rejected
+ *
+ * @param values - Non-empty list of non-empty strings
+ * @returns Error message if invalid, undefined otherwise
+ */
+function checkValues(values: string[]): string | undefined {
+  if (values.some((value) => value.includes(','))) {
+    return 'Values must not contain commas';
+  }
+
+  if (values.some((value) => value.trim() === '*')) {
+    return 'Wildcard values are not allowed; omit the rule to leave a dimension unrestricted';
+  }
+
+  return undefined;
+}
+
+/**
+ * {ruleId} path parameter
+ * Rejecting malformed IDs up front avoids a Postgres cast error on the UUID column
+ */
+export const ruleParamsSchema: Schema = {
+  fields: {
+    ruleId: {
+      type: 'string',
+      label: 'Rule ID',
+      required: true,
+      pattern: UUID_REGEX,
+      patternMessage: 'Invalid rule ID format',
+    },
+  },
+};
+
+/**
+ * PUT /governance/rules/{ruleId}
+ */
+export const updateRuleSchema: Schema = {
+  partial: true,
+  fields: {
+    dimension: { type: 'string', label: 'Dimension', required: true, oneOf: VALID_DIMENSIONS },
+    values: {
+      type: 'string[]',
+      label: 'Values',
+      required: true,
+      requiredMessage: 'At least one value is required',
+      check: checkValues,
+    },
+  },
+};
+
+/**
+ * POST /governance/rules
+ */
+export const createRuleSchema: Schema = {
+  fields: {
+    user_id: { type: 'string', label: 'User ID', required: true },
+    ...updateRuleSchema.fields,
+  },
+};
+
+/**
+ * Normalizes scope values: trims whitespace and removes duplicates
+ *
+ * @param values - Raw values from the request
+ * @returns Normalized values
+ */
+export function normalizeValues(values: string[]): string[] {
+  return Array.from(new Set(values.map((value) => value.trim())));
+}
@@ -0,0 +1,213 @@
+/**
+ * Embed URL cache and rate-limit state for the QuickSight Embed Lambda
+ * The in-memory store is per Lambda instance (tests, local runs); the
+ * Postgres store shares state across instances.
+ */
+
+import { query } from "../shared/db";
+
+/**
+ * Token bucket settings
+ */
+export interface TokenBucketConfig {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/**
+ * A cached embed URL and how long ago it was generated
+ */
+export interface CachedEmbedUrl {
+  embedUrl: string;
+  ageSeconds: number;
+}
+
+/**
+ * Storage for cached embed URLs and per-tenant token buckets
+ */
+export interface EmbedStateStore {
+  /**
+   * Returns a cached embed URL, or null if missing or expired
+   */
+  getCachedUrl(cacheKey: string): Promise<CachedEmbedUrl | null>;
+
+  /**
+   * Caches an embed URL for ttlSeconds
+   */
+  putCachedUrl(
+    cacheKey: string,
+    tenantId: string,
+    embedUrl: string,
+    ttlSeconds: number,
+  ): Promise<void>;
+
+  /**
+   * Takes one token from the bucket, refilling it for the time elapsed
+   * since the last take
+   *
+   * @returns True if a token was available, false if rate limited
+   */
+  takeToken(bucketKey: string, config: TokenBucketConfig): Promise<boolean>;
+}
+
+/**
+ * In-memory store, scoped to a single Lambda instance
+ */
+export class InMemoryEmbedStateStore implements EmbedStateStore {
+  private readonly urls = new Map<
+    string,
+    { embedUrl: string; createdAt: number; expiresAt: number }
+  >();
+  private readonly buckets = new Map<string, { tokens: number; refilledAt: number }>();
+
+  /**
+   * @param now - Clock in milliseconds, injectable for tests
+   */
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async getCachedUrl(cacheKey: string): Promise<CachedEmbedUrl | null> {
+    const entry = this.urls.get(cacheKey);
+    if (!entry) {
+      return null;
+    }
+
+    const now = this.now();
+    if (entry.expiresAt <= now) {
+      this.urls.delete(cacheKey);
+      return null;
+    }
+
+    return {
+      embedUrl: entry.embedUrl,
+      ageSeconds: (now - entry.createdAt) / 1000,
+    };
+  }
+
+  async putCachedUrl(
+    cacheKey: string,
+    _tenantId: string,
+    embedUrl: string,
+    ttlSeconds: number,
+  ): Promise<void> {
+    const now = this.now();
+    this.urls.set(cacheKey, {
+      embedUrl,
+      createdAt: now,
+      expiresAt: now + ttlSeconds * 1000,
+    });
+  }
+
+  async takeToken(
+    bucketKey: string,
+    config: TokenBucketConfig,
+  ): Promise<boolean> {
+    const now = this.now();
+    const bucket = this.buckets.get(bucketKey) || {
+      tokens: config.capacity,
+      refilledAt: now,
+    };
+
+    const elapsedSeconds = (now - bucket.refilledAt) / 1000;
+    const tokens = Math.min(
+      config.capacity,
+      bucket.tokens + elapsedSeconds * config.refillPerSecond,
+    );
+
+    if (tokens < 1) {
+      return false;
+    }
+
+    this.buckets.set(bucketKey, { tokens: tokens - 1, refilledAt: now });
+    return true;
+  }
+}
+
+/**
+ * Postgres store backed by the embed_url_cache and embed_rate_limits tables
+ */
+export class PostgresEmbedStateStore implements EmbedStateStore {
+  async getCachedUrl(cacheKey: string): Promise<CachedEmbedUrl | null> {
+    // Age is computed by Postgres so it does not depend on the Lambda clock
+    const result = await query<{ embed_url: string; age_seconds: string }>(
+      `SELECT embed_url,
+              EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - created_at)) AS age_seconds
+       FROM embed_url_cache
+       WHERE cache_key = $1 AND expires_at > CURRENT_TIMESTAMP`,
+      [cacheKey],
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return {
+      embedUrl: result.rows[0].embed_url,
+      ageSeconds: Number(result.rows[0].age_seconds),
+    };
+  }
+
+  async putCachedUrl(
+    cacheKey: string,
+    tenantId: string,
+    embedUrl: string,
+    ttlSeconds: number,
+  ): Promise<void> {
+    await query(
+      `INSERT INTO embed_url_cache (cache_key, tenant_id, embed_url, expires_at, created_at)
+       VALUES ($1, $2, $3, CURRENT_TIMESTAMP + make_interval(secs => $4), CURRENT_TIMESTAMP)
+       ON CONFLICT (cache_key) DO UPDATE
+       SET embed_url = EXCLUDED.embed_url,
+           expires_at = EXCLUDED.expires_at,
+           created_at = EXCLUDED.created_at`,
+      [cacheKey, tenantId, embedUrl, ttlSeconds],
+    );
+
+    // Keep the table small; expired rows are never read again
+    await query(
+      "DELETE FROM embed_url_cache WHERE tenant_id = $1 AND expires_at <= CURRENT_TIMESTAMP",
+      [tenantId],
+    );
+  }
+
+  async takeToken(
+    bucketKey: string,
+    config: TokenBucketConfig,
+  ): Promise<boolean> {
+    // Refill and take in one statement so concurrent Lambdas cannot
+    // both spend the last token. No row is returned when the bucket is empty.
+    const result = await query<{ tokens: number }>(
+      `INSERT INTO embed_rate_limits (bucket_key, tokens, refilled_at)
+       VALUES ($1, $2 - 1, clock_timestamp())
+       ON CONFLICT (bucket_key) DO UPDATE
+       SET tokens = LEAST($2, embed_rate_limits.tokens
+             + EXTRACT(EPOCH FROM (clock_timestamp() - embed_rate_limits.refilled_at)) * $3) - 1,
+           refilled_at = clock_timestamp()
+       WHERE LEAST($2, embed_rate_limits.tokens
+             + EXTRACT(EPOCH FROM (clock_timestamp() - embed_rate_limits.refilled_at)) * $3) >= 1
+       RETURNING tokens`,
+      [bucketKey, config.capacity, config.refillPerSecond],
+    );
+
+    return result.rowCount > 0;
+  }
+}
+
+/**
+ * Creates the store selected by EMBED_STATE_STORE ("postgres" or "memory")
+ * Defaults to Postgres so limits hold across Lambda instances
+ */
+export function createEmbedStateStore(): EmbedStateStore {
+  const storeType = (process.env.EMBED_STATE_STORE || "postgres").toLowerCase();
+
+  if (storeType === "memory") {
+    return new InMemoryEmbedStateStore();
+  }
+
+  if (storeType !== "postgres") {
+    console.warn(
+      `Unknown EMBED_STATE_STORE "${storeType}", falling back to postgres`,
+    );
+  }
+
+  return new PostgresEmbedStateStore();
+}
@@ -0,0 +1,80 @@
+import { query } from '../shared/db';
+import { DataScope, DataScopeError } from '../shared/dataScope';
+import { TenantRequest } from '../shared/http';
+import { PLAN_ENTITLEMENTS } from '../shared/tenantGuard';
+import { buildSessionTags, listDashboards } from './handler';
+
+jest.mock('../shared/db', () => ({ query: jest.fn() }));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+
+function tagMap(scope: DataScope, visibleMetrics: string[] = ['revenue']) {
+  return Object.fromEntries(
+    buildSessionTags('T001', scope, 'Finance', visibleMetrics).map((tag) => [tag.Key, tag.Value])
+  );
+}
+
+describe('buildSessionTags', () => {
+  it('tags restricted dimensions with their values and unrestricted ones with "*"', () => {
+    expect(
+      tagMap({ region: ['NA', 'EU'], store: null, team: ['Outdoor'], custom: null }, ['margin', 'revenue'])
+    ).toEqual({
+      tenant_id: 'T001',
+      region: 'NA,EU',
+      store_id: '*',
+      team: 'Outdoor',
+      custom: '*',
+      role: 'Finance',
+      visible_metrics: 'margin,revenue',
+    });
+  });
+
+  it('tags dimensions and metrics the user may see nothing of with "none"', () => {
+    const tags = tagMap({ region: [], store: null, team: null, custom: null }, []);
+
+    expect(tags.region).toBe('none');
+    expect(tags.visible_metrics).toBe('none');
+  });
+
+  it('refuses values longer than a QuickSight session tag allows', () => {
+    const stores = Array.from({ length: 100 }, (_, index) => `STORE-${index}`);
+
+    expect(() => tagMap({ region: ['NA'], store: stores, team: null, custom: null })).toThrow(DataScopeError);
+  });
+});
+
+describe('listDashboards', () => {
+  afterEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it("filters the catalog by the caller's role in the database, not the token", async () => {
+    mockQuery
+      .mockResolvedValueOnce({
+        rows: [{ user_id: 'U001', role: 'Operations', region: 'NA', store_id: null }],
+      } as any)
+      .mockResolvedValueOnce({ rows: [] } as any);
+
+    const request = {
+      params: {},
+      query: {},
+      body: null,
+      context: { tenantId: 'T001', userId: 'sub-1', email: 'ops@example.com' },
+      tenant: {
+        tenantId: 'T001',
+        tenantName: 'Acme',
+        planTier: 'Standard',
+        entitlements: PLAN_ENTITLEMENTS.Standard,
+      },
+    } as unknown as TenantRequest<unknown>;
+
+    const response = await listDashboards(request);
+
+    expect(response.statusCode).toBe(200);
+    expect(mockQuery).toHaveBeenLastCalledWith(expect.stringContaining('FROM dashboards'), [
+      'T001',
+      'Operations',
+      PLAN_ENTITLEMENTS.Standard.maxDashboards,
+    ]);
+  });
+});
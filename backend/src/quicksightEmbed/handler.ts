@@ -6,15 +6,47 @@
 import {
   QuickSightClient,
   GenerateEmbedUrlForAnonymousUserCommand,
+  AnonymousUserEmbeddingExperienceConfiguration,
 } from "@aws-sdk/client-quicksight";
+import { createHash } from "crypto";
 import { query } from "../shared/db";
 import {
-  APIGatewayEvent,
+  ForbiddenError,
   LambdaResponse,
+  NotFoundError,
   RequestContext,
+  successResponse,
+  TenantRequest,
+  ThrottledError,
+  toErrorResponse,
+  UpstreamError,
+  ValidationError,
+} from "../shared/http";
+import {
+  DataScope,
+  DataScopeError,
+  getScopedUser,
+  GovernanceDimension,
+  resolveDataScope,
+  ScopedUser,
+} from "../shared/dataScope";
+import { assertPlanFeature, TenantAccess } from "../shared/tenantGuard";
+import { createEmbedStateStore, EmbedStateStore } from "./embedStore";
+import {
+  EMBED_URL_CACHE_TTL_SECONDS,
+  RateLimitError,
+  TENANT_BUCKET_CONFIG,
+  withThrottleRetry,
+} from "./throttling";
+import {
   SessionTag,
-  ErrorResponse,
   EmbedUrlResponse,
+  DashboardRecord,
+  DashboardVisualTarget,
+  EmbedPathParams,
+  ListDashboardsResponse,
+  QnaTopicRecord,
+  QnaEmbedUrlResponse,
 } from "./types";
 
 /**
@@ -24,187 +56,432 @@ const quicksightClient = new QuickSightClient({
   region: process.env.AWS_REGION || "us-east-1",
 });
 
+/**
+ * Embed URL cache and rate-limit state (EMBED_STATE_STORE selects the backend)
+ */
+let embedStateStore: EmbedStateStore = createEmbedStateStore();
+
+/**
+ * Replaces the embed state store, e.g. with an in-memory store in tests
+ */
+export function setEmbedStateStore(store: EmbedStateStore): void {
+  embedStateStore = store;
+}
+
 /**
  * Environment variables
  */
 const QUICKSIGHT_AWS_ACCOUNT_ID = process.env.QUICKSIGHT_AWS_ACCOUNT_ID;
+// Fallback for tenants without rows in the dashboards table
 const QUICKSIGHT_DASHBOARD_ID = process.env.QUICKSIGHT_DASHBOARD_ID;
 const SESSION_LIFETIME_MINUTES = 15;
 
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 /**
- * Extracts request context from API Gateway event
+ * QuickSight sheet and visual IDs (pattern [\w\-]+, at most 512 characters)
  */
-function getRequestContext(event: APIGatewayEvent): RequestContext {
-  try {
-    // Log the event structure for debugging
-    console.log(
-      "Event structure:",
-      JSON.stringify(
-        {
-          requestContext: event.requestContext,
-          headers: event.headers,
-          pathParameters: event.pathParameters,
-        },
-        null,
-        2,
-      ),
-    );
+const QUICKSIGHT_ID_REGEX = /^[\w-]{1,512}$/;
 
-    // Check if authorizer exists
-    if (!event.requestContext?.authorizer) {
-      throw new Error("No authorizer found in request context");
-    }
+/**
+ * Session tag key used for each governance dimension
+ * Must match the tag keys configured for RLS on the QuickSight datasets
+ */
+const GOVERNANCE_TAG_KEYS: Record<GovernanceDimension, string> = {
+  region: "region",
+  store: "store_id",
+  team: "team",
+  custom: "custom",
+};
 
-    const claims = event.requestContext.authorizer.claims;
+/**
+ * QuickSight rejects session tag values longer than 256 characters
+ */
+const MAX_SESSION_TAG_VALUE_LENGTH = 256;
 
-    if (!claims) {
-      throw new Error("No claims found in authorizer");
-    }
+/**
+ * Session tag value used when a role has no visible metrics
+ * Matches no metric rows, so every metric visual stays empty
+ */
+const NO_VISIBLE_METRICS = "none";
 
-    // Validate required claims
-    if (!claims["custom:tenant_id"]) {
-      throw new Error("Missing custom:tenant_id claim");
-    }
+/**
+ * Session tag value for a dimension the user may see no rows of
+ */
+const NO_MATCHING_VALUES = "none";
 
-    if (!claims.sub) {
-      throw new Error("Missing sub claim");
-    }
+/**
+ * Retrieves the catalog dashboards the role may open, in display order
+ * Only the first maxDashboards of the tenant's catalog count as enabled
+ * for its plan; the role filter is applied after that cut
+ */
+async function getDashboardsForRole(
+  access: TenantAccess,
+  role: string,
+): Promise<DashboardRecord[]> {
+  const result = await query<DashboardRecord>(
+    `SELECT dashboard_id, title, description, quicksight_dashboard_id, sort_order
+     FROM (
+       SELECT *, ROW_NUMBER() OVER (ORDER BY sort_order, title) AS catalog_position
+       FROM dashboards
+       WHERE tenant_id = $1
+     ) catalog
+     WHERE $2 = ANY(allowed_roles)
+       AND ($3::int IS NULL OR catalog_position <= $3)
+     ORDER BY sort_order, title`,
+    [access.tenantId, role, access.entitlements.maxDashboards],
+  );
+
+  return result.rows;
+}
+
+/**
+ * Resolves which QuickSight dashboard to embed
+ * A requested dashboard must be in the role's catalog. Without one, the
+ * role's first dashboard is used, then the QUICKSIGHT_DASHBOARD_ID fallback.
+ *
+ * @returns null if no dashboard is available
+ */
+async function resolveDashboard(
+  access: TenantAccess,
+  role: string,
+  dashboardId?: string,
+): Promise<{ dashboardId: string | null; quicksightDashboardId: string } | null> {
+  const dashboards = await getDashboardsForRole(access, role);
+
+  if (dashboardId) {
+    const dashboard = dashboards.find((d) => d.dashboard_id === dashboardId);
+    return dashboard
+      ? {
+          dashboardId: dashboard.dashboard_id,
+          quicksightDashboardId: dashboard.quicksight_dashboard_id,
+        }
+      : null;
+  }
 
+  if (dashboards.length > 0) {
     return {
-      tenantId: claims["custom:tenant_id"],
-      userId: claims.sub,
-      userRole: claims["custom:role"] || "Finance",
-      email: claims.email || "",
+      dashboardId: dashboards[0].dashboard_id,
+      quicksightDashboardId: dashboards[0].quicksight_dashboard_id,
     };
-  } catch (error) {
-    console.error("Error extracting request context:", error);
-    throw error;
   }
+
+  if (QUICKSIGHT_DASHBOARD_ID) {
+    return { dashboardId: null, quicksightDashboardId: QUICKSIGHT_DASHBOARD_ID };
+  }
+
+  return null;
 }
 
 /**
- * Creates a success response
+ * Retrieves the Q&A topics the role may use, in display order
  */
-function successResponse(statusCode: number, data: any): LambdaResponse {
-  return {
-    statusCode,
-    headers: {
-      "Content-Type": "application/json",
-      "Access-Control-Allow-Origin": "*",
-    },
-    body: JSON.stringify(data),
-  };
+async function getQnaTopicsForRole(
+  tenantId: string,
+  role: string,
+): Promise<QnaTopicRecord[]> {
+  const result = await query<QnaTopicRecord>(
+    `SELECT topic_id, title, quicksight_topic_id, sort_order
+     FROM qna_topics
+     WHERE tenant_id = $1 AND $2 = ANY(allowed_roles)
+     ORDER BY sort_order, title`,
+    [tenantId, role],
+  );
+
+  return result.rows;
 }
 
 /**
- * Creates an error response
+ * Retrieves the metrics the role is allowed to see from role_metric_visibility
  */
-function errorResponse(
-  statusCode: number,
-  error: string,
-  retryable?: boolean,
-): LambdaResponse {
-  const errorBody: ErrorResponse = { error, retryable };
-  return {
-    statusCode,
-    headers: {
-      "Content-Type": "application/json",
-      "Access-Control-Allow-Origin": "*",
-    },
-    body: JSON.stringify(errorBody),
-  };
+async function getVisibleMetrics(
+  tenantId: string,
+  role: string,
+): Promise<string[]> {
+  const result = await query<{ metric_name: string }>(
+    `SELECT metric_name FROM role_metric_visibility
+     WHERE tenant_id = $1 AND role = $2 AND is_visible = true
+     ORDER BY metric_name`,
+    [tenantId, role],
+  );
+
+  return result.rows.map((row) => row.metric_name);
 }
 
 /**
- * Retrieves user data including region and store_id from PostgreSQL
+ * Builds a comma-separated session tag value from a list of scope values
+ * QuickSight RLS splits multi-valued tags on commas
+ *
+ * @throws DataScopeError if the joined value exceeds the QuickSight limit
  */
-async function getUserData(
-  tenantId: string,
-  userId: string,
-): Promise<{ region: string | null; store_id: string | null }> {
-  const result = await query<{
-    region: string | null;
-    store_id: string | null;
-  }>(
-    "SELECT region, store_id FROM users WHERE tenant_id = $1 AND cognito_user_id = $2",
-    [tenantId, userId],
-  );
+function toTagValue(key: string, values: string[]): string {
+  const value = values.join(",");
 
-  if (result.rows.length === 0) {
-    console.warn(
-      `User not found in database: tenant_id=${tenantId}, cognito_user_id=${userId}`,
+  if (value.length > MAX_SESSION_TAG_VALUE_LENGTH) {
+    throw new DataScopeError(
+      `Session tag ${key} exceeds ${MAX_SESSION_TAG_VALUE_LENGTH} characters`,
     );
-    return { region: null, store_id: null };
   }
 
-  return result.rows[0];
+  return value;
 }
 
 /**
- * Builds session tags from tenant context and user data
+ * Builds session tags from tenant context and the user's data scope
  * Used for anonymous embedding with RLS
- * Includes: tenant_id, region (from user), store_id (from user)
- * Note: userRole is passed as a URL parameter, not a session tag
+ * Unrestricted dimensions are tagged "*"; dimensions the user may see
+ * nothing of are tagged "none", which matches no rows.
+ * visible_metrics lists the role's visible metrics so dataset RLS can hide
+ * metric rows the role is not allowed to see
+ *
+ * @throws DataScopeError if a tag value exceeds the QuickSight limit
  */
-function buildSessionTags(
+export function buildSessionTags(
   tenantId: string,
-  region: string | null,
-  storeId: string | null,
-  userRole: string | null,
+  scope: DataScope,
+  role: string,
+  visibleMetrics: string[],
 ): SessionTag[] {
+  const tagValue = (dimension: GovernanceDimension) => {
+    const values = scope[dimension];
+    if (values === null) {
+      return "*";
+    }
+    return values.length > 0
+      ? toTagValue(GOVERNANCE_TAG_KEYS[dimension], values)
+      : NO_MATCHING_VALUES;
+  };
+
   return [
     { Key: "tenant_id", Value: tenantId },
-    { Key: "region", Value: region || "none" },
-    { Key: "store_id", Value: storeId || "*" },
-    { Key: "role", Value: userRole || "" },
+    { Key: "region", Value: tagValue("region") },
+    { Key: "store_id", Value: tagValue("store") },
+    { Key: "team", Value: tagValue("team") },
+    { Key: "custom", Value: tagValue("custom") },
+    { Key: "role", Value: role },
+    {
+      Key: "visible_metrics",
+      Value:
+        visibleMetrics.length > 0
+          ? toTagValue("visible_metrics", visibleMetrics)
+          : NO_VISIBLE_METRICS,
+    },
   ];
 }
 
+/**
+ * Lists the dashboards the caller's role may open
+ * GET /dashboards
+ */
+export async function listDashboards(
+  request: TenantRequest<unknown>,
+): Promise<LambdaResponse> {
+  try {
+    const { context, tenant: access } = request;
+
+    const user = await getScopedUser(context.tenantId, context.userId);
+    const dashboards = await getDashboardsForRole(access, user.role);
+
+    // The first dashboard is the role's landing dashboard
+    const response: ListDashboardsResponse = {
+      dashboards: dashboards.map((dashboard, index) => ({
+        dashboard_id: dashboard.dashboard_id,
+        title: dashboard.title,
+        description: dashboard.description,
+        is_default: index === 0,
+      })),
+      count: dashboards.length,
+    };
+
+    return successResponse(200, response);
+  } catch (error: any) {
+    console.error("Error listing dashboards:", error);
+    return toErrorResponse(error, "Failed to list dashboards");
+  }
+}
+
+/**
+ * Resolves the caller's user row, with their role, and data scope
+ * Resolved before anything role-based, so dashboards, Q&A topics and
+ * visible metrics all follow users.role rather than the token's custom:role
+ *
+ * @throws DataScopeError if the caller's data scope is malformed
+ */
+async function resolveCaller(
+  context: RequestContext,
+): Promise<{ user: ScopedUser; scope: DataScope }> {
+  // Resolve the region/store/team/custom scope, as the analytics API does
+  const caller = await resolveDataScope(context.tenantId, context.userId);
+  console.log(
+    `Resolved data scope for user_id=${caller.user.user_id} (role ${caller.user.role}): ${JSON.stringify(caller.scope)}`,
+  );
+
+  return caller;
+}
+
+/**
+ * Builds the RLS session tags for the caller
+ * Shared by every embedding experience so dashboards, visuals and Q&A
+ * are scoped identically
+ *
+ * @throws DataScopeError if a tag value exceeds the QuickSight limit
+ */
+async function buildCallerSessionTags(
+  context: RequestContext,
+  { user, scope }: { user: ScopedUser; scope: DataScope },
+): Promise<SessionTag[]> {
+  // Retrieve metrics the caller's role may see (managed on the Roles page)
+  const visibleMetrics = await getVisibleMetrics(context.tenantId, user.role);
+  console.log(
+    `Visible metrics for role ${user.role}: ${visibleMetrics.join(", ") || "none"}`,
+  );
+
+  // Build session tags (tenant_id, governance scopes, role)
+  const sessionTags = buildSessionTags(
+    context.tenantId,
+    scope,
+    user.role,
+    visibleMetrics,
+  );
+  console.log("Session tags:", JSON.stringify(sessionTags));
+
+  return sessionTags;
+}
+
+/**
+ * Maps errors raised while generating an embed URL to typed API errors
+ * Tenant guard errors and anything unrecognised pass through unchanged
+ */
+function toEmbedError(error: any): unknown {
+  // Malformed governance rules or oversized scopes fail closed
+  if (error instanceof DataScopeError) {
+    return new ForbiddenError(
+      "Data access scope is misconfigured. Please contact your administrator.",
+    );
+  }
+
+  // Tenant exhausted its embed URL budget
+  if (error instanceof RateLimitError) {
+    return new ThrottledError();
+  }
+
+  // Handle specific QuickSight errors
+  if (error.name === "ResourceNotFoundException") {
+    return new NotFoundError("Resource not found in QuickSight");
+  }
+
+  if (error.name === "AccessDeniedException") {
+    return new ForbiddenError("Access denied to QuickSight resource");
+  }
+
+  if (error.name === "ThrottlingException") {
+    return new ThrottledError();
+  }
+
+  if (error.name === "UnsupportedPricingPlanException") {
+    return new UpstreamError(
+      "QuickSight Capacity Pricing plan required for anonymous embedding",
+      { unavailable: true, retryable: false },
+    );
+  }
+
+  return error;
+}
+
 /**
  * Generates QuickSight embed URL with session tags for RLS
- * GET /dashboards/embed-url
+ * GET /dashboards/embed-url (role's default dashboard)
+ * GET /dashboards/{dashboardId}/embed-url
+ * GET /dashboards/{dashboardId}/visuals/{sheetId}/{visualId}/embed-url
  */
 export async function generateEmbedUrl(
-  event: APIGatewayEvent,
+  request: TenantRequest<Partial<EmbedPathParams>>,
 ): Promise<LambdaResponse> {
   try {
     // Validate environment variables
     if (!QUICKSIGHT_AWS_ACCOUNT_ID) {
       console.error("QUICKSIGHT_AWS_ACCOUNT_ID not configured");
-      return errorResponse(500, "QuickSight configuration error", false);
+      throw new UpstreamError("QuickSight configuration error", {
+        unavailable: true,
+        retryable: false,
+      });
     }
 
-    if (!QUICKSIGHT_DASHBOARD_ID) {
-      console.error("QUICKSIGHT_DASHBOARD_ID not configured");
-      return errorResponse(500, "QuickSight configuration error", false);
+    const requestedDashboardId = request.params.dashboardId;
+    if (requestedDashboardId && !UUID_REGEX.test(requestedDashboardId)) {
+      throw new NotFoundError("Dashboard not found");
     }
 
-    const context = getRequestContext(event);
+    // Single-visual embeds must name a catalog dashboard, sheet and visual
+    const sheetId = request.params.sheetId;
+    const visualId = request.params.visualId;
+    let visual: DashboardVisualTarget | undefined;
+    if (sheetId !== undefined || visualId !== undefined) {
+      if (
+        !requestedDashboardId ||
+        !sheetId ||
+        !visualId ||
+        !QUICKSIGHT_ID_REGEX.test(sheetId) ||
+        !QUICKSIGHT_ID_REGEX.test(visualId)
+      ) {
+        throw new ValidationError("Invalid sheetId or visualId");
+      }
+      visual = { sheetId, visualId };
+    }
 
-    // Retrieve user data (region and store_id) from users table
-    const userData = await getUserData(context.tenantId, context.userId);
-    console.log(
-      `Retrieved user data: region=${userData.region}, store_id=${userData.store_id}`,
-    );
+    const { context, tenant: access } = request;
+    const caller = await resolveCaller(context);
 
-    // Build session tags (tenant_id, region, store_id from user table)
-    const sessionTags = buildSessionTags(
-      context.tenantId,
-      userData.region,
-      userData.store_id,
-      context.userRole,
+    // Resolve the dashboard from the tenant's catalog for the caller's role
+    const dashboard = await resolveDashboard(
+      access,
+      caller.user.role,
+      requestedDashboardId,
     );
+    if (!dashboard) {
+      throw new NotFoundError(
+        requestedDashboardId
+          ? "Dashboard not found"
+          : "Dashboard not configured for your role",
+      );
+    }
     console.log(
-      "Session tags (tenant_id, region, store_id, context.userRole):",
-      JSON.stringify(sessionTags),
+      `Resolved dashboard ${dashboard.dashboardId || "(fallback)"} -> ${dashboard.quicksightDashboardId}`,
     );
 
-    // Generate anonymous embed URL with userRole as parameter
-    const embedUrl = await generateAnonymousEmbedUrl(sessionTags);
+    const sessionTags = await buildCallerSessionTags(context, caller);
+
+    // Embed the whole dashboard, or a single visual when one is given.
+    // Both use the same session tags, so RLS is identical.
+    const experienceConfiguration: AnonymousUserEmbeddingExperienceConfiguration =
+      visual
+        ? {
+            DashboardVisual: {
+              InitialDashboardVisualId: {
+                DashboardId: dashboard.quicksightDashboardId,
+                SheetId: visual.sheetId,
+                VisualId: visual.visualId,
+              },
+            },
+          }
+        : {
+            Dashboard: {
+              InitialDashboardId: dashboard.quicksightDashboardId,
+            },
+          };
+
+    const { embedUrl, expiresIn } = await getOrCreateEmbedUrl(
+      context,
+      sessionTags,
+      [quicksightResourceArn("dashboard", dashboard.quicksightDashboardId)],
+      experienceConfiguration,
+    );
 
     const embedResponse: EmbedUrlResponse = {
       embedUrl: embedUrl,
-      expiresIn: SESSION_LIFETIME_MINUTES * 60, // Convert to seconds
+      expiresIn: expiresIn,
+      dashboardId: dashboard.dashboardId,
     };
 
     console.log(
@@ -213,27 +490,199 @@ export async function generateEmbedUrl(
     return successResponse(200, embedResponse);
   } catch (error: any) {
     console.error("Error generating embed URL:", error);
+    return toErrorResponse(
+      toEmbedError(error),
+      "Failed to generate dashboard URL",
+    );
+  }
+}
 
-    // Handle specific QuickSight errors
-    if (error.name === "AccessDeniedException") {
-      return errorResponse(403, "Access denied to QuickSight dashboard", false);
+/**
+ * Generates a QuickSight Generative Q&A embed URL with session tags for RLS
+ * GET /qna/embed-url?topicId={topicId}
+ *
+ * Every topic the role may use is authorized so users can switch topics
+ * inside the experience; topicId (or the role's first topic) opens first.
+ */
+export async function generateQnaEmbedUrl(
+  request: TenantRequest<unknown>,
+): Promise<LambdaResponse> {
+  try {
+    if (!QUICKSIGHT_AWS_ACCOUNT_ID) {
+      console.error("QUICKSIGHT_AWS_ACCOUNT_ID not configured");
+      throw new UpstreamError("QuickSight configuration error", {
+        unavailable: true,
+        retryable: false,
+      });
     }
 
-    if (error.name === "ThrottlingException") {
-      return errorResponse(429, "Too many requests, please try again", true);
+    const requestedTopicId = request.query.topicId;
+    if (requestedTopicId && !UUID_REGEX.test(requestedTopicId)) {
+      throw new NotFoundError("Q&A topic not found");
     }
 
-    if (error.name === "UnsupportedPricingPlanException") {
-      return errorResponse(
-        503,
-        "QuickSight Capacity Pricing plan required for anonymous embedding",
-        false,
-      );
+    const { context, tenant: access } = request;
+    assertPlanFeature(access, "qnaEnabled", "Q&A");
+
+    const caller = await resolveCaller(context);
+
+    const topics = await getQnaTopicsForRole(
+      context.tenantId,
+      caller.user.role,
+    );
+    if (topics.length === 0) {
+      throw new NotFoundError("Q&A not configured for your role");
+    }
+
+    const topic = requestedTopicId
+      ? topics.find((t) => t.topic_id === requestedTopicId)
+      : topics[0];
+    if (!topic) {
+      throw new NotFoundError("Q&A topic not found");
+    }
+    console.log(`Resolved Q&A topic ${topic.topic_id} -> ${topic.quicksight_topic_id}`);
+
+    const sessionTags = await buildCallerSessionTags(context, caller);
+
+    const { embedUrl, expiresIn } = await getOrCreateEmbedUrl(
+      context,
+      sessionTags,
+      topics.map((t) => quicksightResourceArn("topic", t.quicksight_topic_id)),
+      {
+        GenerativeQnA: {
+          InitialTopicId: topic.quicksight_topic_id,
+        },
+      },
+    );
+
+    const embedResponse: QnaEmbedUrlResponse = {
+      embedUrl: embedUrl,
+      expiresIn: expiresIn,
+      topicId: topic.topic_id,
+      topics: topics.map((t) => ({ topic_id: t.topic_id, title: t.title })),
+    };
+
+    console.log(
+      `Q&A embed URL generated for user ${context.email} in tenant ${context.tenantId}`,
+    );
+    return successResponse(200, embedResponse);
+  } catch (error: any) {
+    console.error("Error generating Q&A embed URL:", error);
+    return toErrorResponse(toEmbedError(error), "Failed to generate Q&A URL");
+  }
+}
+
+/**
+ * Builds the ARN of a QuickSight resource in the configured account
+ */
+function quicksightResourceArn(
+  resourceType: "dashboard" | "topic",
+  resourceId: string,
+): string {
+  return `arn:aws:quicksight:${process.env.AWS_REGION || "us-east-1"}:${QUICKSIGHT_AWS_ACCOUNT_ID}:${resourceType}/${resourceId}`;
+}
+
+/**
+ * Cache key for an embed URL: the caller plus everything sent to QuickSight
+ * Any change in session tags (role, governance rules, visible metrics)
+ * produces a new key, so a cached URL never widens or narrows scope
+ */
+function buildEmbedCacheKey(
+  context: RequestContext,
+  sessionTags: SessionTag[],
+  authorizedResourceArns: string[],
+  experienceConfiguration: AnonymousUserEmbeddingExperienceConfiguration,
+): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        tenantId: context.tenantId,
+        userId: context.userId,
+        sessionTags,
+        authorizedResourceArns,
+        experienceConfiguration,
+      }),
+    )
+    .digest("hex");
+}
+
+/**
+ * Returns a cached embed URL or generates a new one, with the seconds left
+ * in its session
+ * - Cache hits skip QuickSight and the rate limiter; the session started when
+ *   the URL was generated, so its remaining lifetime is shorter
+ * - Misses take a token from the tenant's bucket (RateLimitError when empty)
+ * - ThrottlingException is retried with jitter before failing
+ * Store failures are logged and bypassed so embedding keeps working
+ * Routes run the tenant guard middleware first, so deactivated tenants
+ * never receive a URL, cached or new
+ */
+async function getOrCreateEmbedUrl(
+  context: RequestContext,
+  sessionTags: SessionTag[],
+  authorizedResourceArns: string[],
+  experienceConfiguration: AnonymousUserEmbeddingExperienceConfiguration,
+): Promise<{ embedUrl: string; expiresIn: number }> {
+  const sessionLifetimeSeconds = SESSION_LIFETIME_MINUTES * 60;
+  const cacheKey = buildEmbedCacheKey(
+    context,
+    sessionTags,
+    authorizedResourceArns,
+    experienceConfiguration,
+  );
+
+  try {
+    const cached = await embedStateStore.getCachedUrl(cacheKey);
+    if (cached) {
+      console.log("Serving embed URL from cache");
+      return {
+        embedUrl: cached.embedUrl,
+        expiresIn: Math.max(
+          0,
+          Math.floor(sessionLifetimeSeconds - cached.ageSeconds),
+        ),
+      };
     }
+  } catch (error) {
+    console.warn("Embed URL cache unavailable, generating a new URL:", error);
+  }
 
-    // Generic error
-    return errorResponse(500, "Failed to generate dashboard URL", true);
+  let allowed = true;
+  try {
+    allowed = await embedStateStore.takeToken(
+      `tenant:${context.tenantId}`,
+      TENANT_BUCKET_CONFIG,
+    );
+  } catch (error) {
+    console.warn("Embed rate limiter unavailable, allowing request:", error);
   }
+
+  if (!allowed) {
+    throw new RateLimitError(
+      `Embed URL rate limit reached for tenant ${context.tenantId}`,
+    );
+  }
+
+  const embedUrl = await withThrottleRetry(() =>
+    generateAnonymousEmbedUrl(
+      sessionTags,
+      authorizedResourceArns,
+      experienceConfiguration,
+    ),
+  );
+
+  try {
+    await embedStateStore.putCachedUrl(
+      cacheKey,
+      context.tenantId,
+      embedUrl,
+      EMBED_URL_CACHE_TTL_SECONDS,
+    );
+  } catch (error) {
+    console.warn("Failed to cache embed URL:", error);
+  }
+
+  return { embedUrl, expiresIn: sessionLifetimeSeconds };
 }
 
 /**
@@ -242,8 +691,10 @@ export async function generateEmbedUrl(
  */
 async function generateAnonymousEmbedUrl(
   sessionTags: SessionTag[],
+  authorizedResourceArns: string[],
+  experienceConfiguration: AnonymousUserEmbeddingExperienceConfiguration,
 ): Promise<string> {
-  if (!QUICKSIGHT_AWS_ACCOUNT_ID || !QUICKSIGHT_DASHBOARD_ID) {
+  if (!QUICKSIGHT_AWS_ACCOUNT_ID) {
     throw new Error("QuickSight configuration missing");
   }
 
@@ -251,35 +702,19 @@ async function generateAnonymousEmbedUrl(
     AwsAccountId: QUICKSIGHT_AWS_ACCOUNT_ID,
     Namespace: "default",
     SessionLifetimeInMinutes: SESSION_LIFETIME_MINUTES,
-    AuthorizedResourceArns: [
-      `arn:aws:quicksight:${process.env.AWS_REGION || "us-east-1"}:${QUICKSIGHT_AWS_ACCOUNT_ID}:dashboard/${QUICKSIGHT_DASHBOARD_ID}`,
-    ],
-    ExperienceConfiguration: {
-      Dashboard: {
-        InitialDashboardId: QUICKSIGHT_DASHBOARD_ID,
-      },
-      // DashboardVisual: {
-      //   InitialDashboardVisualId: {
-      //     DashboardId: QUICKSIGHT_DASHBOARD_ID,
-      //     SheetId:
-      //       "bf926a0c-e4dd-48f1-9f83-9e685858cbcb_2656d17f-58bf-4dd4-8634-03a70535b6cc",
-      //     VisualId:
-      //       "bf926a0c-e4dd-48f1-9f83-9e685858cbcb_3760cabe-62ce-414f-970d-2479533e3426",
-      //   },
-      // },
-      // GenerativeQnA: {
-      //   InitialTopicId: ''
-      // }
-    },
+    AuthorizedResourceArns: authorizedResourceArns,
+    ExperienceConfiguration: experienceConfiguration,
     SessionTags: sessionTags,
   });
 
-  console.log("Generating anonymous embed URL with session tags for RLS");
+  console.log(
+    `Generating anonymous ${Object.keys(experienceConfiguration).join(", ")} embed URL with session tags for RLS`,
+  );
 
   const response = await quicksightClient.send(command);
 
   if (!response.EmbedUrl) {
-    throw new Error("QuickSight did not return an embed URL");
+    throw new UpstreamError("QuickSight did not return an embed URL");
   }
 
   return response.EmbedUrl;
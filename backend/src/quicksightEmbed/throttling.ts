@@ -0,0 +1,113 @@
+/**
+ * Rate-limit protection for QuickSight embed URL generation
+ */
+
+import { TokenBucketConfig } from "./embedStore";
+
+/**
+ * Retry configuration for QuickSight ThrottlingException
+ */
+export interface ThrottleRetryConfig {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_THROTTLE_RETRY_CONFIG: ThrottleRetryConfig = {
+  maxRetries: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 2000,
+};
+
+/**
+ * Reads a positive number from the environment, falling back to a default
+ */
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Per-tenant token bucket for QuickSight calls (cache hits are free)
+ * Defaults allow a burst of 20 URLs, refilling at 2 per second
+ */
+export const TENANT_BUCKET_CONFIG: TokenBucketConfig = {
+  capacity: numberFromEnv("EMBED_RATE_LIMIT_BURST", 20),
+  refillPerSecond: numberFromEnv("EMBED_RATE_LIMIT_PER_SECOND", 2),
+};
+
+/**
+ * Seconds an embed URL is reused for the same user and session tags
+ * Kept well under QuickSight's 5-minute window for redeeming a URL
+ */
+export const EMBED_URL_CACHE_TTL_SECONDS = Math.min(
+  numberFromEnv("EMBED_URL_CACHE_TTL_SECONDS", 60),
+  240,
+);
+
+/**
+ * Raised when a tenant has used up its embed URL budget
+ */
+export class RateLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * Sleep utility for retry delays
+ *
+ * @param ms - Milliseconds to sleep
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Calculates a "full jitter" backoff delay: a random delay up to the
+ * exponential backoff cap, so concurrent retries spread out
+ *
+ * @param attempt - Current attempt number (0-indexed)
+ * @param config - Retry configuration
+ * @returns Delay in milliseconds
+ */
+function calculateJitterDelay(
+  attempt: number,
+  config: ThrottleRetryConfig,
+): number {
+  const cap = Math.min(
+    config.baseDelayMs * Math.pow(2, attempt),
+    config.maxDelayMs,
+  );
+  return Math.floor(Math.random() * cap);
+}
+
+/**
+ * Executes a QuickSight call, retrying only on ThrottlingException
+ *
+ * @param fn - Async function to execute
+ * @param config - Retry configuration
+ * @returns Result of the function
+ * @throws The last ThrottlingException once retries are exhausted, or any other error immediately
+ */
+export async function withThrottleRetry<T>(
+  fn: () => Promise<T>,
+  config: ThrottleRetryConfig = DEFAULT_THROTTLE_RETRY_CONFIG,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      if (error?.name !== "ThrottlingException" || attempt >= config.maxRetries) {
+        throw error;
+      }
+
+      const delay = calculateJitterDelay(attempt, config);
+      console.warn(
+        `QuickSight throttled (attempt ${attempt + 1}/${config.maxRetries + 1}). Retrying in ${delay}ms...`,
+      );
+      await sleep(delay);
+    }
+  }
+}
@@ -4,75 +4,59 @@
  */
 
 /**
- * Request context from API Gateway with Cognito authorizer
+ * Dashboard catalog row from the dashboards table
  */
-export interface RequestContext {
-  tenantId: string;
-  userId: string;
-  userRole: string;
-  email: string;
+export interface DashboardRecord {
+  dashboard_id: string;
+  title: string;
+  description: string | null;
+  quicksight_dashboard_id: string;
+  sort_order: number;
 }
 
 /**
- * Governance rule from database
+ * Dashboard catalog entry returned to the client
+ * The QuickSight dashboard ID stays server-side
  */
-export interface GovernanceRule {
-  dimension: string;
-  values: string[];
+export interface DashboardSummary {
+  dashboard_id: string;
+  title: string;
+  description: string | null;
+  is_default: boolean;
 }
 
 /**
- * QuickSight session tag
+ * List dashboards response
  */
-export interface SessionTag {
-  Key: string;
-  Value: string;
+export interface ListDashboardsResponse {
+  dashboards: DashboardSummary[];
+  count: number;
 }
 
 /**
- * API Gateway Lambda event
+ * Sheet and visual to embed on their own instead of the full dashboard
  */
-export interface APIGatewayEvent {
-  body: string | null;
-  headers?: { [key: string]: string };
-  pathParameters: { [key: string]: string } | null;
-  queryStringParameters: { [key: string]: string } | null;
-  httpMethod?: string;
-  resource?: string;
-  path?: string;
-  routeKey?: string;
-  requestContext: {
-    authorizer: {
-      claims: {
-        sub: string;
-        email: string;
-        'custom:tenant_id': string;
-        'custom:role': string;
-      };
-    };
-    http?: {
-      method: string;
-    };
-    httpMethod?: string;
-    resourcePath?: string;
-  };
+export interface DashboardVisualTarget {
+  sheetId: string;
+  visualId: string;
 }
 
 /**
- * Lambda response
+ * Path parameters of the visual embed-url route
+ * The dashboard routes carry a subset, so the handler takes a Partial
  */
-export interface LambdaResponse {
-  statusCode: number;
-  headers?: { [key: string]: string };
-  body: string;
+export interface EmbedPathParams {
+  dashboardId: string;
+  sheetId: string;
+  visualId: string;
 }
 
 /**
- * Error response body
+ * QuickSight session tag
  */
-export interface ErrorResponse {
-  error: string;
-  retryable?: boolean;
+export interface SessionTag {
+  Key: string;
+  Value: string;
 }
 
 /**
@@ -81,4 +65,26 @@ export interface ErrorResponse {
 export interface EmbedUrlResponse {
   embedUrl: string;
   expiresIn: number;
+  dashboardId: string | null;
+}
+
+/**
+ * Q&A topic registry row from the qna_topics table
+ */
+export interface QnaTopicRecord {
+  topic_id: string;
+  title: string;
+  quicksight_topic_id: string;
+  sort_order: number;
+}
+
+/**
+ * Q&A embed URL response
+ * topics lists the registry entries available to the caller's role
+ */
+export interface QnaEmbedUrlResponse {
+  embedUrl: string;
+  expiresIn: number;
+  topicId: string;
+  topics: { topic_id: string; title: string }[];
 }
@@ -0,0 +1,248 @@
+import { query, withTransaction } from '../shared/db';
+import { NotFoundError, TenantRequest, ThrottledError, UpstreamError } from '../shared/http';
+import { loadPermissions, Permission } from '../shared/permissions';
+import { PLAN_ENTITLEMENTS } from '../shared/tenantGuard';
+import { updateCognitoUserRole } from '../userManagement/cognito';
+import { createRole, updateRole } from './handler';
+
+jest.mock('../shared/db', () => ({ query: jest.fn(), withTransaction: jest.fn() }));
+jest.mock('../shared/permissions', () => ({
+  ...jest.requireActual('../shared/permissions'),
+  loadPermissions: jest.fn(),
+}));
+jest.mock('../userManagement/cognito', () => ({ updateCognitoUserRole: jest.fn() }));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockWithTransaction = withTransaction as jest.MockedFunction<typeof withTransaction>;
+const mockLoadPermissions = loadPermissions as jest.MockedFunction<typeof loadPermissions>;
+const mockUpdateCognitoUserRole = updateCognitoUserRole as jest.MockedFunction<
+  typeof updateCognitoUserRole
+>;
+
+const client = { query: jest.fn() };
+
+const FINANCE_ROLE = {
+  tenant_id: 'T001',
+  role: 'Finance',
+  description: 'Finance team',
+  permissions: ['dashboards:view'],
+  is_system: false,
+  created_by: 'U001',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+};
+
+function request<Params>(params: Params, body: unknown): TenantRequest<Params> {
+  return {
+    params,
+    query: {},
+    body: JSON.stringify(body),
+    context: { tenantId: 'T001', userId: 'sub-1', email: 'manager@example.com', requestId: 'req-1' },
+    tenant: {
+      tenantId: 'T001',
+      tenantName: 'Acme',
+      planTier: 'Standard',
+      entitlements: PLAN_ENTITLEMENTS.Standard,
+    },
+  } as unknown as TenantRequest<Params>;
+}
+
+/**
+ * Answers the handler's queries by what they select, returning `role` for
+ * role lookups
+ */
+function givenRole(role: typeof FINANCE_ROLE) {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM metrics')) {
+      return { rows: [{ metric_key: 'net_revenue' }] } as any;
+    }
+    if (sql.includes('FROM roles') && !sql.includes('IS DISTINCT FROM')) {
+      return { rows: [role] } as any;
+    }
+    return { rows: [] } as any;
+  });
+}
+
+/**
+ * Users whose Cognito custom:role has not caught up with users.role yet
+ */
+function givenPendingUsers(users: { user_id: string; cognito_user_id: string }[]) {
+  const answer = mockQuery.getMockImplementation()!;
+  mockQuery.mockImplementation(async (sql: string, values?: unknown[]) =>
+    sql.includes('SELECT user_id, cognito_user_id FROM users') ? ({ rows: users } as any) : answer(sql, values)
+  );
+}
+
+/**
+ * Users whose Cognito role the sync marked as done
+ */
+function syncedUserIds(): unknown[] {
+  return mockQuery.mock.calls
+    .filter(([sql]) => sql.startsWith('UPDATE users SET cognito_role'))
+    .map(([, values]) => values![1]);
+}
+
+function givenCaller(role: string, isTenantAdmin: boolean, permissions: Permission[]) {
+  mockLoadPermissions.mockResolvedValue({ userId: 'U001', role, isTenantAdmin, permissions });
+}
+
+function parseBody(response: { body: string }) {
+  return JSON.parse(response.body);
+}
+
+describe('roleManagement handler', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockWithTransaction.mockImplementation(async (fn) => fn(client as any));
+    client.query.mockResolvedValue({ rows: [], rowCount: 0 });
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('createRole', () => {
+    const body = { role: 'Auditor', metrics: ['net_revenue'], permissions: ['dashboards:view', 'audit:read'] };
+
+    it('stops callers other than tenant admins granting permissions they do not hold', async () => {
+      givenRole(FINANCE_ROLE);
+      givenCaller('Store Manager', false, ['users:read', 'roles:write', 'dashboards:view']);
+
+      const response = await createRole(request({}, body));
+
+      expect(response.statusCode).toBe(403);
+      expect(parseBody(response).error).toBe('You cannot grant permissions you do not hold: audit:read');
+      expect(mockWithTransaction).not.toHaveBeenCalled();
+    });
+
+    it('lets tenant admins grant any permission', async () => {
+      givenRole({ ...FINANCE_ROLE, role: 'Auditor', permissions: ['dashboards:view', 'audit:read'] });
+      givenCaller('Admin', true, []);
+
+      const response = await createRole(request({}, body));
+
+      expect(response.statusCode).toBe(201);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO roles'), [
+        'T001',
+        'Auditor',
+        null,
+        ['dashboards:view', 'audit:read'],
+        'sub-1',
+      ]);
+    });
+  });
+
+  describe('updateRole', () => {
+    it("stops callers other than tenant admins changing their own role's permissions", async () => {
+      givenRole({ ...FINANCE_ROLE, permissions: ['dashboards:view', 'audit:read'] });
+      givenCaller('Finance', false, ['dashboards:view', 'roles:write']);
+
+      const response = await updateRole(
+        request({ role: 'Finance' }, { permissions: ['dashboards:view'] })
+      );
+
+      // Removing a permission is refused as well: the role is the caller's own
+      expect(response.statusCode).toBe(403);
+      expect(parseBody(response).error).toBe(
+        'Only tenant admins can change the permissions of their own role'
+      );
+      expect(mockWithTransaction).not.toHaveBeenCalled();
+    });
+
+    it('only checks the permissions a role gains', async () => {
+      givenRole({ ...FINANCE_ROLE, permissions: ['dashboards:view', 'audit:read'] });
+      givenCaller('Store Manager', false, ['dashboards:view', 'roles:write']);
+
+      const response = await updateRole(
+        request({ role: 'Finance' }, { permissions: ['dashboards:view'] })
+      );
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('does not check permissions when only the description changes', async () => {
+      givenRole(FINANCE_ROLE);
+      givenCaller('Finance', false, ['dashboards:view', 'roles:write']);
+
+      const response = await updateRole(
+        request({ role: 'Finance' }, { description: 'Finance and accounting' })
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(mockLoadPermissions).not.toHaveBeenCalled();
+    });
+
+    describe('rename', () => {
+      const users = [
+        { user_id: 'U002', cognito_user_id: 'cognito-2' },
+        { user_id: 'U003', cognito_user_id: 'cognito-3' },
+        { user_id: 'U004', cognito_user_id: 'cognito-4' },
+      ];
+
+      beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        givenRole(FINANCE_ROLE);
+        givenPendingUsers(users);
+        client.query.mockResolvedValue({ rows: [], rowCount: users.length });
+      });
+
+      it("renames the role's users and writes the new name to each one's Cognito custom:role", async () => {
+        const response = await updateRole(request({ role: 'finance' }, { role: 'Finance Team' }));
+
+        expect(response.statusCode).toBe(200);
+        expect(parseBody(response).users_updated).toBe(3);
+        expect(client.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE users SET role = $1'), [
+          'Finance Team',
+          'T001',
+          'Finance',
+        ]);
+        expect(mockUpdateCognitoUserRole.mock.calls).toEqual([
+          ['cognito-2', 'Finance Team'],
+          ['cognito-3', 'Finance Team'],
+          ['cognito-4', 'Finance Team'],
+        ]);
+        expect(syncedUserIds()).toEqual(['U002', 'U003', 'U004']);
+      });
+
+      it('leaves users Cognito failed to update pending, and skips users with no Cognito account', async () => {
+        mockUpdateCognitoUserRole
+          .mockRejectedValueOnce(new UpstreamError('Cognito unavailable'))
+          .mockRejectedValueOnce(new NotFoundError('User not found in Cognito'))
+          .mockResolvedValueOnce(undefined);
+
+        const response = await updateRole(request({ role: 'Finance' }, { role: 'Finance Team' }));
+
+        expect(response.statusCode).toBe(200);
+        expect(mockUpdateCognitoUserRole).toHaveBeenCalledTimes(3);
+        expect(syncedUserIds()).toEqual(['U003', 'U004']);
+      });
+
+      it('stops the sync when Cognito throttles it', async () => {
+        mockUpdateCognitoUserRole.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new ThrottledError());
+
+        const response = await updateRole(request({ role: 'Finance' }, { role: 'Finance Team' }));
+
+        expect(response.statusCode).toBe(200);
+        expect(mockUpdateCognitoUserRole).toHaveBeenCalledTimes(2);
+        expect(syncedUserIds()).toEqual(['U002']);
+      });
+
+      it('resumes the sync when the new name is sent again', async () => {
+        givenRole({ ...FINANCE_ROLE, role: 'Finance Team' });
+        givenPendingUsers(users.slice(1));
+
+        const response = await updateRole(request({ role: 'Finance Team' }, { role: 'Finance Team' }));
+
+        expect(response.statusCode).toBe(200);
+        expect(parseBody(response).users_updated).toBe(0);
+        expect(client.query).not.toHaveBeenCalledWith(
+          expect.stringContaining('UPDATE users SET role = $1'),
+          expect.anything()
+        );
+        expect(syncedUserIds()).toEqual(['U003', 'U004']);
+      });
+    });
+  });
+});
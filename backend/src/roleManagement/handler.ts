@@ -1,382 +1,751 @@
 /**
  * Role Management Lambda Handler
- * Manages roles and their metric visibility
+ * Manages tenant roles, their metric visibility and the metric catalog
  */
 
+import { PoolClient } from "pg";
+import { recordAuditEvent } from "../shared/audit";
 import { query, withTransaction } from "../shared/db";
 import {
-  APIGatewayEvent,
+  ConflictError,
+  ForbiddenError,
   LambdaResponse,
+  NotFoundError,
   RequestContext,
-  ErrorResponse,
-} from "../userManagement/types";
+  successResponse,
+  TenantRequest,
+  ThrottledError,
+  toErrorResponse,
+  ValidationError,
+} from "../shared/http";
+import {
+  loadPermissions,
+  Permission,
+  PERMISSIONS,
+} from "../shared/permissions";
+import {
+  addMetricsSchema,
+  cloneRoleSchema,
+  createRoleSchema,
+  parseBody,
+  parseParams,
+  roleParamsSchema,
+  updateRoleSchema,
+} from "../shared/validation";
+import { updateCognitoUserRole } from "../userManagement/cognito";
+import {
+  AddMetricsRequest,
+  CloneRoleRequest,
+  CreateRoleRequest,
+  Metric,
+  Role,
+  RoleMetric,
+  RoleMetricSummary,
+  RoleRecord,
+  UpdateRoleRequest,
+  UpdateRoleResponse,
+} from "./types";
+
+const ROLE_COLUMNS =
+  "tenant_id, role, description, permissions, is_system, created_by, created_at, updated_at";
 
-interface RoleMetric {
-  id: number;
-  tenant_id: string;
-  role: string;
-  metric_name: string;
-  is_visible: boolean;
-  created_at: string;
-  updated_at: string;
-}
+/**
+ * Permissions of a role created without an explicit list
+ */
+const DEFAULT_ROLE_PERMISSIONS: Permission[] = ["dashboards:view"];
 
-interface CreateRoleRequest {
-  role: string;
-  metrics: string[];
-}
+const METRIC_COLUMNS =
+  "id, tenant_id, role, metric_name, is_visible, created_at, updated_at";
 
-interface UpdateRoleMetricsRequest {
-  metrics: string[];
+function toMetricSummary(metric: RoleMetric): RoleMetricSummary {
+  return {
+    id: metric.id,
+    metric_name: metric.metric_name,
+    is_visible: metric.is_visible,
+    created_at: metric.created_at,
+    updated_at: metric.updated_at,
+  };
 }
 
 /**
- * Extracts request context from API Gateway event
+ * Loads the tenant's roles with their metric visibility rows
+ * Roles without any metrics are included with an empty list
+ *
+ * @param role - Canonical role name to load only that role
  */
-function getRequestContext(event: APIGatewayEvent): RequestContext {
-  try {
-    if (!event.requestContext?.authorizer) {
-      throw new Error("No authorizer found in request context");
-    }
+async function loadRoles(tenantId: string, role?: string): Promise<Role[]> {
+  const roleFilter = role ? "AND role = $2" : "";
+  const values = role ? [tenantId, role] : [tenantId];
+
+  const rolesResult = await query<RoleRecord>(
+    `SELECT ${ROLE_COLUMNS} FROM roles
+     WHERE tenant_id = $1 ${roleFilter}
+     ORDER BY is_system DESC, role`,
+    values,
+  );
 
-    const claims = event.requestContext.authorizer.claims;
+  const metricsResult = await query<RoleMetric>(
+    `SELECT ${METRIC_COLUMNS} FROM role_metric_visibility
+     WHERE tenant_id = $1 ${roleFilter}
+     ORDER BY metric_name`,
+    values,
+  );
 
-    if (!claims) {
-      throw new Error("No claims found in authorizer");
-    }
+  const pendingResult = await query<{ role: string; count: string }>(
+    `SELECT role, COUNT(*) AS count FROM users
+     WHERE tenant_id = $1 ${roleFilter}
+       AND status != 'Deleted' AND cognito_role <> role
+     GROUP BY role`,
+    values,
+  );
+  const pendingByRole = new Map(
+    pendingResult.rows.map((row) => [row.role, Number(row.count)]),
+  );
 
-    if (!claims["custom:tenant_id"]) {
-      throw new Error("Missing custom:tenant_id claim");
+  // Group by role
+  const metricsByRole = new Map<string, RoleMetricSummary[]>();
+  metricsResult.rows.forEach((metric) => {
+    if (!metricsByRole.has(metric.role)) {
+      metricsByRole.set(metric.role, []);
     }
+    metricsByRole.get(metric.role)!.push(toMetricSummary(metric));
+  });
+
+  return rolesResult.rows.map((record) => ({
+    role: record.role,
+    description: record.description,
+    permissions: record.permissions,
+    is_system: record.is_system,
+    created_by: record.created_by,
+    created_at: record.created_at,
+    updated_at: record.updated_at,
+    metrics: metricsByRole.get(record.role) || [],
+    cognito_sync_pending: pendingByRole.get(record.role) || 0,
+  }));
+}
 
-    if (!claims.sub) {
-      throw new Error("Missing sub claim");
-    }
+/**
+ * Finds a role by name, ignoring case
+ *
+ * @throws NotFoundError (404) if the tenant has no such role
+ */
+async function findRole(tenantId: string, role: string): Promise<RoleRecord> {
+  const result = await query<RoleRecord>(
+    `SELECT ${ROLE_COLUMNS} FROM roles
+     WHERE tenant_id = $1 AND LOWER(role) = LOWER($2)`,
+    [tenantId, role.trim()],
+  );
 
-    return {
-      tenantId: claims["custom:tenant_id"],
-      userId: claims.sub,
-      userRole: claims["custom:role"] || "Finance",
-      email: claims.email || "",
-    };
-  } catch (error) {
-    console.error("Error extracting request context:", error);
-    throw error;
+  if (result.rows.length === 0) {
+    throw new NotFoundError("Role not found");
   }
+
+  return result.rows[0];
 }
 
 /**
- * Creates a success response
+ * Throws ConflictError (409) if another role has the name, ignoring case
+ *
+ * @param exceptRole - Canonical name of the role being renamed, which may
+ * keep its name with different casing
  */
-function successResponse(statusCode: number, data: any): LambdaResponse {
-  return {
-    statusCode,
-    headers: {
-      "Content-Type": "application/json",
-      "Access-Control-Allow-Origin": "*",
-    },
-    body: JSON.stringify(data),
-  };
+async function assertRoleNameAvailable(
+  tenantId: string,
+  role: string,
+  exceptRole?: string,
+): Promise<void> {
+  const result = await query<{ role: string }>(
+    `SELECT role FROM roles
+     WHERE tenant_id = $1 AND LOWER(role) = LOWER($2) AND role IS DISTINCT FROM $3`,
+    [tenantId, role, exceptRole ?? null],
+  );
+
+  if (result.rows.length > 0) {
+    throw new ConflictError("Role already exists", "role");
+  }
 }
 
 /**
- * Creates an error response
+ * Role fields recorded in audit event snapshots
  */
-function errorResponse(
-  statusCode: number,
-  error: string,
-  field?: string,
-  retryable?: boolean,
-): LambdaResponse {
-  const errorBody: ErrorResponse = { error, field, retryable };
+function roleSnapshot(record: {
+  role: string;
+  description: string | null;
+  permissions: Permission[];
+}) {
   return {
-    statusCode,
-    headers: {
-      "Content-Type": "application/json",
-      "Access-Control-Allow-Origin": "*",
-    },
-    body: JSON.stringify(errorBody),
+    role: record.role,
+    description: record.description,
+    permissions: record.permissions,
   };
 }
 
 /**
- * Validates that the requesting user is a tenant admin
+ * De-duplicates permissions and puts them in catalog order
  */
-async function validateTenantAdmin(
-  cognitoUserId: string,
-  tenantId: string,
+function normalizePermissions(permissions: Permission[]): Permission[] {
+  return PERMISSIONS.filter((permission) => permissions.includes(permission));
+}
+
+/**
+ * Stops callers other than tenant admins from granting permissions they do
+ * not hold, or from changing the permissions of their own role
+ *
+ * @param granted - Permissions the role gains
+ * @param role - Canonical name of the role being changed; omit for new roles
+ * @throws ForbiddenError (403) if the caller may not make the change
+ */
+async function assertCanGrantPermissions(
+  context: RequestContext,
+  granted: Permission[],
+  role?: string,
+): Promise<void> {
+  const caller = await loadPermissions(context.tenantId, context.userId);
+  if (caller.isTenantAdmin) {
+    return;
+  }
+
+  if (role !== undefined && caller.role === role) {
+    throw new ForbiddenError(
+      "Only tenant admins can change the permissions of their own role",
+    );
+  }
+
+  const missing = granted.filter(
+    (permission) => !caller.permissions.includes(permission),
+  );
+  if (missing.length > 0) {
+    throw new ForbiddenError(
+      `You cannot grant permissions you do not hold: ${missing.join(", ")}`,
+    );
+  }
+}
+
+/**
+ * Inserts a non-system role created by the calling admin
+ */
+async function insertRole(
+  client: PoolClient,
+  context: RequestContext,
+  role: string,
+  description: string | null,
+  permissions: Permission[],
 ): Promise<void> {
-  const result = await query<{ is_tenant_admin: boolean }>(
-    "SELECT is_tenant_admin FROM users WHERE cognito_user_id = $1 AND tenant_id = $2 AND status = $3",
-    [cognitoUserId, tenantId, "Active"],
+  await client.query(
+    `INSERT INTO roles (tenant_id, role, description, permissions, is_system, created_by)
+     VALUES ($1, $2, $3, $4, FALSE,
+             (SELECT user_id FROM users WHERE cognito_user_id = $5 AND tenant_id = $1))`,
+    [
+      context.tenantId,
+      role,
+      description,
+      normalizePermissions(permissions),
+      context.userId,
+    ],
   );
+}
 
-  if (result.rows.length === 0) {
-    throw new Error("User not found or inactive");
+/**
+ * Writes the role to Cognito custom:role for each user whose Cognito role
+ * still lags behind users.role after a rename
+ *
+ * Each user is marked done (users.cognito_role) as soon as Cognito accepts
+ * the update, so a sync cut short by errors or a Lambda timeout resumes with
+ * the remaining users on the next call
+ *
+ * @returns Number of users still pending
+ */
+async function syncCognitoRoles(
+  tenantId: string,
+  role: string,
+): Promise<number> {
+  const pending = await query<{ user_id: string; cognito_user_id: string }>(
+    `SELECT user_id, cognito_user_id FROM users
+     WHERE tenant_id = $1 AND role = $2
+       AND status != 'Deleted' AND cognito_role <> role
+     ORDER BY user_id`,
+    [tenantId, role],
+  );
+
+  let remaining = pending.rows.length;
+  for (const user of pending.rows) {
+    try {
+      await updateCognitoUserRole(user.cognito_user_id, role);
+    } catch (error) {
+      if (error instanceof ThrottledError) {
+        // Leave the rest for the next attempt rather than piling on
+        console.warn(`Cognito throttled role sync for ${role}, stopping`);
+        break;
+      }
+
+      if (!(error instanceof NotFoundError)) {
+        console.error(
+          `Failed to update Cognito role for user ${user.user_id}:`,
+          error,
+        );
+        continue;
+      }
+
+      // No Cognito account left to update
+      console.warn(`Cognito user missing for ${user.user_id}, skipping`);
+    }
+
+    // Only mark done if the role was not renamed again in the meantime
+    await query(
+      "UPDATE users SET cognito_role = $1 WHERE user_id = $2 AND role = $1",
+      [role, user.user_id],
+    );
+    remaining--;
   }
 
-  if (!result.rows[0].is_tenant_admin) {
-    throw new Error("Insufficient permissions: Admin role required");
+  return remaining;
+}
+
+/**
+ * Resolves requested metric names against the metric catalog
+ * Matching is case-insensitive; duplicates are dropped
+ *
+ * @returns Catalog keys, in request order
+ * @throws ValidationError (400) listing any names not in the catalog
+ */
+async function resolveMetricKeys(metrics: string[]): Promise<string[]> {
+  const requested = Array.from(new Set(metrics.map((m) => m.trim())));
+
+  const result = await query<{ metric_key: string }>(
+    "SELECT metric_key FROM metrics WHERE LOWER(metric_key) = ANY($1)",
+    [requested.map((name) => name.toLowerCase())],
+  );
+
+  const keys = new Map(
+    result.rows.map((row) => [row.metric_key.toLowerCase(), row.metric_key]),
+  );
+
+  const unknown = requested.filter((name) => !keys.has(name.toLowerCase()));
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `Unknown metric: ${unknown.join(", ")}`,
+      "metrics",
+    );
   }
+
+  return Array.from(
+    new Set(requested.map((name) => keys.get(name.toLowerCase())!)),
+  );
 }
 
 /**
- * Lists all roles with their metrics for the tenant
- * GET /roles
+ * Lists the metric catalog that roles can be granted
+ * GET /metric-catalog
  */
-export async function listRoles(
-  event: APIGatewayEvent,
+export async function listMetricCatalog(
+  _request: TenantRequest<unknown>,
 ): Promise<LambdaResponse> {
   try {
-    const context = getRequestContext(event);
-
-    // Get all role metrics for this tenant
-    const result = await query<RoleMetric>(
-      `SELECT id, tenant_id, role, metric_name, is_visible, created_at, updated_at
-       FROM role_metric_visibility
-       WHERE tenant_id = $1
-       ORDER BY role, metric_name`,
-      [context.tenantId],
+    const result = await query<Metric>(
+      `SELECT metric_key, display_name, category, source_table, sort_order
+       FROM metrics
+       ORDER BY sort_order, metric_key`,
     );
 
-    // Group by role
-    const roleMap = new Map<string, RoleMetric[]>();
-    result.rows.forEach((metric) => {
-      if (!roleMap.has(metric.role)) {
-        roleMap.set(metric.role, []);
-      }
-      roleMap.get(metric.role)!.push(metric);
+    return successResponse(200, {
+      metrics: result.rows,
+      count: result.rowCount,
     });
+  } catch (error: any) {
+    console.error("Error listing metrics:", error);
+    return toErrorResponse(error, "Failed to list metrics");
+  }
+}
 
-    const roles = Array.from(roleMap.entries()).map(([role, metrics]) => ({
-      role,
-      metrics: metrics.map((m) => ({
-        id: m.id,
-        metric_name: m.metric_name,
-        is_visible: m.is_visible,
-        created_at: m.created_at,
-        updated_at: m.updated_at,
-      })),
-    }));
+/**
+ * Lists all roles with their metrics for the tenant
+ * GET /roles
+ */
+export async function listRoles(
+  request: TenantRequest<unknown>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+
+    const roles = await loadRoles(context.tenantId);
 
     return successResponse(200, { roles, count: roles.length });
   } catch (error: any) {
     console.error("Error listing roles:", error);
-    return errorResponse(500, "Failed to list roles", undefined, true);
+    return toErrorResponse(error, "Failed to list roles");
   }
 }
 
 /**
- * Gets metrics for a specific role
+ * Gets a role with its metrics
  * GET /roles/{role}
  */
-export async function getRole(event: APIGatewayEvent): Promise<LambdaResponse> {
+export async function getRole(
+  request: TenantRequest<{ role: string }>,
+): Promise<LambdaResponse> {
   try {
-    const context = getRequestContext(event);
-    const role = event.pathParameters?.role;
-
-    if (!role) {
-      return errorResponse(400, "Role is required");
-    }
-
-    const result = await query<RoleMetric>(
-      `SELECT id, tenant_id, role, metric_name, is_visible, created_at, updated_at
-       FROM role_metric_visibility
-       WHERE tenant_id = $1 AND role = $2
-       ORDER BY metric_name`,
-      [context.tenantId, role],
+    const { context } = request;
+    const { role } = parseParams<{ role: string }>(
+      roleParamsSchema,
+      request.params,
     );
 
-    return successResponse(200, {
-      role,
-      metrics: result.rows.map((m) => ({
-        id: m.id,
-        metric_name: m.metric_name,
-        is_visible: m.is_visible,
-        created_at: m.created_at,
-        updated_at: m.updated_at,
-      })),
-      count: result.rowCount,
-    });
+    const record = await findRole(context.tenantId, role);
+    const [result] = await loadRoles(context.tenantId, record.role);
+
+    return successResponse(200, result);
   } catch (error: any) {
     console.error("Error getting role:", error);
-    return errorResponse(500, "Failed to get role", undefined, true);
+    return toErrorResponse(error, "Failed to get role");
   }
 }
 
 /**
- * Creates a new role with metrics
+ * Creates a new role with its visible metrics
  * POST /roles
- * Creates all 4 metrics, setting is_visible=true for provided metrics and is_visible=false for others
  */
 export async function createRole(
-  event: APIGatewayEvent,
+  request: TenantRequest<unknown>,
 ): Promise<LambdaResponse> {
   try {
-    const context = getRequestContext(event);
+    const { context } = request;
 
-    // Validate admin permissions
-    try {
-      await validateTenantAdmin(context.userId, context.tenantId);
-    } catch (error: any) {
-      return errorResponse(403, error.message);
-    }
+    const requestData = parseBody<CreateRoleRequest>(
+      createRoleSchema,
+      request.body,
+    );
+    const roleName = requestData.role.trim();
 
-    if (!event.body) {
-      return errorResponse(400, "Request body is required");
-    }
+    const metricKeys = await resolveMetricKeys(requestData.metrics);
+    await assertRoleNameAvailable(context.tenantId, roleName);
 
-    const requestData: CreateRoleRequest = JSON.parse(event.body);
+    const created = {
+      role: roleName,
+      description: requestData.description?.trim() || null,
+      permissions: normalizePermissions(
+        requestData.permissions ?? DEFAULT_ROLE_PERMISSIONS,
+      ),
+    };
+    await assertCanGrantPermissions(context, created.permissions);
+
+    await withTransaction(async (client) => {
+      await insertRole(
+        client,
+        context,
+        created.role,
+        created.description,
+        created.permissions,
+      );
+
+      for (const metricKey of metricKeys) {
+        await client.query(
+          `INSERT INTO role_metric_visibility (tenant_id, role, metric_name, is_visible)
+           VALUES ($1, $2, $3, TRUE)`,
+          [context.tenantId, roleName, metricKey],
+        );
+      }
+
+      await recordAuditEvent(client, context, {
+        action: "role.created",
+        targetType: "role",
+        targetId: roleName,
+        after: { ...created, metrics: metricKeys },
+      });
+    });
+
+    const [role] = await loadRoles(context.tenantId, roleName);
+
+    console.log(
+      `Role created: ${roleName} with ${metricKeys.length} visible metrics in tenant ${context.tenantId}`,
+    );
+
+    return successResponse(201, role);
+  } catch (error: any) {
+    console.error("Error creating role:", error);
+    return toErrorResponse(error, "Failed to create role");
+  }
+}
+
+/**
+ * Renames a role and/or updates its description and permissions
+ * PATCH /roles/{role}
+ *
+ * A rename is applied to users.role, dashboard and Q&A topic allowed_roles
+ * and (by foreign key cascade) role_metric_visibility in one transaction.
+ * Cognito custom:role is then updated user by user. Users Cognito has not
+ * accepted yet are counted in cognito_sync_pending; any later PATCH of the
+ * role (e.g. repeating the new name) resumes the sync.
+ */
+export async function updateRole(
+  request: TenantRequest<{ role: string }>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const { role } = parseParams<{ role: string }>(
+      roleParamsSchema,
+      request.params,
+    );
+    const requestData = parseBody<UpdateRoleRequest>(
+      updateRoleSchema,
+      request.body,
+    );
+
+    const current = await findRole(context.tenantId, role);
+    const newName = requestData.role?.trim() ?? current.role;
+    const isRename = newName !== current.role;
 
-    if (!requestData.role || !requestData.role.trim()) {
-      return errorResponse(400, "Role name is required", "role");
+    if (isRename) {
+      if (current.is_system) {
+        throw new ConflictError("System roles cannot be renamed", "role");
+      }
+      await assertRoleNameAvailable(context.tenantId, newName, current.role);
     }
 
-    if (!requestData.metrics || requestData.metrics.length === 0) {
-      return errorResponse(
-        400,
-        "At least one metric is required",
-        "metrics",
+    if (requestData.permissions !== undefined && current.is_system) {
+      throw new ConflictError(
+        "System role permissions cannot be changed",
+        "permissions",
       );
     }
 
-    // Check if role already exists
-    const existingRole = await query<RoleMetric>(
-      "SELECT id FROM role_metric_visibility WHERE tenant_id = $1 AND role = $2 LIMIT 1",
-      [context.tenantId, requestData.role],
-    );
+    const before = roleSnapshot(current);
+    const after = {
+      role: newName,
+      description:
+        requestData.description === undefined
+          ? current.description
+          : requestData.description?.trim() || null,
+      permissions: requestData.permissions
+        ? normalizePermissions(requestData.permissions)
+        : current.permissions,
+    };
 
-    if (existingRole.rows.length > 0) {
-      return errorResponse(400, "Role already exists", "role");
+    // Forms send the whole list, so only an actual change is checked
+    if (
+      JSON.stringify(after.permissions) !==
+      JSON.stringify(normalizePermissions(current.permissions))
+    ) {
+      await assertCanGrantPermissions(
+        context,
+        after.permissions.filter(
+          (permission) => !current.permissions.includes(permission),
+        ),
+        current.role,
+      );
     }
 
-    // Create role with all metrics, setting is_visible based on provided metrics
-    const createdMetrics = await withTransaction(async (client) => {
-      const metrics: RoleMetric[] = [];
+    const renamedUsers = await withTransaction(async (client) => {
+      await client.query(
+        `UPDATE roles SET role = $1, description = $2, permissions = $3
+         WHERE tenant_id = $4 AND role = $5`,
+        [
+          after.role,
+          after.description,
+          after.permissions,
+          context.tenantId,
+          current.role,
+        ],
+      );
 
-      for (const metricName of requestData.metrics) {
-        const isVisible = requestData.metrics.includes(metricName);
-        const result = await client.query<RoleMetric>(
-          `INSERT INTO role_metric_visibility (tenant_id, role, metric_name, is_visible)
-           VALUES ($1, $2, $3, $4)
-           RETURNING id, tenant_id, role, metric_name, is_visible, created_at, updated_at`,
-          [context.tenantId, requestData.role, metricName, isVisible],
+      // A PATCH that only retries the Cognito sync changes nothing to record
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        await recordAuditEvent(client, context, {
+          action: "role.updated",
+          targetType: "role",
+          targetId: newName,
+          before,
+          after,
+        });
+      }
+
+      if (!isRename) {
+        return 0;
+      }
+
+      // cognito_role keeps the name Cognito still holds until the sync
+      // below (or a later retry) updates it
+      const usersResult = await client.query(
+        `UPDATE users SET role = $1, cognito_role = COALESCE(cognito_role, role)
+         WHERE tenant_id = $2 AND role = $3`,
+        [newName, context.tenantId, current.role],
+      );
+
+      for (const table of ["dashboards", "qna_topics"]) {
+        await client.query(
+          `UPDATE ${table}
+           SET allowed_roles = array_replace(allowed_roles, $3, $1)
+           WHERE tenant_id = $2 AND $3 = ANY(allowed_roles)`,
+          [newName, context.tenantId, current.role],
         );
-        metrics.push(result.rows[0]);
       }
 
-      return metrics;
+      return usersResult.rowCount || 0;
     });
 
+    const pending = await syncCognitoRoles(context.tenantId, newName);
+    const [updated] = await loadRoles(context.tenantId, newName);
+
     console.log(
-      `Role created: ${requestData.role} with ${createdMetrics.length} metrics (${requestData.metrics.length} visible) in tenant ${context.tenantId}`,
+      isRename
+        ? `Role renamed: ${current.role} -> ${newName} (${renamedUsers} users, ${pending} pending Cognito sync) in tenant ${context.tenantId}`
+        : `Role updated: ${newName} (${pending} pending Cognito sync) in tenant ${context.tenantId}`,
     );
 
-    return successResponse(201, {
-      role: requestData.role,
-      metrics: createdMetrics.map((m) => ({
-        id: m.id,
-        metric_name: m.metric_name,
-        is_visible: m.is_visible,
-        created_at: m.created_at,
-        updated_at: m.updated_at,
-      })),
-    });
+    const response: UpdateRoleResponse = {
+      ...updated,
+      users_updated: renamedUsers,
+    };
+
+    return successResponse(200, response);
   } catch (error: any) {
-    console.error("Error creating role:", error);
-    return errorResponse(500, "Failed to create role", undefined, true);
+    console.error("Error updating role:", error);
+    return toErrorResponse(error, "Failed to update role");
   }
 }
 
 /**
- * Adds metrics to an existing role (sets is_visible to true)
- * POST /roles/{role}/metrics
+ * Creates a new role from an existing one
+ * POST /roles/{role}/clone
+ *
+ * Copies the source role's permissions, metric visibility and its dashboard
+ * and Q&A topic access; users are not copied
  */
-export async function addMetricsToRole(
-  event: APIGatewayEvent,
+export async function cloneRole(
+  request: TenantRequest<{ role: string }>,
 ): Promise<LambdaResponse> {
   try {
-    const context = getRequestContext(event);
-    const role = event.pathParameters?.role;
+    const { context } = request;
+    const { role } = parseParams<{ role: string }>(
+      roleParamsSchema,
+      request.params,
+    );
+    const requestData = parseBody<CloneRoleRequest>(
+      cloneRoleSchema,
+      request.body,
+    );
 
-    if (!role) {
-      return errorResponse(400, "Role is required");
-    }
+    const source = await findRole(context.tenantId, role);
+    const roleName = requestData.role.trim();
+    await assertRoleNameAvailable(context.tenantId, roleName);
+    await assertCanGrantPermissions(context, source.permissions);
+
+    const description =
+      requestData.description === undefined
+        ? source.description
+        : requestData.description?.trim() || null;
+
+    await withTransaction(async (client) => {
+      await insertRole(
+        client,
+        context,
+        roleName,
+        description,
+        source.permissions,
+      );
 
-    // Validate admin permissions
-    try {
-      await validateTenantAdmin(context.userId, context.tenantId);
-    } catch (error: any) {
-      return errorResponse(403, error.message);
-    }
+      await client.query(
+        `INSERT INTO role_metric_visibility (tenant_id, role, metric_name, is_visible)
+         SELECT tenant_id, $2, metric_name, is_visible
+         FROM role_metric_visibility
+         WHERE tenant_id = $1 AND role = $3`,
+        [context.tenantId, roleName, source.role],
+      );
 
-    if (!event.body) {
-      return errorResponse(400, "Request body is required");
-    }
+      for (const table of ["dashboards", "qna_topics"]) {
+        await client.query(
+          `UPDATE ${table}
+           SET allowed_roles = array_append(allowed_roles, $2)
+           WHERE tenant_id = $1 AND $3 = ANY(allowed_roles)`,
+          [context.tenantId, roleName, source.role],
+        );
+      }
 
-    const requestData: UpdateRoleMetricsRequest = JSON.parse(event.body);
+      await recordAuditEvent(client, context, {
+        action: "role.cloned",
+        targetType: "role",
+        targetId: roleName,
+        after: {
+          ...roleSnapshot({ ...source, role: roleName, description }),
+          cloned_from: source.role,
+        },
+      });
+    });
 
-    if (!requestData.metrics || requestData.metrics.length === 0) {
-      return errorResponse(
-        400,
-        "At least one metric is required",
-        "metrics",
-      );
-    }
+    const [clone] = await loadRoles(context.tenantId, roleName);
+
+    console.log(
+      `Role cloned: ${source.role} -> ${roleName} (${clone.metrics.length} metrics) in tenant ${context.tenantId}`,
+    );
+
+    return successResponse(201, clone);
+  } catch (error: any) {
+    console.error("Error cloning role:", error);
+    return toErrorResponse(error, "Failed to clone role");
+  }
+}
+
+/**
+ * Adds metrics to an existing role (sets is_visible to true)
+ * POST /roles/{role}/metrics
+ */
+export async function addMetricsToRole(
+  request: TenantRequest<{ role: string }>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const { role } = parseParams<{ role: string }>(
+      roleParamsSchema,
+      request.params,
+    );
+    const requestData = parseBody<AddMetricsRequest>(
+      addMetricsSchema,
+      request.body,
+    );
+
+    const record = await findRole(context.tenantId, role);
+    const metricKeys = await resolveMetricKeys(requestData.metrics);
 
-    // Update metrics to set is_visible = true
+    // Insert new metrics or make hidden ones visible; already visible
+    // metrics are left alone and not returned
     const updatedMetrics = await withTransaction(async (client) => {
       const metrics: RoleMetric[] = [];
 
-      for (const metricName of requestData.metrics) {
-        // Check if metric already exists
-        const existing = await client.query<RoleMetric>(
-          "SELECT id, is_visible FROM role_metric_visibility WHERE tenant_id = $1 AND role = $2 AND metric_name = $3",
-          [context.tenantId, role, metricName],
+      for (const metricKey of metricKeys) {
+        const result = await client.query<RoleMetric>(
+          `INSERT INTO role_metric_visibility (tenant_id, role, metric_name, is_visible)
+           VALUES ($1, $2, $3, TRUE)
+           ON CONFLICT (tenant_id, role, metric_name)
+           DO UPDATE SET is_visible = TRUE
+           WHERE role_metric_visibility.is_visible = FALSE
+           RETURNING ${METRIC_COLUMNS}`,
+          [context.tenantId, record.role, metricKey],
         );
+        metrics.push(...result.rows);
+      }
 
-        if (existing.rows.length === 0) {
-          // Insert new metric with is_visible = true
-          const result = await client.query<RoleMetric>(
-            `INSERT INTO role_metric_visibility (tenant_id, role, metric_name, is_visible)
-             VALUES ($1, $2, $3, $4)
-             RETURNING id, tenant_id, role, metric_name, is_visible, created_at, updated_at`,
-            [context.tenantId, role, metricName, true],
-          );
-          metrics.push(result.rows[0]);
-        } else if (!existing.rows[0].is_visible) {
-          // Update existing metric to set is_visible = true
-          const result = await client.query<RoleMetric>(
-            `UPDATE role_metric_visibility 
-             SET is_visible = true, updated_at = NOW()
-             WHERE tenant_id = $1 AND role = $2 AND metric_name = $3
-             RETURNING id, tenant_id, role, metric_name, is_visible, created_at, updated_at`,
-            [context.tenantId, role, metricName],
-          );
-          metrics.push(result.rows[0]);
-        }
+      if (metrics.length > 0) {
+        await recordAuditEvent(client, context, {
+          action: "role.metrics_shown",
+          targetType: "role",
+          targetId: record.role,
+          after: { metrics: metrics.map((metric) => metric.metric_name) },
+        });
       }
 
       return metrics;
     });
 
     console.log(
-      `Metrics visibility updated for role ${role}: ${updatedMetrics.length} metrics set to visible in tenant ${context.tenantId}`,
+      `Metrics visibility updated for role ${record.role}: ${updatedMetrics.length} metrics set to visible in tenant ${context.tenantId}`,
     );
 
     return successResponse(200, {
-      role,
-      added: updatedMetrics.map((m) => ({
-        id: m.id,
-        metric_name: m.metric_name,
-        is_visible: m.is_visible,
-        created_at: m.created_at,
-        updated_at: m.updated_at,
-      })),
+      role: record.role,
+      added: updatedMetrics.map(toMetricSummary),
     });
   } catch (error: any) {
     console.error("Error adding metrics to role:", error);
-    return errorResponse(500, "Failed to add metrics", undefined, true);
+    return toErrorResponse(error, "Failed to add metrics");
   }
 }
 
@@ -385,109 +754,153 @@ export async function addMetricsToRole(
  * DELETE /roles/{role}/metrics/{metricName}
  */
 export async function removeMetricFromRole(
-  event: APIGatewayEvent,
+  request: TenantRequest<{ role: string; metricName: string }>,
 ): Promise<LambdaResponse> {
   try {
-    const context = getRequestContext(event);
-    const role = event.pathParameters?.role;
-    const metricName = event.pathParameters?.metricName;
+    const { context } = request;
+    const { role, metricName } = parseParams<{
+      role: string;
+      metricName: string;
+    }>(roleParamsSchema, request.params);
 
-    if (!role) {
-      return errorResponse(400, "Role is required");
-    }
+    const record = await findRole(context.tenantId, role);
 
-    if (!metricName) {
-      return errorResponse(400, "Metric name is required");
-    }
+    // Update metric to set is_visible = false instead of deleting
+    const hiddenMetric = await withTransaction(async (client) => {
+      const current = await client.query<{
+        metric_name: string;
+        is_visible: boolean;
+      }>(
+        `SELECT metric_name, is_visible FROM role_metric_visibility
+         WHERE tenant_id = $1 AND role = $2 AND LOWER(metric_name) = LOWER($3)
+         FOR UPDATE`,
+        [context.tenantId, record.role, metricName],
+      );
 
-    // Validate admin permissions
-    try {
-      await validateTenantAdmin(context.userId, context.tenantId);
-    } catch (error: any) {
-      return errorResponse(403, error.message);
-    }
+      if (current.rows.length === 0) {
+        throw new NotFoundError("Metric not found for this role");
+      }
 
-    // Update metric to set is_visible = false instead of deleting
-    const result = await query(
-      "UPDATE role_metric_visibility SET is_visible = false, updated_at = NOW() WHERE tenant_id = $1 AND role = $2 AND metric_name = $3",
-      [context.tenantId, role, metricName],
-    );
+      const { metric_name, is_visible } = current.rows[0];
+      if (is_visible) {
+        await client.query(
+          `UPDATE role_metric_visibility SET is_visible = FALSE
+           WHERE tenant_id = $1 AND role = $2 AND metric_name = $3`,
+          [context.tenantId, record.role, metric_name],
+        );
 
-    if (result.rowCount === 0) {
-      return errorResponse(404, "Metric not found for this role");
-    }
+        await recordAuditEvent(client, context, {
+          action: "role.metric_hidden",
+          targetType: "role",
+          targetId: record.role,
+          before: { metric_name, is_visible: true },
+          after: { metric_name, is_visible: false },
+        });
+      }
+
+      return metric_name;
+    });
 
     console.log(
-      `Metric visibility set to false for role ${role}: ${metricName} in tenant ${context.tenantId}`,
+      `Metric visibility set to false for role ${record.role}: ${hiddenMetric} in tenant ${context.tenantId}`,
     );
 
     return successResponse(200, {
       success: true,
-      role,
-      metric_name: metricName,
+      role: record.role,
+      metric_name: hiddenMetric,
     });
   } catch (error: any) {
     console.error("Error removing metric from role:", error);
-    return errorResponse(500, "Failed to remove metric", undefined, true);
+    return toErrorResponse(error, "Failed to remove metric");
   }
 }
 
 /**
- * Deletes a role and all its metrics
+ * Deletes a role, its metrics and its dashboard and Q&A topic access
  * DELETE /roles/{role}
+ *
+ * System roles and roles still assigned to users (other than deleted users)
+ * cannot be deleted
  */
 export async function deleteRole(
-  event: APIGatewayEvent,
+  request: TenantRequest<{ role: string }>,
 ): Promise<LambdaResponse> {
   try {
-    const context = getRequestContext(event);
-    const role = event.pathParameters?.role;
+    const { context } = request;
+    const { role } = parseParams<{ role: string }>(
+      roleParamsSchema,
+      request.params,
+    );
 
-    if (!role) {
-      return errorResponse(400, "Role is required");
-    }
+    const record = await findRole(context.tenantId, role);
 
-    // Validate admin permissions
-    try {
-      await validateTenantAdmin(context.userId, context.tenantId);
-    } catch (error: any) {
-      return errorResponse(403, error.message);
+    if (record.is_system) {
+      throw new ConflictError("System roles cannot be deleted");
     }
 
     // Check if any users have this role
     const usersWithRole = await query<{ count: string }>(
-      "SELECT COUNT(*) as count FROM users WHERE tenant_id = $1 AND role = $2 AND status = $3",
-      [context.tenantId, role, "Active"],
+      "SELECT COUNT(*) as count FROM users WHERE tenant_id = $1 AND role = $2 AND status != $3",
+      [context.tenantId, record.role, "Deleted"],
     );
 
     if (parseInt(usersWithRole.rows[0].count) > 0) {
-      return errorResponse(
-        400,
-        "Cannot delete role that is assigned to active users",
-      );
+      throw new ConflictError("Cannot delete role that is assigned to users");
     }
 
-    // Delete all metrics for this role
-    const result = await query(
-      "DELETE FROM role_metric_visibility WHERE tenant_id = $1 AND role = $2",
-      [context.tenantId, role],
-    );
+    const metricsDeleted = await withTransaction(async (client) => {
+      const metricsResult = await client.query<{
+        metric_name: string;
+        is_visible: boolean;
+      }>(
+        `DELETE FROM role_metric_visibility WHERE tenant_id = $1 AND role = $2
+         RETURNING metric_name, is_visible`,
+        [context.tenantId, record.role],
+      );
 
-    if (result.rowCount === 0) {
-      return errorResponse(404, "Role not found");
-    }
+      await client.query(
+        "DELETE FROM roles WHERE tenant_id = $1 AND role = $2",
+        [context.tenantId, record.role],
+      );
+
+      // Drop the name from dashboard and Q&A access lists so a new role
+      // created with the same name does not inherit them
+      for (const table of ["dashboards", "qna_topics"]) {
+        await client.query(
+          `UPDATE ${table}
+           SET allowed_roles = array_remove(allowed_roles, $2)
+           WHERE tenant_id = $1 AND $2 = ANY(allowed_roles)`,
+          [context.tenantId, record.role],
+        );
+      }
+
+      await recordAuditEvent(client, context, {
+        action: "role.deleted",
+        targetType: "role",
+        targetId: record.role,
+        before: {
+          ...roleSnapshot(record),
+          metrics: metricsResult.rows
+            .filter((metric) => metric.is_visible)
+            .map((metric) => metric.metric_name),
+        },
+      });
+
+      return metricsResult.rowCount || 0;
+    });
 
     console.log(
-      `Role deleted: ${role} (${result.rowCount} metrics) in tenant ${context.tenantId}`,
+      `Role deleted: ${record.role} (${metricsDeleted} metrics) in tenant ${context.tenantId}`,
     );
 
     return successResponse(200, {
       success: true,
-      role,
-      metrics_deleted: result.rowCount,
+      role: record.role,
+      metrics_deleted: metricsDeleted,
     });
   } catch (error: any) {
     console.error("Error deleting role:", error);
-    return errorResponse(500, "Failed to delete role", undefined, true);
+    return toErrorResponse(error, "Failed to delete role");
   }
 }
@@ -2,53 +2,101 @@
  * Type definitions for Role Management
  */
 
-export interface APIGatewayEvent {
-  body: string | null;
-  pathParameters: { [key: string]: string } | null;
-  requestContext: {
-    authorizer: {
-      claims: {
-        sub: string;
-        email: string;
-        "custom:tenant_id": string;
-        "custom:role": string;
-      };
-    };
-  };
-}
-
-export interface LambdaResponse {
-  statusCode: number;
-  headers: {
-    "Content-Type": string;
-    "Access-Control-Allow-Origin": string;
-  };
-  body: string;
-}
-
-export interface RequestContext {
-  tenantId: string;
-  userId: string;
-  userRole: string;
-  email: string;
+import type { Permission } from '../shared/permissions';
+
+/**
+ * Row from the roles table
+ */
+export interface RoleRecord {
+  tenant_id: string;
+  role: string;
+  description: string | null;
+  permissions: Permission[];
+  is_system: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Metric visibility row from role_metric_visibility
+ */
+export interface RoleMetric {
+  id: number;
+  tenant_id: string;
+  role: string;
+  metric_name: string;
+  is_visible: boolean;
+  created_at: string;
+  updated_at: string;
 }
 
+/**
+ * Row from the metrics catalog
+ */
+export interface Metric {
+  metric_key: string;
+  display_name: string;
+  category: string;
+  source_table: string;
+  sort_order: number;
+}
+
+/**
+ * Absent permissions default to dashboards:view
+ */
 export interface CreateRoleRequest {
   role: string;
+  description?: string | null;
+  permissions?: Permission[];
   metrics: string[];
 }
 
+/**
+ * Absent fields are left unchanged; a null or blank description clears it
+ * and permissions replaces the role's whole list
+ */
+export interface UpdateRoleRequest {
+  role?: string;
+  description?: string | null;
+  permissions?: Permission[];
+}
+
+/**
+ * An absent description copies the source role's; null or blank leaves it empty
+ * Permissions are always copied from the source role
+ */
+export interface CloneRoleRequest {
+  role: string;
+  description?: string | null;
+}
+
 export interface AddMetricsRequest {
   metrics: string[];
 }
 
+export interface RoleMetricSummary {
+  id: number;
+  metric_name: string;
+  is_visible: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Role {
   role: string;
-  metrics: string[];
+  description: string | null;
+  permissions: Permission[];
+  is_system: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  metrics: RoleMetricSummary[];
+  /** Users whose Cognito custom:role still holds a previous name of this role */
+  cognito_sync_pending: number;
 }
 
-export interface ErrorResponse {
-  error: string;
-  field?: string;
-  retryable?: boolean;
+export interface UpdateRoleResponse extends Role {
+  /** Users whose role was renamed by this request */
+  users_updated: number;
 }
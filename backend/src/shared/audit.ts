@@ -0,0 +1,65 @@
+import { PoolClient } from 'pg';
+import { RequestContext } from './http/types';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  AuditAction,
+  AuditTargetType,
+} from './validation/audit';
+
+export { AUDIT_ACTIONS, AUDIT_TARGET_TYPES };
+export type { AuditAction, AuditTargetType };
+
+/**
+ * One change to record
+ * `before` is omitted for creations and `after` for deletions
+ */
+export interface AuditEntry {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  /** user_id for users, role name for roles, rule_id for governance rules, tenant_id for tenants */
+  targetId: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Who made a change, and the tenant whose audit log records it
+ * Tenant users pass their RequestContext; platform operators act on a tenant
+ * they do not belong to, so their events have no actor_user_id
+ */
+export type AuditContext = Pick<RequestContext, 'tenantId' | 'userId' | 'email' | 'requestId'>;
+
+/**
+ * Records an administrative action in audit_events
+ * Call it with the transaction that makes the change, so the event is
+ * committed or rolled back together with it
+ *
+ * @param client - Client of the open transaction
+ * @param context - Caller's request context; the actor is resolved from its
+ * Cognito sub
+ */
+export async function recordAuditEvent(
+  client: PoolClient,
+  context: AuditContext,
+  entry: AuditEntry
+): Promise<void> {
+  await client.query(
+    `INSERT INTO audit_events
+       (tenant_id, actor_user_id, actor_email, action, target_type, target_id, before, after, request_id)
+     VALUES ($1,
+             (SELECT user_id FROM users WHERE cognito_user_id = $2 AND tenant_id = $1),
+             $3, $4, $5, $6, $7, $8, $9)`,
+    [
+      context.tenantId,
+      context.userId,
+      context.email || null,
+      entry.action,
+      entry.targetType,
+      entry.targetId,
+      entry.before === undefined ? null : JSON.stringify(entry.before),
+      entry.after === undefined ? null : JSON.stringify(entry.after),
+      context.requestId || null,
+    ]
+  );
+}
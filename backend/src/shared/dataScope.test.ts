@@ -0,0 +1,57 @@
+import { buildDataScope, DataScopeError, mergeGovernanceRules, ScopedUser } from './dataScope';
+
+describe('mergeGovernanceRules', () => {
+  it('unions the values of rules for the same dimension', () => {
+    const merged = mergeGovernanceRules([
+      { dimension: 'region', values: ['NA', 'EU'] },
+      { dimension: 'region', values: ['EU', 'APAC'] },
+      { dimension: 'store', values: [' S01 '] },
+    ]);
+
+    expect(merged.get('region')).toEqual(['NA', 'EU', 'APAC']);
+    expect(merged.get('store')).toEqual(['S01']);
+    expect(merged.has('team')).toBe(false);
+  });
+
+  it('rejects unsupported dimensions', () => {
+    expect(() => mergeGovernanceRules([{ dimension: 'country', values: ['UK'] }])).toThrow(DataScopeError);
+  });
+
+  it('rejects rules without values', () => {
+    expect(() => mergeGovernanceRules([{ dimension: 'region', values: [] }])).toThrow(DataScopeError);
+    expect(() => mergeGovernanceRules([{ dimension: 'region', values: null }])).toThrow(DataScopeError);
+  });
+
+  it.each(['', '  ', '*', 'NA,EU'])('rejects the value %p, which would widen the scope', (value) => {
+    expect(() => mergeGovernanceRules([{ dimension: 'region', values: [value] }])).toThrow(DataScopeError);
+  });
+});
+
+describe('buildDataScope', () => {
+  const user: ScopedUser = { user_id: 'U001', role: 'Finance', region: 'NA', store_id: 'S01' };
+
+  it('falls back to the user region and store without rules', () => {
+    expect(buildDataScope(user, [])).toEqual({
+      region: ['NA'],
+      store: ['S01'],
+      team: null,
+      custom: null,
+    });
+  });
+
+  it('gives governance rules precedence over the user columns', () => {
+    const scope = buildDataScope(user, [
+      { dimension: 'region', values: ['EU'] },
+      { dimension: 'team', values: ['Outdoor'] },
+    ]);
+
+    expect(scope).toEqual({ region: ['EU'], store: ['S01'], team: ['Outdoor'], custom: null });
+  });
+
+  it('matches no region when there is neither a rule nor a user region', () => {
+    const scope = buildDataScope({ user_id: 'U002', role: 'Finance', region: null, store_id: null }, []);
+
+    expect(scope.region).toEqual([]);
+    expect(scope.store).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Row-level data scope
+ * Resolves which regions, stores, teams and custom values a user may see from
+ * their governance rules and users.region/store_id. Embedded dashboards turn
+ * the scope into QuickSight session tags and the analytics API into SQL
+ * filters, so both show the same data
+ */
+
+import { query } from './db';
+import { ForbiddenError } from './http/errors';
+
+/**
+ * Dimensions allowed by the chk_governance_dimension constraint
+ */
+export type GovernanceDimension = 'region' | 'store' | 'team' | 'custom';
+
+export const GOVERNANCE_DIMENSIONS: readonly GovernanceDimension[] = ['region', 'store', 'team', 'custom'];
+
+/**
+ * Governance rule from database
+ * dimension is typed loosely because rows are validated before use
+ */
+export interface GovernanceRule {
+  dimension: string;
+  values: string[] | null;
+}
+
+/**
+ * The user columns a scope defaults to, and the user's role
+ * The role is read from the database rather than the token's custom:role,
+ * which is only refreshed when the user signs in again
+ */
+export interface ScopedUser {
+  user_id: string;
+  role: string;
+  region: string | null;
+  store_id: string | null;
+}
+
+/**
+ * Allowed values per dimension
+ * null leaves the dimension unrestricted; an empty list matches nothing
+ */
+export type DataScope = Record<GovernanceDimension, string[] | null>;
+
+/**
+ * Raised when a user's governance rules cannot be turned into a scope
+ * Callers refuse the request rather than widening what the user can see
+ */
+export class DataScopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataScopeError';
+  }
+}
+
+function isGovernanceDimension(dimension: string): dimension is GovernanceDimension {
+  return (GOVERNANCE_DIMENSIONS as readonly string[]).includes(dimension);
+}
+
+/**
+ * Merges governance rules into one value list per dimension
+ * Multiple rows for the same dimension are unioned, so a regional manager
+ * with two region rules sees both regions
+ *
+ * @throws DataScopeError if any rule is malformed
+ */
+export function mergeGovernanceRules(rules: GovernanceRule[]): Map<GovernanceDimension, string[]> {
+  const scopes = new Map<GovernanceDimension, Set<string>>();
+
+  for (const rule of rules) {
+    if (!isGovernanceDimension(rule.dimension)) {
+      throw new DataScopeError(`Unsupported governance dimension: ${rule.dimension}`);
+    }
+
+    const dimension = rule.dimension;
+
+    if (!Array.isArray(rule.values) || rule.values.length === 0) {
+      throw new DataScopeError(`Governance rule for ${dimension} has no values`);
+    }
+
+    if (!scopes.has(dimension)) {
+      scopes.set(dimension, new Set());
+    }
+
+    for (const value of rule.values) {
+      const trimmed = typeof value === 'string' ? value.trim() : '';
+
+      // "*" would match every row, and commas would split into extra values
+      if (!trimmed || trimmed === '*' || trimmed.includes(',')) {
+        throw new DataScopeError(`Governance rule for ${dimension} has an invalid value`);
+      }
+
+      scopes.get(dimension)!.add(trimmed);
+    }
+  }
+
+  return new Map(
+    Array.from(scopes.entries()).map(([dimension, values]) => [dimension, Array.from(values)])
+  );
+}
+
+/**
+ * Builds a user's scope
+ * Governance rules take precedence. Without a rule, region falls back to the
+ * user's region and otherwise matches nothing (fail closed); store falls back
+ * to the user's store and otherwise is unrestricted; team and custom are
+ * unrestricted
+ *
+ * @throws DataScopeError if any rule is malformed
+ */
+export function buildDataScope(user: ScopedUser, rules: GovernanceRule[]): DataScope {
+  const merged = mergeGovernanceRules(rules);
+
+  return {
+    region: merged.get('region') ?? (user.region ? [user.region] : []),
+    store: merged.get('store') ?? (user.store_id ? [user.store_id] : null),
+    team: merged.get('team') ?? null,
+    custom: merged.get('custom') ?? null,
+  };
+}
+
+/**
+ * Loads the caller's user row
+ * Deactivated users get no data even while their ID token is valid
+ *
+ * @throws ForbiddenError if the user is missing or not active
+ */
+export async function getScopedUser(tenantId: string, cognitoUserId: string): Promise<ScopedUser> {
+  const result = await query<ScopedUser>(
+    'SELECT user_id, role, region, store_id FROM users WHERE tenant_id = $1 AND cognito_user_id = $2 AND status = $3',
+    [tenantId, cognitoUserId, 'Active']
+  );
+
+  if (result.rows.length === 0) {
+    console.warn(`User not found or inactive: tenant_id=${tenantId}, cognito_user_id=${cognitoUserId}`);
+    throw new ForbiddenError('User not found or inactive');
+  }
+
+  return result.rows[0];
+}
+
+/**
+ * Retrieves every governance rule assigned to the user
+ */
+export async function getGovernanceRules(tenantId: string, userId: string): Promise<GovernanceRule[]> {
+  const result = await query<GovernanceRule>(
+    'SELECT dimension, values FROM governance_rules WHERE tenant_id = $1 AND user_id = $2',
+    [tenantId, userId]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Resolves the caller's data scope
+ *
+ * @param tenantId - Tenant ID from the caller's custom:tenant_id claim
+ * @param cognitoUserId - Caller's Cognito sub
+ * @throws ForbiddenError if the user is missing or not active
+ * @throws DataScopeError if any of their governance rules is malformed
+ */
+export async function resolveDataScope(
+  tenantId: string,
+  cognitoUserId: string
+): Promise<{ user: ScopedUser; scope: DataScope }> {
+  const user = await getScopedUser(tenantId, cognitoUserId);
+  const rules = await getGovernanceRules(tenantId, user.user_id);
+
+  return { user, scope: buildDataScope(user, rules) };
+}
@@ -0,0 +1,65 @@
+/**
+ * API error codes and their HTTP statuses
+ */
+
+import { TenantGuardErrorCode } from '../tenantGuard';
+
+/**
+ * Stable, machine-readable error codes returned in ErrorResponse.code
+ * Clients branch on these; never change an existing code's meaning
+ */
+export type ErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'THROTTLED'
+  | 'UPSTREAM_ERROR'
+  | 'SERVICE_UNAVAILABLE'
+  | 'INTERNAL_ERROR'
+  | TenantGuardErrorCode;
+
+/**
+ * HTTP status for each error code
+ */
+export const STATUS_BY_CODE: Record<ErrorCode, number> = {
+  VALIDATION_FAILED: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  TENANT_INACTIVE: 403,
+  PLAN_LIMIT_REACHED: 403,
+  PLAN_FEATURE_UNAVAILABLE: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  THROTTLED: 429,
+  INTERNAL_ERROR: 500,
+  UPSTREAM_ERROR: 502,
+  SERVICE_UNAVAILABLE: 503,
+};
+
+/**
+ * Code used when a response is built from a bare status code
+ */
+export function codeForStatus(statusCode: number): ErrorCode {
+  switch (statusCode) {
+    case 400:
+      return 'VALIDATION_FAILED';
+    case 401:
+      return 'UNAUTHORIZED';
+    case 403:
+      return 'FORBIDDEN';
+    case 404:
+      return 'NOT_FOUND';
+    case 409:
+      return 'CONFLICT';
+    case 429:
+      return 'THROTTLED';
+    case 502:
+      return 'UPSTREAM_ERROR';
+    case 503:
+      return 'SERVICE_UNAVAILABLE';
+    default:
+      return 'INTERNAL_ERROR';
+  }
+}
@@ -0,0 +1,65 @@
+import { TenantGuardError } from '../tenantGuard';
+import { ForbiddenError, toErrorResponse, UpstreamError, ValidationError } from './errors';
+
+function parseBody(response: { body: string }) {
+  return JSON.parse(response.body);
+}
+
+describe('toErrorResponse', () => {
+  it('lists every field issue of a validation failure', () => {
+    const response = toErrorResponse(
+      ValidationError.fromIssues([
+        { field: 'email', message: 'Email is required' },
+        { field: 'role', message: 'Role is required' },
+      ])
+    );
+
+    expect(response.statusCode).toBe(400);
+    expect(parseBody(response)).toEqual({
+      error: 'Email is required',
+      code: 'VALIDATION_FAILED',
+      field: 'email',
+      retryable: false,
+      errors: [
+        { field: 'email', message: 'Email is required' },
+        { field: 'role', message: 'Role is required' },
+      ],
+    });
+  });
+
+  it('maps ForbiddenError to 403', () => {
+    const response = toErrorResponse(new ForbiddenError('Insufficient permissions: users:write required'));
+
+    expect(response.statusCode).toBe(403);
+    expect(parseBody(response).code).toBe('FORBIDDEN');
+  });
+
+  it('keeps tenant guard codes', () => {
+    const response = toErrorResponse(new TenantGuardError('TENANT_INACTIVE', 'Tenant is inactive'));
+
+    expect(response.statusCode).toBe(403);
+    expect(parseBody(response)).toMatchObject({ code: 'TENANT_INACTIVE', retryable: false });
+  });
+
+  it('marks unavailable upstream services as 503', () => {
+    const response = toErrorResponse(
+      new UpstreamError('QuickSight configuration error', { unavailable: true, retryable: false })
+    );
+
+    expect(response.statusCode).toBe(503);
+    expect(parseBody(response)).toMatchObject({ code: 'SERVICE_UNAVAILABLE', retryable: false });
+  });
+
+  it('uses the fallback message for unrecognised errors', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const response = toErrorResponse(new Error('password authentication failed'), 'Failed to list users');
+
+    expect(response.statusCode).toBe(500);
+    expect(parseBody(response)).toEqual({
+      error: 'Failed to list users',
+      code: 'INTERNAL_ERROR',
+      retryable: true,
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Typed API errors and the central mapping to HTTP responses
+ */
+
+import { TenantGuardError } from '../tenantGuard';
+import { FieldIssue } from '../validation/schema';
+import { ErrorCode, STATUS_BY_CODE } from './codes';
+import { errorResponse } from './responses';
+import { LambdaResponse } from './types';
+
+interface ErrorDetails {
+  /** Request field the error refers to */
+  field?: string;
+  /** Whether the client may retry the same request */
+  retryable?: boolean;
+  /** Every invalid field, for validation failures */
+  errors?: FieldIssue[];
+}
+
+/**
+ * Base class for errors that map to a specific API response
+ * Throw a subclass from handlers or middleware; toErrorResponse does the rest
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly details: ErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+
+  get statusCode(): number {
+    return STATUS_BY_CODE[this.code];
+  }
+}
+
+/**
+ * Invalid request body, path or query parameter (400)
+ */
+export class ValidationError extends HttpError {
+  constructor(message: string, field?: string, errors?: FieldIssue[]) {
+    super('VALIDATION_FAILED', message, { field, errors });
+    this.name = 'ValidationError';
+  }
+
+  /**
+   * Builds the error for a failed schema validation
+   * The first issue becomes the headline message; all are listed in `errors`
+   */
+  static fromIssues(issues: FieldIssue[]): ValidationError {
+    return new ValidationError(issues[0].message, issues[0].field, issues);
+  }
+}
+
+/**
+ * Missing or unusable credentials (401)
+ */
+export class UnauthorizedError extends HttpError {
+  constructor(message: string) {
+    super('UNAUTHORIZED', message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * Authenticated but not allowed (403)
+ */
+export class ForbiddenError extends HttpError {
+  constructor(message: string) {
+    super('FORBIDDEN', message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * Resource does not exist, or belongs to another tenant (404)
+ */
+export class NotFoundError extends HttpError {
+  constructor(message: string, field?: string) {
+    super('NOT_FOUND', message, { field });
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Request conflicts with current state, e.g. a duplicate (409)
+ */
+export class ConflictError extends HttpError {
+  constructor(message: string, field?: string) {
+    super('CONFLICT', message, { field });
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Rate limited, by us or by an AWS service (429, retryable)
+ */
+export class ThrottledError extends HttpError {
+  constructor(message = 'Too many requests, please try again') {
+    super('THROTTLED', message, { retryable: true });
+    this.name = 'ThrottledError';
+  }
+}
+
+/**
+ * An AWS dependency failed (502) or cannot serve the request (503)
+ */
+export class UpstreamError extends HttpError {
+  constructor(
+    message: string,
+    options: { unavailable?: boolean; retryable?: boolean } = {}
+  ) {
+    super(options.unavailable ? 'SERVICE_UNAVAILABLE' : 'UPSTREAM_ERROR', message, {
+      retryable: options.retryable ?? true,
+    });
+    this.name = 'UpstreamError';
+  }
+}
+
+/**
+ * Maps an error thrown by a handler or middleware to a response
+ * Anything unrecognised is a retryable 500 without internal details
+ *
+ * @param fallbackMessage - Message for unrecognised errors
+ */
+export function toErrorResponse(
+  error: unknown,
+  fallbackMessage = 'Internal server error'
+): LambdaResponse {
+  if (error instanceof HttpError) {
+    return errorResponse(
+      error.statusCode,
+      error.message,
+      error.details.field,
+      error.details.retryable ?? false,
+      error.code,
+      error.details.errors
+    );
+  }
+
+  if (error instanceof TenantGuardError) {
+    return errorResponse(STATUS_BY_CODE[error.code], error.message, undefined, false, error.code);
+  }
+
+  console.error('Unhandled error:', error);
+  return errorResponse(500, fallbackMessage, undefined, true, 'INTERNAL_ERROR');
+}
@@ -0,0 +1,30 @@
+/**
+ * Shared HTTP plumbing for the API Lambdas: router, middleware,
+ * response builders and error mapping
+ */
+
+export * from './types';
+export { successResponse, errorResponse } from './responses';
+export { ErrorCode, STATUS_BY_CODE, codeForStatus } from './codes';
+export {
+  HttpError,
+  ValidationError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  ConflictError,
+  ThrottledError,
+  UpstreamError,
+  toErrorResponse,
+} from './errors';
+export {
+  getRequestContext,
+  withAuth,
+  withActiveTenant,
+  withPermission,
+  tenantRoute,
+  permissionRoute,
+  getPlatformContext,
+  platformRoute,
+} from './middleware';
+export { route, createRouter, Route } from './router';
@@ -0,0 +1,118 @@
+import { query } from '../db';
+import { permissionRoute } from './middleware';
+import { successResponse } from './responses';
+import { createRouter, route } from './router';
+import { APIGatewayEvent } from './types';
+
+jest.mock('../db', () => ({ query: jest.fn() }));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+
+const createUser = jest.fn(async () => successResponse(201, { user_id: 'U002' }));
+
+const handler = createRouter([route('POST', '/users', permissionRoute('users:write', createUser))]);
+
+const event: APIGatewayEvent = {
+  httpMethod: 'POST',
+  resource: '/users',
+  body: null,
+  pathParameters: null,
+  queryStringParameters: null,
+  requestContext: {
+    requestId: 'req-1',
+    authorizer: {
+      claims: {
+        sub: 'sub-1',
+        email: 'manager@example.com',
+        'custom:tenant_id': 'T001',
+        'custom:role': 'Store Manager',
+      },
+    },
+  },
+};
+
+/**
+ * Answers the tenant guard's lookup with an active tenant and the
+ * permission lookup with the given caller
+ */
+function givenCaller(caller: { is_tenant_admin: boolean; permissions: string[] } | null) {
+  mockQuery
+    .mockResolvedValueOnce({ rows: [{ tenant_name: 'Acme', plan_tier: 'Standard', is_active: true }] } as any)
+    .mockResolvedValueOnce({
+      rows: caller ? [{ user_id: 'U001', role: 'Store Manager', ...caller }] : [],
+    } as any);
+}
+
+function parseBody(response: { body: string }) {
+  return JSON.parse(response.body);
+}
+
+describe('permissionRoute', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    mockQuery.mockReset();
+    createUser.mockClear();
+    jest.restoreAllMocks();
+  });
+
+  it('rejects callers whose role lacks the permission with 403 before the handler runs', async () => {
+    givenCaller({ is_tenant_admin: false, permissions: ['users:read', 'dashboards:view'] });
+
+    const response = await handler(event);
+
+    expect(response.statusCode).toBe(403);
+    expect(parseBody(response)).toMatchObject({
+      code: 'FORBIDDEN',
+      error: 'Insufficient permissions: users:write required',
+    });
+    expect(createUser).not.toHaveBeenCalled();
+  });
+
+  it('runs the handler for callers whose role grants the permission', async () => {
+    givenCaller({ is_tenant_admin: false, permissions: ['users:read', 'users:write'] });
+
+    const response = await handler(event);
+
+    expect(response.statusCode).toBe(201);
+    expect(createUser).toHaveBeenCalledTimes(1);
+    expect(mockQuery).toHaveBeenLastCalledWith(expect.stringContaining('FROM users u'), [
+      'sub-1',
+      'T001',
+      'Active',
+    ]);
+  });
+
+  it('gives tenant admins every permission, whatever their role grants', async () => {
+    givenCaller({ is_tenant_admin: true, permissions: [] });
+
+    const response = await handler(event);
+
+    expect(response.statusCode).toBe(201);
+  });
+
+  it('rejects callers without an active user in the tenant', async () => {
+    givenCaller(null);
+
+    const response = await handler(event);
+
+    expect(response.statusCode).toBe(403);
+    expect(createUser).not.toHaveBeenCalled();
+  });
+
+  it('rejects callers of a deactivated tenant before loading permissions', async () => {
+    mockQuery.mockResolvedValueOnce({
+      rows: [{ tenant_name: 'Acme', plan_tier: 'Standard', is_active: false }],
+    } as any);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const response = await handler(event);
+
+    expect(response.statusCode).toBe(403);
+    expect(parseBody(response).code).toBe('TENANT_INACTIVE');
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+});
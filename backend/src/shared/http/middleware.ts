@@ -0,0 +1,167 @@
+/**
+ * Composable route middleware
+ * Each wrapper checks one thing and hands an enriched request to the next:
+ *
+ *   withAuth(withActiveTenant(withPermission('users:write')(createUser)))
+ */
+
+import { Permission, requirePermission } from '../permissions';
+import { requireActiveTenant } from '../tenantGuard';
+import { ForbiddenError, UnauthorizedError } from './errors';
+import {
+  APIGatewayEvent,
+  AuthenticatedRequest,
+  Handler,
+  HttpRequest,
+  PlatformRequest,
+  PlatformRequestContext,
+  RequestContext,
+  TenantRequest,
+} from './types';
+
+/**
+ * Cognito group whose members may manage tenants
+ */
+const PLATFORM_ADMIN_GROUP = process.env.PLATFORM_ADMIN_GROUP || 'platform-admins';
+
+/**
+ * Extracts request context from the Cognito authorizer claims
+ *
+ * @throws UnauthorizedError if the authorizer or a required claim is missing
+ */
+export function getRequestContext(event: APIGatewayEvent): RequestContext {
+  const claims = event.requestContext?.authorizer?.claims;
+
+  if (!claims) {
+    throw new UnauthorizedError('Unauthorized: no claims found in authorizer');
+  }
+
+  if (!claims['custom:tenant_id']) {
+    throw new UnauthorizedError('Unauthorized: missing custom:tenant_id claim');
+  }
+
+  if (!claims.sub) {
+    throw new UnauthorizedError('Unauthorized: missing sub claim');
+  }
+
+  return {
+    tenantId: claims['custom:tenant_id'],
+    userId: claims.sub,
+    email: claims.email || '',
+    requestId: event.requestContext.requestId,
+  };
+}
+
+/**
+ * Requires a Cognito-authenticated tenant user
+ */
+export function withAuth<Params>(
+  handler: Handler<AuthenticatedRequest<Params>>
+): Handler<HttpRequest<Params>> {
+  return async (request) => handler({ ...request, context: getRequestContext(request.event) });
+}
+
+/**
+ * Requires the caller's tenant to be active and loads its plan entitlements
+ * Inactive tenants are rejected with 403 TENANT_INACTIVE
+ */
+export function withActiveTenant<Params>(
+  handler: Handler<TenantRequest<Params>>
+): Handler<AuthenticatedRequest<Params>> {
+  return async (request) =>
+    handler({ ...request, tenant: await requireActiveTenant(request.context.tenantId) });
+}
+
+/**
+ * Requires the caller to be an active user whose role grants `permission`
+ * (tenant admins hold every permission)
+ */
+export function withPermission(permission: Permission) {
+  return <Request extends AuthenticatedRequest<unknown>>(
+    handler: Handler<Request>
+  ): Handler<Request> =>
+    async (request) => {
+      await requirePermission(request.context.tenantId, request.context.userId, permission);
+      return handler(request);
+    };
+}
+
+/**
+ * Any user of an active tenant
+ */
+export function tenantRoute<Params>(
+  handler: Handler<TenantRequest<Params>>
+): Handler<HttpRequest<Params>> {
+  return withAuth(withActiveTenant(handler));
+}
+
+/**
+ * Users of an active tenant whose role grants `permission`
+ */
+export function permissionRoute<Params>(
+  permission: Permission,
+  handler: Handler<TenantRequest<Params>>
+): Handler<HttpRequest<Params>> {
+  return withAuth(withActiveTenant(withPermission(permission)(handler)));
+}
+
+/**
+ * Parses the cognito:groups claim
+ * API Gateway passes it as a string ("a,b" or "[a b]"); raw tokens carry an array
+ */
+function parseGroups(claim: string | string[] | undefined): string[] {
+  if (!claim) {
+    return [];
+  }
+
+  if (Array.isArray(claim)) {
+    return claim;
+  }
+
+  return claim
+    .replace(/^\[|\]$/g, '')
+    .split(/[,\s]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Extracts a platform operator's context from the Cognito authorizer claims
+ * Operators need no custom:tenant_id claim
+ *
+ * @throws UnauthorizedError if the authorizer or the sub claim is missing
+ */
+export function getPlatformContext(event: APIGatewayEvent): PlatformRequestContext {
+  const claims = event.requestContext?.authorizer?.claims;
+
+  if (!claims) {
+    throw new UnauthorizedError('Unauthorized: no claims found in authorizer');
+  }
+
+  if (!claims.sub) {
+    throw new UnauthorizedError('Unauthorized: missing sub claim');
+  }
+
+  return {
+    userId: claims.sub,
+    email: claims.email || '',
+    groups: parseGroups(claims['cognito:groups']),
+    requestId: event.requestContext.requestId,
+  };
+}
+
+/**
+ * Members of the platform operator Cognito group (PLATFORM_ADMIN_GROUP)
+ */
+export function platformRoute<Params>(
+  handler: Handler<PlatformRequest<Params>>
+): Handler<HttpRequest<Params>> {
+  return async (request) => {
+    const context = getPlatformContext(request.event);
+
+    if (!context.groups.includes(PLATFORM_ADMIN_GROUP)) {
+      throw new ForbiddenError('Insufficient permissions: platform operator required');
+    }
+
+    return handler({ ...request, context });
+  };
+}
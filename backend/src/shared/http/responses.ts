@@ -0,0 +1,49 @@
+/**
+ * JSON response builders
+ */
+
+import { codeForStatus, ErrorCode } from './codes';
+import { FieldIssue } from '../validation/schema';
+import { ErrorResponse, LambdaResponse } from './types';
+
+const JSON_HEADERS = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+};
+
+/**
+ * Creates a success response
+ */
+export function successResponse(statusCode: number, data: any): LambdaResponse {
+  return {
+    statusCode,
+    headers: { ...JSON_HEADERS },
+    body: JSON.stringify(data),
+  };
+}
+
+/**
+ * Creates an error response
+ * Without an explicit code, the generic code for the status is used
+ */
+export function errorResponse(
+  statusCode: number,
+  error: string,
+  field?: string,
+  retryable?: boolean,
+  code?: ErrorCode,
+  errors?: FieldIssue[]
+): LambdaResponse {
+  const errorBody: ErrorResponse = {
+    error,
+    code: code ?? codeForStatus(statusCode),
+    field,
+    retryable,
+    errors,
+  };
+  return {
+    statusCode,
+    headers: { ...JSON_HEADERS },
+    body: JSON.stringify(errorBody),
+  };
+}
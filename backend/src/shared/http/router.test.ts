@@ -0,0 +1,135 @@
+import { ConflictError } from './errors';
+import { successResponse } from './responses';
+import { createRouter, route } from './router';
+import { APIGatewayEvent } from './types';
+
+/**
+ * Builds an event the way API Gateway REST (resource) or HTTP API (path) sends it
+ */
+function event(method: string, fields: Partial<APIGatewayEvent>): APIGatewayEvent {
+  return {
+    httpMethod: method,
+    body: null,
+    pathParameters: null,
+    queryStringParameters: null,
+    requestContext: {},
+    ...fields,
+  };
+}
+
+function parseBody(response: { body: string }) {
+  return JSON.parse(response.body);
+}
+
+const handler = createRouter([
+  route('GET', '/users', async () => successResponse(200, { route: 'list' })),
+  route('GET', '/users/me', async () => successResponse(200, { route: 'me' })),
+  route('GET', '/users/{userId}', async (request) =>
+    successResponse(200, { route: 'get', userId: request.params.userId })
+  ),
+  route('DELETE', '/roles/{role}/metrics/{metricName}', async (request) =>
+    successResponse(200, { role: request.params.role, metricName: request.params.metricName })
+  ),
+  route('POST', '/users', async () => {
+    throw new ConflictError('User with this email already exists', 'email');
+  }),
+  route('PUT', '/users/{userId}', async () => {
+    throw new Error('connection refused');
+  }),
+]);
+
+describe('createRouter', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('route matching', () => {
+    it('matches REST API resource patterns exactly, using API Gateway path parameters', async () => {
+      const response = await handler(
+        event('GET', { resource: '/users/{userId}', pathParameters: { userId: 'U001' } })
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(parseBody(response)).toEqual({ route: 'get', userId: 'U001' });
+    });
+
+    it('prefers an exact pattern over a parameterised one', async () => {
+      const response = await handler(event('GET', { path: '/users/me' }));
+
+      expect(parseBody(response)).toEqual({ route: 'me' });
+    });
+
+    it('matches concrete paths segment by segment and decodes parameters', async () => {
+      const response = await handler(event('DELETE', { path: '/roles/Store%20Manager/metrics/revenue' }));
+
+      expect(response.statusCode).toBe(200);
+      expect(parseBody(response)).toEqual({ role: 'Store Manager', metricName: 'revenue' });
+    });
+
+    it('reduces HTTP API route keys to their path', async () => {
+      const response = await handler(
+        event('', {
+          httpMethod: undefined,
+          routeKey: 'GET /users',
+          requestContext: { http: { method: 'GET' } },
+        })
+      );
+
+      expect(parseBody(response)).toEqual({ route: 'list' });
+    });
+
+    it('returns 404 for an unknown path or a method the path does not have', async () => {
+      const unknownPath = await handler(event('GET', { path: '/tenants' }));
+      const unknownMethod = await handler(event('PATCH', { path: '/users' }));
+
+      expect(unknownPath.statusCode).toBe(404);
+      expect(unknownMethod.statusCode).toBe(404);
+      expect(parseBody(unknownPath).code).toBe('NOT_FOUND');
+    });
+
+    it('returns 400 when the method or path cannot be determined', async () => {
+      const response = await handler(event('GET', {}));
+
+      expect(response.statusCode).toBe(400);
+      expect(parseBody(response).code).toBe('VALIDATION_FAILED');
+    });
+
+    it('returns 400 on the parameter for malformed percent-encoding', async () => {
+      const response = await handler(event('GET', { path: '/users/%E0%A4%A' }));
+
+      expect(response.statusCode).toBe(400);
+      expect(parseBody(response)).toMatchObject({ code: 'VALIDATION_FAILED', field: 'userId' });
+    });
+  });
+
+  describe('error mapping', () => {
+    it('maps typed errors to their status, code and field', async () => {
+      const response = await handler(event('POST', { path: '/users' }));
+
+      expect(response.statusCode).toBe(409);
+      expect(parseBody(response)).toEqual({
+        error: 'User with this email already exists',
+        code: 'CONFLICT',
+        field: 'email',
+        retryable: false,
+      });
+    });
+
+    it('maps unexpected errors to a retryable 500 without internal details', async () => {
+      const response = await handler(event('PUT', { path: '/users/U001' }));
+
+      expect(response.statusCode).toBe(500);
+      expect(parseBody(response)).toEqual({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+        retryable: true,
+      });
+    });
+  });
+});
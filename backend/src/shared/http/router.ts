@@ -0,0 +1,167 @@
+/**
+ * Declarative router for API Gateway events
+ */
+
+import { toErrorResponse, ValidationError } from './errors';
+import { errorResponse } from './responses';
+import { APIGatewayEvent, Handler, HttpMethod, HttpRequest, LambdaResponse, PathParams } from './types';
+
+/**
+ * A method + path pattern bound to a handler
+ */
+export interface Route {
+  method: HttpMethod;
+  pattern: string;
+  matcher: RegExp;
+  paramNames: string[];
+  handler: Handler<HttpRequest<any>>;
+}
+
+/**
+ * Defines a route; the handler's params are typed from the pattern
+ *
+ * @param pattern - API Gateway resource path, e.g. /users/{userId}/role
+ */
+export function route<Pattern extends string>(
+  method: HttpMethod,
+  pattern: Pattern,
+  handler: Handler<HttpRequest<PathParams<Pattern>>>
+): Route {
+  const paramNames: string[] = [];
+  const source = pattern
+    .split('/')
+    .map((segment) => {
+      const param = segment.match(/^\{(\w+)\}$/);
+      if (param) {
+        paramNames.push(param[1]);
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+
+  return {
+    method,
+    pattern,
+    matcher: new RegExp(`^${source}$`),
+    paramNames,
+    handler: handler as Handler<HttpRequest<any>>,
+  };
+}
+
+/**
+ * Extracts the HTTP method - handles both REST API and HTTP API formats
+ */
+function getMethod(event: APIGatewayEvent): string | undefined {
+  return (
+    event.httpMethod ||
+    event.requestContext?.http?.method ||
+    event.requestContext?.httpMethod
+  )?.toUpperCase();
+}
+
+/**
+ * Extracts the resource path - handles both REST API and HTTP API formats
+ * HTTP API route keys ("GET /users/{userId}") are reduced to their path
+ */
+function getPath(event: APIGatewayEvent): string | undefined {
+  const routeKeyPath = event.routeKey?.split(' ').pop();
+  return event.resource || event.requestContext?.resourcePath || routeKeyPath || event.path;
+}
+
+/**
+ * Decodes a percent-encoded path segment
+ *
+ * @throws ValidationError (400) for malformed escapes such as %E0%A4%A
+ */
+function decodePathParam(name: string, value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch (error) {
+    if (error instanceof URIError) {
+      throw new ValidationError(`Path parameter ${name} is not valid URL encoding`, name);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Finds the route for a method and path
+ * Resource patterns match exactly; concrete paths match by segment, and
+ * routes are tried in the order they were declared
+ *
+ * @throws ValidationError (400) if a matched parameter cannot be decoded
+ */
+function matchRoute(
+  routes: Route[],
+  method: string,
+  path: string
+): { route: Route; params: { [key: string]: string } } | null {
+  const candidates = routes.filter((r) => r.method === method);
+
+  const exact = candidates.find((r) => r.pattern === path);
+  if (exact) {
+    return { route: exact, params: {} };
+  }
+
+  for (const candidate of candidates) {
+    const match = path.match(candidate.matcher);
+    if (match) {
+      const params: { [key: string]: string } = {};
+      candidate.paramNames.forEach((name, index) => {
+        params[name] = decodePathParam(name, match[index + 1]);
+      });
+      return { route: candidate, params };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Creates a Lambda handler that dispatches to the matching route
+ * Errors thrown by middleware or handlers are mapped by toErrorResponse
+ */
+export function createRouter(routes: Route[]): (event: APIGatewayEvent) => Promise<LambdaResponse> {
+  return async (event) => {
+    console.log('Received event:', JSON.stringify(event, null, 2));
+
+    const method = getMethod(event);
+    const path = getPath(event);
+
+    if (!method || !path) {
+      console.error('Unable to determine HTTP method or path from event');
+      return errorResponse(400, 'Invalid request format: unable to determine HTTP method or path');
+    }
+
+    console.log(`Routing request: ${method} ${path}`);
+
+    let matched: ReturnType<typeof matchRoute>;
+    try {
+      matched = matchRoute(routes, method, path);
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+
+    if (!matched) {
+      console.warn(`Route not found: ${method} ${path}`);
+      return errorResponse(404, 'Route not found');
+    }
+
+    const request: HttpRequest<{ [key: string]: string }> = {
+      event,
+      method: matched.route.method,
+      route: matched.route.pattern,
+      // API Gateway's decoded path parameters win over our own parsing
+      params: { ...matched.params, ...(event.pathParameters || {}) },
+      query: event.queryStringParameters || {},
+      body: event.body,
+    };
+
+    try {
+      return await matched.route.handler(request);
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  };
+}
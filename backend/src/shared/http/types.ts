@@ -0,0 +1,136 @@
+/**
+ * HTTP types shared by the API Lambdas
+ */
+
+import { TenantAccess } from '../tenantGuard';
+import { FieldIssue } from '../validation/schema';
+import { ErrorCode } from './codes';
+
+/**
+ * Cognito ID token claims passed through by the API Gateway authorizer
+ */
+export interface CognitoClaims {
+  sub: string;
+  email: string;
+  'custom:tenant_id': string;
+  'custom:role': string;
+  'cognito:groups'?: string | string[];
+}
+
+/**
+ * API Gateway Lambda event (REST API and HTTP API formats)
+ */
+export interface APIGatewayEvent {
+  body: string | null;
+  headers?: { [key: string]: string };
+  pathParameters: { [key: string]: string } | null;
+  queryStringParameters?: { [key: string]: string } | null;
+  httpMethod?: string;
+  resource?: string;
+  path?: string;
+  routeKey?: string;
+  requestContext: {
+    requestId?: string;
+    authorizer?: {
+      claims?: CognitoClaims;
+    };
+    http?: {
+      method: string;
+    };
+    httpMethod?: string;
+    resourcePath?: string;
+  };
+}
+
+/**
+ * Lambda response
+ */
+export interface LambdaResponse {
+  statusCode: number;
+  headers?: { [key: string]: string };
+  body: string;
+}
+
+/**
+ * Error response body
+ */
+export interface ErrorResponse {
+  error: string;
+  code: ErrorCode;
+  field?: string;
+  retryable?: boolean;
+  /** Every invalid field, for validation failures */
+  errors?: FieldIssue[];
+}
+
+/**
+ * Request context from API Gateway with Cognito authorizer
+ */
+export interface RequestContext {
+  tenantId: string;
+  userId: string;
+  email: string;
+  /** API Gateway request ID, recorded with audit events */
+  requestId?: string;
+}
+
+/**
+ * Request context for platform operators
+ * Platform operators are identified by Cognito group membership, not by a
+ * tenant role, so the context carries no tenant
+ */
+export interface PlatformRequestContext {
+  userId: string;
+  email: string;
+  groups: string[];
+  /** API Gateway request ID, recorded with audit events */
+  requestId?: string;
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Path parameters named in a route pattern
+ * e.g. PathParams<'/roles/{role}/metrics/{metricName}'> is
+ * { role: string } & { metricName: string }
+ */
+export type PathParams<Pattern extends string> =
+  Pattern extends `${string}{${infer Param}}${infer Rest}`
+    ? { [K in Param]: string } & PathParams<Rest>
+    : Record<never, never>;
+
+/**
+ * Request passed to route handlers
+ */
+export interface HttpRequest<Params> {
+  event: APIGatewayEvent;
+  method: HttpMethod;
+  /** Route pattern that matched, e.g. /users/{userId} */
+  route: string;
+  params: Params;
+  query: { [key: string]: string };
+  body: string | null;
+}
+
+/**
+ * Request after the auth middleware has read the caller's claims
+ */
+export interface AuthenticatedRequest<Params> extends HttpRequest<Params> {
+  context: RequestContext;
+}
+
+/**
+ * Request after the tenant middleware has checked the caller's tenant
+ */
+export interface TenantRequest<Params> extends AuthenticatedRequest<Params> {
+  tenant: TenantAccess;
+}
+
+/**
+ * Request after the platform middleware has checked the caller is an operator
+ */
+export interface PlatformRequest<Params> extends HttpRequest<Params> {
+  context: PlatformRequestContext;
+}
+
+export type Handler<Request> = (request: Request) => Promise<LambdaResponse>;
@@ -0,0 +1,88 @@
+import { query } from './db';
+import { ForbiddenError } from './http/errors';
+import { PERMISSIONS, Permission, isPermission } from './validation/permissions';
+
+export { PERMISSIONS, isPermission };
+export type { Permission };
+
+/**
+ * The caller's database user and the permissions their role grants
+ */
+export interface UserPermissions {
+  userId: string;
+  role: string;
+  isTenantAdmin: boolean;
+  permissions: Permission[];
+}
+
+/**
+ * Loads an active user's permissions from their role (roles.permissions)
+ * Tenant admins (users.is_tenant_admin) hold every permission
+ * Read on every request (not cached) so role changes take effect at once
+ *
+ * @param tenantId - Tenant ID from the caller's custom:tenant_id claim
+ * @param cognitoUserId - Caller's Cognito sub
+ * @throws ForbiddenError if the user is missing or not active
+ */
+export async function loadPermissions(
+  tenantId: string,
+  cognitoUserId: string
+): Promise<UserPermissions> {
+  const result = await query<{
+    user_id: string;
+    role: string;
+    is_tenant_admin: boolean;
+    permissions: string[] | null;
+  }>(
+    `SELECT u.user_id, u.role, u.is_tenant_admin, r.permissions
+     FROM users u
+     LEFT JOIN roles r ON r.tenant_id = u.tenant_id AND r.role = u.role
+     WHERE u.cognito_user_id = $1 AND u.tenant_id = $2 AND u.status = $3`,
+    [cognitoUserId, tenantId, 'Active']
+  );
+
+  if (result.rows.length === 0) {
+    console.error(`User validation failed: cognito_user_id=${cognitoUserId}, tenant_id=${tenantId}`);
+    throw new ForbiddenError(
+      'User not found or inactive. Please ensure your user account exists in the database.'
+    );
+  }
+
+  const user = result.rows[0];
+
+  return {
+    userId: user.user_id,
+    role: user.role,
+    isTenantAdmin: user.is_tenant_admin,
+    permissions: user.is_tenant_admin
+      ? [...PERMISSIONS]
+      : (user.permissions || []).filter(isPermission),
+  };
+}
+
+/**
+ * Checks that a user holds a permission
+ *
+ * @throws ForbiddenError if they do not
+ */
+export function assertPermission(user: UserPermissions, permission: Permission): void {
+  if (!user.permissions.includes(permission)) {
+    throw new ForbiddenError(`Insufficient permissions: ${permission} required`);
+  }
+}
+
+/**
+ * Loads the caller's permissions and checks one of them
+ * For Lambdas that are not on the shared router; routed handlers use withPermission
+ *
+ * @throws ForbiddenError if the user is inactive or lacks the permission
+ */
+export async function requirePermission(
+  tenantId: string,
+  cognitoUserId: string,
+  permission: Permission
+): Promise<UserPermissions> {
+  const user = await loadPermissions(tenantId, cognitoUserId);
+  assertPermission(user, permission);
+  return user;
+}
@@ -0,0 +1,148 @@
+import { query } from './db';
+
+/**
+ * Plan tiers stored in tenants.plan_tier
+ */
+export type PlanTier = 'Standard' | 'Premium' | 'Enterprise';
+
+/**
+ * What a plan tier allows. A null limit means unlimited.
+ */
+export interface PlanEntitlements {
+  maxUsers: number | null;
+  maxDashboards: number | null;
+  qnaEnabled: boolean;
+}
+
+export type PlanLimit = 'maxUsers' | 'maxDashboards';
+export type PlanFeature = 'qnaEnabled';
+
+/**
+ * Entitlements per plan tier
+ */
+export const PLAN_ENTITLEMENTS: Record<PlanTier, PlanEntitlements> = {
+  Standard: { maxUsers: 10, maxDashboards: 3, qnaEnabled: false },
+  Premium: { maxUsers: 50, maxDashboards: 10, qnaEnabled: true },
+  Enterprise: { maxUsers: null, maxDashboards: null, qnaEnabled: true },
+};
+
+/**
+ * Tier applied when tenants.plan_tier is empty or unrecognised
+ */
+export const DEFAULT_PLAN_TIER: PlanTier = 'Standard';
+
+/**
+ * Machine-readable codes returned in the `code` field of error responses
+ */
+export type TenantGuardErrorCode =
+  | 'TENANT_INACTIVE'
+  | 'PLAN_LIMIT_REACHED'
+  | 'PLAN_FEATURE_UNAVAILABLE';
+
+/**
+ * Raised when a tenant may not perform a request
+ * Handlers map it to `statusCode` with `code` in the response body
+ */
+export class TenantGuardError extends Error {
+  readonly statusCode = 403;
+
+  constructor(
+    readonly code: TenantGuardErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'TenantGuardError';
+  }
+}
+
+/**
+ * An active tenant and its plan entitlements
+ */
+export interface TenantAccess {
+  tenantId: string;
+  tenantName: string;
+  planTier: PlanTier;
+  entitlements: PlanEntitlements;
+}
+
+/**
+ * Resolves a plan_tier column value to a known tier
+ */
+export function resolvePlanTier(planTier: string | null | undefined): PlanTier {
+  if (planTier && planTier in PLAN_ENTITLEMENTS) {
+    return planTier as PlanTier;
+  }
+
+  if (planTier) {
+    console.warn(`Unknown plan tier "${planTier}", applying ${DEFAULT_PLAN_TIER}`);
+  }
+  return DEFAULT_PLAN_TIER;
+}
+
+/**
+ * Loads the caller's tenant and rejects it if deactivated or missing
+ * Read on every request (not cached) so deactivation takes effect at once,
+ * even for ID tokens issued before it
+ *
+ * @param tenantId - Tenant ID from the caller's custom:tenant_id claim
+ * @returns The tenant's plan tier and entitlements
+ * @throws TenantGuardError (TENANT_INACTIVE) if the tenant is inactive or missing
+ */
+export async function requireActiveTenant(tenantId: string): Promise<TenantAccess> {
+  const result = await query<{ tenant_name: string; plan_tier: string | null; is_active: boolean }>(
+    'SELECT tenant_name, plan_tier, is_active FROM tenants WHERE tenant_id = $1',
+    [tenantId]
+  );
+
+  if (result.rows.length === 0 || !result.rows[0].is_active) {
+    console.warn(`Rejected request for inactive or unknown tenant ${tenantId}`);
+    throw new TenantGuardError('TENANT_INACTIVE', "Your organization's account is deactivated");
+  }
+
+  const planTier = resolvePlanTier(result.rows[0].plan_tier);
+
+  return {
+    tenantId,
+    tenantName: result.rows[0].tenant_name,
+    planTier,
+    entitlements: PLAN_ENTITLEMENTS[planTier],
+  };
+}
+
+/**
+ * Checks that adding one more item stays within a plan limit
+ *
+ * @param currentCount - Items the tenant already has
+ * @param label - Plural noun for the error message, e.g. "users"
+ * @throws TenantGuardError (PLAN_LIMIT_REACHED) if the limit is already reached
+ */
+export function assertWithinPlanLimit(
+  access: TenantAccess,
+  limit: PlanLimit,
+  currentCount: number,
+  label: string
+): void {
+  const max = access.entitlements[limit];
+
+  if (max !== null && currentCount >= max) {
+    throw new TenantGuardError(
+      'PLAN_LIMIT_REACHED',
+      `Your ${access.planTier} plan allows up to ${max} ${label}`
+    );
+  }
+}
+
+/**
+ * Checks that the tenant's plan includes a feature
+ *
+ * @param label - Feature name for the error message, e.g. "Q&A"
+ * @throws TenantGuardError (PLAN_FEATURE_UNAVAILABLE) if it does not
+ */
+export function assertPlanFeature(access: TenantAccess, feature: PlanFeature, label: string): void {
+  if (!access.entitlements[feature]) {
+    throw new TenantGuardError(
+      'PLAN_FEATURE_UNAVAILABLE',
+      `${label} is not included in your ${access.planTier} plan`
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Administrative actions recorded in the audit log (audit_events)
+ *
+ * This module has no imports so the frontend can offer the same action and
+ * target filters the audit Lambda accepts
+ */
+
+export const AUDIT_ACTIONS = [
+  'user.created',
+  'user.role_changed',
+  'user.updated',
+  'user.deactivated',
+  'user.reactivated',
+  'user.deleted',
+  'user.restored',
+  'user.purged',
+  'role.created',
+  'role.updated',
+  'role.cloned',
+  'role.deleted',
+  'role.metrics_shown',
+  'role.metric_hidden',
+  'governance_rule.created',
+  'governance_rule.updated',
+  'governance_rule.deleted',
+  'tenant.updated',
+  'tenant.deactivated',
+  'tenant.reactivated',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+/**
+ * Descriptions shown for each action on the Audit page
+ */
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'user.created': 'User created',
+  'user.role_changed': 'User role changed',
+  'user.updated': 'User updated',
+  'user.deactivated': 'User deactivated',
+  'user.reactivated': 'User reactivated',
+  'user.deleted': 'User deleted',
+  'user.restored': 'User restored',
+  'user.purged': 'User purged',
+  'role.created': 'Role created',
+  'role.updated': 'Role updated',
+  'role.cloned': 'Role cloned',
+  'role.deleted': 'Role deleted',
+  'role.metrics_shown': 'Metrics shown to role',
+  'role.metric_hidden': 'Metric hidden from role',
+  'governance_rule.created': 'Governance rule created',
+  'governance_rule.updated': 'Governance rule updated',
+  'governance_rule.deleted': 'Governance rule deleted',
+  'tenant.updated': 'Tenant updated',
+  'tenant.deactivated': 'Tenant deactivated',
+  'tenant.reactivated': 'Tenant reactivated',
+};
+
+export const AUDIT_TARGET_TYPES = ['user', 'role', 'governance_rule', 'tenant'] as const;
+
+export type AuditTargetType = (typeof AUDIT_TARGET_TYPES)[number];
@@ -0,0 +1,65 @@
+import { ValidationError } from '../http/errors';
+import { parseBody } from './index';
+import { createUserSchema, updateUserSchema } from './schemas';
+
+/**
+ * Runs parseBody and returns the ValidationError it throws
+ */
+function parseError(body: string | null, schema = createUserSchema): ValidationError {
+  try {
+    parseBody(schema, body);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected parseBody to throw');
+}
+
+describe('parseBody', () => {
+  const validUser = {
+    email: 'manager@example.com',
+    password: 'SecurePass123',
+    role: 'Store Manager',
+  };
+
+  it('returns the parsed body when it satisfies the schema', () => {
+    expect(parseBody(createUserSchema, JSON.stringify(validUser))).toEqual(validUser);
+  });
+
+  it('requires a body', () => {
+    expect(parseError(null).message).toBe('Request body is required');
+    expect(parseError('').message).toBe('Request body is required');
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(parseError('{"email":').message).toBe('Request body must be valid JSON');
+  });
+
+  it('rejects JSON that is not an object', () => {
+    expect(parseError('[]').message).toBe('Request body must be a JSON object');
+    expect(parseError('"text"').message).toBe('Request body must be a JSON object');
+    expect(parseError('null').message).toBe('Request body must be a JSON object');
+  });
+
+  it('reports every invalid field, headed by the first', () => {
+    const error = parseError(JSON.stringify({ email: 'not-an-email', password: 'short' }));
+
+    expect(error.details.field).toBe('email');
+    expect(error.details.errors?.map((issue) => issue.field)).toEqual(['email', 'password', 'role']);
+  });
+
+  it('checks field types', () => {
+    const error = parseError(JSON.stringify({ ...validUser, is_tenant_admin: 'yes' }));
+
+    expect(error.details.errors).toEqual([
+      { field: 'is_tenant_admin', message: 'Tenant admin must be true or false' },
+    ]);
+  });
+
+  it('requires at least one field of a partial schema', () => {
+    expect(parseError('{}', updateUserSchema).details.field).toBeUndefined();
+    expect(parseBody(updateUserSchema, JSON.stringify({ region: 'NA' }))).toEqual({ region: 'NA' });
+  });
+});
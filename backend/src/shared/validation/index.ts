@@ -0,0 +1,64 @@
+/**
+ * Request validation for the API Lambdas
+ * schema.ts, schemas.ts, permissions.ts and audit.ts are also imported by the
+ * frontend;
+ * keep server-only helpers in this file
+ */
+
+import { ValidationError } from '../http/errors';
+import { Schema, validate } from './schema';
+
+export * from './schema';
+export * from './schemas';
+export * from './permissions';
+export * from './audit';
+
+/**
+ * Parses and validates a JSON request body
+ * Throws ValidationError (400) for a missing, malformed or invalid body,
+ * listing every invalid field
+ *
+ * @param schema - Schema the body must satisfy
+ * @param body - Raw request body
+ * @returns The parsed body
+ */
+export function parseBody<T>(schema: Schema, body: string | null | undefined): T {
+  if (!body) {
+    throw new ValidationError('Request body is required');
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new ValidationError('Request body must be valid JSON');
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+
+  const issues = validate(schema, data);
+  if (issues.length > 0) {
+    throw ValidationError.fromIssues(issues);
+  }
+
+  return data as T;
+}
+
+/**
+ * Validates path parameters
+ * Throws ValidationError (400) listing every invalid parameter
+ *
+ * @param schema - Schema the parameters must satisfy
+ * @param params - Path parameters from the route
+ * @returns The parameters, typed
+ */
+export function parseParams<T>(schema: Schema, params: object | null | undefined): T {
+  const issues = validate(schema, params);
+  if (issues.length > 0) {
+    throw ValidationError.fromIssues(issues);
+  }
+
+  return params as T;
+}
@@ -0,0 +1,33 @@
+/**
+ * Named permissions granted through roles (roles.permissions)
+ *
+ * This module has no imports so the frontend can drive menus and buttons
+ * from the same list the Lambdas check
+ */
+
+export const PERMISSIONS = [
+  'users:read',
+  'users:write',
+  'roles:write',
+  'dashboards:view',
+  'governance:write',
+  'audit:read',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Short descriptions shown next to each permission in the role forms
+ */
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'users:read': 'View users',
+  'users:write': 'Create, edit and delete users',
+  'roles:write': 'Manage roles and metric visibility',
+  'dashboards:view': 'View dashboards and KPIs',
+  'governance:write': 'Manage governance rules',
+  'audit:read': 'View the audit log',
+};
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && (PERMISSIONS as readonly string[]).includes(value);
+}
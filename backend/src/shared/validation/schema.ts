@@ -0,0 +1,182 @@
+/**
+ * Declarative request schemas
+ *
+ * This module has no imports so the frontend can validate its forms with the
+ * same schemas the Lambdas enforce
+ */
+
+/**
+ * A single validation failure
+ * `field` is omitted for failures that concern the body as a whole
+ */
+export interface FieldIssue {
+  field?: string;
+  message: string;
+}
+
+interface BaseField {
+  /** Name used in messages, e.g. "Email" */
+  label: string;
+  /** Reject missing values: undefined, null, blank strings and empty lists */
+  required?: boolean;
+  /** Message for a missing required value, defaults to "<label> is required" */
+  requiredMessage?: string;
+  /** Extra check run after the built-in ones; returns a message on failure */
+  check?: (value: any) => string | undefined;
+}
+
+export interface StringField extends BaseField {
+  type: 'string';
+  /** Length limits and pattern apply to the trimmed value, oneOf to the exact value */
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  /** Message when `pattern` does not match, defaults to "Invalid <label> format" */
+  patternMessage?: string;
+  oneOf?: readonly string[];
+}
+
+export interface BooleanField extends BaseField {
+  type: 'boolean';
+}
+
+export interface StringListField extends BaseField {
+  type: 'string[]';
+  /** Limit on each item's trimmed length */
+  maxItemLength?: number;
+}
+
+export type FieldSpec = StringField | BooleanField | StringListField;
+
+export interface Schema {
+  fields: Record<string, FieldSpec>;
+  /**
+   * Partial update: absent fields are skipped, at least one must be present,
+   * and required fields that are present must not be blank
+   */
+  partial?: boolean;
+}
+
+function isMissing(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && !value.trim()) ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function validateString(spec: StringField, value: unknown): string | undefined {
+  if (typeof value !== 'string') {
+    return `${spec.label} must be a string`;
+  }
+
+  const trimmed = value.trim();
+
+  if (spec.minLength !== undefined && trimmed.length < spec.minLength) {
+    return `${spec.label} must be at least ${spec.minLength} characters`;
+  }
+
+  if (spec.maxLength !== undefined && trimmed.length > spec.maxLength) {
+    return `${spec.label} must be at most ${spec.maxLength} characters`;
+  }
+
+  if (spec.pattern && !spec.pattern.test(trimmed)) {
+    return spec.patternMessage || `Invalid ${spec.label.toLowerCase()} format`;
+  }
+
+  if (spec.oneOf && !spec.oneOf.includes(value)) {
+    return `${spec.label} must be one of: ${spec.oneOf.join(', ')}`;
+  }
+
+  return undefined;
+}
+
+function validateStringList(spec: StringListField, value: unknown): string | undefined {
+  if (!Array.isArray(value)) {
+    return `${spec.label} must be a list`;
+  }
+
+  for (const item of value) {
+    if (typeof item !== 'string' || !item.trim()) {
+      return `${spec.label} must be non-empty strings`;
+    }
+
+    if (spec.maxItemLength !== undefined && item.trim().length > spec.maxItemLength) {
+      return `${spec.label} must be at most ${spec.maxItemLength} characters each`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Validates one value against its field spec
+ *
+ * @returns Error message if invalid, undefined otherwise
+ */
+export function validateField(spec: FieldSpec, value: unknown): string | undefined {
+  if (isMissing(value)) {
+    return spec.required ? spec.requiredMessage || `${spec.label} is required` : undefined;
+  }
+
+  let error: string | undefined;
+  switch (spec.type) {
+    case 'string':
+      error = validateString(spec, value);
+      break;
+    case 'boolean':
+      error = typeof value === 'boolean' ? undefined : `${spec.label} must be true or false`;
+      break;
+    case 'string[]':
+      error = validateStringList(spec, value);
+      break;
+  }
+
+  return error || spec.check?.(value);
+}
+
+/**
+ * Validates an object against a schema
+ * Every field is checked, so all failures are reported at once
+ *
+ * @param data - Parsed request body, path parameters or form state
+ * @returns One issue per invalid field; empty when valid
+ */
+export function validate(schema: Schema, data: unknown): FieldIssue[] {
+  const record = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  const names = Object.keys(schema.fields);
+
+  if (schema.partial && names.every((name) => record[name] === undefined)) {
+    return [{ message: `At least one of ${names.join(', ')} is required` }];
+  }
+
+  const issues: FieldIssue[] = [];
+  for (const name of names) {
+    if (schema.partial && record[name] === undefined) {
+      continue;
+    }
+
+    const message = validateField(schema.fields[name], record[name]);
+    if (message) {
+      issues.push({ field: name, message });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Indexes issues by field, for showing them next to form inputs
+ * Issues without a field are returned under `_form`
+ */
+export function issuesByField(issues: FieldIssue[]): Record<string, string> {
+  const byField: Record<string, string> = {};
+  for (const issue of issues) {
+    const key = issue.field || '_form';
+    if (!byField[key]) {
+      byField[key] = issue.message;
+    }
+  }
+  return byField;
+}
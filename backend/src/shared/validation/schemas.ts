@@ -0,0 +1,309 @@
+/**
+ * Request schemas shared with the frontend forms (UserForm, RoleForm, AuditLog)
+ * Limits mirror the column sizes in database/schema.sql
+ */
+
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from './audit';
+import { isPermission } from './permissions';
+import type { Schema } from './schema';
+
+/**
+ * Email validation regex (RFC 5322 simplified)
+ */
+export const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Password validation requirements:
+ * - Minimum 8 characters
+ * - At least one uppercase letter
+ * - At least one lowercase letter
+ * - At least one number
+ */
+export const PASSWORD_REGEX = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d).{8,}$/;
+
+/**
+ * User ID format used by users.user_id (e.g. U001)
+ */
+export const USER_ID_REGEX = /^U\d{3,9}$/;
+
+/**
+ * Built-in system role every tenant has (roles.is_system)
+ */
+export const ADMIN_ROLE = 'Admin';
+
+const MAX_EMAIL_LENGTH = 100;
+const MAX_ROLE_LENGTH = 20;
+const MAX_ROLE_DESCRIPTION_LENGTH = 255;
+const MAX_METRIC_NAME_LENGTH = 50;
+const MAX_REGION_LENGTH = 10;
+const MAX_STORE_ID_LENGTH = 10;
+const MAX_AUDIT_TARGET_ID_LENGTH = 100;
+const MAX_CURSOR_LENGTH = 500;
+
+/**
+ * Statuses a listed user can have (deleted users are not listed)
+ */
+export const USER_LIST_STATUSES = ['Active', 'Inactive'] as const;
+
+/**
+ * Columns GET /users can sort by
+ */
+export const USER_SORT_FIELDS = ['created_at', 'email', 'role', 'status'] as const;
+
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+
+/**
+ * Page size limits for GET /users
+ */
+export const DEFAULT_USER_PAGE_SIZE = 25;
+export const MAX_USER_PAGE_SIZE = 100;
+
+/**
+ * Page size limits for GET /audit
+ */
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+/**
+ * CSV columns POST /users/import accepts; email and role are required
+ */
+export const USER_IMPORT_COLUMNS = ['email', 'role', 'region', 'store_id', 'is_tenant_admin'] as const;
+
+/**
+ * Data rows per POST /users/import, so an import finishes within the
+ * API Gateway timeout
+ */
+export const MAX_USER_IMPORT_ROWS = 100;
+const MAX_USER_IMPORT_CSV_LENGTH = 50000;
+
+/**
+ * Date (2026-01-31) or ISO timestamp accepted by the audit date filters
+ */
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * POST /users
+ */
+export const createUserSchema: Schema = {
+  fields: {
+    email: {
+      type: 'string',
+      label: 'Email',
+      required: true,
+      maxLength: MAX_EMAIL_LENGTH,
+      pattern: EMAIL_REGEX,
+    },
+    password: {
+      type: 'string',
+      label: 'Password',
+      required: true,
+      pattern: PASSWORD_REGEX,
+      patternMessage: 'Password must be at least 8 characters with uppercase, lowercase, and numbers',
+    },
+    role: { type: 'string', label: 'Role', required: true, maxLength: MAX_ROLE_LENGTH },
+    region: { type: 'string', label: 'Region', maxLength: MAX_REGION_LENGTH },
+    store_id: { type: 'string', label: 'Store ID', maxLength: MAX_STORE_ID_LENGTH },
+    is_tenant_admin: { type: 'boolean', label: 'Tenant admin' },
+  },
+};
+
+/**
+ * GET /users query string
+ * `email` matches a substring, case-insensitively; `cursor` is the
+ * next_cursor of the previous page and only valid with the same sort
+ */
+export const listUsersQuerySchema: Schema = {
+  fields: {
+    role: { type: 'string', label: 'Role', maxLength: MAX_ROLE_LENGTH },
+    status: { type: 'string', label: 'Status', oneOf: USER_LIST_STATUSES },
+    region: { type: 'string', label: 'Region', maxLength: MAX_REGION_LENGTH },
+    store_id: { type: 'string', label: 'Store ID', maxLength: MAX_STORE_ID_LENGTH },
+    email: { type: 'string', label: 'Email', maxLength: MAX_EMAIL_LENGTH },
+    sortBy: { type: 'string', label: 'Sort field', oneOf: USER_SORT_FIELDS },
+    sortOrder: { type: 'string', label: 'Sort order', oneOf: SORT_ORDERS },
+    limit: {
+      type: 'string',
+      label: 'Limit',
+      pattern: /^\d+$/,
+      check: (value: string) =>
+        Number(value) < 1 || Number(value) > MAX_USER_PAGE_SIZE
+          ? `Limit must be between 1 and ${MAX_USER_PAGE_SIZE}`
+          : undefined,
+    },
+    cursor: { type: 'string', label: 'Cursor', maxLength: MAX_CURSOR_LENGTH },
+  },
+};
+
+/**
+ * PUT /users/{userId}/role
+ */
+export const updateUserRoleSchema: Schema = {
+  fields: {
+    role: { type: 'string', label: 'Role', required: true, maxLength: MAX_ROLE_LENGTH },
+  },
+};
+
+/**
+ * PATCH /users/{userId}
+ * A null or blank region or store_id clears it
+ */
+export const updateUserSchema: Schema = {
+  partial: true,
+  fields: {
+    role: createUserSchema.fields.role,
+    region: createUserSchema.fields.region,
+    store_id: createUserSchema.fields.store_id,
+    is_tenant_admin: createUserSchema.fields.is_tenant_admin,
+  },
+};
+
+/**
+ * POST /users/{userId}/restore
+ * The old Cognito account was deleted, so a new temporary password is needed;
+ * role defaults to the user's role before deletion
+ */
+export const restoreUserSchema: Schema = {
+  fields: {
+    password: createUserSchema.fields.password,
+    role: { type: 'string', label: 'Role', maxLength: MAX_ROLE_LENGTH },
+  },
+};
+
+/**
+ * POST /users/import
+ * `csv` has a header row naming USER_IMPORT_COLUMNS; with dry_run nothing is
+ * created and every row is only validated
+ */
+export const importUsersSchema: Schema = {
+  fields: {
+    csv: { type: 'string', label: 'CSV', required: true, maxLength: MAX_USER_IMPORT_CSV_LENGTH },
+    dry_run: { type: 'boolean', label: 'Dry run' },
+  },
+};
+
+/**
+ * One row of a POST /users/import CSV, once is_tenant_admin is parsed
+ * Imported users get a Cognito invitation email instead of a password
+ */
+export const importUserRowSchema: Schema = {
+  fields: {
+    email: createUserSchema.fields.email,
+    role: createUserSchema.fields.role,
+    region: createUserSchema.fields.region,
+    store_id: createUserSchema.fields.store_id,
+    is_tenant_admin: createUserSchema.fields.is_tenant_admin,
+  },
+};
+
+/**
+ * {userId} path parameter
+ */
+export const userParamsSchema: Schema = {
+  fields: {
+    userId: { type: 'string', label: 'User ID', required: true, pattern: USER_ID_REGEX },
+  },
+};
+
+/**
+ * POST /roles
+ */
+export const createRoleSchema: Schema = {
+  fields: {
+    role: { type: 'string', label: 'Role name', required: true, maxLength: MAX_ROLE_LENGTH },
+    description: { type: 'string', label: 'Description', maxLength: MAX_ROLE_DESCRIPTION_LENGTH },
+    metrics: {
+      type: 'string[]',
+      label: 'Metrics',
+      required: true,
+      requiredMessage: 'At least one metric is required',
+      maxItemLength: MAX_METRIC_NAME_LENGTH,
+    },
+    permissions: {
+      type: 'string[]',
+      label: 'Permissions',
+      check: (permissions: string[]) => {
+        const unknown = permissions.find((permission) => !isPermission(permission));
+        return unknown === undefined ? undefined : `Unknown permission: ${unknown}`;
+      },
+    },
+  },
+};
+
+/**
+ * PATCH /roles/{role}
+ * Renaming cascades to users, dashboards and Q&A topics
+ */
+export const updateRoleSchema: Schema = {
+  partial: true,
+  fields: {
+    role: createRoleSchema.fields.role,
+    description: createRoleSchema.fields.description,
+    permissions: createRoleSchema.fields.permissions,
+  },
+};
+
+/**
+ * POST /roles/{role}/clone
+ * The description defaults to the source role's
+ */
+export const cloneRoleSchema: Schema = {
+  fields: {
+    role: createRoleSchema.fields.role,
+    description: createRoleSchema.fields.description,
+  },
+};
+
+/**
+ * POST /roles/{role}/metrics
+ */
+export const addMetricsSchema: Schema = {
+  fields: {
+    metrics: createRoleSchema.fields.metrics,
+  },
+};
+
+/**
+ * {role} and {metricName} path parameters
+ */
+export const roleParamsSchema: Schema = {
+  fields: {
+    role: { type: 'string', label: 'Role', required: true, maxLength: MAX_ROLE_LENGTH },
+    metricName: { type: 'string', label: 'Metric name', maxLength: MAX_METRIC_NAME_LENGTH },
+  },
+};
+
+/**
+ * GET /audit query string
+ * `actor` matches the acting user's ID or email; `cursor` is the
+ * next_cursor of the previous page
+ */
+export const auditQuerySchema: Schema = {
+  fields: {
+    action: { type: 'string', label: 'Action', oneOf: AUDIT_ACTIONS },
+    targetType: { type: 'string', label: 'Target type', oneOf: AUDIT_TARGET_TYPES },
+    targetId: { type: 'string', label: 'Target', maxLength: MAX_AUDIT_TARGET_ID_LENGTH },
+    actor: { type: 'string', label: 'Actor', maxLength: MAX_EMAIL_LENGTH },
+    from: {
+      type: 'string',
+      label: 'From',
+      pattern: ISO_DATE_REGEX,
+      check: (value: string) => (isNaN(Date.parse(value)) ? 'From must be a valid date' : undefined),
+    },
+    to: {
+      type: 'string',
+      label: 'To',
+      pattern: ISO_DATE_REGEX,
+      check: (value: string) => (isNaN(Date.parse(value)) ? 'To must be a valid date' : undefined),
+    },
+    limit: {
+      type: 'string',
+      label: 'Limit',
+      pattern: /^\d+$/,
+      check: (value: string) =>
+        Number(value) < 1 || Number(value) > MAX_AUDIT_PAGE_SIZE
+          ? `Limit must be between 1 and ${MAX_AUDIT_PAGE_SIZE}`
+          : undefined,
+    },
+    cursor: { type: 'string', label: 'Cursor', pattern: /^\d{1,18}$/ },
+  },
+};
@@ -0,0 +1,43 @@
+/**
+ * AWS Cognito integration for tenant management
+ */
+
+import {
+  CognitoIdentityProviderClient,
+  AdminUserGlobalSignOutCommand,
+} from '@aws-sdk/client-cognito-identity-provider';
+
+const cognitoClient = new CognitoIdentityProviderClient({ region: process.env.AWS_REGION || 'us-east-1' });
+
+const USER_POOL_ID = process.env.COGNITO_USER_POOL_ID;
+
+if (!USER_POOL_ID) {
+  throw new Error('COGNITO_USER_POOL_ID environment variable is required');
+}
+
+/**
+ * Signs a user out of all devices by revoking their refresh tokens
+ * Issued ID tokens stay valid until they expire (1 hour)
+ *
+ * @param cognitoUserId - Cognito username
+ */
+export async function globalSignOutCognitoUser(cognitoUserId: string): Promise<void> {
+  try {
+    const command = new AdminUserGlobalSignOutCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: cognitoUserId,
+    });
+
+    await cognitoClient.send(command);
+  } catch (error: any) {
+    console.error('Error signing out Cognito user:', error);
+
+    if (error.name === 'UserNotFoundException') {
+      // Nothing to revoke
+      console.warn('User not found in Cognito, skipping sign-out');
+      return;
+    }
+
+    throw new Error(`Failed to sign out Cognito user: ${error.message}`);
+  }
+}
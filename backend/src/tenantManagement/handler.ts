@@ -0,0 +1,341 @@
+/**
+ * Tenant Management Lambda Handler
+ * Platform-operator API for creating, updating and deactivating tenants
+ */
+
+import { recordAuditEvent } from "../shared/audit";
+import { query, withTransaction } from "../shared/db";
+import {
+  ConflictError,
+  LambdaResponse,
+  NotFoundError,
+  PlatformRequest,
+  successResponse,
+  toErrorResponse,
+} from "../shared/http";
+import {
+  ADMIN_ROLE,
+  parseBody,
+  parseParams,
+  PERMISSIONS,
+} from "../shared/validation";
+import { insertUser } from "../userManagement/insertUser";
+import { globalSignOutCognitoUser } from "./cognito";
+import {
+  createTenantSchema,
+  updateTenantSchema,
+  tenantParamsSchema,
+  normalizeOptionalText,
+} from "./validation";
+import {
+  Tenant,
+  CreateTenantRequest,
+  CreateTenantResponse,
+  UpdateTenantRequest,
+  ListTenantsResponse,
+} from "./types";
+
+const TENANT_COLUMNS =
+  "tenant_id, tenant_name, industry, plan_tier, country, created_date, is_active, created_at, updated_at";
+
+/**
+ * Checks that no other tenant has the name, ignoring case
+ *
+ * @param excludeTenantId - Tenant being renamed, which may keep its own name
+ * @throws ConflictError (409) if the name is taken
+ */
+async function assertTenantNameAvailable(
+  tenantName: string,
+  excludeTenantId?: string,
+): Promise<void> {
+  const existingTenant = await query<{ tenant_id: string }>(
+    "SELECT tenant_id FROM tenants WHERE LOWER(tenant_name) = LOWER($1) AND tenant_id IS DISTINCT FROM $2",
+    [tenantName, excludeTenantId ?? null],
+  );
+
+  if (existingTenant.rows.length > 0) {
+    throw new ConflictError(
+      "Tenant with this name already exists",
+      "tenant_name",
+    );
+  }
+}
+
+/**
+ * Revokes refresh tokens for every non-deleted user of a tenant
+ * Failures are logged and counted; deactivation itself has already been saved
+ *
+ * @returns Number of users signed out
+ */
+async function signOutTenantUsers(tenantId: string): Promise<number> {
+  const result = await query<{ cognito_user_id: string }>(
+    "SELECT cognito_user_id FROM users WHERE tenant_id = $1 AND status != $2 AND cognito_user_id IS NOT NULL",
+    [tenantId, "Deleted"],
+  );
+
+  const outcomes = await Promise.allSettled(
+    result.rows.map((row) => globalSignOutCognitoUser(row.cognito_user_id)),
+  );
+
+  const failed = outcomes.filter((outcome) => outcome.status === "rejected");
+  if (failed.length > 0) {
+    console.error(
+      `Failed to sign out ${failed.length} of ${outcomes.length} users in tenant ${tenantId}`,
+    );
+  }
+
+  return outcomes.length - failed.length;
+}
+
+/**
+ * Lists all tenants with their user counts
+ * GET /tenants
+ */
+export async function listTenants(
+  _request: PlatformRequest<unknown>,
+): Promise<LambdaResponse> {
+  try {
+    const result = await query<Tenant>(
+      `SELECT ${TENANT_COLUMNS},
+              (SELECT COUNT(*)::INTEGER FROM users
+               WHERE users.tenant_id = tenants.tenant_id AND users.status != $1) AS user_count
+       FROM tenants
+       ORDER BY tenant_id`,
+      ["Deleted"],
+    );
+
+    const response: ListTenantsResponse = {
+      tenants: result.rows,
+      count: result.rowCount,
+    };
+
+    return successResponse(200, response);
+  } catch (error: any) {
+    console.error("Error listing tenants:", error);
+    return toErrorResponse(error, "Failed to list tenants");
+  }
+}
+
+/**
+ * Creates a new tenant
+ * POST /tenants
+ */
+export async function createTenant(
+  request: PlatformRequest<unknown>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const requestData = parseBody<CreateTenantRequest>(
+      createTenantSchema,
+      request.body,
+    );
+
+    const tenantName = requestData.tenant_name.trim();
+    await assertTenantNameAvailable(tenantName);
+
+    // Emails identify one user across all tenants
+    const adminEmail = requestData.admin_email?.trim() || null;
+    if (adminEmail) {
+      const existingUser = await query(
+        "SELECT 1 FROM users WHERE LOWER(email) = LOWER($1)",
+        [adminEmail],
+      );
+      if (existingUser.rows.length > 0) {
+        throw new ConflictError(
+          "User with this email already exists",
+          "admin_email",
+        );
+      }
+    }
+
+    const response = await withTransaction(async (client) => {
+      // Serialize ID generation so concurrent creates cannot pick the same ID
+      await client.query("LOCK TABLE tenants IN SHARE ROW EXCLUSIVE MODE");
+
+      const tenantIdResult = await client.query<{ tenant_id: string }>(
+        `SELECT 'T' || LPAD(
+          (COALESCE(MAX(SUBSTRING(tenant_id FROM 2)::INTEGER), 0) + 1)::TEXT,
+          GREATEST(LENGTH(COALESCE(MAX(SUBSTRING(tenant_id FROM 2)), '000')), 3),
+          '0'
+        ) AS tenant_id
+         FROM tenants WHERE tenant_id ~ '^T[0-9]+$'`,
+      );
+      const tenantId = tenantIdResult.rows[0]?.tenant_id || "T001";
+
+      const insertResult = await client.query<Tenant>(
+        `INSERT INTO tenants (tenant_id, tenant_name, industry, plan_tier, country, created_date, is_active)
+         VALUES ($1, $2, $3, $4, $5, CURRENT_DATE, TRUE)
+         RETURNING ${TENANT_COLUMNS}`,
+        [
+          tenantId,
+          tenantName,
+          normalizeOptionalText(requestData.industry),
+          requestData.plan_tier,
+          normalizeOptionalText(requestData.country),
+        ],
+      );
+
+      // Every tenant starts with the built-in Admin role, which holds
+      // every permission
+      await client.query(
+        `INSERT INTO roles (tenant_id, role, description, permissions, is_system)
+         VALUES ($1, $2, $3, $4, TRUE)`,
+        [
+          tenantId,
+          ADMIN_ROLE,
+          "Full access to user, role and governance management",
+          [...PERMISSIONS],
+        ],
+      );
+
+      // The first tenant admin signs in with the temporary password Cognito
+      // emails them, then manages the tenant's other users
+      const adminUser = adminEmail
+        ? await insertUser(
+            client,
+            { ...context, tenantId },
+            {
+              email: adminEmail,
+              password: null,
+              role: ADMIN_ROLE,
+              is_tenant_admin: true,
+            },
+          )
+        : null;
+
+      const created: CreateTenantResponse = {
+        ...insertResult.rows[0],
+        user_count: adminUser ? 1 : 0,
+        admin_user: adminUser,
+      };
+      return created;
+    });
+
+    console.log(
+      `Tenant created: ${response.tenant_id} (${response.tenant_name}) by ${context.email || context.userId}`,
+    );
+    return successResponse(201, response);
+  } catch (error: any) {
+    console.error("Error creating tenant:", error);
+    return toErrorResponse(error, "Failed to create tenant");
+  }
+}
+
+/**
+ * Updates tenant details and activation state
+ * PATCH /tenants/{tenantId}
+ *
+ * Deactivating a tenant blocks login (Cognito pre-authentication trigger) and
+ * embed URL generation for all of its users, and revokes their refresh tokens
+ */
+export async function updateTenant(
+  request: PlatformRequest<{ tenantId: string }>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const { tenantId } = parseParams<{ tenantId: string }>(
+      tenantParamsSchema,
+      request.params,
+    );
+    const requestData = parseBody<UpdateTenantRequest>(
+      updateTenantSchema,
+      request.body,
+    );
+
+    const current = await query<Tenant>(
+      `SELECT ${TENANT_COLUMNS} FROM tenants WHERE tenant_id = $1`,
+      [tenantId],
+    );
+
+    if (current.rows.length === 0) {
+      throw new NotFoundError("Tenant not found");
+    }
+
+    // Renames follow the same case-insensitive uniqueness rule as creates
+    if (requestData.tenant_name !== undefined) {
+      await assertTenantNameAvailable(requestData.tenant_name.trim(), tenantId);
+    }
+
+    // Only columns present in the body are updated; null clears optional text
+    const updates: Array<[string, unknown]> = [];
+    if (requestData.tenant_name !== undefined) {
+      updates.push(["tenant_name", requestData.tenant_name.trim()]);
+    }
+    if (requestData.industry !== undefined) {
+      updates.push(["industry", normalizeOptionalText(requestData.industry)]);
+    }
+    if (requestData.plan_tier !== undefined) {
+      updates.push(["plan_tier", requestData.plan_tier]);
+    }
+    if (requestData.country !== undefined) {
+      updates.push(["country", normalizeOptionalText(requestData.country)]);
+    }
+    if (requestData.is_active !== undefined) {
+      updates.push(["is_active", requestData.is_active]);
+    }
+
+    const setClause = updates
+      .map(([column], index) => `${column} = $${index + 2}`)
+      .join(", ");
+
+    const tenant = await withTransaction(async (client) => {
+      const result = await client.query<Tenant>(
+        `UPDATE tenants SET ${setClause}
+         WHERE tenant_id = $1
+         RETURNING ${TENANT_COLUMNS}`,
+        [tenantId, ...updates.map(([, value]) => value)],
+      );
+      const updated = result.rows[0];
+
+      // Recorded in the tenant's own audit log so its admins can see plan
+      // and activation changes made by platform operators
+      const changed = updates
+        .map(([column]) => column as keyof Tenant)
+        .filter((column) => updated[column] !== current.rows[0][column]);
+
+      if (changed.length > 0) {
+        const pick = (record: Tenant) =>
+          Object.fromEntries(changed.map((column) => [column, record[column]]));
+
+        await recordAuditEvent(
+          client,
+          { ...request.context, tenantId },
+          {
+            action: !changed.includes("is_active")
+              ? "tenant.updated"
+              : updated.is_active
+                ? "tenant.reactivated"
+                : "tenant.deactivated",
+            targetType: "tenant",
+            targetId: tenantId,
+            before: pick(current.rows[0]),
+            after: pick(updated),
+          },
+        );
+      }
+
+      return updated;
+    });
+
+    const deactivated = current.rows[0].is_active && !tenant.is_active;
+
+    let sessionsRevoked = 0;
+    if (deactivated) {
+      sessionsRevoked = await signOutTenantUsers(tenantId);
+    }
+
+    console.log(
+      `Tenant updated: ${tenantId} by ${context.email || context.userId}` +
+        (deactivated
+          ? ` (deactivated, ${sessionsRevoked} users signed out)`
+          : ""),
+    );
+    return successResponse(200, {
+      ...tenant,
+      ...(deactivated && { sessions_revoked: sessionsRevoked }),
+    });
+  } catch (error: any) {
+    console.error("Error updating tenant:", error);
+    return toErrorResponse(error, "Failed to update tenant");
+  }
+}
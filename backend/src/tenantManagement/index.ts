@@ -0,0 +1,21 @@
+/**
+ * Tenant Management Lambda Entry Point
+ * Routes requests to appropriate handlers based on HTTP method and path
+ */
+
+import { createRouter, platformRoute, route } from '../shared/http';
+import { listTenants, createTenant, updateTenant } from './handler';
+
+/**
+ * Lambda handler function
+ * Routes requests based on HTTP method and resource path
+ * Every route is limited to platform operators
+ */
+export const handler = createRouter([
+  route('GET', '/tenants', platformRoute(listTenants)),
+  route('POST', '/tenants', platformRoute(createTenant)),
+  route('PATCH', '/tenants/{tenantId}', platformRoute(updateTenant)),
+]);
+
+// Export handler functions for testing
+export { listTenants, createTenant, updateTenant };
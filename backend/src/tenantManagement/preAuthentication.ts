@@ -0,0 +1,37 @@
+/**
+ * Cognito Pre Authentication trigger
+ * Blocks sign-in for users whose tenant is deactivated or missing
+ */
+
+import { requireActiveTenant, TenantGuardError } from "../shared/tenantGuard";
+import { PreAuthenticationTriggerEvent } from "./types";
+
+/**
+ * Lambda handler function
+ * Throwing rejects the sign-in; Cognito returns the message to the client
+ * prefixed with "PreAuthentication failed with error"
+ */
+export async function handler(
+  event: PreAuthenticationTriggerEvent,
+): Promise<PreAuthenticationTriggerEvent> {
+  const tenantId = event.request.userAttributes["custom:tenant_id"];
+
+  // Platform operators are not tied to a tenant
+  if (!tenantId) {
+    return event;
+  }
+
+  try {
+    await requireActiveTenant(tenantId);
+  } catch (error) {
+    if (error instanceof TenantGuardError) {
+      console.warn(
+        `Sign-in blocked for ${event.userName}: tenant ${tenantId} is inactive or missing`,
+      );
+      throw new Error("Your organization's account is deactivated.");
+    }
+    throw error;
+  }
+
+  return event;
+}
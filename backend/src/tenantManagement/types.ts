@@ -0,0 +1,81 @@
+/**
+ * Tenant Management Types
+ * ShopPulse Analytics - Platform-operator tenant administration
+ */
+
+import { PlanTier } from '../shared/tenantGuard';
+import { CreateUserResponse } from '../userManagement/types';
+
+/**
+ * Plan tiers offered to tenants (entitlements live in the shared tenant guard)
+ */
+export type { PlanTier };
+
+/**
+ * Tenant data structure from database
+ */
+export interface Tenant {
+  tenant_id: string;
+  tenant_name: string;
+  industry: string | null;
+  plan_tier: PlanTier | null;
+  country: string | null;
+  created_date: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  user_count?: number;
+}
+
+/**
+ * Create tenant request body
+ */
+export interface CreateTenantRequest {
+  tenant_name: string;
+  industry?: string;
+  plan_tier: PlanTier;
+  country?: string;
+  /** Email of the tenant's first tenant admin, invited by Cognito */
+  admin_email?: string;
+}
+
+/**
+ * Create tenant response
+ * admin_user is null when no admin_email was given
+ */
+export interface CreateTenantResponse extends Tenant {
+  admin_user: CreateUserResponse | null;
+}
+
+/**
+ * Update tenant request body
+ * Setting is_active to false deactivates the tenant
+ */
+export interface UpdateTenantRequest {
+  tenant_name?: string;
+  industry?: string | null;
+  plan_tier?: PlanTier;
+  country?: string | null;
+  is_active?: boolean;
+}
+
+/**
+ * List tenants response
+ */
+export interface ListTenantsResponse {
+  tenants: Tenant[];
+  count: number;
+}
+
+/**
+ * Cognito Pre Authentication trigger event (fields used by the tenant check)
+ */
+export interface PreAuthenticationTriggerEvent {
+  triggerSource: string;
+  userPoolId: string;
+  userName: string;
+  request: {
+    userAttributes: { [key: string]: string };
+  };
+  response: Record<string, never>;
+}
@@ -0,0 +1,85 @@
+/**
+ * Validation utilities for tenant management
+ */
+
+import { PLAN_ENTITLEMENTS } from '../shared/tenantGuard';
+import { createUserSchema, Schema } from '../shared/validation';
+import { PlanTier } from './types';
+
+/**
+ * Valid plan tiers
+ */
+export const VALID_PLAN_TIERS = Object.keys(PLAN_ENTITLEMENTS) as readonly PlanTier[];
+
+/**
+ * Tenant ID format used by tenants.tenant_id (e.g. T001)
+ */
+const TENANT_ID_REGEX = /^T\d{3,9}$/;
+
+/**
+ * Column limits from schema.sql
+ */
+const MAX_TENANT_NAME_LENGTH = 100;
+const MAX_INDUSTRY_LENGTH = 50;
+const MAX_COUNTRY_LENGTH = 50;
+
+/**
+ * {tenantId} path parameter
+ */
+export const tenantParamsSchema: Schema = {
+  fields: {
+    tenantId: { type: 'string', label: 'Tenant ID', required: true, pattern: TENANT_ID_REGEX },
+  },
+};
+
+/**
+ * Fields a tenant can be created with and later updated
+ */
+const tenantFields: Schema['fields'] = {
+  tenant_name: {
+    type: 'string',
+    label: 'Tenant name',
+    required: true,
+    maxLength: MAX_TENANT_NAME_LENGTH,
+  },
+  plan_tier: { type: 'string', label: 'Plan tier', required: true, oneOf: VALID_PLAN_TIERS },
+  industry: { type: 'string', label: 'Industry', maxLength: MAX_INDUSTRY_LENGTH },
+  country: { type: 'string', label: 'Country', maxLength: MAX_COUNTRY_LENGTH },
+};
+
+/**
+ * POST /tenants
+ * admin_email, when given, becomes the tenant's first tenant admin
+ */
+export const createTenantSchema: Schema = {
+  fields: {
+    ...tenantFields,
+    admin_email: { ...createUserSchema.fields.email, label: 'Admin email', required: false },
+  },
+};
+
+/**
+ * PATCH /tenants/{tenantId}
+ * Only fields present in the body are updated; null clears optional text
+ */
+export const updateTenantSchema: Schema = {
+  partial: true,
+  fields: {
+    ...tenantFields,
+    is_active: { type: 'boolean', label: 'is_active', required: true },
+  },
+};
+
+/**
+ * Trims optional text, storing empty strings as NULL
+ *
+ * @param value - Raw value from the request
+ * @returns Trimmed value or null
+ */
+export function normalizeOptionalText(value: string | null | undefined): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed ? trimmed : null;
+}
@@ -6,10 +6,20 @@ import {
   CognitoIdentityProviderClient,
   AdminCreateUserCommand,
   AdminUpdateUserAttributesCommand,
+  AdminDeleteUserAttributesCommand,
   AdminDeleteUserCommand,
+  AdminDisableUserCommand,
+  AdminEnableUserCommand,
   AdminGetUserCommand,
   AttributeType,
 } from '@aws-sdk/client-cognito-identity-provider';
+import {
+  ConflictError,
+  NotFoundError,
+  ThrottledError,
+  UpstreamError,
+  ValidationError,
+} from '../shared/http';
 
 const cognitoClient = new CognitoIdentityProviderClient({ region: process.env.AWS_REGION || 'us-east-1' });
 
@@ -19,20 +29,48 @@ if (!USER_POOL_ID) {
   throw new Error('COGNITO_USER_POOL_ID environment variable is required');
 }
 
+/**
+ * Maps Cognito failures that are not specific to one call
+ */
+function toUpstreamError(error: any, action: string): Error {
+  if (error.name === 'TooManyRequestsException') {
+    return new ThrottledError();
+  }
+
+  return new UpstreamError(`Failed to ${action} Cognito user: ${error.message}`);
+}
+
+/**
+ * User profile fields mirrored into Cognito custom attributes
+ * (custom:role, custom:region, custom:store_id)
+ * is_tenant_admin is not mirrored: permissions are always read from the database
+ */
+export interface CognitoUserProfile {
+  role?: string;
+  /** null removes the attribute */
+  region?: string | null;
+  /** null removes the attribute */
+  store_id?: string | null;
+}
+
 /**
  * Creates a user in Cognito User Pool
  * 
+ * Without a password Cognito generates one and emails the user an invitation
+ * 
  * @param email - User email address
- * @param password - Temporary password
+ * @param password - Temporary password, or null to send an invitation
  * @param tenantId - Tenant ID to associate with user
  * @param role - User role
+ * @param profile - Optional region and store ID
  * @returns Cognito user ID (sub)
  */
 export async function createCognitoUser(
   email: string,
-  password: string,
+  password: string | null,
   tenantId: string,
-  role: string
+  role: string,
+  profile: Pick<CognitoUserProfile, 'region' | 'store_id'> = {}
 ): Promise<string> {
   try {
     const command = new AdminCreateUserCommand({
@@ -43,37 +81,44 @@ export async function createCognitoUser(
         { Name: 'email_verified', Value: 'true' },
         { Name: 'custom:tenant_id', Value: tenantId },
         { Name: 'custom:role', Value: role },
+        ...(profile.region ? [{ Name: 'custom:region', Value: profile.region }] : []),
+        ...(profile.store_id ? [{ Name: 'custom:store_id', Value: profile.store_id }] : []),
       ],
-      TemporaryPassword: password,
-      MessageAction: 'SUPPRESS', // Don't send welcome email (POC)
+      ...(password
+        ? { TemporaryPassword: password, MessageAction: 'SUPPRESS' as const } // Don't send welcome email (POC)
+        : { DesiredDeliveryMediums: ['EMAIL' as const] }),
     });
 
     const response = await cognitoClient.send(command);
 
     if (!response.User || !response.User.Username) {
-      throw new Error('Failed to create Cognito user: No user returned');
+      throw new UpstreamError('Failed to create Cognito user: No user returned');
     }
 
     // Get the user's sub (UUID) from attributes
     const subAttribute = response.User.Attributes?.find((attr) => attr.Name === 'sub');
     if (!subAttribute || !subAttribute.Value) {
-      throw new Error('Failed to get Cognito user sub');
+      throw new UpstreamError('Failed to get Cognito user sub');
     }
 
     return subAttribute.Value;
   } catch (error: any) {
     console.error('Error creating Cognito user:', error);
+
+    if (error instanceof UpstreamError) {
+      throw error;
+    }
     
     // Handle specific Cognito errors
     if (error.name === 'UsernameExistsException') {
-      throw new Error('User with this email already exists');
+      throw new ConflictError('User with this email already exists', 'email');
     }
     
     if (error.name === 'InvalidPasswordException') {
-      throw new Error('Password does not meet requirements');
+      throw new ValidationError('Password does not meet requirements', 'password');
     }
     
-    throw new Error(`Failed to create Cognito user: ${error.message}`);
+    throw toUpstreamError(error, 'create');
   }
 }
 
@@ -99,10 +144,10 @@ export async function updateCognitoUserAttributes(
     console.error('Error updating Cognito user attributes:', error);
     
     if (error.name === 'UserNotFoundException') {
-      throw new Error('User not found in Cognito');
+      throw new NotFoundError('User not found in Cognito');
     }
     
-    throw new Error(`Failed to update Cognito user: ${error.message}`);
+    throw toUpstreamError(error, 'update');
   }
 }
 
@@ -116,6 +161,68 @@ export async function updateCognitoUserRole(cognitoUserId: string, role: string)
   await updateCognitoUserAttributes(cognitoUserId, [{ Name: 'custom:role', Value: role }]);
 }
 
+/**
+ * Removes user attributes in Cognito
+ * 
+ * @param cognitoUserId - Cognito username (email)
+ * @param names - Attribute names, e.g. custom:region
+ */
+export async function deleteCognitoUserAttributes(
+  cognitoUserId: string,
+  names: string[]
+): Promise<void> {
+  try {
+    const command = new AdminDeleteUserAttributesCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: cognitoUserId,
+      UserAttributeNames: names,
+    });
+
+    await cognitoClient.send(command);
+  } catch (error: any) {
+    console.error('Error deleting Cognito user attributes:', error);
+    
+    if (error.name === 'UserNotFoundException') {
+      throw new NotFoundError('User not found in Cognito');
+    }
+    
+    throw toUpstreamError(error, 'update');
+  }
+}
+
+/**
+ * Mirrors profile changes into Cognito
+ * Only the fields present are written; null fields are removed
+ * 
+ * @param cognitoUserId - Cognito username (email)
+ * @param profile - Changed profile fields
+ */
+export async function updateCognitoUserProfile(
+  cognitoUserId: string,
+  profile: CognitoUserProfile
+): Promise<void> {
+  const updates: AttributeType[] = [];
+  const removals: string[] = [];
+
+  for (const [field, value] of Object.entries(profile)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (value === null) {
+      removals.push(`custom:${field}`);
+    } else {
+      updates.push({ Name: `custom:${field}`, Value: value });
+    }
+  }
+
+  if (updates.length > 0) {
+    await updateCognitoUserAttributes(cognitoUserId, updates);
+  }
+  if (removals.length > 0) {
+    await deleteCognitoUserAttributes(cognitoUserId, removals);
+  }
+}
+
 /**
  * Deletes a user from Cognito User Pool
  * 
@@ -138,7 +245,56 @@ export async function deleteCognitoUser(cognitoUserId: string): Promise<void> {
       return;
     }
     
-    throw new Error(`Failed to delete Cognito user: ${error.message}`);
+    throw toUpstreamError(error, 'delete');
+  }
+}
+
+/**
+ * Disables a user in Cognito User Pool
+ * They can no longer sign in, and their refresh and access tokens are revoked
+ * 
+ * @param cognitoUserId - Cognito username (email)
+ */
+export async function disableCognitoUser(cognitoUserId: string): Promise<void> {
+  try {
+    const command = new AdminDisableUserCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: cognitoUserId,
+    });
+
+    await cognitoClient.send(command);
+  } catch (error: any) {
+    console.error('Error disabling Cognito user:', error);
+    
+    if (error.name === 'UserNotFoundException') {
+      throw new NotFoundError('User not found in Cognito');
+    }
+    
+    throw toUpstreamError(error, 'disable');
+  }
+}
+
+/**
+ * Enables a user previously disabled in Cognito User Pool
+ * 
+ * @param cognitoUserId - Cognito username (email)
+ */
+export async function enableCognitoUser(cognitoUserId: string): Promise<void> {
+  try {
+    const command = new AdminEnableUserCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: cognitoUserId,
+    });
+
+    await cognitoClient.send(command);
+  } catch (error: any) {
+    console.error('Error enabling Cognito user:', error);
+    
+    if (error.name === 'UserNotFoundException') {
+      throw new NotFoundError('User not found in Cognito');
+    }
+    
+    throw toUpstreamError(error, 'enable');
   }
 }
 
@@ -161,9 +317,9 @@ export async function getCognitoUser(cognitoUserId: string): Promise<AttributeTy
     console.error('Error getting Cognito user:', error);
     
     if (error.name === 'UserNotFoundException') {
-      throw new Error('User not found in Cognito');
+      throw new NotFoundError('User not found in Cognito');
     }
     
-    throw new Error(`Failed to get Cognito user: ${error.message}`);
+    throw toUpstreamError(error, 'get');
   }
 }
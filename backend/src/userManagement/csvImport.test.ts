@@ -0,0 +1,103 @@
+import { ValidationError } from '../shared/http';
+import { importUserRowSchema, MAX_USER_IMPORT_ROWS, validate } from '../shared/validation';
+import { readImportRows } from './csvImport';
+
+const HEADER = 'email,role,region,store_id,is_tenant_admin';
+
+/**
+ * Reads a file and validates each row the way POST /users/import does
+ */
+function validateRows(csv: string) {
+  return readImportRows(csv).map(({ line, user, issues }) => ({
+    line,
+    errors: [...issues, ...validate(importUserRowSchema, user)],
+  }));
+}
+
+describe('readImportRows', () => {
+  it('reads rows in any column order, skipping blank lines', () => {
+    const rows = readImportRows(
+      '\uFEFFRole,Email,IS_TENANT_ADMIN\r\nFinance,finance@example.com,yes\r\n\r\n"Store Manager",manager@example.com,\n'
+    );
+
+    expect(rows).toEqual([
+      {
+        line: 2,
+        user: {
+          email: 'finance@example.com',
+          role: 'Finance',
+          region: undefined,
+          store_id: undefined,
+          is_tenant_admin: true,
+        },
+        issues: [],
+      },
+      {
+        line: 4,
+        user: {
+          email: 'manager@example.com',
+          role: 'Store Manager',
+          region: undefined,
+          store_id: undefined,
+          is_tenant_admin: false,
+        },
+        issues: [],
+      },
+    ]);
+  });
+
+  it('keeps quoted commas and line breaks and reports rows by their starting line', () => {
+    const rows = readImportRows(`${HEADER}\n"a@example.com","Finance","North, East","S01
+S02",false\nb@example.com,Finance,,,\n`);
+
+    expect(rows[0].user.region).toBe('North, East');
+    expect(rows[0].user.store_id).toBe('S01\nS02');
+    expect(rows[1].line).toBe(4);
+  });
+
+  it.each([
+    ['an empty file', '', 'CSV is empty'],
+    ['no data rows', `${HEADER}\n`, 'CSV has no user rows'],
+    [
+      'an unknown column',
+      'email,role,team\na@example.com,Finance,Outdoor',
+      'Unknown column "team"; columns must be email, role, region, store_id, is_tenant_admin',
+    ],
+    [
+      'a repeated column',
+      'email,role,email\na@example.com,Finance,b@example.com',
+      'Column "email" appears more than once',
+    ],
+    ['a missing required column', 'email,region\na@example.com,NA', 'Column "role" is required'],
+    ['an unterminated quote', `${HEADER}\n"a@example.com,Finance`, 'Line 2 has an unterminated quoted field'],
+  ])('rejects %s', (_, csv, message) => {
+    expect(() => readImportRows(csv)).toThrow(new ValidationError(message, 'csv'));
+  });
+
+  it(`rejects more than ${MAX_USER_IMPORT_ROWS} rows`, () => {
+    const rows = Array.from({ length: MAX_USER_IMPORT_ROWS + 1 }, (_, index) => `user${index}@example.com,Finance`);
+
+    expect(() => readImportRows(['email,role', ...rows].join('\n'))).toThrow(ValidationError);
+  });
+});
+
+describe('import row validation', () => {
+  it('accepts a complete row', () => {
+    expect(validateRows(`${HEADER}\nmanager@example.com,Store Manager,NA,S01,false`)).toEqual([
+      { line: 2, errors: [] },
+    ]);
+  });
+
+  it('reports every problem of a row against its line', () => {
+    const [row] = validateRows(`${HEADER}\nnot-an-email,,NA,S01,maybe`);
+
+    expect(row.line).toBe(2);
+    expect(row.errors.map((issue) => issue.field)).toEqual(['is_tenant_admin', 'email', 'role']);
+  });
+
+  it('reports rows with the wrong number of values', () => {
+    const [row] = validateRows('email,role\na@example.com,Finance,extra');
+
+    expect(row.errors).toEqual([{ message: 'Expected 2 values but found 3' }]);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * CSV reading for POST /users/import
+ * Problems with the file as a whole are thrown; problems with a single row
+ * are returned with it so every row can be reported
+ */
+
+import { ValidationError } from '../shared/http';
+import { FieldIssue, MAX_USER_IMPORT_ROWS, USER_IMPORT_COLUMNS } from '../shared/validation';
+import { ImportUserRow } from './types';
+
+type ImportColumn = (typeof USER_IMPORT_COLUMNS)[number];
+
+const REQUIRED_COLUMNS: readonly ImportColumn[] = ['email', 'role'];
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', ''];
+
+/**
+ * A CSV record and the 1-based line it starts on
+ */
+interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+/**
+ * A data row of the import file
+ * `issues` are problems found while reading it, before schema validation
+ */
+export interface ImportRow {
+  line: number;
+  user: ImportUserRow;
+  issues: FieldIssue[];
+}
+
+/**
+ * Splits CSV text into records (RFC 4180)
+ * Quoted fields may contain commas, line breaks and doubled quotes ("");
+ * lines may end with LF or CRLF
+ *
+ * @throws ValidationError (400) for an unterminated quoted field
+ */
+function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new ValidationError(`Line ${recordLine} has an unterminated quoted field`, 'csv');
+  }
+
+  if (field !== '' || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+
+  return records;
+}
+
+/**
+ * Parses an is_tenant_admin cell; blank means false
+ *
+ * @returns The flag, or null if the value is not recognised
+ */
+function parseBooleanCell(value: string): boolean | null {
+  const normalized = value.toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) {
+    return true;
+  }
+  if (FALSE_VALUES.includes(normalized)) {
+    return false;
+  }
+  return null;
+}
+
+/**
+ * Reads the header row into column names
+ * Names are matched case-insensitively and may come in any order
+ *
+ * @throws ValidationError (400) for unknown, repeated or missing columns
+ */
+function readHeader(header: CsvRecord): ImportColumn[] {
+  const columns = header.fields.map((name) => name.trim().toLowerCase());
+
+  const unknown = columns.find((column) => !(USER_IMPORT_COLUMNS as readonly string[]).includes(column));
+  if (unknown !== undefined) {
+    throw new ValidationError(
+      `Unknown column "${unknown}"; columns must be ${USER_IMPORT_COLUMNS.join(', ')}`,
+      'csv'
+    );
+  }
+
+  const repeated = columns.find((column, index) => columns.indexOf(column) !== index);
+  if (repeated !== undefined) {
+    throw new ValidationError(`Column "${repeated}" appears more than once`, 'csv');
+  }
+
+  const missing = REQUIRED_COLUMNS.find((column) => !columns.includes(column));
+  if (missing !== undefined) {
+    throw new ValidationError(`Column "${missing}" is required`, 'csv');
+  }
+
+  return columns as ImportColumn[];
+}
+
+/**
+ * Reads one data record into a user
+ */
+function readRow(columns: ImportColumn[], record: CsvRecord): ImportRow {
+  const issues: FieldIssue[] = [];
+
+  if (record.fields.length !== columns.length) {
+    issues.push({
+      message: `Expected ${columns.length} values but found ${record.fields.length}`,
+    });
+  }
+
+  const values: Partial<Record<ImportColumn, string>> = {};
+  columns.forEach((column, index) => {
+    values[column] = (record.fields[index] ?? '').trim();
+  });
+
+  const isTenantAdmin = parseBooleanCell(values.is_tenant_admin ?? '');
+  if (isTenantAdmin === null) {
+    issues.push({ field: 'is_tenant_admin', message: 'Tenant admin must be true or false' });
+  }
+
+  return {
+    line: record.line,
+    user: {
+      email: values.email ?? '',
+      role: values.role ?? '',
+      region: values.region || undefined,
+      store_id: values.store_id || undefined,
+      is_tenant_admin: isTenantAdmin ?? false,
+    },
+    issues,
+  };
+}
+
+/**
+ * Reads the users to import from CSV text
+ * The first non-blank line is the header; blank lines are skipped
+ *
+ * @param csv - CSV text, optionally starting with a byte order mark
+ * @returns One entry per data row, in file order
+ * @throws ValidationError (400) if the file is malformed, has no data rows or
+ *   more than MAX_USER_IMPORT_ROWS
+ */
+export function readImportRows(csv: string): ImportRow[] {
+  const records = parseCsv(csv.replace(/^\uFEFF/, '')).filter((record) =>
+    record.fields.some((value) => value.trim() !== '')
+  );
+
+  if (records.length === 0) {
+    throw new ValidationError('CSV is empty', 'csv');
+  }
+
+  const [header, ...rows] = records;
+  const columns = readHeader(header);
+
+  if (rows.length === 0) {
+    throw new ValidationError('CSV has no user rows', 'csv');
+  }
+
+  if (rows.length > MAX_USER_IMPORT_ROWS) {
+    throw new ValidationError(
+      `CSV has ${rows.length} user rows; at most ${MAX_USER_IMPORT_ROWS} can be imported at once`,
+      'csv'
+    );
+  }
+
+  return rows.map((record) => readRow(columns, record));
+}
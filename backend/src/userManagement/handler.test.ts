@@ -0,0 +1,323 @@
+import { query, withTransaction } from '../shared/db';
+import { ConflictError, TenantRequest } from '../shared/http';
+import { loadPermissions } from '../shared/permissions';
+import { PLAN_ENTITLEMENTS } from '../shared/tenantGuard';
+import { createCognitoUser, deleteCognitoUser } from './cognito';
+import { createUser, deleteUser, importUsers, purgeUser } from './handler';
+
+jest.mock('../shared/db', () => ({ query: jest.fn(), withTransaction: jest.fn() }));
+jest.mock('../shared/permissions', () => ({
+  ...jest.requireActual('../shared/permissions'),
+  loadPermissions: jest.fn(),
+}));
+jest.mock('./cognito', () => ({
+  createCognitoUser: jest.fn(),
+  updateCognitoUserRole: jest.fn(),
+  updateCognitoUserProfile: jest.fn(),
+  deleteCognitoUser: jest.fn(),
+  disableCognitoUser: jest.fn(),
+  enableCognitoUser: jest.fn(),
+}));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockWithTransaction = withTransaction as jest.MockedFunction<typeof withTransaction>;
+const mockLoadPermissions = loadPermissions as jest.MockedFunction<typeof loadPermissions>;
+const mockCreateCognitoUser = createCognitoUser as jest.MockedFunction<typeof createCognitoUser>;
+const mockDeleteCognitoUser = deleteCognitoUser as jest.MockedFunction<typeof deleteCognitoUser>;
+
+const client = { query: jest.fn() };
+
+function request<Params>(params: Params, body: unknown = null): TenantRequest<Params> {
+  return {
+    params,
+    query: {},
+    body: body === null ? null : JSON.stringify(body),
+    context: { tenantId: 'T001', userId: 'sub-1', email: 'manager@example.com', requestId: 'req-1' },
+    tenant: {
+      tenantId: 'T001',
+      tenantName: 'Acme',
+      planTier: 'Standard',
+      entitlements: PLAN_ENTITLEMENTS.Standard,
+    },
+  } as unknown as TenantRequest<Params>;
+}
+
+function givenCaller(isTenantAdmin: boolean) {
+  mockLoadPermissions.mockResolvedValue({
+    userId: 'U001',
+    role: isTenantAdmin ? 'Admin' : 'Store Manager',
+    isTenantAdmin,
+    permissions: isTenantAdmin ? [] : ['users:read', 'users:write'],
+  });
+}
+
+/**
+ * SQL the transaction ran, in order
+ */
+function transactionSql(): string[] {
+  return client.query.mock.calls.map(([sql]) => sql);
+}
+
+function parseBody(response: { body: string }) {
+  return JSON.parse(response.body);
+}
+
+describe('userManagement handler', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockWithTransaction.mockImplementation(async (fn) => fn(client as any));
+    client.query.mockResolvedValue({ rows: [], rowCount: 0 });
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('tenant admin guards', () => {
+    it('only lets tenant admins create a tenant admin', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ role: 'Admin' }] } as any);
+      givenCaller(false);
+
+      const response = await createUser(
+        request(
+          {},
+          { email: 'owner@example.com', password: 'Passw0rd!', role: 'Admin', is_tenant_admin: true }
+        )
+      );
+
+      expect(response.statusCode).toBe(403);
+      expect(parseBody(response).error).toBe('Only tenant admins can create a tenant admin');
+      expect(mockCreateCognitoUser).not.toHaveBeenCalled();
+    });
+
+    it('only lets tenant admins delete a tenant admin', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ tenant_id: 'T001' }] } as any);
+      client.query.mockResolvedValueOnce({
+        rows: [
+          {
+            cognito_user_id: 'cognito-2',
+            email: 'owner@example.com',
+            role: 'Admin',
+            status: 'Active',
+            is_tenant_admin: true,
+          },
+        ],
+      });
+      givenCaller(false);
+
+      const response = await deleteUser(request({ userId: 'U002' }));
+
+      expect(response.statusCode).toBe(403);
+      expect(parseBody(response).error).toBe('Only tenant admins can delete a tenant admin');
+      expect(transactionSql()).toHaveLength(1);
+      expect(mockDeleteCognitoUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeUser', () => {
+    /**
+     * Deleted user U002 of tenant T001, as the purge transaction locks it
+     */
+    function givenDeletedUser(user: { is_tenant_admin?: boolean; can_purge?: boolean } = {}) {
+      mockQuery.mockResolvedValue({ rows: [{ tenant_id: 'T001' }] } as any);
+      client.query.mockImplementation(async (sql: string) =>
+        sql.includes('FOR UPDATE')
+          ? {
+              rows: [
+                {
+                  cognito_user_id: null,
+                  is_tenant_admin: false,
+                  purged_at: null,
+                  can_purge: true,
+                  ...user,
+                },
+              ],
+            }
+          : { rows: [], rowCount: 1 }
+      );
+    }
+
+    it('replaces the email in the user row and their audit history and removes their rules', async () => {
+      givenDeletedUser();
+
+      const response = await purgeUser(request({ userId: 'U002' }));
+
+      expect(response.statusCode).toBe(200);
+      const purgedEmail = 'u002.t001@purged.invalid';
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('SET email = $1, cognito_user_id = NULL'), [
+        purgedEmail,
+        'U002',
+        'T001',
+      ]);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining("jsonb_set(before, '{email}'"), [
+        'T001',
+        'U002',
+        purgedEmail,
+      ]);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('SET actor_email = $3'), [
+        'T001',
+        'U002',
+        purgedEmail,
+      ]);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM governance_rules'), [
+        'U002',
+        'T001',
+      ]);
+
+      // The purge is recorded without the personal data it removed
+      const [, auditValues] = client.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO audit_events'))!;
+      expect(auditValues).toEqual([
+        'T001',
+        'sub-1',
+        'manager@example.com',
+        'user.purged',
+        'user',
+        'U002',
+        null,
+        null,
+        'req-1',
+      ]);
+    });
+
+    it('refuses users still within the retention period', async () => {
+      givenDeletedUser({ can_purge: false });
+
+      const response = await purgeUser(request({ userId: 'U002' }));
+
+      expect(response.statusCode).toBe(409);
+      expect(parseBody(response).error).toBe('Deleted users can be purged 30 days after deletion');
+      expect(transactionSql()).toHaveLength(1);
+    });
+
+    it('only lets tenant admins purge a tenant admin', async () => {
+      givenDeletedUser({ is_tenant_admin: true });
+      givenCaller(false);
+
+      const response = await purgeUser(request({ userId: 'U002' }));
+
+      expect(response.statusCode).toBe(403);
+      expect(parseBody(response).error).toBe('Only tenant admins can purge a tenant admin');
+      expect(transactionSql()).toHaveLength(1);
+    });
+
+    it('lets tenant admins purge a tenant admin', async () => {
+      givenDeletedUser({ is_tenant_admin: true });
+      givenCaller(true);
+
+      const response = await purgeUser(request({ userId: 'U002' }));
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('refuses users of another tenant', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ tenant_id: 'T002' }] } as any);
+
+      const response = await purgeUser(request({ userId: 'U002' }));
+
+      expect(response.statusCode).toBe(403);
+      expect(mockWithTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('importUsers', () => {
+    const csv = [
+      'email,role,region,store_id,is_tenant_admin',
+      'north@example.com,store manager,NA,S01,no',
+      'taken@example.com,Store Manager,,,',
+      'analyst@example.com,Analyst,,,',
+      'south@example.com,Store Manager,EU,,',
+    ].join('\n');
+
+    beforeEach(() => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM roles')) {
+          return { rows: [{ role: 'Admin' }, { role: 'Store Manager' }] } as any;
+        }
+        if (sql.includes('LOWER(email) = ANY')) {
+          return { rows: [{ email: 'taken@example.com', tenant_id: 'T002', status: 'Active' }] } as any;
+        }
+        return { rows: [{ count: '3' }] } as any;
+      });
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('AS user_id')) {
+          return { rows: [{ user_id: 'U004' }] };
+        }
+        if (sql.includes('INSERT INTO users')) {
+          return { rows: [{ created_at: '2026-02-01T00:00:00.000Z' }] };
+        }
+        return { rows: [] };
+      });
+    });
+
+    it('creates each valid row and reports the rest, carrying on past a row that fails', async () => {
+      mockCreateCognitoUser
+        .mockResolvedValueOnce('cognito-north')
+        .mockRejectedValueOnce(new ConflictError('User already exists in Cognito', 'email'));
+
+      const response = await importUsers(request({}, { csv }));
+
+      expect(response.statusCode).toBe(200);
+      const body = parseBody(response);
+      expect(body).toMatchObject({ dry_run: false, total: 4, valid: 2, invalid: 2, created: 1, failed: 1 });
+      expect(body.rows).toEqual([
+        { line: 2, email: 'north@example.com', role: 'Store Manager', status: 'created', errors: [], user_id: 'U004' },
+        {
+          line: 3,
+          email: 'taken@example.com',
+          role: 'Store Manager',
+          status: 'invalid',
+          errors: [{ field: 'email', message: 'User with this email already exists' }],
+        },
+        {
+          line: 4,
+          email: 'analyst@example.com',
+          role: 'Analyst',
+          status: 'invalid',
+          errors: [{ field: 'role', message: 'Role "Analyst" does not exist' }],
+        },
+        {
+          line: 5,
+          email: 'south@example.com',
+          role: 'Store Manager',
+          status: 'failed',
+          errors: [{ field: 'email', message: 'User already exists in Cognito' }],
+        },
+      ]);
+
+      // Imported users are invited by Cognito with the tenant's spelling of the role
+      expect(mockCreateCognitoUser).toHaveBeenCalledWith('north@example.com', null, 'T001', 'Store Manager', {
+        region: 'NA',
+        store_id: 'S01',
+      });
+      expect(mockWithTransaction).toHaveBeenCalledTimes(2);
+    });
+
+    it('removes the Cognito user of a row whose database insert fails', async () => {
+      mockCreateCognitoUser.mockResolvedValueOnce('cognito-north').mockResolvedValueOnce('cognito-south');
+      const insert = client.query.getMockImplementation()!;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO users')) {
+          throw new Error('connection reset');
+        }
+        return insert(sql);
+      });
+
+      const response = await importUsers(request({}, { csv }));
+
+      const body = parseBody(response);
+      expect(body).toMatchObject({ created: 0, failed: 2 });
+      expect(body.rows[0].errors).toEqual([{ message: 'Failed to create user' }]);
+      expect(mockDeleteCognitoUser.mock.calls).toEqual([['cognito-north'], ['cognito-south']]);
+    });
+
+    it('creates nothing on a dry run', async () => {
+      const response = await importUsers(request({}, { csv, dry_run: true }));
+
+      expect(parseBody(response)).toMatchObject({ dry_run: true, valid: 2, invalid: 2, created: 0, failed: 0 });
+      expect(mockCreateCognitoUser).not.toHaveBeenCalled();
+      expect(mockWithTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
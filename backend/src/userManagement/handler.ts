@@ -3,138 +3,135 @@
  * Implements user CRUD operations with tenant isolation
  */
 
+import { recordAuditEvent } from "../shared/audit";
 import { query, withTransaction } from "../shared/db";
+import {
+  ConflictError,
+  ForbiddenError,
+  HttpError,
+  LambdaResponse,
+  NotFoundError,
+  RequestContext,
+  successResponse,
+  TenantRequest,
+  toErrorResponse,
+  ValidationError,
+} from "../shared/http";
+import { loadPermissions } from "../shared/permissions";
+import { assertWithinPlanLimit, TenantGuardError } from "../shared/tenantGuard";
 import {
   createCognitoUser,
   updateCognitoUserRole,
+  updateCognitoUserProfile,
   deleteCognitoUser,
+  disableCognitoUser,
+  enableCognitoUser,
 } from "./cognito";
+import { readImportRows } from "./csvImport";
+import { insertUser, NewUser } from "./insertUser";
 import {
-  validateCreateUserRequest,
-  validateUpdateRoleRequest,
-  isValidEmail,
-} from "./validation";
+  createUserSchema,
+  DEFAULT_USER_PAGE_SIZE,
+  importUserRowSchema,
+  importUsersSchema,
+  listUsersQuerySchema,
+  parseBody,
+  parseParams,
+  restoreUserSchema,
+  updateUserRoleSchema,
+  updateUserSchema,
+  userParamsSchema,
+  validate,
+} from "../shared/validation";
 import {
-  APIGatewayEvent,
-  LambdaResponse,
-  RequestContext,
   CreateUserRequest,
+  ImportRowStatus,
+  ImportUserRowResult,
+  ImportUsersRequest,
+  ImportUsersResponse,
+  RestoreUserRequest,
+  UpdateUserRequest,
   UpdateUserRoleRequest,
   User,
-  ErrorResponse,
   CreateUserResponse,
+  CurrentUserResponse,
+  DeletedUser,
+  ListDeletedUsersResponse,
+  ListUsersQuery,
   ListUsersResponse,
+  UserSortField,
 } from "./types";
 
 /**
- * Extracts request context from API Gateway event
+ * Position after the last user of a page: its sort value and user_id
+ * The sort is included so a cursor cannot be replayed with another one
  */
-function getRequestContext(event: APIGatewayEvent): RequestContext {
-  try {
-    // Log the event structure for debugging
-    console.log(
-      "Event structure:",
-      JSON.stringify(
-        {
-          requestContext: event.requestContext,
-          headers: event.headers,
-          pathParameters: event.pathParameters,
-        },
-        null,
-        2,
-      ),
-    );
-
-    // Check if authorizer exists
-    if (!event.requestContext?.authorizer) {
-      throw new Error("No authorizer found in request context");
-    }
-
-    const claims = event.requestContext.authorizer.claims;
-
-    if (!claims) {
-      throw new Error("No claims found in authorizer");
-    }
+interface UserListCursor {
+  sortBy: UserSortField;
+  sortOrder: "asc" | "desc";
+  value: string;
+  userId: string;
+}
 
-    // Validate required claims
-    if (!claims["custom:tenant_id"]) {
-      throw new Error("Missing custom:tenant_id claim");
-    }
+function encodeCursor(cursor: UserListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
 
-    if (!claims.sub) {
-      throw new Error("Missing sub claim");
-    }
+/**
+ * @throws ValidationError if the cursor is malformed or was issued for a
+ * different sort
+ */
+function decodeCursor(
+  encoded: string,
+  sortBy: UserSortField,
+  sortOrder: "asc" | "desc",
+): UserListCursor {
+  let cursor: Partial<UserListCursor>;
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    throw new ValidationError("Invalid cursor", "cursor");
+  }
 
-    return {
-      tenantId: claims["custom:tenant_id"],
-      userId: claims.sub,
-      userRole: claims["custom:role"] || "Finance",
-      email: claims.email || "",
-    };
-  } catch (error) {
-    console.error("Error extracting request context:", error);
-    throw error;
+  if (
+    typeof cursor?.value !== "string" ||
+    typeof cursor.userId !== "string" ||
+    cursor.sortBy !== sortBy ||
+    cursor.sortOrder !== sortOrder
+  ) {
+    throw new ValidationError(
+      "Cursor does not match the requested sort; start from the first page",
+      "cursor",
+    );
   }
+
+  return cursor as UserListCursor;
 }
 
 /**
- * Creates a success response
+ * Days a deleted user stays restorable before they can be purged
+ * Set with USER_PURGE_RETENTION_DAYS
  */
-function successResponse(statusCode: number, data: any): LambdaResponse {
-  return {
-    statusCode,
-    headers: {
-      "Content-Type": "application/json",
-      "Access-Control-Allow-Origin": "*",
-    },
-    body: JSON.stringify(data),
-  };
+const DEFAULT_PURGE_RETENTION_DAYS = 30;
+
+function purgeRetentionDays(): number {
+  const value = Number(process.env.USER_PURGE_RETENTION_DAYS);
+  return Number.isInteger(value) && value > 0
+    ? value
+    : DEFAULT_PURGE_RETENTION_DAYS;
 }
 
 /**
- * Creates an error response
+ * When a deleted user was deleted; users deleted before deleted_at was
+ * recorded fall back to their last update
  */
-function errorResponse(
-  statusCode: number,
-  error: string,
-  field?: string,
-  retryable?: boolean,
-): LambdaResponse {
-  const errorBody: ErrorResponse = { error, field, retryable };
-  return {
-    statusCode,
-    headers: {
-      "Content-Type": "application/json",
-      "Access-Control-Allow-Origin": "*",
-    },
-    body: JSON.stringify(errorBody),
-  };
-}
+const DELETED_AT_SQL = "COALESCE(deleted_at, updated_at)";
 
 /**
- * Validates that the requesting user is a tenant admin
+ * Escapes LIKE wildcards so a search term matches literally
  */
-async function validateTenantAdmin(
-  cognitoUserId: string,
-  tenantId: string,
-): Promise<void> {
-  const result = await query<{ is_tenant_admin: boolean }>(
-    "SELECT is_tenant_admin FROM users WHERE cognito_user_id = $1 AND tenant_id = $2 AND status = $3",
-    [cognitoUserId, tenantId, "Active"],
-  );
-
-  if (result.rows.length === 0) {
-    console.error(
-      `User validation failed: cognito_user_id=${cognitoUserId}, tenant_id=${tenantId}`,
-    );
-    throw new Error(
-      "User not found or inactive. Please ensure your user account exists in the database.",
-    );
-  }
-
-  if (!result.rows[0].is_tenant_admin) {
-    throw new Error("Insufficient permissions: Admin role required");
-  }
+function escapeLikePattern(term: string): string {
+  return term.replace(/[\\%_]/g, "\\$&");
 }
 
 /**
@@ -156,166 +153,432 @@ async function validateUserTenant(
   return result.rows[0].tenant_id === tenantId;
 }
 
+/**
+ * Requires the caller to be a tenant admin
+ * users:write alone does not reach tenant admins, who hold every permission
+ *
+ * @throws ForbiddenError (403) with `message` if the caller is not one
+ */
+async function assertCallerIsTenantAdmin(
+  context: RequestContext,
+  message: string,
+): Promise<void> {
+  const caller = await loadPermissions(context.tenantId, context.userId);
+  if (!caller.isTenantAdmin) {
+    throw new ForbiddenError(message);
+  }
+}
+
+/**
+ * Resolves a requested role against the tenant's roles table
+ * Matching is case-insensitive and returns the tenant's spelling, so the DB
+ * and Cognito's custom:role always hold the same canonical name
+ *
+ * @throws ValidationError (400) if the tenant has no such role
+ */
+async function resolveTenantRole(
+  tenantId: string,
+  role: string,
+): Promise<string> {
+  const requested = role.trim();
+
+  const result = await query<{ role: string }>(
+    "SELECT role FROM roles WHERE tenant_id = $1 AND LOWER(role) = LOWER($2)",
+    [tenantId, requested],
+  );
+
+  if (result.rows.length === 0) {
+    throw new ValidationError(`Role "${requested}" does not exist`, "role");
+  }
+
+  return result.rows[0].role;
+}
+
 /**
  * Creates a new user
  * POST /users
  */
 export async function createUser(
-  event: APIGatewayEvent,
+  request: TenantRequest<unknown>,
 ): Promise<LambdaResponse> {
   try {
-    const context = getRequestContext(event);
-
-    // Parse request body
-    if (!event.body) {
-      return errorResponse(400, "Request body is required");
-    }
+    const { context } = request;
 
-    const requestData: CreateUserRequest = JSON.parse(event.body);
+    const requestData = parseBody<CreateUserRequest>(
+      createUserSchema,
+      request.body,
+    );
+    const role = await resolveTenantRole(context.tenantId, requestData.role);
 
-    // Validate request
-    const validation = validateCreateUserRequest(requestData);
-    if (!validation.valid) {
-      return errorResponse(400, validation.error!, validation.field);
+    if (requestData.is_tenant_admin) {
+      await assertCallerIsTenantAdmin(
+        context,
+        "Only tenant admins can create a tenant admin",
+      );
     }
 
-    // Validate admin permissions
-    try {
-      await validateTenantAdmin(context.userId, context.tenantId);
-    } catch (error: any) {
-      return errorResponse(403, error.message);
-    }
+    // The schema checks the trimmed email, so that is the one to store
+    const email = requestData.email.trim();
 
-    // Check if user already exists in this tenant
-    const existingUser = await query<User>(
-      "SELECT user_id FROM users WHERE email = $1 AND tenant_id = $2",
-      [requestData.email, context.tenantId],
+    // Emails are unique across tenants; deleted users keep theirs until purged
+    const existingUser = await query<Pick<User, "tenant_id" | "status">>(
+      "SELECT tenant_id, status FROM users WHERE LOWER(email) = LOWER($1)",
+      [email],
     );
 
     if (existingUser.rows.length > 0) {
-      return errorResponse(400, "User with this email already exists", "email");
-    }
-
-    // Create user in Cognito and PostgreSQL within a transaction
-    const result = await withTransaction(async (client) => {
-      // Create user in Cognito
-      const cognitoUserId = await createCognitoUser(
-        requestData.email,
-        requestData.password,
-        context.tenantId,
-        requestData.role,
-      );
-
-      // Generate user_id - dynamically determine padding based on existing IDs
-      const userIdResult = await client.query<{ user_id: string }>(
-        `SELECT 'U' || LPAD(
-          (COALESCE(MAX(SUBSTRING(user_id FROM 2)::INTEGER), 0) + 1)::TEXT, 
-          GREATEST(LENGTH(COALESCE(MAX(SUBSTRING(user_id FROM 2)), '000')), 3),
-          '0'
-        ) AS user_id 
-         FROM users WHERE tenant_id = $1`,
-        [context.tenantId],
-      );
-      const userId = userIdResult.rows[0]?.user_id || "U001";
-
-      // Insert into PostgreSQL and return created_at
-      const insertResult = await client.query<{ created_at: string }>(
-        `INSERT INTO users (user_id, tenant_id, email, cognito_user_id, role, region, store_id, is_tenant_admin, status, created_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
-         RETURNING created_at`,
-        [
-          userId,
-          context.tenantId,
-          requestData.email,
-          cognitoUserId,
-          requestData.role,
-          requestData.region || null,
-          requestData.store_id || null,
-          requestData.is_tenant_admin || false,
-          "Active",
-        ],
+      const existing = existingUser.rows[0];
+      throw new ConflictError(
+        existing.tenant_id === context.tenantId &&
+        existing.status === "Deleted"
+          ? "A deleted user has this email; restore or purge them first"
+          : "User with this email already exists",
+        "email",
       );
+    }
 
-      return {
-        user_id: userId,
-        email: requestData.email,
-        role: requestData.role,
-        status: "Active" as const,
-        created_at: insertResult.rows[0].created_at,
-      };
-    });
+    // Enforce the plan's user limit (deleted users do not count)
+    const userCount = await query<{ count: string }>(
+      "SELECT COUNT(*) AS count FROM users WHERE tenant_id = $1 AND status != $2",
+      [context.tenantId, "Deleted"],
+    );
+    assertWithinPlanLimit(
+      request.tenant,
+      "maxUsers",
+      Number(userCount.rows[0].count),
+      "users",
+    );
 
-    const response: CreateUserResponse = {
-      user_id: result.user_id,
-      email: result.email,
-      role: result.role,
-      status: result.status,
-      created_at: result.created_at,
-    };
+    const response = await withTransaction((client) =>
+      insertUser(client, context, {
+        email,
+        password: requestData.password,
+        role,
+        region: requestData.region,
+        store_id: requestData.store_id,
+        is_tenant_admin: requestData.is_tenant_admin,
+      }),
+    );
 
-    console.log(`User created: ${result.user_id} in tenant ${context.tenantId}`);
+    console.log(
+      `User created: ${response.user_id} in tenant ${context.tenantId}`,
+    );
     return successResponse(201, response);
   } catch (error: any) {
     console.error("Error creating user:", error);
+    return toErrorResponse(error, "Failed to create user");
+  }
+}
+
+/**
+ * Imports users from a CSV file
+ * Every row is validated first: the schema, the tenant's roles, emails
+ * repeated in the file or already taken, tenant admin access (only tenant
+ * admins may grant it) and the plan's user limit. A dry run stops there;
+ * otherwise each valid row is created on its own with a Cognito invitation
+ * email, and a row that fails does not stop the others
+ * POST /users/import
+ */
+export async function importUsers(
+  request: TenantRequest<unknown>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+
+    const { csv, dry_run: dryRun = false } = parseBody<ImportUsersRequest>(
+      importUsersSchema,
+      request.body,
+    );
+    const rows = readImportRows(csv);
+
+    const rolesResult = await query<{ role: string }>(
+      "SELECT role FROM roles WHERE tenant_id = $1",
+      [context.tenantId],
+    );
+    const tenantRoles = new Map(
+      rolesResult.rows.map(({ role }) => [role.toLowerCase(), role]),
+    );
+
+    // Emails are unique across tenants; deleted users keep theirs until purged
+    const existingResult = await query<{
+      email: string;
+      tenant_id: string;
+      status: User["status"];
+    }>(
+      "SELECT LOWER(email) AS email, tenant_id, status FROM users WHERE LOWER(email) = ANY($1)",
+      [rows.map(({ user }) => user.email.toLowerCase())],
+    );
+    const existingUsers = new Map(
+      existingResult.rows.map((existing) => [existing.email, existing]),
+    );
+
+    const userCount = await query<{ count: string }>(
+      "SELECT COUNT(*) AS count FROM users WHERE tenant_id = $1 AND status != $2",
+      [context.tenantId, "Deleted"],
+    );
+    let plannedUserCount = Number(userCount.rows[0].count);
+
+    const callerIsTenantAdmin = rows.some(({ user }) => user.is_tenant_admin)
+      ? (await loadPermissions(context.tenantId, context.userId)).isTenantAdmin
+      : false;
+
+    const seenEmails = new Set<string>();
+    const results: ImportUserRowResult[] = [];
+    const validUsers: { result: ImportUserRowResult; user: NewUser }[] = [];
+
+    for (const { line, user, issues } of rows) {
+      const errors = [...issues, ...validate(importUserRowSchema, user)];
+      const email = user.email.toLowerCase();
+      const role = tenantRoles.get(user.role.toLowerCase());
+
+      if (user.role && !role) {
+        errors.push({
+          field: "role",
+          message: `Role "${user.role}" does not exist`,
+        });
+      }
+
+      if (user.email && seenEmails.has(email)) {
+        errors.push({
+          field: "email",
+          message: "Email appears earlier in the file",
+        });
+      }
+      seenEmails.add(email);
+
+      const existing = existingUsers.get(email);
+      if (existing) {
+        errors.push({
+          field: "email",
+          message:
+            existing.tenant_id === context.tenantId &&
+            existing.status === "Deleted"
+              ? "A deleted user has this email; restore or purge them first"
+              : "User with this email already exists",
+        });
+      }
+
+      if (user.is_tenant_admin && !callerIsTenantAdmin) {
+        errors.push({
+          field: "is_tenant_admin",
+          message: "Only tenant admins can grant tenant admin access",
+        });
+      }
+
+      if (errors.length === 0) {
+        try {
+          assertWithinPlanLimit(
+            request.tenant,
+            "maxUsers",
+            plannedUserCount,
+            "users",
+          );
+          plannedUserCount++;
+        } catch (error) {
+          if (!(error instanceof TenantGuardError)) {
+            throw error;
+          }
+          errors.push({ message: error.message });
+        }
+      }
+
+      const result: ImportUserRowResult = {
+        line,
+        email: user.email,
+        role: role || user.role,
+        status: errors.length === 0 ? "valid" : "invalid",
+        errors,
+      };
+      results.push(result);
+
+      if (errors.length === 0 && role) {
+        validUsers.push({
+          result,
+          user: {
+            email: user.email,
+            password: null,
+            role,
+            region: user.region,
+            store_id: user.store_id,
+            is_tenant_admin: user.is_tenant_admin,
+          },
+        });
+      }
+    }
 
-    if (error.message.includes("already exists")) {
-      return errorResponse(400, error.message, "email");
+    if (!dryRun) {
+      // One at a time: each user is its own transaction and Cognito call
+      for (const { result, user } of validUsers) {
+        try {
+          const created = await withTransaction((client) =>
+            insertUser(client, context, user),
+          );
+          result.status = "created";
+          result.user_id = created.user_id;
+        } catch (error: any) {
+          console.error(`Error importing user on line ${result.line}:`, error);
+          result.status = "failed";
+          result.errors = [
+            error instanceof HttpError
+              ? { field: error.details.field, message: error.message }
+              : { message: "Failed to create user" },
+          ];
+        }
+      }
     }
 
-    return errorResponse(500, "Failed to create user", undefined, true);
+    const countStatus = (status: ImportRowStatus) =>
+      results.filter((result) => result.status === status).length;
+
+    const response: ImportUsersResponse = {
+      dry_run: dryRun,
+      total: results.length,
+      valid: validUsers.length,
+      invalid: countStatus("invalid"),
+      created: countStatus("created"),
+      failed: countStatus("failed"),
+      rows: results,
+    };
+
+    console.log(
+      `User import${dryRun ? " (dry run)" : ""} in tenant ${context.tenantId}: ` +
+        `${response.created} created, ${response.failed} failed, ` +
+        `${response.invalid} invalid of ${response.total}`,
+    );
+    return successResponse(200, response);
+  } catch (error: any) {
+    console.error("Error importing users:", error);
+    return toErrorResponse(error, "Failed to import users");
   }
 }
 
 /**
- * Lists all users for the tenant
- * GET /users
+ * Lists the tenant's users a page at a time
+ * Filters combine with AND; results are ordered by sortBy, then user_id, and
+ * paged with a keyset cursor so pages stay stable while users are added
+ * GET /users?role=&status=&region=&store_id=&email=&sortBy=&sortOrder=&limit=&cursor=
  */
 export async function listUsers(
-  event: APIGatewayEvent,
+  request: TenantRequest<unknown>,
 ): Promise<LambdaResponse> {
   try {
-    console.log("listUsers: Starting request");
-    const context = getRequestContext(event);
-    console.log("listUsers: Context extracted", {
-      tenantId: context.tenantId,
-      userId: context.userId,
-    });
+    const { context } = request;
+    const filters = parseParams<ListUsersQuery>(
+      listUsersQuerySchema,
+      request.query,
+    );
+    const sortBy: UserSortField = filters.sortBy || "created_at";
+    const sortOrder = filters.sortOrder || "desc";
+    const limit = filters.limit ? Number(filters.limit) : DEFAULT_USER_PAGE_SIZE;
+
+    const conditions = ["tenant_id = $1", "status != $2"];
+    const values: unknown[] = [context.tenantId, "Deleted"];
+    const addCondition = (sql: string, value: unknown) => {
+      values.push(value);
+      conditions.push(sql.replace("?", `$${values.length}`));
+    };
 
-    // Query users for this tenant only
-    const result = await query<User>(
-      `SELECT user_id, tenant_id, email, role, region, store_id, is_tenant_admin, status, created_at
+    if (filters.role?.trim()) {
+      addCondition("role = ?", filters.role.trim());
+    }
+    if (filters.status) {
+      addCondition("status = ?", filters.status);
+    }
+    if (filters.region?.trim()) {
+      addCondition("region = ?", filters.region.trim());
+    }
+    if (filters.store_id?.trim()) {
+      addCondition("store_id = ?", filters.store_id.trim());
+    }
+    if (filters.email?.trim()) {
+      addCondition(
+        "email ILIKE ? ESCAPE '\\'",
+        `%${escapeLikePattern(filters.email.trim())}%`,
+      );
+    }
+
+    // The total ignores the cursor: it counts every page
+    const countResult = await query<{ total: string }>(
+      `SELECT COUNT(*) AS total FROM users WHERE ${conditions.join(" AND ")}`,
+      values,
+    );
+
+    if (filters.cursor) {
+      const cursor = decodeCursor(filters.cursor, sortBy, sortOrder);
+      values.push(cursor.value, cursor.userId);
+      const sortValue =
+        sortBy === "created_at"
+          ? `$${values.length - 1}::timestamp`
+          : `$${values.length - 1}`;
+      conditions.push(
+        `(${sortBy}, user_id) ${sortOrder === "asc" ? ">" : "<"} (${sortValue}, $${values.length})`,
+      );
+    }
+
+    // sortBy is one of USER_SORT_FIELDS (checked by the schema), so it is
+    // safe to interpolate. The sort value is read as text so timestamps
+    // keep their full precision in the cursor. One extra row tells whether
+    // another page follows
+    values.push(limit + 1);
+    const result = await query<User & { sort_value: string }>(
+      `SELECT user_id, tenant_id, email, role, region, store_id, is_tenant_admin, status, created_at,
+              ${sortBy}::text AS sort_value
        FROM users
-       WHERE tenant_id = $1 AND status != $2
-       ORDER BY created_at DESC`,
-      [context.tenantId, "Deleted"],
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY ${sortBy} ${sortOrder}, user_id ${sortOrder}
+       LIMIT $${values.length}`,
+      values,
     );
 
-    console.log("listUsers: Query successful", { count: result.rowCount });
+    const rows = result.rows.slice(0, limit);
+    const last = rows[rows.length - 1];
 
     const response: ListUsersResponse = {
-      users: result.rows,
-      count: result.rowCount,
+      users: rows.map(({ sort_value: _sortValue, ...user }) => user),
+      count: rows.length,
+      total: Number(countResult.rows[0].total),
+      next_cursor:
+        result.rows.length > limit
+          ? encodeCursor({
+              sortBy,
+              sortOrder,
+              value: last.sort_value,
+              userId: last.user_id,
+            })
+          : null,
     };
 
     return successResponse(200, response);
   } catch (error: any) {
     console.error("Error listing users:", error);
-    console.error("Error stack:", error.stack);
-
-    // Check if it's an authorization error
-    if (
-      error.message?.includes("authorizer") ||
-      error.message?.includes("claims")
-    ) {
-      return errorResponse(401, "Unauthorized: " + error.message);
-    }
+    return toErrorResponse(error, "Failed to list users");
+  }
+}
 
-    return errorResponse(
-      500,
-      "Failed to list users: " + error.message,
-      undefined,
-      true,
-    );
+/**
+ * Gets the caller's own profile and permissions
+ * Open to every active user; the frontend shows menus and buttons from it
+ * GET /users/me
+ */
+export async function getCurrentUser(
+  request: TenantRequest<unknown>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const user = await loadPermissions(context.tenantId, context.userId);
+
+    const response: CurrentUserResponse = {
+      user_id: user.userId,
+      email: context.email,
+      role: user.role,
+      is_tenant_admin: user.isTenantAdmin,
+      permissions: user.permissions,
+    };
+
+    return successResponse(200, response);
+  } catch (error: any) {
+    console.error("Error getting current user:", error);
+    return toErrorResponse(error, "Failed to get current user");
   }
 }
 
@@ -323,20 +586,20 @@ export async function listUsers(
  * Gets a specific user by ID
  * GET /users/{userId}
  */
-export async function getUser(event: APIGatewayEvent): Promise<LambdaResponse> {
+export async function getUser(
+  request: TenantRequest<{ userId: string }>,
+): Promise<LambdaResponse> {
   try {
-    const context = getRequestContext(event);
-    const userId = event.pathParameters?.userId;
-
-    if (!userId) {
-      return errorResponse(400, "User ID is required");
-    }
+    const { context } = request;
+    const { userId } = parseParams<{ userId: string }>(
+      userParamsSchema,
+      request.params,
+    );
 
     // Validate tenant ownership
     const isValidTenant = await validateUserTenant(userId, context.tenantId);
     if (!isValidTenant) {
-      return errorResponse(
-        403,
+      throw new ForbiddenError(
         "Access denied: resource belongs to different tenant",
       );
     }
@@ -350,13 +613,13 @@ export async function getUser(event: APIGatewayEvent): Promise<LambdaResponse> {
     );
 
     if (result.rows.length === 0) {
-      return errorResponse(404, "User not found");
+      throw new NotFoundError("User not found");
     }
 
     return successResponse(200, result.rows[0]);
   } catch (error: any) {
     console.error("Error getting user:", error);
-    return errorResponse(500, "Failed to get user", undefined, true);
+    return toErrorResponse(error, "Failed to get user");
   }
 }
 
@@ -365,41 +628,24 @@ export async function getUser(event: APIGatewayEvent): Promise<LambdaResponse> {
  * PUT /users/{userId}/role
  */
 export async function updateUserRole(
-  event: APIGatewayEvent,
+  request: TenantRequest<{ userId: string }>,
 ): Promise<LambdaResponse> {
   try {
-    const context = getRequestContext(event);
-    const userId = event.pathParameters?.userId;
-
-    if (!userId) {
-      return errorResponse(400, "User ID is required");
-    }
-
-    // Parse request body
-    if (!event.body) {
-      return errorResponse(400, "Request body is required");
-    }
-
-    const requestData: UpdateUserRoleRequest = JSON.parse(event.body);
-
-    // Validate request
-    const validation = validateUpdateRoleRequest(requestData);
-    if (!validation.valid) {
-      return errorResponse(400, validation.error!, validation.field);
-    }
-
-    // Validate admin permissions
-    try {
-      await validateTenantAdmin(context.userId, context.tenantId);
-    } catch (error: any) {
-      return errorResponse(403, error.message);
-    }
+    const { context } = request;
+    const { userId } = parseParams<{ userId: string }>(
+      userParamsSchema,
+      request.params,
+    );
+    const requestData = parseBody<UpdateUserRoleRequest>(
+      updateUserRoleSchema,
+      request.body,
+    );
+    const role = await resolveTenantRole(context.tenantId, requestData.role);
 
     // Validate tenant ownership
     const isValidTenant = await validateUserTenant(userId, context.tenantId);
     if (!isValidTenant) {
-      return errorResponse(
-        403,
+      throw new ForbiddenError(
         "Access denied: resource belongs to different tenant",
       );
     }
@@ -410,43 +656,327 @@ export async function updateUserRole(
       const userResult = await client.query<{
         cognito_user_id: string;
         email: string;
+        role: string;
+        is_tenant_admin: boolean;
       }>(
-        "SELECT cognito_user_id, email FROM users WHERE user_id = $1 AND tenant_id = $2",
+        "SELECT cognito_user_id, email, role, is_tenant_admin FROM users WHERE user_id = $1 AND tenant_id = $2",
         [userId, context.tenantId],
       );
 
       if (userResult.rows.length === 0) {
-        throw new Error("User not found");
+        throw new NotFoundError("User not found");
       }
 
-      const cognitoUserId = userResult.rows[0].cognito_user_id;
+      if (userResult.rows[0].is_tenant_admin) {
+        await assertCallerIsTenantAdmin(
+          context,
+          "Only tenant admins can change the role of a tenant admin",
+        );
+      }
 
-      // Update Cognito
-      await updateCognitoUserRole(cognitoUserId, requestData.role);
+      const cognitoUserId = userResult.rows[0].cognito_user_id;
 
-      // Update PostgreSQL
+      // Update PostgreSQL first: if Cognito then fails, the transaction
+      // rolls back and both still hold the old role
       await client.query(
-        "UPDATE users SET role = $1 WHERE user_id = $2 AND tenant_id = $3",
-        [requestData.role, userId, context.tenantId],
+        "UPDATE users SET role = $1, cognito_role = $1 WHERE user_id = $2 AND tenant_id = $3",
+        [role, userId, context.tenantId],
       );
+
+      await recordAuditEvent(client, context, {
+        action: "user.role_changed",
+        targetType: "user",
+        targetId: userId,
+        before: { role: userResult.rows[0].role },
+        after: { role },
+      });
+
+      // Update Cognito
+      await updateCognitoUserRole(cognitoUserId, role);
     });
 
     console.log(
-      `User role updated: ${userId} to ${requestData.role} in tenant ${context.tenantId}`,
+      `User role updated: ${userId} to ${role} in tenant ${context.tenantId}`,
     );
     return successResponse(200, {
       success: true,
       userId,
-      role: requestData.role,
+      role,
     });
   } catch (error: any) {
     console.error("Error updating user role:", error);
+    return toErrorResponse(error, "Failed to update user role");
+  }
+}
+
+/**
+ * Updates a user's role, region, store and tenant admin flag
+ * Role, region and store ID are mirrored into Cognito; only tenant admins
+ * may grant or revoke tenant admin, and never their own
+ * PATCH /users/{userId}
+ */
+export async function updateUser(
+  request: TenantRequest<{ userId: string }>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const { userId } = parseParams<{ userId: string }>(
+      userParamsSchema,
+      request.params,
+    );
+    const requestData = parseBody<UpdateUserRequest>(
+      updateUserSchema,
+      request.body,
+    );
+    const role =
+      requestData.role === undefined
+        ? undefined
+        : await resolveTenantRole(context.tenantId, requestData.role);
 
-    if (error.message === "User not found") {
-      return errorResponse(404, error.message);
+    // Validate tenant ownership
+    const isValidTenant = await validateUserTenant(userId, context.tenantId);
+    if (!isValidTenant) {
+      throw new ForbiddenError(
+        "Access denied: resource belongs to different tenant",
+      );
     }
 
-    return errorResponse(500, "Failed to update user role", undefined, true);
+    const user = await withTransaction(async (client) => {
+      const userResult = await client.query<User>(
+        `SELECT user_id, tenant_id, email, cognito_user_id, role, region, store_id, is_tenant_admin, status, created_at
+         FROM users
+         WHERE user_id = $1 AND tenant_id = $2 AND status != $3
+         FOR UPDATE`,
+        [userId, context.tenantId, "Deleted"],
+      );
+
+      if (userResult.rows.length === 0) {
+        throw new NotFoundError("User not found");
+      }
+
+      const current = userResult.rows[0];
+      const before = {
+        role: current.role,
+        region: current.region || null,
+        store_id: current.store_id || null,
+        is_tenant_admin: current.is_tenant_admin,
+      };
+      const after = {
+        role: role ?? before.role,
+        region:
+          requestData.region === undefined
+            ? before.region
+            : requestData.region?.trim() || null,
+        store_id:
+          requestData.store_id === undefined
+            ? before.store_id
+            : requestData.store_id?.trim() || null,
+        is_tenant_admin: requestData.is_tenant_admin ?? before.is_tenant_admin,
+      };
+
+      if (after.is_tenant_admin !== before.is_tenant_admin) {
+        if (current.cognito_user_id === context.userId) {
+          throw new ValidationError(
+            "Cannot change your own tenant admin access",
+            "is_tenant_admin",
+          );
+        }
+
+        await assertCallerIsTenantAdmin(
+          context,
+          "Only tenant admins can grant or revoke tenant admin access",
+        );
+      } else if (after.role !== before.role && current.is_tenant_admin) {
+        await assertCallerIsTenantAdmin(
+          context,
+          "Only tenant admins can change the role of a tenant admin",
+        );
+      }
+
+      const changed = (Object.keys(after) as (keyof typeof after)[]).filter(
+        (field) => after[field] !== before[field],
+      );
+
+      if (changed.length > 0) {
+        // Update PostgreSQL first: if Cognito then fails, the transaction
+        // rolls back and both still hold the old values
+        await client.query(
+          `UPDATE users
+           SET role = $1, cognito_role = $1, region = $2, store_id = $3, is_tenant_admin = $4, updated_at = NOW()
+           WHERE user_id = $5 AND tenant_id = $6`,
+          [
+            after.role,
+            after.region,
+            after.store_id,
+            after.is_tenant_admin,
+            userId,
+            context.tenantId,
+          ],
+        );
+
+        await recordAuditEvent(client, context, {
+          action: "user.updated",
+          targetType: "user",
+          targetId: userId,
+          before: Object.fromEntries(
+            changed.map((field) => [field, before[field]]),
+          ),
+          after: Object.fromEntries(
+            changed.map((field) => [field, after[field]]),
+          ),
+        });
+
+        await updateCognitoUserProfile(current.cognito_user_id, {
+          role: changed.includes("role") ? after.role : undefined,
+          region: changed.includes("region") ? after.region : undefined,
+          store_id: changed.includes("store_id") ? after.store_id : undefined,
+        });
+      }
+
+      const { cognito_user_id: _cognitoUserId, ...updated } = current;
+      return { ...updated, ...after };
+    });
+
+    console.log(`User updated: ${userId} in tenant ${context.tenantId}`);
+    return successResponse(200, user);
+  } catch (error: any) {
+    console.error("Error updating user:", error);
+    return toErrorResponse(error, "Failed to update user");
+  }
+}
+
+/**
+ * Moves a user between Active and Inactive in PostgreSQL and Cognito
+ * PostgreSQL is updated first so a Cognito failure rolls both back
+ *
+ * @throws ConflictError if the user already has the requested status
+ */
+async function setUserStatus(
+  request: TenantRequest<{ userId: string }>,
+  status: "Active" | "Inactive",
+): Promise<void> {
+  const { context } = request;
+  const { userId } = parseParams<{ userId: string }>(
+    userParamsSchema,
+    request.params,
+  );
+
+  // Validate tenant ownership
+  const isValidTenant = await validateUserTenant(userId, context.tenantId);
+  if (!isValidTenant) {
+    throw new ForbiddenError(
+      "Access denied: resource belongs to different tenant",
+    );
+  }
+
+  await withTransaction(async (client) => {
+    const userResult = await client.query<{
+      cognito_user_id: string;
+      status: string;
+      is_tenant_admin: boolean;
+    }>(
+      `SELECT cognito_user_id, status, is_tenant_admin
+       FROM users
+       WHERE user_id = $1 AND tenant_id = $2 AND status != $3
+       FOR UPDATE`,
+      [userId, context.tenantId, "Deleted"],
+    );
+
+    if (userResult.rows.length === 0) {
+      throw new NotFoundError("User not found");
+    }
+
+    const current = userResult.rows[0];
+
+    // Prevent self-deactivation, which would lock the caller out
+    if (status === "Inactive" && current.cognito_user_id === context.userId) {
+      throw new ValidationError("Cannot deactivate your own account");
+    }
+
+    if (current.status === status) {
+      throw new ConflictError(
+        status === "Active"
+          ? "User is already active"
+          : "User is already inactive",
+      );
+    }
+
+    if (current.is_tenant_admin) {
+      await assertCallerIsTenantAdmin(
+        context,
+        status === "Active"
+          ? "Only tenant admins can reactivate a tenant admin"
+          : "Only tenant admins can deactivate a tenant admin",
+      );
+    }
+
+    await client.query(
+      "UPDATE users SET status = $1, updated_at = NOW() WHERE user_id = $2 AND tenant_id = $3",
+      [status, userId, context.tenantId],
+    );
+
+    await recordAuditEvent(client, context, {
+      action: status === "Active" ? "user.reactivated" : "user.deactivated",
+      targetType: "user",
+      targetId: userId,
+      before: { status: current.status },
+      after: { status },
+    });
+
+    if (status === "Active") {
+      await enableCognitoUser(current.cognito_user_id);
+    } else {
+      await disableCognitoUser(current.cognito_user_id);
+    }
+  });
+}
+
+/**
+ * Deactivates a user: they can no longer sign in, call the API or embed
+ * dashboards, but keep their data and count toward the plan's user limit
+ * POST /users/{userId}/deactivate
+ */
+export async function deactivateUser(
+  request: TenantRequest<{ userId: string }>,
+): Promise<LambdaResponse> {
+  try {
+    await setUserStatus(request, "Inactive");
+
+    console.log(
+      `User deactivated: ${request.params.userId} in tenant ${request.context.tenantId}`,
+    );
+    return successResponse(200, {
+      success: true,
+      userId: request.params.userId,
+      status: "Inactive",
+    });
+  } catch (error: any) {
+    console.error("Error deactivating user:", error);
+    return toErrorResponse(error, "Failed to deactivate user");
+  }
+}
+
+/**
+ * Reactivates a deactivated user
+ * POST /users/{userId}/reactivate
+ */
+export async function reactivateUser(
+  request: TenantRequest<{ userId: string }>,
+): Promise<LambdaResponse> {
+  try {
+    await setUserStatus(request, "Active");
+
+    console.log(
+      `User reactivated: ${request.params.userId} in tenant ${request.context.tenantId}`,
+    );
+    return successResponse(200, {
+      success: true,
+      userId: request.params.userId,
+      status: "Active",
+    });
+  } catch (error: any) {
+    console.error("Error reactivating user:", error);
+    return toErrorResponse(error, "Failed to reactivate user");
   }
 }
 
@@ -455,73 +985,355 @@ export async function updateUserRole(
  * DELETE /users/{userId}
  */
 export async function deleteUser(
-  event: APIGatewayEvent,
+  request: TenantRequest<{ userId: string }>,
 ): Promise<LambdaResponse> {
   try {
-    const context = getRequestContext(event);
-    const userId = event.pathParameters?.userId;
-
-    if (!userId) {
-      return errorResponse(400, "User ID is required");
-    }
-
-    // Validate admin permissions
-    try {
-      await validateTenantAdmin(context.userId, context.tenantId);
-    } catch (error: any) {
-      return errorResponse(403, error.message);
-    }
+    const { context } = request;
+    const { userId } = parseParams<{ userId: string }>(
+      userParamsSchema,
+      request.params,
+    );
 
     // Validate tenant ownership
     const isValidTenant = await validateUserTenant(userId, context.tenantId);
     if (!isValidTenant) {
-      return errorResponse(
-        403,
+      throw new ForbiddenError(
         "Access denied: resource belongs to different tenant",
       );
     }
 
-    // Prevent self-deletion
-    if (userId === context.userId) {
-      return errorResponse(400, "Cannot delete your own account");
-    }
-
     // Delete from both Cognito and PostgreSQL
     await withTransaction(async (client) => {
       // Get user's Cognito ID
       const userResult = await client.query<{
         cognito_user_id: string;
         email: string;
+        role: string;
+        status: string;
+        is_tenant_admin: boolean;
       }>(
-        "SELECT cognito_user_id, email FROM users WHERE user_id = $1 AND tenant_id = $2 AND status != $3",
+        "SELECT cognito_user_id, email, role, status, is_tenant_admin FROM users WHERE user_id = $1 AND tenant_id = $2 AND status != $3",
         [userId, context.tenantId, "Deleted"],
       );
 
       if (userResult.rows.length === 0) {
-        throw new Error("User not found");
+        throw new NotFoundError("User not found");
       }
 
-      const cognitoUserId = userResult.rows[0].cognito_user_id;
+      const { cognito_user_id: cognitoUserId, email, status } =
+        userResult.rows[0];
 
-      // Delete from Cognito
-      await deleteCognitoUser(cognitoUserId);
+      // Prevent self-deletion; context.userId is the caller's Cognito sub
+      if (cognitoUserId === context.userId) {
+        throw new ValidationError("Cannot delete your own account");
+      }
+
+      if (userResult.rows[0].is_tenant_admin) {
+        await assertCallerIsTenantAdmin(
+          context,
+          "Only tenant admins can delete a tenant admin",
+        );
+      }
 
-      // Mark as deleted in PostgreSQL (soft delete)
+      // Mark as deleted in PostgreSQL (soft delete) first: if Cognito then
+      // fails, the transaction rolls back and the audit event with it
       await client.query(
-        "UPDATE users SET status = $1 WHERE user_id = $2 AND tenant_id = $3",
+        "UPDATE users SET status = $1, deleted_at = NOW(), updated_at = NOW() WHERE user_id = $2 AND tenant_id = $3",
         ["Deleted", userId, context.tenantId],
       );
+
+      await recordAuditEvent(client, context, {
+        action: "user.deleted",
+        targetType: "user",
+        targetId: userId,
+        before: { email, role: userResult.rows[0].role, status },
+        after: { status: "Deleted" },
+      });
+
+      // Delete from Cognito
+      await deleteCognitoUser(cognitoUserId);
     });
 
     console.log(`User deleted: ${userId} from tenant ${context.tenantId}`);
     return successResponse(200, { success: true, userId });
   } catch (error: any) {
     console.error("Error deleting user:", error);
+    return toErrorResponse(error, "Failed to delete user");
+  }
+}
+
+/**
+ * Lists the tenant's deleted users that have not been purged, most recently
+ * deleted first, with when each can be purged
+ * GET /users/deleted
+ */
+export async function listDeletedUsers(
+  request: TenantRequest<unknown>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const retentionDays = purgeRetentionDays();
+
+    const result = await query<DeletedUser>(
+      `SELECT user_id, email, role, region, store_id,
+              ${DELETED_AT_SQL} AS deleted_at,
+              ${DELETED_AT_SQL} + make_interval(days => $3) AS purge_after,
+              ${DELETED_AT_SQL} + make_interval(days => $3) <= NOW() AS can_purge
+       FROM users
+       WHERE tenant_id = $1 AND status = $2 AND purged_at IS NULL
+       ORDER BY ${DELETED_AT_SQL} DESC, user_id DESC`,
+      [context.tenantId, "Deleted", retentionDays],
+    );
+
+    const response: ListDeletedUsersResponse = {
+      users: result.rows,
+      count: result.rows.length,
+      retention_days: retentionDays,
+    };
 
-    if (error.message === "User not found") {
-      return errorResponse(404, error.message);
+    return successResponse(200, response);
+  } catch (error: any) {
+    console.error("Error listing deleted users:", error);
+    return toErrorResponse(error, "Failed to list deleted users");
+  }
+}
+
+/**
+ * Restores a deleted user with a new Cognito account and temporary password
+ * The user keeps their user_id, region, store, governance rules and audit
+ * history; only tenant admins may restore a tenant admin
+ * POST /users/{userId}/restore
+ */
+export async function restoreUser(
+  request: TenantRequest<{ userId: string }>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const { userId } = parseParams<{ userId: string }>(
+      userParamsSchema,
+      request.params,
+    );
+    const requestData = parseBody<RestoreUserRequest>(
+      restoreUserSchema,
+      request.body,
+    );
+
+    // Validate tenant ownership
+    const isValidTenant = await validateUserTenant(userId, context.tenantId);
+    if (!isValidTenant) {
+      throw new ForbiddenError(
+        "Access denied: resource belongs to different tenant",
+      );
     }
 
-    return errorResponse(500, "Failed to delete user", undefined, true);
+    // Restored users count toward the plan's user limit again
+    const userCount = await query<{ count: string }>(
+      "SELECT COUNT(*) AS count FROM users WHERE tenant_id = $1 AND status != $2",
+      [context.tenantId, "Deleted"],
+    );
+    assertWithinPlanLimit(
+      request.tenant,
+      "maxUsers",
+      Number(userCount.rows[0].count),
+      "users",
+    );
+
+    const user = await withTransaction(async (client) => {
+      const userResult = await client.query<
+        Omit<User, "cognito_user_id"> & { purged_at: Date | null }
+      >(
+        `SELECT user_id, tenant_id, email, role, region, store_id, is_tenant_admin, status, created_at, purged_at
+         FROM users
+         WHERE user_id = $1 AND tenant_id = $2 AND status = $3
+         FOR UPDATE`,
+        [userId, context.tenantId, "Deleted"],
+      );
+
+      if (userResult.rows.length === 0) {
+        throw new NotFoundError("Deleted user not found");
+      }
+
+      const { purged_at: purgedAt, ...deleted } = userResult.rows[0];
+      if (purgedAt) {
+        throw new ConflictError("User has been purged and cannot be restored");
+      }
+
+      if (deleted.is_tenant_admin) {
+        await assertCallerIsTenantAdmin(
+          context,
+          "Only tenant admins can restore a tenant admin",
+        );
+      }
+
+      // The role may have been deleted since; the caller then picks another
+      const role = await resolveTenantRole(
+        context.tenantId,
+        requestData.role || deleted.role,
+      );
+
+      const cognitoUserId = await createCognitoUser(
+        deleted.email,
+        requestData.password,
+        context.tenantId,
+        role,
+        {
+          region: deleted.region || null,
+          store_id: deleted.store_id || null,
+        },
+      );
+
+      try {
+        await client.query(
+          `UPDATE users
+           SET cognito_user_id = $1, role = $2, cognito_role = $2, status = $3, deleted_at = NULL, updated_at = NOW()
+           WHERE user_id = $4 AND tenant_id = $5`,
+          [cognitoUserId, role, "Active", userId, context.tenantId],
+        );
+
+        await recordAuditEvent(client, context, {
+          action: "user.restored",
+          targetType: "user",
+          targetId: userId,
+          before: { role: deleted.role, status: "Deleted" },
+          after: { role, status: "Active" },
+        });
+      } catch (error) {
+        // The transaction rolls back; remove the Cognito user so no login
+        // exists without a matching row
+        await deleteCognitoUser(cognitoUserId).catch((cleanupError) =>
+          console.error(
+            `Failed to remove Cognito user ${cognitoUserId} after restore failure:`,
+            cleanupError,
+          ),
+        );
+        throw error;
+      }
+
+      return { ...deleted, role, status: "Active" as const };
+    });
+
+    console.log(`User restored: ${userId} in tenant ${context.tenantId}`);
+    return successResponse(200, user);
+  } catch (error: any) {
+    console.error("Error restoring user:", error);
+    return toErrorResponse(error, "Failed to restore user");
+  }
+}
+
+/**
+ * Permanently anonymizes a deleted user once the retention period has
+ * passed: the email is replaced (in audit events too), Cognito, region and
+ * store links are cleared and their governance rules are removed. The row
+ * stays so audit events and created_by references still resolve, and the
+ * email can be used for a new user
+ * POST /users/{userId}/purge
+ */
+export async function purgeUser(
+  request: TenantRequest<{ userId: string }>,
+): Promise<LambdaResponse> {
+  try {
+    const { context } = request;
+    const { userId } = parseParams<{ userId: string }>(
+      userParamsSchema,
+      request.params,
+    );
+    const retentionDays = purgeRetentionDays();
+
+    // Validate tenant ownership
+    const isValidTenant = await validateUserTenant(userId, context.tenantId);
+    if (!isValidTenant) {
+      throw new ForbiddenError(
+        "Access denied: resource belongs to different tenant",
+      );
+    }
+
+    await withTransaction(async (client) => {
+      const userResult = await client.query<{
+        cognito_user_id: string | null;
+        is_tenant_admin: boolean;
+        purged_at: Date | null;
+        can_purge: boolean;
+      }>(
+        `SELECT cognito_user_id, is_tenant_admin, purged_at,
+                ${DELETED_AT_SQL} + make_interval(days => $4) <= NOW() AS can_purge
+         FROM users
+         WHERE user_id = $1 AND tenant_id = $2 AND status = $3
+         FOR UPDATE`,
+        [userId, context.tenantId, "Deleted", retentionDays],
+      );
+
+      if (userResult.rows.length === 0) {
+        throw new NotFoundError("Deleted user not found");
+      }
+
+      if (userResult.rows[0].purged_at) {
+        throw new ConflictError("User has already been purged");
+      }
+
+      if (userResult.rows[0].cognito_user_id === context.userId) {
+        throw new ValidationError("Cannot purge your own account");
+      }
+
+      if (userResult.rows[0].is_tenant_admin) {
+        await assertCallerIsTenantAdmin(
+          context,
+          "Only tenant admins can purge a tenant admin",
+        );
+      }
+
+      if (!userResult.rows[0].can_purge) {
+        throw new ConflictError(
+          `Deleted users can be purged ${retentionDays} days after deletion`,
+        );
+      }
+
+      // Emails are unique across tenants, so the placeholder includes both IDs
+      const purgedEmail =
+        `${userId}.${context.tenantId}@purged.invalid`.toLowerCase();
+
+      await client.query(
+        `UPDATE users
+         SET email = $1, cognito_user_id = NULL, region = NULL, store_id = NULL, is_tenant_admin = FALSE,
+             purged_at = NOW(), updated_at = NOW()
+         WHERE user_id = $2 AND tenant_id = $3`,
+        [purgedEmail, userId, context.tenantId],
+      );
+
+      // Audit events keep their history but not the email: snapshots of the
+      // user (user.created after, user.deleted before) and their own actions
+      await client.query(
+        `UPDATE audit_events
+         SET before = CASE WHEN before ? 'email'
+                        THEN jsonb_set(before, '{email}', to_jsonb($3::TEXT)) ELSE before END,
+             after = CASE WHEN after ? 'email'
+                       THEN jsonb_set(after, '{email}', to_jsonb($3::TEXT)) ELSE after END
+         WHERE tenant_id = $1 AND target_type = 'user' AND target_id = $2
+           AND (before ? 'email' OR after ? 'email')`,
+        [context.tenantId, userId, purgedEmail],
+      );
+
+      await client.query(
+        "UPDATE audit_events SET actor_email = $3 WHERE tenant_id = $1 AND actor_user_id = $2",
+        [context.tenantId, userId, purgedEmail],
+      );
+
+      await client.query(
+        "DELETE FROM governance_rules WHERE user_id = $1 AND tenant_id = $2",
+        [userId, context.tenantId],
+      );
+
+      // No before/after: the point is to stop holding the personal data
+      await recordAuditEvent(client, context, {
+        action: "user.purged",
+        targetType: "user",
+        targetId: userId,
+      });
+    });
+
+    console.log(`User purged: ${userId} in tenant ${context.tenantId}`);
+    return successResponse(200, { success: true, userId });
+  } catch (error: any) {
+    console.error("Error purging user:", error);
+    return toErrorResponse(error, "Failed to purge user");
   }
 }
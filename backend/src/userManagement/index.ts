@@ -3,113 +3,56 @@
  * Routes requests to appropriate handlers based on HTTP method and path
  */
 
-import { APIGatewayEvent, LambdaResponse } from './types';
+import { createRouter, permissionRoute, route, tenantRoute } from '../shared/http';
 import {
   createUser,
+  importUsers,
   listUsers,
+  getCurrentUser,
   getUser,
+  updateUser,
   updateUserRole,
   deleteUser,
+  deactivateUser,
+  reactivateUser,
+  listDeletedUsers,
+  restoreUser,
+  purgeUser,
 } from './handler';
 
 /**
  * Lambda handler function
  * Routes requests based on HTTP method and resource path
  */
-export async function handler(event: APIGatewayEvent): Promise<LambdaResponse> {
-  console.log('Received event:', JSON.stringify(event, null, 2));
-
-  try {
-    // Extract HTTP method - handle both REST API and HTTP API formats
-    const httpMethod = event.httpMethod || 
-                      event.requestContext?.http?.method || 
-                      event.requestContext?.httpMethod ||
-                      'UNKNOWN';
-    
-    // Extract path - handle both REST API and HTTP API formats
-    const path = event.resource || 
-                event.requestContext?.resourcePath ||
-                event.routeKey || 
-                event.path ||
-                '';
-
-    console.log(`Routing request: ${httpMethod} ${path}`);
-
-    // Validate that we have a valid method and path
-    if (httpMethod === 'UNKNOWN' || !path) {
-      console.error('Unable to determine HTTP method or path from event');
-      return {
-        statusCode: 400,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-        body: JSON.stringify({ 
-          error: 'Invalid request format',
-          details: 'Unable to determine HTTP method or path'
-        }),
-      };
-    }
-
-    // Route based on HTTP method and path
-    if (httpMethod === 'GET' && path === '/users') {
-      return await listUsers(event);
-    }
-
-    if (httpMethod === 'POST' && path === '/users') {
-      return await createUser(event);
-    }
-
-    if (httpMethod === 'GET' && path.startsWith('/users/') && !path.includes('/role')) {
-      return await getUser(event);
-    }
-
-    if (httpMethod === 'PUT' && path.includes('/role')) {
-      return await updateUserRole(event);
-    }
-
-    if (httpMethod === 'DELETE' && path.startsWith('/users/')) {
-      return await deleteUser(event);
-    }
-
-    // Unknown route
-    console.warn(`Route not found: ${httpMethod} ${path}`);
-    return {
-      statusCode: 404,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-      body: JSON.stringify({ 
-        error: 'Route not found',
-        method: httpMethod,
-        path: path
-      }),
-    };
-  } catch (error: any) {
-    console.error('Unhandled error in Lambda handler:', error);
-    console.error('Error stack:', error.stack);
-    
-    return {
-      statusCode: 500,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-      body: JSON.stringify({ 
-        error: 'Internal server error', 
-        message: error.message,
-        retryable: true 
-      }),
-    };
-  }
-}
+export const handler = createRouter([
+  route('GET', '/users', permissionRoute('users:read', listUsers)),
+  route('POST', '/users', permissionRoute('users:write', createUser)),
+  route('POST', '/users/import', permissionRoute('users:write', importUsers)),
+  route('GET', '/users/me', tenantRoute(getCurrentUser)),
+  route('GET', '/users/deleted', permissionRoute('users:read', listDeletedUsers)),
+  route('GET', '/users/{userId}', permissionRoute('users:read', getUser)),
+  route('PATCH', '/users/{userId}', permissionRoute('users:write', updateUser)),
+  route('PUT', '/users/{userId}/role', permissionRoute('users:write', updateUserRole)),
+  route('DELETE', '/users/{userId}', permissionRoute('users:write', deleteUser)),
+  route('POST', '/users/{userId}/deactivate', permissionRoute('users:write', deactivateUser)),
+  route('POST', '/users/{userId}/reactivate', permissionRoute('users:write', reactivateUser)),
+  route('POST', '/users/{userId}/restore', permissionRoute('users:write', restoreUser)),
+  route('POST', '/users/{userId}/purge', permissionRoute('users:write', purgeUser)),
+]);
 
 // Export handler functions for testing
 export {
   createUser,
+  importUsers,
   listUsers,
+  getCurrentUser,
   getUser,
+  updateUser,
   updateUserRole,
   deleteUser,
+  deactivateUser,
+  reactivateUser,
+  listDeletedUsers,
+  restoreUser,
+  purgeUser,
 };
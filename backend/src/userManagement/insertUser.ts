@@ -0,0 +1,105 @@
+/**
+ * Creating a user in Cognito and PostgreSQL
+ * Shared by POST /users, POST /users/import and POST /tenants (the tenant's
+ * first admin), so every new user gets the same row, Cognito attributes and
+ * audit event
+ */
+
+import { PoolClient } from 'pg';
+import { AuditContext, recordAuditEvent } from '../shared/audit';
+import { createCognitoUser, deleteCognitoUser } from './cognito';
+import { CreateUserResponse } from './types';
+
+/**
+ * A user to create; the role must already be one of the tenant's roles
+ */
+export interface NewUser {
+  email: string;
+  /** Temporary password, or null to have Cognito email an invitation */
+  password: string | null;
+  role: string;
+  region?: string;
+  store_id?: string;
+  is_tenant_admin?: boolean;
+}
+
+/**
+ * Creates a user in Cognito and PostgreSQL and records user.created
+ * Callers check for an existing user and the plan limit first. If the row
+ * cannot be written the Cognito user is removed again
+ *
+ * @param client - Client of the open transaction the row is written in
+ * @param context - Caller, and the tenant the user is created in
+ */
+export async function insertUser(
+  client: PoolClient,
+  context: AuditContext,
+  newUser: NewUser
+): Promise<CreateUserResponse> {
+  // Create user in Cognito
+  const cognitoUserId = await createCognitoUser(newUser.email, newUser.password, context.tenantId, newUser.role, {
+    region: newUser.region || null,
+    store_id: newUser.store_id || null,
+  });
+
+  try {
+    // Generate user_id - dynamically determine padding based on existing IDs
+    const userIdResult = await client.query<{ user_id: string }>(
+      `SELECT 'U' || LPAD(
+        (COALESCE(MAX(SUBSTRING(user_id FROM 2)::INTEGER), 0) + 1)::TEXT,
+        GREATEST(LENGTH(COALESCE(MAX(SUBSTRING(user_id FROM 2)), '000')), 3),
+        '0'
+      ) AS user_id
+       FROM users WHERE tenant_id = $1`,
+      [context.tenantId]
+    );
+    const userId = userIdResult.rows[0]?.user_id || 'U001';
+
+    // Insert into PostgreSQL and return created_at
+    const insertResult = await client.query<{ created_at: string }>(
+      `INSERT INTO users (user_id, tenant_id, email, cognito_user_id, role, cognito_role, region, store_id, is_tenant_admin, status, created_at)
+       VALUES ($1, $2, $3, $4, $5, $5, $6, $7, $8, $9, NOW())
+       RETURNING created_at`,
+      [
+        userId,
+        context.tenantId,
+        newUser.email,
+        cognitoUserId,
+        newUser.role,
+        newUser.region || null,
+        newUser.store_id || null,
+        newUser.is_tenant_admin || false,
+        'Active',
+      ]
+    );
+
+    await recordAuditEvent(client, context, {
+      action: 'user.created',
+      targetType: 'user',
+      targetId: userId,
+      after: {
+        email: newUser.email,
+        role: newUser.role,
+        region: newUser.region || null,
+        store_id: newUser.store_id || null,
+        is_tenant_admin: newUser.is_tenant_admin || false,
+        status: 'Active',
+      },
+    });
+
+    return {
+      user_id: userId,
+      email: newUser.email,
+      role: newUser.role,
+      status: 'Active',
+      created_at: insertResult.rows[0].created_at,
+    };
+  } catch (error) {
+    // The transaction rolls back; remove the Cognito user so no login
+    // exists without a matching row
+    await deleteCognitoUser(cognitoUserId).catch((cleanupError) =>
+      console.error(`Failed to remove Cognito user ${cognitoUserId} after insert failure:`, cleanupError)
+    );
+    throw error;
+  }
+}
@@ -3,15 +3,8 @@
  * ShopPulse Analytics - Multi-tenant User Management
  */
 
-/**
- * Request context from API Gateway with Cognito authorizer
- */
-export interface RequestContext {
-  tenantId: string;
-  userId: string;
-  userRole: string;
-  email: string;
-}
+import type { Permission } from '../shared/permissions';
+import type { FieldIssue } from '../shared/validation';
 
 /**
  * User data structure from database
@@ -49,66 +42,151 @@ export interface UpdateUserRoleRequest {
 }
 
 /**
- * API Gateway Lambda event
- */
-export interface APIGatewayEvent {
-  body: string | null;
-  headers?: { [key: string]: string };
-  pathParameters: { [key: string]: string } | null;
-  httpMethod?: string;
-  resource?: string;
-  path?: string;
-  routeKey?: string;
-  requestContext: {
-    authorizer: {
-      claims: {
-        sub: string;
-        email: string;
-        'custom:tenant_id': string;
-        'custom:role': string;
-      };
-    };
-    http?: {
-      method: string;
-    };
-    httpMethod?: string;
-    resourcePath?: string;
-  };
+ * PATCH /users/{userId} request body
+ * Absent fields are left unchanged; null or blank region/store_id clears it
+ */
+export interface UpdateUserRequest {
+  role?: string;
+  region?: string | null;
+  store_id?: string | null;
+  is_tenant_admin?: boolean;
 }
 
 /**
- * Lambda response
+ * Success response for user creation
  */
-export interface LambdaResponse {
-  statusCode: number;
-  headers?: { [key: string]: string };
-  body: string;
+export interface CreateUserResponse {
+  user_id: string;
+  email: string;
+  role: string;
+  status: 'Active' | 'Inactive' | 'Deleted';
+  created_at: string;
 }
 
 /**
- * Error response body
+ * Restore user request body (validated by restoreUserSchema)
  */
-export interface ErrorResponse {
-  error: string;
-  field?: string;
-  retryable?: boolean;
+export interface RestoreUserRequest {
+  password: string;
+  role?: string;
 }
 
 /**
- * Success response for user creation
+ * POST /users/import request body (validated by importUsersSchema)
  */
-export interface CreateUserResponse {
+export interface ImportUsersRequest {
+  csv: string;
+  dry_run?: boolean;
+}
+
+/**
+ * A user read from one row of an import CSV
+ */
+export interface ImportUserRow {
+  email: string;
+  role: string;
+  region?: string;
+  store_id?: string;
+  is_tenant_admin: boolean;
+}
+
+/**
+ * Outcome of one import row
+ * - valid: passed validation (dry run only)
+ * - invalid: failed validation and was skipped
+ * - created: the user was created
+ * - failed: passed validation but creating the user failed
+ */
+export type ImportRowStatus = 'valid' | 'invalid' | 'created' | 'failed';
+
+/**
+ * Per-row result of POST /users/import
+ * `line` is the CSV line the row starts on; `errors` is empty unless the
+ * row is invalid or failed
+ */
+export interface ImportUserRowResult {
+  line: number;
+  email: string;
+  role: string;
+  status: ImportRowStatus;
+  user_id?: string;
+  errors: FieldIssue[];
+}
+
+/**
+ * POST /users/import response
+ * `valid` counts rows that passed validation, whether or not they were created
+ */
+export interface ImportUsersResponse {
+  dry_run: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  created: number;
+  failed: number;
+  rows: ImportUserRowResult[];
+}
+
+/**
+ * A deleted user that has not been purged yet
+ * purge_after is when the retention period ends and the user can be purged
+ */
+export interface DeletedUser {
   user_id: string;
   email: string;
   role: string;
-  status: 'Active' | 'Inactive' | 'Deleted';
-  created_at: string;
+  region?: string;
+  store_id?: string;
+  deleted_at: Date;
+  purge_after: Date;
+  can_purge: boolean;
 }
 
+/**
+ * GET /users/deleted response
+ */
+export interface ListDeletedUsersResponse {
+  users: DeletedUser[];
+  count: number;
+  retention_days: number;
+}
+
+/**
+ * GET /users/me response: the caller's profile and what their role allows
+ */
+export interface CurrentUserResponse {
+  user_id: string;
+  email: string;
+  role: string;
+  is_tenant_admin: boolean;
+  permissions: Permission[];
+}
+
+/**
+ * GET /users query string (validated by listUsersQuerySchema)
+ */
+export interface ListUsersQuery {
+  role?: string;
+  status?: 'Active' | 'Inactive';
+  region?: string;
+  store_id?: string;
+  email?: string;
+  sortBy?: UserSortField;
+  sortOrder?: 'asc' | 'desc';
+  limit?: string;
+  cursor?: string;
+}
+
+export type UserSortField = 'created_at' | 'email' | 'role' | 'status';
+
 /**
  * List users response
+ * `count` is the number of users on this page and `total` the number
+ * matching the filters; next_cursor is null on the last page
  */
 export interface ListUsersResponse {
   users: User[];
   count: number;
+  total: number;
+  next_cursor: string | null;
 }
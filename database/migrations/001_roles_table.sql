@@ -0,0 +1,152 @@
+-- Migration 001: roles table, metric catalog and user lifecycle columns
+-- Brings a database created from an earlier schema.sql up to date with:
+--   - the metrics catalog and per-tenant roles tables
+--   - foreign keys from role_metric_visibility to roles and metrics
+--   - users.cognito_role, deleted_at and purged_at, and a nullable cognito_user_id
+-- Roles are backfilled from the names already in users.role and
+-- role_metric_visibility.role; every tenant also gets the system Admin role.
+-- Safe to run more than once. New databases get all of this from schema.sql.
+
+BEGIN;
+
+-- 1. METRICS CATALOG TABLE
+CREATE TABLE IF NOT EXISTS metrics (
+    metric_key VARCHAR(50) PRIMARY KEY,
+    display_name VARCHAR(100) NOT NULL,
+    category VARCHAR(20) NOT NULL,
+    source_table VARCHAR(50) NOT NULL,
+    sort_order INTEGER DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO metrics (metric_key, display_name, category, source_table, sort_order) VALUES
+  ('gross_revenue', 'Gross Revenue', 'Finance', 'orders', 1),
+  ('net_revenue', 'Net Revenue', 'Finance', 'orders', 2),
+  ('discount_amount', 'Discount Amount', 'Finance', 'orders', 3),
+  ('margin', 'Margin', 'Finance', 'orders', 4),
+  ('fulfillment_status', 'Fulfillment Status', 'Operations', 'fulfillment', 5),
+  ('fulfillment_sla', 'Fulfillment SLA', 'Operations', 'fulfillment', 6),
+  ('sla_met', 'SLA Met', 'Operations', 'fulfillment', 7),
+  ('days_to_ship', 'Days to Ship', 'Operations', 'fulfillment', 8),
+  ('inventory_levels', 'Inventory Levels', 'Operations', 'fulfillment', 9),
+  ('campaign_spend', 'Campaign Spend', 'Marketing', 'marketing_campaigns', 10),
+  ('conversions', 'Conversions', 'Marketing', 'marketing_campaigns', 11),
+  ('revenue_attributed', 'Revenue Attributed', 'Marketing', 'marketing_campaigns', 12),
+  ('campaign_roi', 'Campaign ROI', 'Marketing', 'marketing_campaigns', 13),
+  ('cac', 'Customer Acquisition Cost', 'Marketing', 'marketing_campaigns', 14)
+ON CONFLICT (metric_key) DO NOTHING;
+
+-- 2. USERS LIFECYCLE COLUMNS
+-- Purged users keep their row but lose their Cognito account
+ALTER TABLE users ALTER COLUMN cognito_user_id DROP NOT NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS cognito_role VARCHAR(20);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS purged_at TIMESTAMP;
+
+-- Users deleted before deleted_at existed count their retention period from
+-- their last update (run first: the update trigger moves updated_at)
+UPDATE users SET deleted_at = updated_at WHERE status = 'Deleted' AND deleted_at IS NULL;
+
+-- Cognito custom:role holds the role as it is now; set before role names are
+-- normalized below, so a changed spelling is synced to Cognito later
+UPDATE users SET cognito_role = role WHERE cognito_role IS NULL;
+
+-- 3. ROLES TABLE
+CREATE TABLE IF NOT EXISTS roles (
+    tenant_id VARCHAR(10) NOT NULL,
+    role VARCHAR(20) NOT NULL,
+    description VARCHAR(255),
+    -- Named permissions, e.g. users:read, dashboards:view (backend/src/shared/validation/permissions.ts)
+    permissions TEXT[] NOT NULL DEFAULT '{}',
+    is_system BOOLEAN DEFAULT FALSE,
+    created_by VARCHAR(10),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (tenant_id, role),
+    FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id),
+    FOREIGN KEY (created_by) REFERENCES users(user_id) ON DELETE SET NULL
+);
+
+-- Role names are unique per tenant regardless of case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_roles_tenant_name ON roles(tenant_id, LOWER(role));
+
+-- Every tenant has the system Admin role with every permission
+INSERT INTO roles (tenant_id, role, description, permissions, is_system)
+SELECT tenant_id, 'Admin', 'Full access to user, role and governance management',
+       '{users:read,users:write,roles:write,dashboards:view,governance:write,audit:read}', TRUE
+FROM tenants
+ON CONFLICT DO NOTHING;
+
+-- Backfill the roles users and metric visibility already name. Names that
+-- differ only in case become one role (the first spelling in sort order);
+-- ON CONFLICT skips names an existing role already covers, Admin included.
+-- User management used to need is_tenant_admin, so these roles only view
+-- dashboards, like a role created through the API without a permissions list
+INSERT INTO roles (tenant_id, role, permissions, is_system)
+SELECT DISTINCT ON (tenant_id, LOWER(role)) tenant_id, role, '{dashboards:view}', FALSE
+FROM (
+    SELECT tenant_id, role FROM users
+    UNION
+    SELECT tenant_id, role FROM role_metric_visibility
+) named_roles
+ORDER BY tenant_id, LOWER(role), role
+ON CONFLICT DO NOTHING;
+
+-- Point users and metric visibility at the role's canonical spelling
+UPDATE users u
+SET role = r.role
+FROM roles r
+WHERE r.tenant_id = u.tenant_id AND LOWER(r.role) = LOWER(u.role) AND r.role <> u.role;
+
+-- A metric already granted under the canonical spelling keeps that row
+DELETE FROM role_metric_visibility v
+USING roles r
+WHERE r.tenant_id = v.tenant_id AND LOWER(r.role) = LOWER(v.role) AND r.role <> v.role
+  AND EXISTS (
+      SELECT 1 FROM role_metric_visibility canonical
+      WHERE canonical.tenant_id = v.tenant_id
+        AND canonical.role = r.role
+        AND canonical.metric_name = v.metric_name
+  );
+
+-- Several misspellings may still name the same metric; keep one of them
+DELETE FROM role_metric_visibility v
+USING role_metric_visibility other
+WHERE other.tenant_id = v.tenant_id
+  AND LOWER(other.role) = LOWER(v.role)
+  AND other.metric_name = v.metric_name
+  AND other.id < v.id;
+
+UPDATE role_metric_visibility v
+SET role = r.role
+FROM roles r
+WHERE r.tenant_id = v.tenant_id AND LOWER(r.role) = LOWER(v.role) AND r.role <> v.role;
+
+-- Metric visibility can only name catalog metrics. Rows for other names
+-- never matched a dashboard metric and cannot be managed from the Roles page
+DELETE FROM role_metric_visibility
+WHERE metric_name NOT IN (SELECT metric_key FROM metrics);
+
+-- 4. ROLE METRIC VISIBILITY FOREIGN KEYS
+-- Named as PostgreSQL names them in a database created from schema.sql
+ALTER TABLE role_metric_visibility
+    DROP CONSTRAINT IF EXISTS role_metric_visibility_tenant_id_role_fkey,
+    ADD CONSTRAINT role_metric_visibility_tenant_id_role_fkey
+        FOREIGN KEY (tenant_id, role) REFERENCES roles(tenant_id, role) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE role_metric_visibility
+    DROP CONSTRAINT IF EXISTS role_metric_visibility_metric_name_fkey,
+    ADD CONSTRAINT role_metric_visibility_metric_name_fkey
+        FOREIGN KEY (metric_name) REFERENCES metrics(metric_key);
+
+-- 5. TRIGGERS
+DROP TRIGGER IF EXISTS update_metrics_updated_at ON metrics;
+CREATE TRIGGER update_metrics_updated_at BEFORE UPDATE ON metrics
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_roles_updated_at ON roles;
+CREATE TRIGGER update_roles_updated_at BEFORE UPDATE ON roles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
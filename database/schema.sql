@@ -23,12 +23,19 @@ CREATE TABLE users (
     user_id VARCHAR(10) PRIMARY KEY,
     tenant_id VARCHAR(10) NOT NULL,
     email VARCHAR(100) UNIQUE NOT NULL,
-    cognito_user_id VARCHAR(255) UNIQUE NOT NULL,
+    -- NULL once a deleted user is purged
+    cognito_user_id VARCHAR(255) UNIQUE,
     role VARCHAR(20) NOT NULL,
+    -- Last role written to Cognito custom:role; differs from role while a role rename is still being applied
+    cognito_role VARCHAR(20),
     region VARCHAR(10),
     store_id VARCHAR(10),
     is_tenant_admin BOOLEAN DEFAULT FALSE,
     status VARCHAR(20) DEFAULT 'Active',
+    -- Set when status becomes Deleted; the purge retention period counts from it
+    deleted_at TIMESTAMP,
+    -- Set when a deleted user's personal data is anonymized; they can no longer be restored
+    purged_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id),
@@ -106,7 +113,55 @@ CREATE INDEX idx_campaigns_tenant ON marketing_campaigns(tenant_id);
 CREATE INDEX idx_campaigns_date ON marketing_campaigns(tenant_id, date);
 CREATE INDEX idx_campaigns_channel ON marketing_campaigns(tenant_id, channel);
 
--- 6. ROLE METRIC VISIBILITY TABLE
+-- 6. METRICS CATALOG TABLE
+-- Platform-wide list of metrics that roles can be granted visibility of
+CREATE TABLE metrics (
+    metric_key VARCHAR(50) PRIMARY KEY,
+    display_name VARCHAR(100) NOT NULL,
+    category VARCHAR(20) NOT NULL,
+    source_table VARCHAR(50) NOT NULL,
+    sort_order INTEGER DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO metrics (metric_key, display_name, category, source_table, sort_order) VALUES
+  ('gross_revenue', 'Gross Revenue', 'Finance', 'orders', 1),
+  ('net_revenue', 'Net Revenue', 'Finance', 'orders', 2),
+  ('discount_amount', 'Discount Amount', 'Finance', 'orders', 3),
+  ('margin', 'Margin', 'Finance', 'orders', 4),
+  ('fulfillment_status', 'Fulfillment Status', 'Operations', 'fulfillment', 5),
+  ('fulfillment_sla', 'Fulfillment SLA', 'Operations', 'fulfillment', 6),
+  ('sla_met', 'SLA Met', 'Operations', 'fulfillment', 7),
+  ('days_to_ship', 'Days to Ship', 'Operations', 'fulfillment', 8),
+  ('inventory_levels', 'Inventory Levels', 'Operations', 'fulfillment', 9),
+  ('campaign_spend', 'Campaign Spend', 'Marketing', 'marketing_campaigns', 10),
+  ('conversions', 'Conversions', 'Marketing', 'marketing_campaigns', 11),
+  ('revenue_attributed', 'Revenue Attributed', 'Marketing', 'marketing_campaigns', 12),
+  ('campaign_roi', 'Campaign ROI', 'Marketing', 'marketing_campaigns', 13),
+  ('cac', 'Customer Acquisition Cost', 'Marketing', 'marketing_campaigns', 14);
+
+-- 7. ROLES TABLE
+-- Per-tenant roles; system roles (Admin) are created with the tenant and cannot be deleted
+CREATE TABLE roles (
+    tenant_id VARCHAR(10) NOT NULL,
+    role VARCHAR(20) NOT NULL,
+    description VARCHAR(255),
+    -- Named permissions, e.g. users:read, dashboards:view (backend/src/shared/validation/permissions.ts)
+    permissions TEXT[] NOT NULL DEFAULT '{}',
+    is_system BOOLEAN DEFAULT FALSE,
+    created_by VARCHAR(10),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (tenant_id, role),
+    FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id),
+    FOREIGN KEY (created_by) REFERENCES users(user_id) ON DELETE SET NULL
+);
+
+-- Role names are unique per tenant regardless of case
+CREATE UNIQUE INDEX idx_roles_tenant_name ON roles(tenant_id, LOWER(role));
+
+-- 8. ROLE METRIC VISIBILITY TABLE
 CREATE TABLE role_metric_visibility (
     id SERIAL PRIMARY KEY,
     tenant_id VARCHAR(10) NOT NULL,
@@ -116,12 +171,14 @@ CREATE TABLE role_metric_visibility (
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id),
+    FOREIGN KEY (tenant_id, role) REFERENCES roles(tenant_id, role) ON UPDATE CASCADE ON DELETE CASCADE,
+    FOREIGN KEY (metric_name) REFERENCES metrics(metric_key),
     UNIQUE(tenant_id, role, metric_name)
 );
 
 CREATE INDEX idx_role_visibility_tenant ON role_metric_visibility(tenant_id, role);
 
--- 7. GOVERNANCE RULES TABLE
+-- 9. GOVERNANCE RULES TABLE
 CREATE TABLE governance_rules (
     rule_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     tenant_id VARCHAR(10) NOT NULL,
@@ -138,6 +195,86 @@ CREATE TABLE governance_rules (
 CREATE INDEX idx_governance_tenant ON governance_rules(tenant_id);
 CREATE INDEX idx_governance_user ON governance_rules(tenant_id, user_id);
 
+-- 10. DASHBOARDS TABLE
+-- Per-tenant catalog of QuickSight dashboards and the roles allowed to open them
+CREATE TABLE dashboards (
+    dashboard_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id VARCHAR(10) NOT NULL,
+    title VARCHAR(100) NOT NULL,
+    description VARCHAR(255),
+    quicksight_dashboard_id VARCHAR(255) NOT NULL,
+    allowed_roles TEXT[] NOT NULL,
+    sort_order INTEGER DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id),
+    UNIQUE(tenant_id, title)
+);
+
+CREATE INDEX idx_dashboards_tenant ON dashboards(tenant_id);
+
+-- 11. Q&A TOPICS TABLE
+-- Per-tenant registry of QuickSight Q topics for the natural-language Q&A experience
+CREATE TABLE qna_topics (
+    topic_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id VARCHAR(10) NOT NULL,
+    title VARCHAR(100) NOT NULL,
+    quicksight_topic_id VARCHAR(255) NOT NULL,
+    allowed_roles TEXT[] NOT NULL,
+    sort_order INTEGER DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id),
+    UNIQUE(tenant_id, title)
+);
+
+CREATE INDEX idx_qna_topics_tenant ON qna_topics(tenant_id);
+
+-- 12. EMBED URL CACHE TABLE
+-- Short-lived QuickSight embed URLs keyed by a hash of the caller and session tags
+CREATE TABLE embed_url_cache (
+    cache_key VARCHAR(64) PRIMARY KEY,
+    tenant_id VARCHAR(10) NOT NULL,
+    embed_url TEXT NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id)
+);
+
+CREATE INDEX idx_embed_url_cache_tenant_expires ON embed_url_cache(tenant_id, expires_at);
+
+-- 13. EMBED RATE LIMITS TABLE
+-- Token buckets limiting QuickSight embed URL generation per tenant
+CREATE TABLE embed_rate_limits (
+    bucket_key VARCHAR(100) PRIMARY KEY,
+    tokens DOUBLE PRECISION NOT NULL,
+    refilled_at TIMESTAMP NOT NULL
+);
+
+-- 14. AUDIT EVENTS TABLE
+-- Administrative actions (users, roles, metric visibility, governance rules, tenant plan and activation), written in the same transaction as the change
+CREATE TABLE audit_events (
+    event_id BIGSERIAL PRIMARY KEY,
+    tenant_id VARCHAR(10) NOT NULL,
+    -- Acting user; null once that user is purged. actor_email keeps who it was
+    actor_user_id VARCHAR(10),
+    actor_email VARCHAR(100),
+    action VARCHAR(50) NOT NULL,
+    target_type VARCHAR(20) NOT NULL,
+    target_id VARCHAR(100) NOT NULL,
+    before JSONB,
+    after JSONB,
+    -- API Gateway request ID, to match the event with the Lambda's logs
+    request_id VARCHAR(100),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (tenant_id) REFERENCES tenants(tenant_id),
+    FOREIGN KEY (actor_user_id) REFERENCES users(user_id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_audit_events_tenant ON audit_events(tenant_id, event_id DESC);
+CREATE INDEX idx_audit_events_action ON audit_events(tenant_id, action, event_id DESC);
+CREATE INDEX idx_audit_events_target ON audit_events(tenant_id, target_type, target_id, event_id DESC);
+CREATE INDEX idx_audit_events_actor ON audit_events(tenant_id, actor_user_id, event_id DESC);
 
 
 -- Auto-update trigger function for updated_at columns
@@ -165,8 +302,20 @@ CREATE TRIGGER update_fulfillment_updated_at BEFORE UPDATE ON fulfillment
 CREATE TRIGGER update_campaigns_updated_at BEFORE UPDATE ON marketing_campaigns
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_metrics_updated_at BEFORE UPDATE ON metrics
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_roles_updated_at BEFORE UPDATE ON roles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_role_visibility_updated_at BEFORE UPDATE ON role_metric_visibility
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 CREATE TRIGGER update_governance_updated_at BEFORE UPDATE ON governance_rules
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_dashboards_updated_at BEFORE UPDATE ON dashboards
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_qna_topics_updated_at BEFORE UPDATE ON qna_topics
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
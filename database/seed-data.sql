@@ -7,6 +7,21 @@ INSERT INTO tenants (tenant_id, tenant_name, industry, plan_tier, country, creat
   ('T002', 'Tech Gadgets Inc', 'Electronics', 'Enterprise', 'Canada', '2024-01-15', true),
   ('T003', 'Home Decor Co', 'Home & Garden', 'Standard', 'USA', '2024-02-01', true);
 
+-- Insert default roles (Admin is the built-in system role every tenant has)
+INSERT INTO roles (tenant_id, role, description, permissions, is_system) VALUES
+  ('T001', 'Admin', 'Full access to user, role and governance management', '{users:read,users:write,roles:write,dashboards:view,governance:write,audit:read}', true),
+  ('T001', 'Finance', 'Revenue, discounts and margin', '{dashboards:view}', false),
+  ('T001', 'Operations', 'Fulfillment status and SLA', '{dashboards:view}', false),
+  ('T001', 'Marketing', 'Campaign spend, conversions and ROI', '{dashboards:view}', false),
+  ('T002', 'Admin', 'Full access to user, role and governance management', '{users:read,users:write,roles:write,dashboards:view,governance:write,audit:read}', true),
+  ('T002', 'Finance', 'Revenue, discounts and margin', '{dashboards:view}', false),
+  ('T002', 'Operations', 'Fulfillment status and SLA', '{dashboards:view}', false),
+  ('T002', 'Marketing', 'Campaign spend, conversions and ROI', '{dashboards:view}', false),
+  ('T003', 'Admin', 'Full access to user, role and governance management', '{users:read,users:write,roles:write,dashboards:view,governance:write,audit:read}', true),
+  ('T003', 'Finance', 'Revenue, discounts and margin', '{dashboards:view}', false),
+  ('T003', 'Operations', 'Fulfillment status and SLA', '{dashboards:view}', false),
+  ('T003', 'Marketing', 'Campaign spend, conversions and ROI', '{dashboards:view}', false);
+
 -- Insert default role metric visibility for T001
 INSERT INTO role_metric_visibility (tenant_id, role, metric_name, is_visible) VALUES
   ('T001', 'Finance', 'gross_revenue', true),
@@ -63,3 +78,26 @@ INSERT INTO role_metric_visibility (tenant_id, role, metric_name, is_visible) VA
   ('T003', 'Admin', 'net_revenue', true),
   ('T003', 'Admin', 'fulfillment_status', true),
   ('T003', 'Admin', 'campaign_spend', true);
+
+-- Insert default dashboard catalog (one landing dashboard per role)
+-- quicksight_dashboard_id values are placeholders; replace with real QuickSight dashboard IDs
+INSERT INTO dashboards (tenant_id, title, description, quicksight_dashboard_id, allowed_roles, sort_order) VALUES
+  ('T001', 'Finance Overview', 'Revenue, discounts and margin', 'shoppulse-finance-overview', ARRAY['Finance', 'Admin'], 1),
+  ('T001', 'Operations Overview', 'Fulfillment status and SLA', 'shoppulse-operations-overview', ARRAY['Operations', 'Admin'], 2),
+  ('T001', 'Marketing Overview', 'Campaign spend, conversions and ROI', 'shoppulse-marketing-overview', ARRAY['Marketing', 'Admin'], 3),
+  ('T002', 'Finance Overview', 'Revenue, discounts and margin', 'shoppulse-finance-overview', ARRAY['Finance', 'Admin'], 1),
+  ('T002', 'Operations Overview', 'Fulfillment status and SLA', 'shoppulse-operations-overview', ARRAY['Operations', 'Admin'], 2),
+  ('T002', 'Marketing Overview', 'Campaign spend, conversions and ROI', 'shoppulse-marketing-overview', ARRAY['Marketing', 'Admin'], 3),
+  ('T003', 'Finance Overview', 'Revenue, discounts and margin', 'shoppulse-finance-overview', ARRAY['Finance', 'Admin'], 1),
+  ('T003', 'Operations Overview', 'Fulfillment status and SLA', 'shoppulse-operations-overview', ARRAY['Operations', 'Admin'], 2),
+  ('T003', 'Marketing Overview', 'Campaign spend, conversions and ROI', 'shoppulse-marketing-overview', ARRAY['Marketing', 'Admin'], 3);
+
+-- Insert default Q&A topic registry
+-- quicksight_topic_id values are placeholders; replace with real QuickSight topic IDs
+INSERT INTO qna_topics (tenant_id, title, quicksight_topic_id, allowed_roles, sort_order) VALUES
+  ('T001', 'Sales', 'shoppulse-sales-topic', ARRAY['Finance', 'Marketing', 'Admin'], 1),
+  ('T001', 'Fulfillment', 'shoppulse-fulfillment-topic', ARRAY['Operations', 'Admin'], 2),
+  ('T002', 'Sales', 'shoppulse-sales-topic', ARRAY['Finance', 'Marketing', 'Admin'], 1),
+  ('T002', 'Fulfillment', 'shoppulse-fulfillment-topic', ARRAY['Operations', 'Admin'], 2),
+  ('T003', 'Sales', 'shoppulse-sales-topic', ARRAY['Finance', 'Marketing', 'Admin'], 1),
+  ('T003', 'Fulfillment', 'shoppulse-fulfillment-topic', ARRAY['Operations', 'Admin'], 2);
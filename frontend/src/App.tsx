@@ -10,8 +10,11 @@ import Layout from './components/layout/Layout';
 import LoginForm from './components/auth/LoginForm';
 import DashboardPage from './pages/DashboardPage';
 import UsersPage from './pages/UsersPage';
+import DeletedUsersPage from './pages/DeletedUsersPage';
 import RolesPage from './pages/RolesPage';
 import SettingsPage from './pages/SettingsPage';
+import TenantsPage from './pages/TenantsPage';
+import AuditPage from './pages/AuditPage';
 
 // Configure Amplify on app initialization
 configureAmplify();
@@ -90,8 +93,11 @@ function AppRoutes() {
         <Route path="/" element={<Navigate to="/dashboard" replace />} />
         <Route path="/dashboard" element={<DashboardPage />} />
         <Route path="/users" element={<UsersPage />} />
+        <Route path="/users/deleted" element={<DeletedUsersPage />} />
         <Route path="/roles" element={<RolesPage />} />
+        <Route path="/audit" element={<AuditPage />} />
         <Route path="/settings" element={<SettingsPage />} />
+        <Route path="/platform/tenants" element={<TenantsPage />} />
       </Route>
 
       {/* Catch-all redirect */}
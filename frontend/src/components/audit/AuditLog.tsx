@@ -0,0 +1,317 @@
+import { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Refresh } from '@mui/icons-material';
+import type { RootState, AppDispatch } from '../../store';
+import {
+  EMPTY_AUDIT_FILTERS,
+  clearError,
+  fetchAuditEvents,
+  fetchMoreAuditEvents,
+} from '../../store/auditSlice';
+import { useAuth } from '../../hooks/useAuth';
+import type { AuditEvent, AuditFilters } from '../../types/audit.types';
+import { AUDIT_ACTIONS, AUDIT_ACTION_LABELS, AUDIT_TARGET_TYPES } from '../../utils/audit';
+import { auditQuerySchema, issuesByField, validate } from '../../utils/validation';
+
+/**
+ * Formats a snapshot value for the changes column
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(', ') : '—';
+  }
+  return String(value);
+}
+
+/**
+ * One line per field that differs between the event's before and after
+ */
+function describeChanges(event: AuditEvent): string[] {
+  const before = event.before || {};
+  const after = event.after || {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return fields
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => {
+      if (!event.before) {
+        return `${field}: ${formatValue(after[field])}`;
+      }
+      if (!event.after) {
+        return `${field} was ${formatValue(before[field])}`;
+      }
+      return `${field}: ${formatValue(before[field])} → ${formatValue(after[field])}`;
+    });
+}
+
+/**
+ * AuditLog component - Administrative actions taken in the tenant
+ * Requires audit:read
+ * Features:
+ * - Filter by action, target, actor and date range
+ * - Newest first, loaded a page at a time
+ */
+export default function AuditLog() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { user, permissionsLoaded, hasPermission } = useAuth();
+  const canReadAudit = hasPermission('audit:read');
+  const { events, filters, nextCursor, loading, error } = useSelector(
+    (state: RootState) => state.audit
+  );
+  const [draft, setDraft] = useState<AuditFilters>(filters);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(filters);
+  const [filterErrors, setFilterErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (canReadAudit) {
+      dispatch(fetchAuditEvents(appliedFilters));
+    }
+  }, [dispatch, canReadAudit, appliedFilters]);
+
+  const handleFilterChange = (field: keyof AuditFilters, value: string) => {
+    setDraft((current) => ({ ...current, [field]: value }));
+  };
+
+  const handleApply = () => {
+    const errors = issuesByField(validate(auditQuerySchema, draft));
+    if (draft.from && draft.to && draft.from > draft.to) {
+      errors.to = 'To must be on or after From';
+    }
+    setFilterErrors(errors);
+
+    if (Object.keys(errors).length === 0) {
+      setAppliedFilters({ ...draft });
+    }
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_AUDIT_FILTERS);
+    setFilterErrors({});
+    setAppliedFilters(EMPTY_AUDIT_FILTERS);
+  };
+
+  if (!user || !permissionsLoaded) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: 200 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!canReadAudit) {
+    return (
+      <Box sx={{ textAlign: 'center', py: 4 }}>
+        <Typography variant="h5" gutterBottom>
+          Access Denied
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          The audit:read permission is required to view the audit log.
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Box sx={{
+        display: 'flex',
+        flexDirection: { xs: 'column', sm: 'row' },
+        justifyContent: 'space-between',
+        alignItems: { xs: 'stretch', sm: 'center' },
+        mb: { xs: 2, sm: 3 },
+        gap: { xs: 2, sm: 0 }
+      }}>
+        <Typography variant="h6" sx={{ fontWeight: 600 }}>
+          Audit Log
+        </Typography>
+        <Button
+          variant="outlined"
+          startIcon={<Refresh />}
+          onClick={() => dispatch(fetchAuditEvents(appliedFilters))}
+          disabled={loading}
+          size="small"
+        >
+          Refresh
+        </Button>
+      </Box>
+
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)', lg: 'repeat(6, 1fr)' },
+          gap: 2,
+          mb: 2,
+        }}
+      >
+        <TextField
+          select
+          size="small"
+          label="Action"
+          value={draft.action}
+          onChange={(e) => handleFilterChange('action', e.target.value)}
+        >
+          <MenuItem value="">All actions</MenuItem>
+          {AUDIT_ACTIONS.map((action) => (
+            <MenuItem key={action} value={action}>
+              {AUDIT_ACTION_LABELS[action]}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="Target type"
+          value={draft.targetType}
+          onChange={(e) => handleFilterChange('targetType', e.target.value)}
+        >
+          <MenuItem value="">All targets</MenuItem>
+          {AUDIT_TARGET_TYPES.map((targetType) => (
+            <MenuItem key={targetType} value={targetType}>
+              {targetType}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          size="small"
+          label="Target"
+          placeholder="User ID or role"
+          value={draft.targetId}
+          onChange={(e) => handleFilterChange('targetId', e.target.value)}
+          error={!!filterErrors.targetId}
+          helperText={filterErrors.targetId}
+        />
+        <TextField
+          size="small"
+          label="Actor"
+          placeholder="User ID or email"
+          value={draft.actor}
+          onChange={(e) => handleFilterChange('actor', e.target.value)}
+          error={!!filterErrors.actor}
+          helperText={filterErrors.actor}
+        />
+        <TextField
+          size="small"
+          type="date"
+          label="From"
+          value={draft.from}
+          onChange={(e) => handleFilterChange('from', e.target.value)}
+          error={!!filterErrors.from}
+          helperText={filterErrors.from}
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+        <TextField
+          size="small"
+          type="date"
+          label="To"
+          value={draft.to}
+          onChange={(e) => handleFilterChange('to', e.target.value)}
+          error={!!filterErrors.to}
+          helperText={filterErrors.to}
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+      </Box>
+      <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+        <Button variant="contained" size="small" onClick={handleApply} disabled={loading}>
+          Apply Filters
+        </Button>
+        <Button size="small" onClick={handleReset} disabled={loading}>
+          Reset
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => dispatch(clearError())}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && events.length === 0 ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : events.length === 0 ? (
+        <Box sx={{ textAlign: 'center', py: 4 }}>
+          <Typography variant="body1" color="text.secondary">
+            No audit events match these filters.
+          </Typography>
+        </Box>
+      ) : (
+        <>
+          <TableContainer component={Paper} elevation={0} sx={{ border: '1px solid #E5E7EB', borderRadius: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Time</TableCell>
+                  <TableCell>Actor</TableCell>
+                  <TableCell>Action</TableCell>
+                  <TableCell>Target</TableCell>
+                  <TableCell>Changes</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {events.map((event) => (
+                  <TableRow key={event.event_id} hover>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      {new Date(event.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>{event.actor_email || event.actor_user_id || '—'}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={AUDIT_ACTION_LABELS[event.action] || event.action}
+                        color={event.action.endsWith('deleted') ? 'error' : 'default'}
+                      />
+                    </TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      {event.target_type} {event.target_id}
+                    </TableCell>
+                    <TableCell>
+                      {describeChanges(event).map((line) => (
+                        <Typography key={line} variant="body2" color="text.secondary">
+                          {line}
+                        </Typography>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          {nextCursor && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+              <Button
+                variant="outlined"
+                size="small"
+                onClick={() => dispatch(fetchMoreAuditEvents())}
+                disabled={loading}
+              >
+                {loading ? 'Loading...' : 'Load More'}
+              </Button>
+            </Box>
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
@@ -1,62 +1,151 @@
-import { useEffect, useCallback, useRef } from 'react';
+import { useEffect, useCallback, useRef, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { Box, Typography, Alert } from '@mui/material';
+import { createEmbeddingContext, type DashboardExperience } from 'amazon-quicksight-embedding-sdk';
 import type { RootState, AppDispatch } from '../../store';
 import { fetchEmbedUrl } from '../../store/dashboardSlice';
+import { useEmbedRefresh } from '../../hooks/useEmbedRefresh';
 import DashboardLoader from './DashboardLoader';
 import DashboardError from './DashboardError';
 import './DashboardEmbed.css';
 
+interface DashboardFrameProps {
+  url: string;
+  hidden: boolean;
+  onLoad: (url: string, experience: DashboardExperience) => void;
+}
+
+/**
+ * Embeds one embed URL with the QuickSight embedding SDK and reports the
+ * experience once its content has loaded
+ */
+function DashboardFrame({ url, hidden, onLoad }: DashboardFrameProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onLoadRef = useRef(onLoad);
+
+  useEffect(() => {
+    onLoadRef.current = onLoad;
+  }, [onLoad]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+
+    let cancelled = false;
+    const experience: Promise<DashboardExperience> = createEmbeddingContext().then((context) =>
+      context.embedDashboard(
+        { url, container, width: '100%', height: '700px' },
+        {
+          onMessage: (event) => {
+            if (event.eventName === 'CONTENT_LOADED') {
+              experience.then((loaded) => !cancelled && onLoadRef.current(url, loaded));
+            }
+          },
+        }
+      )
+    );
+    experience.catch((err) => console.error('Failed to embed dashboard:', err));
+
+    return () => {
+      cancelled = true;
+      container.replaceChildren();
+    };
+  }, [url]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="dashboard-frame"
+      style={hidden ? { position: 'absolute', inset: 0, visibility: 'hidden' } : undefined}
+    />
+  );
+}
+
 /**
  * DashboardEmbed Component
  * 
  * Embeds QuickSight dashboard with automatic URL refresh
- * - Requests embed URL on mount
- * - Renders dashboard in iframe
- * - Auto-refreshes URL every 10 minutes (before 15-minute expiration)
+ * - Requests embed URL on mount and whenever the selected dashboard changes
+ * - Waits for the dashboard catalog so the role's default dashboard is known
+ * - Renders dashboard with the QuickSight embedding SDK
+ * - Refreshes the URL shortly before the backend-reported expiry, paused while the tab is hidden
+ * - Loads a refreshed URL in a hidden frame and swaps it in once loaded, so the
+ *   page keeps its scroll position and never flashes the loader
+ * - Moves the refreshed session to the sheet and parameter values (including
+ *   parameter-bound filter controls) the user had selected before swapping
+ * - Keeps the current dashboard when a background refresh fails; the error
+ *   screen is only for a dashboard that has not loaded
  * - Handles loading and error states
  * 
  * Requirements: 10.1, 10.2, 10.3
  */
 export default function DashboardEmbed() {
   const dispatch = useDispatch<AppDispatch>();
-  const { embedUrl, loading, error } = useSelector((state: RootState) => state.dashboard);
+  const { embedUrl, embedExpiresAt, loading, error, errorCode, selectedDashboardId, dashboardsLoaded } =
+    useSelector((state: RootState) => state.dashboard);
   const { user } = useSelector((state: RootState) => state.auth);
-  const hasLoadedRef = useRef(false);
+  const loadedDashboardRef = useRef<string | null | undefined>(undefined);
+  // The URL currently on screen, the dashboard it belongs to and its SDK experience
+  const [shown, setShown] = useState<{
+    url: string;
+    dashboardId: string | null;
+    experience: DashboardExperience;
+  } | null>(null);
 
   const loadDashboard = useCallback(() => {
-    dispatch(fetchEmbedUrl());
-  }, [dispatch]);
+    dispatch(fetchEmbedUrl(selectedDashboardId || undefined));
+  }, [dispatch, selectedDashboardId]);
 
   useEffect(() => {
-    // Only load if user is authenticated and hasn't loaded yet
-    if (user && !hasLoadedRef.current) {
-      hasLoadedRef.current = true;
+    if (!dashboardsLoaded) {
+      return;
+    }
+
+    // Only load if user is authenticated and this dashboard hasn't loaded yet
+    if (user && loadedDashboardRef.current !== selectedDashboardId) {
+      loadedDashboardRef.current = selectedDashboardId;
       loadDashboard();
     }
+  }, [loadDashboard, user, dashboardsLoaded, selectedDashboardId]);
 
-    // Refresh embed URL every 10 minutes (before 15-minute expiration)
-    const interval = setInterval(() => {
-      if (user) {
-        loadDashboard();
-      }
-    }, 10 * 60 * 1000);
+  useEmbedRefresh(user ? embedExpiresAt : null, loadDashboard);
 
-    // Cleanup interval on unmount
-    return () => {
-      clearInterval(interval);
-    };
-  }, [loadDashboard, user]);
+  const handleFrameLoad = useCallback(
+    async (url: string, experience: DashboardExperience) => {
+      // A refreshed session opens on the default sheet with default parameters;
+      // read the visible session's state now so changes made while it loaded are kept
+      if (shown && shown.url !== url && shown.dashboardId === selectedDashboardId) {
+        try {
+          const [sheetId, parameters] = await Promise.all([
+            shown.experience.getSelectedSheetId(),
+            shown.experience.getParameters(),
+          ]);
+          await experience.setSelectedSheetId(sheetId);
+          if (parameters.length > 0) {
+            await experience.setParameters(parameters);
+          }
+        } catch (err) {
+          // Still swap: a dashboard reset to its defaults beats an expired one
+          console.warn('Failed to restore the sheet and parameters after refresh:', err);
+        }
+      }
+      setShown({ url, dashboardId: selectedDashboardId, experience });
+    },
+    [shown, selectedDashboardId]
+  );
 
-  // Show loading state while fetching initial URL
-  if (loading && !embedUrl) {
+  // Show loading state while fetching the catalog or initial URL
+  if (!dashboardsLoaded || (loading && !embedUrl)) {
     return <DashboardLoader />;
   }
 
   // Show error state if fetch failed
   if (error) {
-    // Check if it's a configuration error
-    const isConfigError = error.includes('configuration') || error.includes('not configured');
+    // QuickSight not set up for this deployment, or no dashboard for the role yet
+    const isConfigError =
+      errorCode === 'SERVICE_UNAVAILABLE' || (errorCode === 'NOT_FOUND' && !selectedDashboardId);
     
     if (isConfigError) {
       return (
@@ -88,25 +177,24 @@ export default function DashboardEmbed() {
     return <DashboardError error={error} onRetry={loadDashboard} />;
   }
 
-  // Render dashboard iframe
+  // A refreshed URL for the dashboard already on screen loads behind the current one
+  const refreshing =
+    shown !== null &&
+    embedUrl !== null &&
+    shown.dashboardId === selectedDashboardId &&
+    shown.url !== embedUrl;
+  const visibleUrl = refreshing ? shown.url : embedUrl;
+  const frames = refreshing ? [visibleUrl, embedUrl] : [visibleUrl];
+
+  // Render dashboard frames
   return (
     <div className="dashboard-container">
-      {embedUrl && (
-        <>
-          {console.log('QuickSight Embed URL:', embedUrl)}
-          <iframe
-            src={embedUrl}
-            width="100%"
-            height="700px"
-            style={{ 
-              border: 0,
-              minHeight: '500px',
-              maxHeight: '80vh'
-            }}
-            title="Analytics Dashboard"
-            allow="fullscreen"
-          />
-        </>
+      {frames.map(
+        (url) =>
+          url && (
+            // Keyed by URL so the preloaded frame is kept, not reloaded, when it becomes visible
+            <DashboardFrame key={url} url={url} hidden={url !== visibleUrl} onLoad={handleFrameLoad} />
+          )
       )}
     </div>
   );
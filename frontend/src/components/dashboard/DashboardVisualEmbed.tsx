@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, Box, Button, CircularProgress, Paper, Typography } from '@mui/material';
+import { getVisualEmbedUrl } from '../../services/dashboardService';
+import { useEmbedRefresh } from '../../hooks/useEmbedRefresh';
+
+interface DashboardVisualEmbedProps {
+  dashboardId: string;
+  sheetId: string;
+  visualId: string;
+  title?: string;
+  height?: number;
+}
+
+/**
+ * DashboardVisualEmbed Component
+ *
+ * Embeds a single QuickSight visual so pages can be composed from individual widgets
+ * - Each instance keeps its own embed URL, so several visuals can share a page
+ * - Uses the same RLS session tags as the full dashboard
+ * - Refreshes the URL shortly before it expires, paused while the tab is hidden
+ */
+export default function DashboardVisualEmbed({
+  dashboardId,
+  sheetId,
+  visualId,
+  title,
+  height = 300,
+}: DashboardVisualEmbedProps) {
+  const [embedUrl, setEmbedUrl] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadVisual = () => {
+      getVisualEmbedUrl(dashboardId, sheetId, visualId)
+        .then((response) => {
+          if (!cancelled) {
+            setEmbedUrl(response.embedUrl);
+            setExpiresAt(Date.now() + response.expiresIn * 1000);
+            setError(null);
+          }
+        })
+        .catch((err) => {
+          if (!cancelled) {
+            setError(err instanceof Error ? err.message : 'Failed to load visual');
+          }
+        });
+    };
+
+    loadVisual();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dashboardId, sheetId, visualId, attempt]);
+
+  // Reload in place: the current visual stays visible until the new URL arrives
+  const refresh = useCallback(() => setAttempt((value) => value + 1), []);
+  useEmbedRefresh(expiresAt, refresh);
+
+  const handleRetry = () => {
+    setError(null);
+    setEmbedUrl(null);
+    setExpiresAt(null);
+    setAttempt((value) => value + 1);
+  };
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 2,
+        borderRadius: 2,
+        border: '1px solid #E5E7EB',
+        bgcolor: 'white',
+      }}
+    >
+      {title && (
+        <Typography variant="h6" sx={{ fontWeight: 600, fontSize: '1rem', mb: 1 }}>
+          {title}
+        </Typography>
+      )}
+
+      {error ? (
+        <Box sx={{ height, display: 'flex', flexDirection: 'column', justifyContent: 'center', gap: 2 }}>
+          <Alert severity="error">{error}</Alert>
+          <Box>
+            <Button variant="outlined" size="small" onClick={handleRetry}>
+              Retry
+            </Button>
+          </Box>
+        </Box>
+      ) : !embedUrl ? (
+        <Box sx={{ height, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+          <CircularProgress size={32} />
+        </Box>
+      ) : (
+        <iframe
+          src={embedUrl}
+          width="100%"
+          height={`${height}px`}
+          style={{ border: 0, borderRadius: 8 }}
+          title={title || 'QuickSight visual'}
+          allow="fullscreen"
+        />
+      )}
+    </Paper>
+  );
+}
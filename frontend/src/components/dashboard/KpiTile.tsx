@@ -0,0 +1,53 @@
+import { Box, Paper, Skeleton, Typography } from '@mui/material';
+import type { MetricValues } from '../../types/analytics.types';
+import { formatMetricValue, type NativeMetricConfig } from './metricConfig';
+
+interface KpiTileProps {
+  config: NativeMetricConfig;
+  summary?: MetricValues;
+  error?: string;
+}
+
+/**
+ * KpiTile Component
+ *
+ * Headline value for one KPI with its supporting figures
+ */
+export default function KpiTile({ config, summary, error }: KpiTileProps) {
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 2,
+        borderRadius: 2,
+        border: '1px solid #E5E7EB',
+        bgcolor: 'white',
+      }}
+    >
+      <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 500 }}>
+        {config.label}
+      </Typography>
+
+      {error ? (
+        <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+          {error}
+        </Typography>
+      ) : !summary ? (
+        <Skeleton variant="text" width="60%" sx={{ fontSize: '2rem' }} />
+      ) : (
+        <>
+          <Typography variant="h5" sx={{ fontWeight: 600, color: '#1F2937', my: 0.5 }}>
+            {formatMetricValue(summary[config.primary.key], config.primary.format)}
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+            {config.secondary.map((column) => (
+              <Typography key={column.key} variant="caption" color="text.secondary">
+                {column.label}: {formatMetricValue(summary[column.key], column.format)}
+              </Typography>
+            ))}
+          </Box>
+        </>
+      )}
+    </Paper>
+  );
+}
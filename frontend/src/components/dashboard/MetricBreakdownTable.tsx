@@ -0,0 +1,53 @@
+import { Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Typography } from '@mui/material';
+import type { BreakdownRow } from '../../types/analytics.types';
+import { formatMetricValue, type MetricColumn } from './metricConfig';
+
+interface MetricBreakdownTableProps {
+  rows: BreakdownRow[];
+  columns: MetricColumn[];
+  groupByLabel: string;
+}
+
+/**
+ * MetricBreakdownTable Component
+ *
+ * Metric values split by the selected dimension, largest first
+ */
+export default function MetricBreakdownTable({ rows, columns, groupByLabel }: MetricBreakdownTableProps) {
+  if (rows.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" sx={{ py: 2, textAlign: 'center' }}>
+        No breakdown available
+      </Typography>
+    );
+  }
+
+  return (
+    <TableContainer sx={{ maxHeight: 280 }}>
+      <Table size="small" stickyHeader>
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ fontWeight: 600 }}>{groupByLabel}</TableCell>
+            {columns.map((column) => (
+              <TableCell key={column.key} align="right" sx={{ fontWeight: 600 }}>
+                {column.label}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.key} hover>
+              <TableCell>{row.key}</TableCell>
+              {columns.map((column) => (
+                <TableCell key={column.key} align="right">
+                  {formatMetricValue(row.values[column.key], column.format)}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
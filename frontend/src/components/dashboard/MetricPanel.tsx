@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { Alert, Box, CircularProgress, MenuItem, Paper, TextField, Typography } from '@mui/material';
+import type { RootState, AppDispatch } from '../../store';
+import { fetchMetric } from '../../store/analyticsSlice';
+import MetricTrendChart from './MetricTrendChart';
+import MetricBreakdownTable from './MetricBreakdownTable';
+import type { NativeMetricConfig } from './metricConfig';
+
+interface MetricPanelProps {
+  config: NativeMetricConfig;
+  refreshKey: number;
+}
+
+/**
+ * MetricPanel Component
+ *
+ * Time-series chart and breakdown table for one KPI
+ * Refetches whenever the shared date range, its own grouping or refreshKey changes
+ */
+export default function MetricPanel({ config, refreshKey }: MetricPanelProps) {
+  const dispatch = useDispatch<AppDispatch>();
+  const query = useSelector((state: RootState) => state.analytics.query);
+  const result = useSelector((state: RootState) => state.analytics.results[config.metric]);
+  const error = useSelector((state: RootState) => state.analytics.metricErrors[config.metric]);
+  const [groupBy, setGroupBy] = useState(config.groupByOptions[0].value);
+
+  useEffect(() => {
+    dispatch(fetchMetric({ metric: config.metric, query: { ...query, groupBy } }));
+  }, [dispatch, config.metric, query, groupBy, refreshKey]);
+
+  const groupByLabel =
+    config.groupByOptions.find((option) => option.value === groupBy)?.label || groupBy;
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 2,
+        borderRadius: 2,
+        border: '1px solid #E5E7EB',
+        bgcolor: 'white',
+      }}
+    >
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+        <Typography variant="h6" sx={{ fontWeight: 600, fontSize: '1rem' }}>
+          {config.label}
+        </Typography>
+        {config.groupByOptions.length > 1 && (
+          <TextField
+            select
+            size="small"
+            label="Group by"
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value)}
+            sx={{ minWidth: 140 }}
+          >
+            {config.groupByOptions.map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+      </Box>
+
+      {error ? (
+        <Alert severity="error">{error}</Alert>
+      ) : !result ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress size={32} />
+        </Box>
+      ) : (
+        <>
+          <MetricTrendChart series={result.series} column={config.primary} />
+          <Box sx={{ mt: 2 }}>
+            <MetricBreakdownTable
+              rows={result.breakdown}
+              columns={[config.primary, ...config.secondary]}
+              groupByLabel={groupByLabel}
+            />
+          </Box>
+        </>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,88 @@
+import { Box, Typography } from '@mui/material';
+import type { SeriesPoint } from '../../types/analytics.types';
+import { formatMetricValue, type MetricColumn } from './metricConfig';
+
+interface MetricTrendChartProps {
+  series: SeriesPoint[];
+  column: MetricColumn;
+  height?: number;
+}
+
+const VIEW_WIDTH = 600;
+
+/**
+ * MetricTrendChart Component
+ *
+ * Lightweight SVG line chart for one column of a metric time series
+ * Null values are skipped rather than drawn as zero
+ */
+export default function MetricTrendChart({ series, column, height = 180 }: MetricTrendChartProps) {
+  const points = series
+    .map((point, index) => ({ index, value: point.values[column.key] }))
+    .filter((point): point is { index: number; value: number } => point.value !== null && point.value !== undefined);
+
+  if (points.length === 0) {
+    return (
+      <Box sx={{ height, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <Typography variant="body2" color="text.secondary">
+          No data for the selected period
+        </Typography>
+      </Box>
+    );
+  }
+
+  const values = points.map((point) => point.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const step = series.length > 1 ? VIEW_WIDTH / (series.length - 1) : 0;
+  const padding = 8;
+
+  const coordinates = points.map((point) => {
+    const x = series.length > 1 ? point.index * step : VIEW_WIDTH / 2;
+    const y = padding + (1 - (point.value - min) / range) * (height - padding * 2);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  const first = coordinates[0].split(',')[0];
+  const last = coordinates[coordinates.length - 1].split(',')[0];
+  const area = `${first},${height} ${coordinates.join(' ')} ${last},${height}`;
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+        <Typography variant="caption" color="text.secondary">
+          Max {formatMetricValue(max, column.format)}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          Min {formatMetricValue(min, column.format)}
+        </Typography>
+      </Box>
+      <svg
+        viewBox={`0 0 ${VIEW_WIDTH} ${height}`}
+        width="100%"
+        height={height}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`${column.label} trend`}
+      >
+        <polygon points={area} fill="#6366F1" fillOpacity={0.08} />
+        <polyline
+          points={coordinates.join(' ')}
+          fill="none"
+          stroke="#6366F1"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 0.5 }}>
+        <Typography variant="caption" color="text.secondary">
+          {series[0].period}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          {series[series.length - 1].period}
+        </Typography>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { Alert, Box, Button, MenuItem, TextField } from '@mui/material';
+import { Refresh as RefreshIcon } from '@mui/icons-material';
+import type { RootState, AppDispatch } from '../../store';
+import { fetchMetricAvailability, setMetricQuery } from '../../store/analyticsSlice';
+import type { Granularity } from '../../types/analytics.types';
+import DashboardLoader from './DashboardLoader';
+import DashboardError from './DashboardError';
+import KpiTile from './KpiTile';
+import MetricPanel from './MetricPanel';
+import { NATIVE_METRICS } from './metricConfig';
+
+const GRANULARITY_OPTIONS: { value: Granularity; label: string }[] = [
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+];
+
+/**
+ * NativeDashboard Component
+ *
+ * KPI tiles, trend charts and breakdown tables served by the analytics API
+ * - Only metrics visible to the user's role are shown
+ * - Date range and granularity apply to every metric
+ */
+export default function NativeDashboard() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { availability, results, metricErrors, query, loading, error } = useSelector(
+    (state: RootState) => state.analytics
+  );
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    dispatch(fetchMetricAvailability());
+  }, [dispatch]);
+
+  const handleRefresh = () => {
+    dispatch(fetchMetricAvailability());
+    setRefreshKey((key) => key + 1);
+  };
+
+  if (loading && availability.length === 0) {
+    return <DashboardLoader />;
+  }
+
+  if (error) {
+    return <DashboardError error={error} onRetry={handleRefresh} />;
+  }
+
+  const visibleMetrics = NATIVE_METRICS.filter((config) =>
+    availability.some((entry) => entry.metric === config.metric && entry.visible)
+  );
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+        <TextField
+          type="date"
+          size="small"
+          label="From"
+          value={query.startDate}
+          onChange={(e) => e.target.value && dispatch(setMetricQuery({ startDate: e.target.value }))}
+          slotProps={{ inputLabel: { shrink: true }, htmlInput: { max: query.endDate } }}
+        />
+        <TextField
+          type="date"
+          size="small"
+          label="To"
+          value={query.endDate}
+          onChange={(e) => e.target.value && dispatch(setMetricQuery({ endDate: e.target.value }))}
+          slotProps={{ inputLabel: { shrink: true }, htmlInput: { min: query.startDate } }}
+        />
+        <TextField
+          select
+          size="small"
+          label="Granularity"
+          value={query.granularity}
+          onChange={(e) => dispatch(setMetricQuery({ granularity: e.target.value as Granularity }))}
+          sx={{ minWidth: 140 }}
+        >
+          {GRANULARITY_OPTIONS.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<RefreshIcon />}
+          onClick={handleRefresh}
+          sx={{ ml: { sm: 'auto' } }}
+        >
+          Refresh
+        </Button>
+      </Box>
+
+      {visibleMetrics.length === 0 ? (
+        <Alert severity="info">
+          No metrics are visible to your role. Please contact your administrator.
+        </Alert>
+      ) : (
+        <>
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)', lg: 'repeat(4, 1fr)' },
+              gap: 2,
+              mb: 2,
+            }}
+          >
+            {visibleMetrics.map((config) => (
+              <KpiTile
+                key={config.metric}
+                config={config}
+                summary={results[config.metric]?.summary}
+                error={metricErrors[config.metric]}
+              />
+            ))}
+          </Box>
+
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: { xs: '1fr', lg: 'repeat(2, 1fr)' },
+              gap: 2,
+            }}
+          >
+            {visibleMetrics.map((config) => (
+              <MetricPanel key={config.metric} config={config} refreshKey={refreshKey} />
+            ))}
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+}
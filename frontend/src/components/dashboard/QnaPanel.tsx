@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Collapse,
+  MenuItem,
+  Paper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { QuestionAnswer as QuestionAnswerIcon } from '@mui/icons-material';
+import { getQnaEmbedUrl } from '../../services/dashboardService';
+import { useEmbedRefresh } from '../../hooks/useEmbedRefresh';
+import { isApiError } from '../../utils/apiClient';
+import type { QnaTopic } from '../../types/dashboard.types';
+
+/**
+ * QnaPanel Component
+ *
+ * "Ask a question" panel embedding the QuickSight Generative Q&A experience
+ * - Requests the embed URL only once the panel is opened
+ * - Answers use the same tenant/region/store scope as the dashboards
+ * - Refreshes the URL shortly before it expires, paused while the tab is hidden
+ */
+export default function QnaPanel() {
+  const [open, setOpen] = useState(false);
+  const [topicId, setTopicId] = useState<string | undefined>(undefined);
+  const [topics, setTopics] = useState<QnaTopic[]>([]);
+  const [embedUrl, setEmbedUrl] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notInPlan, setNotInPlan] = useState(false);
+  const [canRetry, setCanRetry] = useState(true);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadQna = () => {
+      getQnaEmbedUrl(topicId)
+        .then((response) => {
+          if (!cancelled) {
+            setEmbedUrl(response.embedUrl);
+            setExpiresAt(Date.now() + response.expiresIn * 1000);
+            setTopics(response.topics);
+            setError(null);
+          }
+        })
+        .catch((err) => {
+          if (!cancelled) {
+            setError(err instanceof Error ? err.message : 'Failed to load Q&A');
+            setNotInPlan(isApiError(err, 'PLAN_FEATURE_UNAVAILABLE'));
+            setCanRetry(!isApiError(err) || err.retryable);
+          }
+        });
+    };
+
+    loadQna();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, topicId, attempt]);
+
+  // Reload in place: the current answer stays visible until the new URL arrives
+  const refresh = useCallback(() => setAttempt((value) => value + 1), []);
+  useEmbedRefresh(open ? expiresAt : null, refresh);
+
+  const handleTopicChange = (value: string) => {
+    setEmbedUrl(null);
+    setExpiresAt(null);
+    setTopicId(value);
+  };
+
+  const handleRetry = () => {
+    setError(null);
+    setEmbedUrl(null);
+    setExpiresAt(null);
+    setAttempt((value) => value + 1);
+  };
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 2,
+        mb: 2,
+        borderRadius: 2,
+        border: '1px solid #E5E7EB',
+        bgcolor: 'white',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, flexWrap: 'wrap' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <QuestionAnswerIcon sx={{ color: '#6366F1' }} />
+          <Typography variant="h6" sx={{ fontWeight: 600, fontSize: '1rem' }}>
+            Ask a question
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          {open && topics.length > 1 && (
+            <TextField
+              select
+              size="small"
+              label="Topic"
+              value={topicId || topics[0].topic_id}
+              onChange={(e) => handleTopicChange(e.target.value)}
+              sx={{ minWidth: 160 }}
+            >
+              {topics.map((topic) => (
+                <MenuItem key={topic.topic_id} value={topic.topic_id}>
+                  {topic.title}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+          <Button variant={open ? 'outlined' : 'contained'} size="small" onClick={() => setOpen(!open)}>
+            {open ? 'Hide' : 'Ask'}
+          </Button>
+        </Box>
+      </Box>
+
+      <Collapse in={open} unmountOnExit>
+        <Box sx={{ mt: 2 }}>
+          {error && notInPlan ? (
+            <Alert severity="info">
+              Q&amp;A is not included in your organization's plan. Contact your administrator to upgrade.
+            </Alert>
+          ) : error ? (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+              <Alert severity="error">{error}</Alert>
+              {canRetry && (
+                <Box>
+                  <Button variant="outlined" size="small" onClick={handleRetry}>
+                    Retry
+                  </Button>
+                </Box>
+              )}
+            </Box>
+          ) : !embedUrl ? (
+            <Box sx={{ height: 200, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+              <CircularProgress size={32} />
+            </Box>
+          ) : (
+            <iframe
+              src={embedUrl}
+              width="100%"
+              height="500px"
+              style={{ border: 0, borderRadius: 8 }}
+              title="Ask a question"
+              allow="fullscreen"
+            />
+          )}
+        </Box>
+      </Collapse>
+    </Paper>
+  );
+}
@@ -1,3 +1,10 @@
 export { default as DashboardEmbed } from './DashboardEmbed';
 export { default as DashboardLoader } from './DashboardLoader';
 export { default as DashboardError } from './DashboardError';
+export { default as NativeDashboard } from './NativeDashboard';
+export { default as KpiTile } from './KpiTile';
+export { default as MetricPanel } from './MetricPanel';
+export { default as MetricTrendChart } from './MetricTrendChart';
+export { default as MetricBreakdownTable } from './MetricBreakdownTable';
+export { default as DashboardVisualEmbed } from './DashboardVisualEmbed';
+export { default as QnaPanel } from './QnaPanel';
@@ -0,0 +1,109 @@
+import type { MetricKey } from '../../types/analytics.types';
+import type { MetricName } from '../../utils/constants';
+
+export type ValueFormat = 'currency' | 'percent' | 'number' | 'days';
+
+export interface MetricColumn {
+  key: string;
+  label: string;
+  format: ValueFormat;
+}
+
+export interface NativeMetricConfig {
+  metric: MetricKey;
+  name: MetricName;
+  label: string;
+  primary: MetricColumn;
+  secondary: MetricColumn[];
+  groupByOptions: { value: string; label: string }[];
+}
+
+const ORDER_GROUP_BY_OPTIONS = [
+  { value: 'region', label: 'Region' },
+  { value: 'store', label: 'Store' },
+  { value: 'channel', label: 'Channel' },
+];
+
+/**
+ * Native dashboard layout for the four AVAILABLE_METRICS
+ * Column keys match the analytics API response
+ */
+export const NATIVE_METRICS: NativeMetricConfig[] = [
+  {
+    metric: 'revenue',
+    name: 'Net_Revenue',
+    label: 'Net Revenue',
+    primary: { key: 'net_revenue', label: 'Net Revenue', format: 'currency' },
+    secondary: [
+      { key: 'order_count', label: 'Orders', format: 'number' },
+      { key: 'avg_order_value', label: 'Avg Order', format: 'currency' },
+    ],
+    groupByOptions: ORDER_GROUP_BY_OPTIONS,
+  },
+  {
+    metric: 'margin',
+    name: 'Margin',
+    label: 'Margin',
+    primary: { key: 'margin_pct', label: 'Margin', format: 'percent' },
+    secondary: [
+      { key: 'gross_revenue', label: 'Gross', format: 'currency' },
+      { key: 'net_revenue', label: 'Net', format: 'currency' },
+    ],
+    groupByOptions: ORDER_GROUP_BY_OPTIONS,
+  },
+  {
+    metric: 'fulfillment-sla',
+    name: 'Fulfillment_SLA',
+    label: 'Fulfillment SLA',
+    primary: { key: 'sla_rate', label: 'SLA Met', format: 'percent' },
+    secondary: [
+      { key: 'shipments', label: 'Shipments', format: 'number' },
+      { key: 'avg_days_to_ship', label: 'Avg Days', format: 'days' },
+    ],
+    groupByOptions: [
+      { value: 'carrier', label: 'Carrier' },
+      { value: 'warehouse', label: 'Warehouse' },
+      ...ORDER_GROUP_BY_OPTIONS,
+    ],
+  },
+  {
+    metric: 'campaign-roi',
+    name: 'Campaign_ROI',
+    label: 'Campaign ROI',
+    primary: { key: 'roi_pct', label: 'ROI', format: 'percent' },
+    secondary: [
+      { key: 'spend', label: 'Spend', format: 'currency' },
+      { key: 'revenue_attributed', label: 'Attributed', format: 'currency' },
+      { key: 'cac', label: 'CAC', format: 'currency' },
+    ],
+    groupByOptions: [{ value: 'channel', label: 'Channel' }],
+  },
+];
+
+const currencyFormatter = new Intl.NumberFormat(undefined, {
+  style: 'currency',
+  currency: 'USD',
+  maximumFractionDigits: 0,
+});
+
+const numberFormatter = new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * Format a metric value for display; null renders as an em dash
+ */
+export function formatMetricValue(value: number | null | undefined, format: ValueFormat): string {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+
+  switch (format) {
+    case 'currency':
+      return currencyFormatter.format(value);
+    case 'percent':
+      return `${numberFormatter.format(value)}%`;
+    case 'days':
+      return `${numberFormatter.format(value)} d`;
+    default:
+      return numberFormatter.format(value);
+  }
+}
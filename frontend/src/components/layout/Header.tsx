@@ -1,5 +1,5 @@
 import { AppBar, Toolbar, Typography, Box, IconButton, Menu, MenuItem, Divider, useMediaQuery, useTheme } from '@mui/material';
-import { AccountCircle, Logout, AdminPanelSettings, People, Menu as MenuIcon } from '@mui/icons-material';
+import { AccountCircle, Logout, AdminPanelSettings, People, Business, History, Menu as MenuIcon } from '@mui/icons-material';
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
@@ -9,7 +9,7 @@ interface HeaderProps {
 }
 
 export default function Header({ onMenuClick }: HeaderProps) {
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
   const navigate = useNavigate();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
@@ -38,8 +38,20 @@ export default function Header({ onMenuClick }: HeaderProps) {
     navigate('/roles');
   };
 
-  // Check if user has access to management features
-  const hasManagementAccess = user?.role === 'Admin';
+  const handleNavigateToAudit = () => {
+    handleAccountClose();
+    navigate('/audit');
+  };
+
+  const handleNavigateToTenants = () => {
+    handleAccountClose();
+    navigate('/platform/tenants');
+  };
+
+  // Management menu items follow the role's permissions
+  const canManageUsers = hasPermission('users:read');
+  const canManageRoles = hasPermission('roles:write');
+  const canReadAudit = hasPermission('audit:read');
 
   return (
     <AppBar
@@ -130,17 +142,34 @@ export default function Header({ onMenuClick }: HeaderProps) {
                 </>
               )}
 
-              {/* Management options - only for Admin users */}
-              {hasManagementAccess && [
-                <MenuItem key="users" onClick={handleNavigateToUsers}>
+              {/* Management options - only for roles with the matching permission */}
+              {canManageUsers && (
+                <MenuItem onClick={handleNavigateToUsers}>
                   <People sx={{ mr: 1, fontSize: 20 }} />
                   Users
-                </MenuItem>,
-                <MenuItem key="roles" onClick={handleNavigateToRoles}>
+                </MenuItem>
+              )}
+              {canManageRoles && (
+                <MenuItem onClick={handleNavigateToRoles}>
                   <AdminPanelSettings sx={{ mr: 1, fontSize: 20 }} />
                   Roles
+                </MenuItem>
+              )}
+              {canReadAudit && (
+                <MenuItem onClick={handleNavigateToAudit}>
+                  <History sx={{ mr: 1, fontSize: 20 }} />
+                  Audit Log
+                </MenuItem>
+              )}
+              {(canManageUsers || canManageRoles || canReadAudit) && <Divider sx={{ my: 1 }} />}
+
+              {/* Platform console - only for platform operators */}
+              {user?.isPlatformAdmin && [
+                <MenuItem key="tenants" onClick={handleNavigateToTenants}>
+                  <Business sx={{ mr: 1, fontSize: 20 }} />
+                  Tenants
                 </MenuItem>,
-                <Divider key="divider" sx={{ my: 1 }} />
+                <Divider key="platform-divider" sx={{ my: 1 }} />
               ]}
               
               <MenuItem onClick={handleLogout}>
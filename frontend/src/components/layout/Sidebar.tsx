@@ -5,12 +5,20 @@ import {
   ListItemButton,
   ListItemIcon,
   ListItemText,
+  ListSubheader,
   Box,
   Divider,
 } from "@mui/material";
-import { Dashboard } from "@mui/icons-material";
+import { Dashboard, InsertChartOutlined } from "@mui/icons-material";
+import { useEffect } from "react";
+import { useDispatch } from "react-redux";
 import { useNavigate, useLocation } from "react-router-dom";
+import type { AppDispatch } from "../../store";
+import { fetchDashboards } from "../../store/dashboardSlice";
 import { useAuth } from "../../hooks/useAuth";
+import { useDashboard } from "../../hooks/useDashboard";
+import { DASHBOARD_MODES } from "../../utils/constants";
+import type { Permission } from "../../utils/permissions";
 
 const DRAWER_WIDTH = 240;
 
@@ -22,19 +30,30 @@ interface SidebarProps {
 export default function Sidebar({ mobileOpen, onDrawerToggle }: SidebarProps) {
   const navigate = useNavigate();
   const location = useLocation();
-  const { user } = useAuth();
+  const dispatch = useDispatch<AppDispatch>();
+  const { user, hasPermission } = useAuth();
+  const canViewDashboards = hasPermission("dashboards:view");
+  const { dashboards, selectedDashboardId, dashboardsLoaded, mode, chooseDashboard, changeMode } =
+    useDashboard();
+
+  useEffect(() => {
+    // Load the role's dashboard catalog once per session
+    if (user && canViewDashboards && !dashboardsLoaded) {
+      dispatch(fetchDashboards());
+    }
+  }, [dispatch, user, canViewDashboards, dashboardsLoaded]);
 
   const menuItems = [
     {
       text: "Dashboard",
       icon: <Dashboard />,
       path: "/dashboard",
-      roles: ["Finance", "Ops", "Marketing"],
+      permission: "dashboards:view" as Permission,
     },
   ];
 
   const filteredMenuItems = menuItems.filter(
-    (item) => user && (user.role === "Admin" || item.roles.includes(user.role)),
+    (item) => user && hasPermission(item.permission),
   );
 
   const handleNavigation = (path: string) => {
@@ -45,6 +64,15 @@ export default function Sidebar({ mobileOpen, onDrawerToggle }: SidebarProps) {
     }
   };
 
+  /**
+   * Open a catalog dashboard in embedded mode
+   */
+  const handleDashboardSelect = (dashboardId: string) => {
+    chooseDashboard(dashboardId);
+    changeMode(DASHBOARD_MODES.EMBEDDED);
+    handleNavigation("/dashboard");
+  };
+
   const drawerContent = (
     <Box sx={{ overflow: "auto" }}>
       <List>
@@ -87,6 +115,61 @@ export default function Sidebar({ mobileOpen, onDrawerToggle }: SidebarProps) {
           );
         })}
       </List>
+      {dashboards.length > 0 && (
+        <List
+          dense
+          subheader={
+            <ListSubheader
+              sx={{ bgcolor: "transparent", lineHeight: "32px", fontSize: "0.75rem" }}
+            >
+              QuickSight Dashboards
+            </ListSubheader>
+          }
+        >
+          {dashboards.map((dashboard) => {
+            const isActive =
+              location.pathname === "/dashboard" &&
+              mode === DASHBOARD_MODES.EMBEDDED &&
+              dashboard.dashboard_id === selectedDashboardId;
+
+            return (
+              <ListItem key={dashboard.dashboard_id} disablePadding>
+                <ListItemButton
+                  onClick={() => handleDashboardSelect(dashboard.dashboard_id)}
+                  sx={{
+                    mx: 1,
+                    my: 0.25,
+                    borderRadius: 1,
+                    bgcolor: isActive ? "#EEF2FF" : "transparent",
+                    color: isActive ? "#6366F1" : "#1F2937",
+                    "&:hover": {
+                      bgcolor: isActive ? "#EEF2FF" : "#F3F4F6",
+                    },
+                    transition: "all 0.2s",
+                  }}
+                >
+                  <ListItemIcon
+                    sx={{
+                      color: isActive ? "#6366F1" : "#6B7280",
+                      minWidth: 40,
+                    }}
+                  >
+                    <InsertChartOutlined fontSize="small" />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={dashboard.title}
+                    primaryTypographyProps={{
+                      fontWeight: isActive ? 600 : 400,
+                      fontSize: "0.9rem",
+                      noWrap: true,
+                    }}
+                  />
+                </ListItemButton>
+              </ListItem>
+            );
+          })}
+        </List>
+      )}
       <Divider sx={{ my: 1 }} />
     </Box>
   );
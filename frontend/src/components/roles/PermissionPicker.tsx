@@ -0,0 +1,79 @@
+import {
+  Box,
+  Checkbox,
+  FormControlLabel,
+  FormGroup,
+  Typography,
+} from '@mui/material';
+import { PERMISSIONS, PERMISSION_LABELS, type Permission } from '../../utils/permissions';
+
+interface PermissionPickerProps {
+  value: Permission[];
+  onChange: (permissions: Permission[]) => void;
+  disabled?: boolean;
+  helperText?: string;
+  error?: string;
+}
+
+/**
+ * PermissionPicker component - Checkbox per named permission, used by the
+ * role create and edit forms
+ */
+export default function PermissionPicker({
+  value,
+  onChange,
+  disabled = false,
+  helperText,
+  error,
+}: PermissionPickerProps) {
+  const handleToggle = (permission: Permission) => {
+    // Keep the catalog order so the list reads the same everywhere
+    const next = value.includes(permission)
+      ? value.filter((p) => p !== permission)
+      : PERMISSIONS.filter((p) => p === permission || value.includes(p));
+    onChange(next);
+  };
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" sx={{ mb: 0.5, fontWeight: 600 }}>
+        Permissions
+      </Typography>
+      {helperText && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          {helperText}
+        </Typography>
+      )}
+
+      <FormGroup>
+        {PERMISSIONS.map((permission) => (
+          <FormControlLabel
+            key={permission}
+            control={
+              <Checkbox
+                size="small"
+                checked={value.includes(permission)}
+                onChange={() => handleToggle(permission)}
+                disabled={disabled}
+              />
+            }
+            label={
+              <Box>
+                <Typography variant="body2">{PERMISSION_LABELS[permission]}</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {permission}
+                </Typography>
+              </Box>
+            }
+          />
+        ))}
+      </FormGroup>
+
+      {error && (
+        <Typography variant="caption" color="error" sx={{ mt: 1, display: 'block' }}>
+          {error}
+        </Typography>
+      )}
+    </Box>
+  );
+}
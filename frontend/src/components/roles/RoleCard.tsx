@@ -14,21 +14,42 @@ import {
   Stack,
   Switch,
   Button,
+  Chip,
+  Alert,
 } from "@mui/material";
-import { Delete, Visibility, VisibilityOff } from "@mui/icons-material";
+import {
+  ContentCopy,
+  Delete,
+  Edit,
+  Visibility,
+  VisibilityOff,
+} from "@mui/icons-material";
 import type { AppDispatch } from "../../store";
-import { deleteRole, addMetrics, removeMetric } from "../../store/roleSlice";
-import type { Role } from "../../types/role.types";
-import { AVAILABLE_METRICS } from "../../utils/constants";
+import {
+  deleteRole,
+  addMetrics,
+  removeMetric,
+  updateRole,
+  cloneRole,
+} from "../../store/roleSlice";
+import type { CatalogMetric, Role } from "../../types/role.types";
+import { PERMISSION_LABELS } from "../../utils/permissions";
+import { cloneRoleSchema, updateRoleSchema } from "../../utils/validation";
+import RoleDetailsDialog, { type RoleDetails } from "./RoleDetailsDialog";
 
 interface RoleCardProps {
   role: Role;
+  metricCatalog: CatalogMetric[];
   loading: boolean;
 }
 
-export default function RoleCard({ role, loading }: RoleCardProps) {
+export default function RoleCard({ role, metricCatalog, loading }: RoleCardProps) {
   const dispatch = useDispatch<AppDispatch>();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [detailsMode, setDetailsMode] = useState<"edit" | "clone" | null>(
+    null,
+  );
+  const [syncing, setSyncing] = useState(false);
 
   // Create a map of metric visibility
   const metricVisibilityMap = new Map(
@@ -63,6 +84,46 @@ export default function RoleCard({ role, loading }: RoleCardProps) {
     }
   };
 
+  const handleEditRole = async ({
+    role: name,
+    description,
+    permissions,
+  }: RoleDetails) => {
+    await dispatch(
+      updateRole({
+        role: role.role,
+        data: role.is_system
+          ? { description }
+          : { role: name, description, permissions },
+      }),
+    ).unwrap();
+    setDetailsMode(null);
+  };
+
+  const handleCloneRole = async ({ role: name, description }: RoleDetails) => {
+    await dispatch(
+      cloneRole({ role: role.role, data: { role: name, description } }),
+    ).unwrap();
+    setDetailsMode(null);
+  };
+
+  /**
+   * Resume a rename whose Cognito updates did not all go through
+   * Any PATCH of the role retries the users still pending
+   */
+  const handleRetrySync = async () => {
+    setSyncing(true);
+    try {
+      await dispatch(
+        updateRole({ role: role.role, data: { role: role.role } }),
+      ).unwrap();
+    } catch (error: any) {
+      console.error("Failed to retry role sync:", error);
+    } finally {
+      setSyncing(false);
+    }
+  };
+
   // Count visible metrics
   const visibleCount = role.metrics.filter((m) => m.is_visible).length;
 
@@ -79,26 +140,87 @@ export default function RoleCard({ role, loading }: RoleCardProps) {
             }}
           >
             <Box>
-              <Typography variant="h6" component="div" sx={{ fontWeight: 600 }}>
-                {role.role}
-              </Typography>
+              <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                <Typography variant="h6" component="div" sx={{ fontWeight: 600 }}>
+                  {role.role}
+                </Typography>
+                {role.is_system && (
+                  <Chip label="System" size="small" variant="outlined" />
+                )}
+              </Box>
+              {role.description && (
+                <Typography variant="body2" color="text.secondary">
+                  {role.description}
+                </Typography>
+              )}
               <Typography variant="body2" color="text.secondary">
-                {visibleCount} of {AVAILABLE_METRICS.length} metrics visible
+                {visibleCount} of {metricCatalog.length} metrics visible
               </Typography>
+              <Box sx={{ display: "flex", flexWrap: "wrap", gap: 0.5, mt: 1 }}>
+                {role.permissions.map((permission) => (
+                  <Chip
+                    key={permission}
+                    label={permission}
+                    size="small"
+                    title={PERMISSION_LABELS[permission]}
+                  />
+                ))}
+              </Box>
+            </Box>
+            <Box sx={{ display: "flex" }}>
+              <IconButton
+                size="small"
+                onClick={() => setDetailsMode("edit")}
+                disabled={loading}
+                title={role.is_system ? "Edit description" : "Edit role"}
+              >
+                <Edit />
+              </IconButton>
+              <IconButton
+                size="small"
+                onClick={() => setDetailsMode("clone")}
+                disabled={loading}
+                title="Clone role"
+              >
+                <ContentCopy />
+              </IconButton>
+              {!role.is_system && (
+                <IconButton
+                  size="small"
+                  color="error"
+                  onClick={() => setShowDeleteDialog(true)}
+                  disabled={loading}
+                  title="Delete role"
+                >
+                  <Delete />
+                </IconButton>
+              )}
             </Box>
-            <IconButton
-              size="small"
-              color="error"
-              onClick={() => setShowDeleteDialog(true)}
-              disabled={loading}
-              title="Delete role"
-            >
-              <Delete />
-            </IconButton>
           </Box>
 
+          {role.cognito_sync_pending > 0 && (
+            <Alert
+              severity="warning"
+              sx={{ mb: 2 }}
+              action={
+                <Button
+                  color="inherit"
+                  size="small"
+                  onClick={handleRetrySync}
+                  disabled={syncing}
+                >
+                  Retry
+                </Button>
+              }
+            >
+              {role.cognito_sync_pending} user(s) still have the old role name
+              at sign-in
+            </Alert>
+          )}
+
           <Stack spacing={1}>
-            {AVAILABLE_METRICS.map((metricName) => {
+            {metricCatalog.map((metric) => {
+              const metricName = metric.metric_key;
               const isVisible = metricVisibilityMap.get(metricName) ?? false;
 
               return (
@@ -128,7 +250,7 @@ export default function RoleCard({ role, loading }: RoleCardProps) {
                         fontWeight: isVisible ? 500 : 400,
                       }}
                     >
-                      {metricName}
+                      {metric.display_name}
                     </Typography>
                   </Box>
                   <Switch
@@ -146,6 +268,38 @@ export default function RoleCard({ role, loading }: RoleCardProps) {
         </CardContent>
       </Card>
 
+      {detailsMode === "edit" && (
+        <RoleDetailsDialog
+          title="Edit Role"
+          submitLabel="Save"
+          schema={updateRoleSchema}
+          initialRole={role.role}
+          initialDescription={role.description}
+          initialPermissions={role.permissions}
+          nameDisabled={role.is_system}
+          helperText={
+            role.is_system
+              ? "System roles cannot be renamed"
+              : "Users with this role, dashboards and Q&A topics are updated"
+          }
+          onSubmit={handleEditRole}
+          onCancel={() => setDetailsMode(null)}
+        />
+      )}
+
+      {detailsMode === "clone" && (
+        <RoleDetailsDialog
+          title={`Clone "${role.role}"`}
+          submitLabel="Clone"
+          schema={cloneRoleSchema}
+          initialRole=""
+          initialDescription={role.description}
+          helperText="Permissions, metric visibility and dashboard access are copied"
+          onSubmit={handleCloneRole}
+          onCancel={() => setDetailsMode(null)}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <Dialog
         open={showDeleteDialog}
@@ -0,0 +1,166 @@
+import { useState, type FormEvent } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Alert,
+} from '@mui/material';
+import type { SerializedApiError } from '../../utils/apiClient';
+import type { Permission } from '../../utils/permissions';
+import { issuesByField, validate, type Schema } from '../../utils/validation';
+import PermissionPicker from './PermissionPicker';
+
+export interface RoleDetails {
+  role: string;
+  description: string | null;
+  /** Only when the dialog edits permissions (initialPermissions given) */
+  permissions?: Permission[];
+}
+
+interface RoleDetailsDialogProps {
+  title: string;
+  submitLabel: string;
+  /** updateRoleSchema for rename, cloneRoleSchema for clone */
+  schema: Schema;
+  initialRole: string;
+  initialDescription: string | null;
+  /** Show the permission checkboxes; omitted when cloning, which copies them */
+  initialPermissions?: Permission[];
+  /** System roles keep their name and permissions; only the description can change */
+  nameDisabled?: boolean;
+  helperText?: string;
+  onSubmit: (details: RoleDetails) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * RoleDetailsDialog component - Name, description and permissions form used
+ * to edit and clone roles
+ */
+export default function RoleDetailsDialog({
+  title,
+  submitLabel,
+  schema,
+  initialRole,
+  initialDescription,
+  initialPermissions,
+  nameDisabled = false,
+  helperText,
+  onSubmit,
+  onCancel,
+}: RoleDetailsDialogProps) {
+  const [roleName, setRoleName] = useState(initialRole);
+  const [description, setDescription] = useState(initialDescription || '');
+  const [permissions, setPermissions] = useState(initialPermissions);
+  const [errors, setErrors] = useState<Record<string, string | undefined>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const details: RoleDetails = {
+      role: roleName.trim(),
+      description: description.trim() || null,
+      permissions,
+    };
+    const issues = validate(schema, details);
+    setErrors(issuesByField(issues));
+    if (issues.length > 0) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await onSubmit(details);
+      // Dialog will be closed by parent component on success
+    } catch (error) {
+      const apiError = error as SerializedApiError;
+      setErrors(
+        apiError.errors ? issuesByField(apiError.errors) : { _form: apiError.message }
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={true} onClose={onCancel} maxWidth="sm" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+
+      <form onSubmit={handleSubmit}>
+        <DialogContent dividers>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+            {errors._form && <Alert severity="error">{errors._form}</Alert>}
+
+            <TextField
+              fullWidth
+              label="Role Name"
+              value={roleName}
+              onChange={(e) => {
+                setRoleName(e.target.value);
+                if (errors.role) {
+                  setErrors((prev) => ({ ...prev, role: undefined }));
+                }
+              }}
+              error={!!errors.role}
+              helperText={errors.role || helperText}
+              disabled={isSubmitting || nameDisabled}
+              autoFocus={!nameDisabled}
+              required
+            />
+
+            <TextField
+              fullWidth
+              label="Description"
+              value={description}
+              onChange={(e) => {
+                setDescription(e.target.value);
+                if (errors.description) {
+                  setErrors((prev) => ({ ...prev, description: undefined }));
+                }
+              }}
+              error={!!errors.description}
+              helperText={errors.description}
+              disabled={isSubmitting}
+              multiline
+              minRows={2}
+            />
+
+            {permissions && (
+              <PermissionPicker
+                value={permissions}
+                onChange={(next) => {
+                  setPermissions(next);
+                  if (errors.permissions) {
+                    setErrors((prev) => ({ ...prev, permissions: undefined }));
+                  }
+                }}
+                disabled={isSubmitting || nameDisabled}
+                helperText={
+                  nameDisabled
+                    ? 'System roles always have every permission'
+                    : 'Changes apply to users with this role on their next request'
+                }
+                error={errors.permissions}
+              />
+            )}
+          </Box>
+        </DialogContent>
+
+        <DialogActions sx={{ px: 3, py: 2 }}>
+          <Button onClick={onCancel} disabled={isSubmitting} color="inherit">
+            Cancel
+          </Button>
+          <Button type="submit" variant="contained" disabled={isSubmitting}>
+            {submitLabel}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -16,10 +16,14 @@ import {
   Stack,
 } from '@mui/material';
 import { Close, Visibility, VisibilityOff } from '@mui/icons-material';
-import type { CreateRoleData } from '../../types/role.types';
-import { AVAILABLE_METRICS } from '../../utils/constants';
+import type { CatalogMetric, CreateRoleData } from '../../types/role.types';
+import type { SerializedApiError } from '../../utils/apiClient';
+import type { Permission } from '../../utils/permissions';
+import { createRoleSchema, issuesByField, validate } from '../../utils/validation';
+import PermissionPicker from './PermissionPicker';
 
 interface RoleFormProps {
+  metricCatalog: CatalogMetric[];
   onSubmit: (roleData: CreateRoleData) => Promise<void>;
   onCancel: () => void;
 }
@@ -27,20 +31,20 @@ interface RoleFormProps {
 /**
  * RoleForm component - Form for creating new roles
  * Features:
- * - Role name input
- * - Checkboxes for each metric to set visibility
- * - Validation (min 1 metric must be visible)
+ * - Role name and description inputs
+ * - Permission checkboxes, starting with dashboards:view
+ * - Checkboxes for each metric in the catalog to set visibility
+ * - Validation with the API's createRoleSchema (name required, min 1 visible metric)
  */
-export default function RoleForm({ onSubmit, onCancel }: RoleFormProps) {
+export default function RoleForm({ metricCatalog, onSubmit, onCancel }: RoleFormProps) {
   const theme = useTheme();
   const fullScreen = useMediaQuery(theme.breakpoints.down('md'));
   
   const [roleName, setRoleName] = useState('');
+  const [description, setDescription] = useState('');
+  const [permissions, setPermissions] = useState<Permission[]>(['dashboards:view']);
   const [visibleMetrics, setVisibleMetrics] = useState<string[]>([]);
-  const [errors, setErrors] = useState<{
-    role?: string;
-    metrics?: string;
-  }>({});
+  const [errors, setErrors] = useState<Record<string, string | undefined>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   /**
@@ -65,18 +69,14 @@ export default function RoleForm({ onSubmit, onCancel }: RoleFormProps) {
    * Validate form fields
    */
   const validateForm = (): boolean => {
-    const newErrors: { role?: string; metrics?: string } = {};
-
-    if (!roleName.trim()) {
-      newErrors.role = 'Role name is required';
-    }
-
-    if (visibleMetrics.length === 0) {
-      newErrors.metrics = 'At least one metric must be visible';
-    }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    const issues = validate(createRoleSchema, {
+      role: roleName,
+      description,
+      permissions,
+      metrics: visibleMetrics,
+    });
+    setErrors(issuesByField(issues));
+    return issues.length === 0;
   };
 
   /**
@@ -93,15 +93,21 @@ export default function RoleForm({ onSubmit, onCancel }: RoleFormProps) {
     setIsSubmitting(true);
 
     try {
-      // Send only the visible metrics - backend will create all metrics but set is_visible accordingly
+      // Send only the visible metrics; hidden ones get no visibility row
       await onSubmit({
         role: roleName.trim(),
+        description: description.trim() || undefined,
+        permissions,
         metrics: visibleMetrics,
       });
       // Form will be closed by parent component on success
     } catch (error) {
-      // Error handling is done by parent component
+      // The parent shows the error; field errors also go next to their inputs
       console.error('Failed to create role:', error);
+      const issues = (error as SerializedApiError).errors;
+      if (issues) {
+        setErrors(issuesByField(issues));
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -155,6 +161,36 @@ export default function RoleForm({ onSubmit, onCancel }: RoleFormProps) {
               required
             />
 
+            <TextField
+              fullWidth
+              label="Description"
+              value={description}
+              onChange={(e) => {
+                setDescription(e.target.value);
+                if (errors.description) {
+                  setErrors((prev) => ({ ...prev, description: undefined }));
+                }
+              }}
+              error={!!errors.description}
+              helperText={errors.description}
+              disabled={isSubmitting}
+              multiline
+              minRows={2}
+            />
+
+            <PermissionPicker
+              value={permissions}
+              onChange={(next) => {
+                setPermissions(next);
+                if (errors.permissions) {
+                  setErrors((prev) => ({ ...prev, permissions: undefined }));
+                }
+              }}
+              disabled={isSubmitting}
+              helperText="What users with this role can do"
+              error={errors.permissions}
+            />
+
             <Box>
               <Typography variant="subtitle2" sx={{ mb: 1.5, fontWeight: 600 }}>
                 Metric Visibility
@@ -164,7 +200,7 @@ export default function RoleForm({ onSubmit, onCancel }: RoleFormProps) {
               </Typography>
               
               <Stack spacing={1}>
-                {AVAILABLE_METRICS.map((metric) => {
+                {metricCatalog.map(({ metric_key: metric, display_name, category }) => {
                   const isChecked = visibleMetrics.includes(metric);
                   
                   return (
@@ -195,14 +231,19 @@ export default function RoleForm({ onSubmit, onCancel }: RoleFormProps) {
                           />
                         }
                         label={
-                          <Typography
-                            variant="body2"
-                            sx={{
-                              fontWeight: isChecked ? 500 : 400,
-                            }}
-                          >
-                            {metric}
-                          </Typography>
+                          <Box>
+                            <Typography
+                              variant="body2"
+                              sx={{
+                                fontWeight: isChecked ? 500 : 400,
+                              }}
+                            >
+                              {display_name}
+                            </Typography>
+                            <Typography variant="caption" color="text.secondary">
+                              {category}
+                            </Typography>
+                          </Box>
                         }
                         sx={{ flex: 1, m: 0 }}
                       />
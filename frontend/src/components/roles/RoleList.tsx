@@ -4,29 +4,37 @@ import { useDispatch, useSelector } from 'react-redux';
 import { Box, Button, Alert, CircularProgress, Typography } from '@mui/material';
 import { Add, Refresh } from '@mui/icons-material';
 import type { RootState, AppDispatch } from '../../store';
-import { fetchRoles, createRole, clearError } from '../../store/roleSlice';
+import {
+  fetchRoles,
+  fetchMetricCatalog,
+  createRole,
+  clearError,
+} from '../../store/roleSlice';
 import { useAuth } from '../../hooks/useAuth';
-import { USER_ROLES } from '../../utils/constants';
 import type { CreateRoleData } from '../../types/role.types';
 import RoleForm from './RoleForm';
 import RoleCard from './RoleCard';
 
 /**
  * RoleList component - Displays role cards with metrics
- * Only accessible to Admin users
+ * Requires roles:write
  */
 export default function RoleList() {
   const dispatch = useDispatch<AppDispatch>();
-  const { user } = useAuth();
-  const { roles = [], loading, error } = useSelector((state: RootState) => state.roles);
+  const { user, permissionsLoaded, hasPermission } = useAuth();
+  const canWriteRoles = hasPermission('roles:write');
+  const { roles = [], metricCatalog, loading, error } = useSelector(
+    (state: RootState) => state.roles
+  );
   const [showAddRoleForm, setShowAddRoleForm] = useState(false);
 
   useEffect(() => {
-    // Fetch roles when component mounts
-    if (user?.role === USER_ROLES.ADMIN) {
+    // Fetch roles and the metric catalog when component mounts
+    if (canWriteRoles) {
       dispatch(fetchRoles());
+      dispatch(fetchMetricCatalog());
     }
-  }, [dispatch, user?.role]);
+  }, [dispatch, canWriteRoles]);
 
   /**
    * Handle refresh button click
@@ -57,8 +65,8 @@ export default function RoleList() {
     dispatch(clearError());
   };
 
-  // Check if user has admin access
-  if (!user) {
+  // Check if the user's role may manage roles
+  if (!user || !permissionsLoaded) {
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: 200 }}>
         <CircularProgress />
@@ -66,14 +74,14 @@ export default function RoleList() {
     );
   }
 
-  if (user.role !== USER_ROLES.ADMIN) {
+  if (!canWriteRoles) {
     return (
       <Box sx={{ textAlign: 'center', py: 4 }}>
         <Typography variant="h5" gutterBottom>
           Access Denied
         </Typography>
         <Typography variant="body1" color="text.secondary">
-          Admin role required to access role management.
+          The roles:write permission is required to access role management.
         </Typography>
       </Box>
     );
@@ -143,13 +151,22 @@ export default function RoleList() {
           gap: 2 
         }}>
           {roles.map((role) => (
-            <RoleCard key={role.role} role={role} loading={loading} />
+            <RoleCard
+              key={role.role}
+              role={role}
+              metricCatalog={metricCatalog}
+              loading={loading}
+            />
           ))}
         </Box>
       )}
 
       {showAddRoleForm && (
-        <RoleForm onSubmit={handleCreateRole} onCancel={handleCancelForm} />
+        <RoleForm
+          metricCatalog={metricCatalog}
+          onSubmit={handleCreateRole}
+          onCancel={handleCancelForm}
+        />
       )}
     </Box>
   );
@@ -0,0 +1,184 @@
+import { useState, type FormEvent } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  IconButton,
+  Box,
+  Typography,
+  MenuItem,
+  Alert,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { Close } from '@mui/icons-material';
+import type { CreateTenantData, Tenant } from '../../types/tenant.types';
+import { PLAN_TIERS, type PlanTier } from '../../utils/constants';
+
+interface TenantFormProps {
+  /** Tenant being edited; omit to create a new tenant */
+  tenant?: Tenant;
+  error?: string | null;
+  onSubmit: (data: CreateTenantData) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * TenantForm component - Dialog for creating or editing a tenant
+ * Activation is changed from the tenant list, not here
+ */
+export default function TenantForm({ tenant, error, onSubmit, onCancel }: TenantFormProps) {
+  const theme = useTheme();
+  const fullScreen = useMediaQuery(theme.breakpoints.down('md'));
+
+  const [tenantName, setTenantName] = useState(tenant?.tenant_name || '');
+  const [industry, setIndustry] = useState(tenant?.industry || '');
+  const [planTier, setPlanTier] = useState<PlanTier>(tenant?.plan_tier || 'Standard');
+  const [country, setCountry] = useState(tenant?.country || '');
+  const [adminEmail, setAdminEmail] = useState('');
+  const [nameError, setNameError] = useState<string | undefined>(undefined);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!tenantName.trim()) {
+      setNameError('Tenant name is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await onSubmit({
+        tenant_name: tenantName.trim(),
+        industry: industry.trim(),
+        plan_tier: planTier,
+        country: country.trim(),
+        // The first admin can only be invited when the tenant is created
+        ...(!tenant && adminEmail.trim() ? { admin_email: adminEmail.trim() } : {}),
+      });
+      // Form will be closed by parent component on success
+    } catch (err) {
+      // Error is shown from Redux state
+      console.error('Failed to save tenant:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onCancel}
+      maxWidth="sm"
+      fullWidth
+      fullScreen={fullScreen}
+      PaperProps={{
+        sx: {
+          borderRadius: fullScreen ? 0 : 2,
+        },
+      }}
+    >
+      <DialogTitle sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', pb: 1 }}>
+        <Typography variant="h5" component="div" sx={{ fontWeight: 600 }}>
+          {tenant ? `Edit ${tenant.tenant_id}` : 'Create Tenant'}
+        </Typography>
+        <IconButton
+          aria-label="close"
+          onClick={onCancel}
+          sx={{
+            color: (theme) => theme.palette.grey[500],
+          }}
+        >
+          <Close />
+        </IconButton>
+      </DialogTitle>
+
+      <form onSubmit={handleSubmit}>
+        <DialogContent dividers>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+            {error && <Alert severity="error">{error}</Alert>}
+
+            <TextField
+              fullWidth
+              label="Tenant Name"
+              value={tenantName}
+              onChange={(e) => {
+                setTenantName(e.target.value);
+                setNameError(undefined);
+              }}
+              error={!!nameError}
+              helperText={nameError}
+              disabled={isSubmitting}
+              inputProps={{ maxLength: 100 }}
+              autoFocus
+              required
+            />
+
+            <TextField
+              select
+              fullWidth
+              label="Plan Tier"
+              value={planTier}
+              onChange={(e) => setPlanTier(e.target.value as PlanTier)}
+              disabled={isSubmitting}
+            >
+              {PLAN_TIERS.map((tier) => (
+                <MenuItem key={tier} value={tier}>
+                  {tier}
+                </MenuItem>
+              ))}
+            </TextField>
+
+            <TextField
+              fullWidth
+              label="Industry"
+              value={industry}
+              onChange={(e) => setIndustry(e.target.value)}
+              disabled={isSubmitting}
+              inputProps={{ maxLength: 50 }}
+            />
+
+            <TextField
+              fullWidth
+              label="Country"
+              value={country}
+              onChange={(e) => setCountry(e.target.value)}
+              disabled={isSubmitting}
+              inputProps={{ maxLength: 50 }}
+            />
+
+            {!tenant && (
+              <TextField
+                fullWidth
+                label="Admin Email"
+                type="email"
+                value={adminEmail}
+                onChange={(e) => setAdminEmail(e.target.value)}
+                disabled={isSubmitting}
+                helperText="Optional. Creates the tenant's first admin and emails them a temporary password"
+                inputProps={{ maxLength: 100 }}
+              />
+            )}
+          </Box>
+        </DialogContent>
+
+        <DialogActions sx={{ px: 3, py: 2 }}>
+          <Button onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="contained" disabled={isSubmitting}>
+            {isSubmitting ? 'Saving...' : tenant ? 'Save' : 'Create Tenant'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Add, Edit, Refresh } from '@mui/icons-material';
+import type { RootState, AppDispatch } from '../../store';
+import { fetchTenants, createTenant, updateTenant, clearError } from '../../store/tenantSlice';
+import type { CreateTenantData, Tenant } from '../../types/tenant.types';
+import TenantForm from './TenantForm';
+
+/**
+ * TenantList component - Platform-operator view of every tenant
+ * Features:
+ * - Create and edit tenants
+ * - Deactivate (with confirmation) and reactivate tenants
+ */
+export default function TenantList() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { tenants, loading, error } = useSelector((state: RootState) => state.tenants);
+  const [formTenant, setFormTenant] = useState<Tenant | null | undefined>(undefined);
+  const [deactivatingTenant, setDeactivatingTenant] = useState<Tenant | null>(null);
+
+  useEffect(() => {
+    dispatch(fetchTenants());
+  }, [dispatch]);
+
+  /**
+   * Create a tenant, or update the one being edited
+   */
+  const handleSubmit = async (data: CreateTenantData) => {
+    if (formTenant) {
+      await dispatch(updateTenant({ tenantId: formTenant.tenant_id, data })).unwrap();
+    } else {
+      await dispatch(createTenant(data)).unwrap();
+    }
+    setFormTenant(undefined);
+  };
+
+  const handleCancelForm = () => {
+    setFormTenant(undefined);
+    dispatch(clearError());
+  };
+
+  const handleSetActive = async (tenant: Tenant, isActive: boolean) => {
+    setDeactivatingTenant(null);
+    try {
+      await dispatch(updateTenant({ tenantId: tenant.tenant_id, data: { is_active: isActive } })).unwrap();
+    } catch (err) {
+      // Error is handled by Redux
+      console.error('Failed to change tenant status:', err);
+    }
+  };
+
+  const isFormOpen = formTenant !== undefined;
+
+  return (
+    <Box>
+      <Box sx={{
+        display: 'flex',
+        flexDirection: { xs: 'column', sm: 'row' },
+        justifyContent: 'space-between',
+        alignItems: { xs: 'stretch', sm: 'center' },
+        mb: { xs: 2, sm: 3 },
+        gap: { xs: 2, sm: 0 }
+      }}>
+        <Typography variant="h6" sx={{ fontWeight: 600 }}>
+          Tenants
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+          <Button
+            variant="outlined"
+            startIcon={<Refresh />}
+            onClick={() => dispatch(fetchTenants())}
+            disabled={loading}
+            size="small"
+          >
+            Refresh
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => setFormTenant(null)}
+            disabled={loading}
+            size="small"
+          >
+            Add Tenant
+          </Button>
+        </Box>
+      </Box>
+
+      {error && !isFormOpen && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => dispatch(clearError())}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && tenants.length === 0 ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : tenants.length === 0 ? (
+        <Box sx={{ textAlign: 'center', py: 4 }}>
+          <Typography variant="body1" color="text.secondary">
+            No tenants found. Click "Add Tenant" to create one.
+          </Typography>
+        </Box>
+      ) : (
+        <TableContainer component={Paper} elevation={0} sx={{ border: '1px solid #E5E7EB', borderRadius: 2 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>ID</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Plan</TableCell>
+                <TableCell>Industry</TableCell>
+                <TableCell>Country</TableCell>
+                <TableCell align="right">Users</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {tenants.map((tenant) => (
+                <TableRow key={tenant.tenant_id} hover>
+                  <TableCell>{tenant.tenant_id}</TableCell>
+                  <TableCell sx={{ fontWeight: 500 }}>{tenant.tenant_name}</TableCell>
+                  <TableCell>{tenant.plan_tier || '—'}</TableCell>
+                  <TableCell>{tenant.industry || '—'}</TableCell>
+                  <TableCell>{tenant.country || '—'}</TableCell>
+                  <TableCell align="right">{tenant.user_count ?? '—'}</TableCell>
+                  <TableCell>
+                    <Chip
+                      size="small"
+                      label={tenant.is_active ? 'Active' : 'Deactivated'}
+                      color={tenant.is_active ? 'success' : 'default'}
+                    />
+                  </TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <Tooltip title="Edit">
+                      <IconButton size="small" onClick={() => setFormTenant(tenant)} disabled={loading}>
+                        <Edit fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    {tenant.is_active ? (
+                      <Button
+                        size="small"
+                        color="error"
+                        onClick={() => setDeactivatingTenant(tenant)}
+                        disabled={loading}
+                      >
+                        Deactivate
+                      </Button>
+                    ) : (
+                      <Button size="small" onClick={() => handleSetActive(tenant, true)} disabled={loading}>
+                        Reactivate
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {isFormOpen && (
+        <TenantForm
+          tenant={formTenant || undefined}
+          error={error}
+          onSubmit={handleSubmit}
+          onCancel={handleCancelForm}
+        />
+      )}
+
+      {/* Deactivate Confirmation Dialog */}
+      <Dialog open={deactivatingTenant !== null} onClose={() => setDeactivatingTenant(null)}>
+        <DialogTitle>Deactivate {deactivatingTenant?.tenant_name}?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            All {deactivatingTenant?.user_count ?? ''} users of this tenant will be signed out and blocked
+            from signing in and opening dashboards until the tenant is reactivated. No data is deleted.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeactivatingTenant(null)}>Cancel</Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={() => deactivatingTenant && handleSetActive(deactivatingTenant, false)}
+          >
+            Deactivate
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,284 @@
+import { useEffect, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { useNavigate } from "react-router-dom";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import { ArrowBack, Refresh } from "@mui/icons-material";
+import type { RootState, AppDispatch } from "../../store";
+import {
+  fetchDeletedUsers,
+  restoreUser,
+  purgeUser,
+  clearError,
+} from "../../store/userSlice";
+import { fetchRoles } from "../../store/roleSlice";
+import { useAuth } from "../../hooks/useAuth";
+import type { DeletedUser, RestoreUserData } from "../../types/user.types";
+import RestoreUserDialog from "./RestoreUserDialog";
+
+/**
+ * DeletedUserList component - Deleted users that can still be restored
+ * Requires users:read; restoring and purging require users:write
+ * Features:
+ * - Restore with a new temporary password (and role, if theirs is gone)
+ * - Purge, which anonymizes the user, once the retention period has passed
+ */
+export default function DeletedUserList() {
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+  const { user, permissionsLoaded, hasPermission } = useAuth();
+  const canReadUsers = hasPermission("users:read");
+  const canWriteUsers = hasPermission("users:write");
+  const { deletedUsers, purgeRetentionDays, loading, error } = useSelector(
+    (state: RootState) => state.users,
+  );
+  const [restoringUser, setRestoringUser] = useState<DeletedUser | null>(
+    null,
+  );
+  const [purgingUser, setPurgingUser] = useState<DeletedUser | null>(null);
+
+  useEffect(() => {
+    if (canReadUsers) {
+      dispatch(fetchDeletedUsers());
+    }
+  }, [dispatch, canReadUsers]);
+
+  useEffect(() => {
+    if (canWriteUsers) {
+      dispatch(fetchRoles());
+    }
+  }, [dispatch, canWriteUsers]);
+
+  /**
+   * Restore the user from the dialog
+   * Errors are rethrown so the dialog can show them next to its fields
+   */
+  const handleRestore = async (data: RestoreUserData) => {
+    if (restoringUser) {
+      await dispatch(
+        restoreUser({ userId: restoringUser.user_id, data }),
+      ).unwrap();
+      setRestoringUser(null);
+    }
+  };
+
+  /**
+   * Confirm and execute the purge
+   */
+  const handleConfirmPurge = async () => {
+    if (purgingUser) {
+      try {
+        await dispatch(purgeUser(purgingUser.user_id)).unwrap();
+        setPurgingUser(null);
+      } catch (error) {
+        // Error is handled by Redux
+        console.error("Failed to purge user:", error);
+      }
+    }
+  };
+
+  if (!user || !permissionsLoaded) {
+    return (
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "center",
+          alignItems: "center",
+          minHeight: 200,
+        }}
+      >
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!canReadUsers) {
+    return (
+      <Box sx={{ textAlign: "center", py: 4 }}>
+        <Typography variant="h5" gutterBottom>
+          Access Denied
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          The users:read permission is required to access user management.
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          display: "flex",
+          flexDirection: { xs: "column", sm: "row" },
+          justifyContent: "space-between",
+          alignItems: { xs: "stretch", sm: "center" },
+          mb: { xs: 2, sm: 3 },
+          gap: { xs: 2, sm: 0 },
+        }}
+      >
+        <Box>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>
+            Deleted Users
+          </Typography>
+          {purgeRetentionDays !== null && (
+            <Typography variant="body2" color="text.secondary">
+              Deleted users can be restored until they are purged, which is
+              possible {purgeRetentionDays} days after deletion
+            </Typography>
+          )}
+        </Box>
+        <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap" }}>
+          <Button
+            variant="outlined"
+            onClick={() => navigate("/users")}
+            startIcon={<ArrowBack />}
+            size="small"
+            sx={{ flex: { xs: 1, sm: "none" } }}
+          >
+            Users
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<Refresh />}
+            onClick={() => dispatch(fetchDeletedUsers())}
+            disabled={loading}
+            size="small"
+            sx={{ flex: { xs: 1, sm: "none" } }}
+          >
+            Refresh
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert
+          severity="error"
+          sx={{ mb: 2 }}
+          onClose={() => dispatch(clearError())}
+        >
+          {error}
+        </Alert>
+      )}
+
+      {loading && deletedUsers.length === 0 ? (
+        <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : deletedUsers.length === 0 ? (
+        <Box sx={{ textAlign: "center", py: 4 }}>
+          <Typography variant="body1" color="text.secondary">
+            No deleted users.
+          </Typography>
+        </Box>
+      ) : (
+        <TableContainer
+          component={Paper}
+          elevation={0}
+          sx={{ border: "1px solid #E5E7EB", borderRadius: 2 }}
+        >
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Email</TableCell>
+                <TableCell>Role</TableCell>
+                <TableCell>Deleted</TableCell>
+                <TableCell>Can be purged</TableCell>
+                {canWriteUsers && <TableCell align="right">Actions</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {deletedUsers.map((deletedUser) => (
+                <TableRow key={deletedUser.user_id} hover>
+                  <TableCell>{deletedUser.email}</TableCell>
+                  <TableCell>{deletedUser.role}</TableCell>
+                  <TableCell sx={{ whiteSpace: "nowrap" }}>
+                    {new Date(deletedUser.deleted_at).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell sx={{ whiteSpace: "nowrap" }}>
+                    {deletedUser.can_purge
+                      ? "Now"
+                      : `From ${new Date(deletedUser.purge_after).toLocaleDateString()}`}
+                  </TableCell>
+                  {canWriteUsers && (
+                    <TableCell align="right" sx={{ whiteSpace: "nowrap" }}>
+                      <Button
+                        size="small"
+                        onClick={() => setRestoringUser(deletedUser)}
+                        disabled={loading}
+                      >
+                        Restore
+                      </Button>
+                      <Button
+                        size="small"
+                        color="error"
+                        onClick={() => setPurgingUser(deletedUser)}
+                        disabled={loading || !deletedUser.can_purge}
+                        title={
+                          deletedUser.can_purge
+                            ? "Permanently anonymize this user"
+                            : "The retention period has not passed yet"
+                        }
+                      >
+                        Purge
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {restoringUser && (
+        <RestoreUserDialog
+          user={restoringUser}
+          onSubmit={handleRestore}
+          onCancel={() => setRestoringUser(null)}
+        />
+      )}
+
+      {/* Purge Confirmation Dialog */}
+      <Dialog open={!!purgingUser} onClose={() => setPurgingUser(null)}>
+        <DialogTitle>Purge User</DialogTitle>
+        <DialogContent>
+          <Typography>
+            {purgingUser?.email} will be anonymized and can no longer be
+            restored. Their audit history is kept. This action cannot be
+            undone.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPurgingUser(null)} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirmPurge}
+            color="error"
+            variant="contained"
+            disabled={loading}
+          >
+            Purge
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState, type FormEvent, type ChangeEvent } from "react";
+import {
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  MenuItem,
+  IconButton,
+  InputAdornment,
+  Box,
+  Typography,
+  useMediaQuery,
+  useTheme,
+  CircularProgress,
+} from "@mui/material";
+import { Close, Visibility, VisibilityOff } from "@mui/icons-material";
+import { useSelector } from "react-redux";
+import type { DeletedUser, RestoreUserData } from "../../types/user.types";
+import type { RootState } from "../../store";
+import { selectAssignableRoles } from "../../store/roleSlice";
+import type { SerializedApiError } from "../../utils/apiClient";
+import {
+  issuesByField,
+  restoreUserSchema,
+  validate,
+} from "../../utils/validation";
+
+interface RestoreUserDialogProps {
+  user: DeletedUser;
+  onSubmit: (data: RestoreUserData) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * RestoreUserDialog component - Restores a deleted user
+ * Their Cognito account was removed on deletion, so a new temporary password
+ * is required. The role defaults to the one they had; if it has since been
+ * deleted another must be picked
+ */
+export default function RestoreUserDialog({
+  user,
+  onSubmit,
+  onCancel,
+}: RestoreUserDialogProps) {
+  const theme = useTheme();
+  const fullScreen = useMediaQuery(theme.breakpoints.down("md"));
+
+  const rolesLoading = useSelector((state: RootState) => state.roles.loading);
+  const roles = useSelector(selectAssignableRoles);
+  const roleExists = roles.includes(user.role);
+
+  const [formData, setFormData] = useState<RestoreUserData>({
+    password: "",
+    role: "",
+  });
+  // Roles may still be loading when the dialog opens
+  const selectedRole = formData.role || (roleExists ? user.role : "");
+  const [errors, setErrors] = useState<Record<string, string | undefined>>(
+    {},
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showPassword, setShowPassword] = useState(false);
+
+  /**
+   * Handle input field changes
+   */
+  const handleChange = (
+    e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+
+    // Clear error for this field when user starts typing
+    if (errors[name]) {
+      setErrors((prev) => ({
+        ...prev,
+        [name]: undefined,
+      }));
+    }
+  };
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const data: RestoreUserData = {
+      password: formData.password,
+      role: selectedRole || undefined,
+    };
+    const issues = validate(restoreUserSchema, data);
+    if (!data.role) {
+      issues.push({ field: "role", message: "Role is required" });
+    }
+    setErrors(issuesByField(issues));
+    if (issues.length > 0) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await onSubmit(data);
+      // Dialog will be closed by parent component on success
+    } catch (error) {
+      console.error("Failed to restore user:", error);
+      const { errors: apiIssues, message } = error as SerializedApiError;
+      setErrors(
+        apiIssues
+          ? issuesByField(apiIssues)
+          : { _form: message || "Failed to restore user" },
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onCancel}
+      maxWidth="sm"
+      fullWidth
+      fullScreen={fullScreen}
+      PaperProps={{
+        sx: {
+          borderRadius: fullScreen ? 0 : 2,
+        },
+      }}
+    >
+      <DialogTitle
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          pb: 1,
+        }}
+      >
+        <Box>
+          <Typography variant="h5" component="div" sx={{ fontWeight: 600 }}>
+            Restore User
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {user.email}
+          </Typography>
+        </Box>
+        <IconButton
+          aria-label="close"
+          onClick={onCancel}
+          sx={{
+            color: (theme) => theme.palette.grey[500],
+          }}
+        >
+          <Close />
+        </IconButton>
+      </DialogTitle>
+
+      <form onSubmit={handleSubmit}>
+        <DialogContent dividers>
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            {errors._form && <Alert severity="error">{errors._form}</Alert>}
+
+            {!roleExists && !rolesLoading && (
+              <Alert severity="warning">
+                Their role "{user.role}" no longer exists. Pick a new one.
+              </Alert>
+            )}
+
+            <TextField
+              fullWidth
+              label="Temporary password"
+              type={showPassword ? "text" : "password"}
+              name="password"
+              value={formData.password}
+              onChange={handleChange}
+              error={!!errors.password}
+              helperText={
+                errors.password ||
+                "Min 8 chars with uppercase, lowercase, and numbers"
+              }
+              disabled={isSubmitting}
+              autoComplete="new-password"
+              autoFocus
+              required
+              InputProps={{
+                endAdornment: (
+                  <InputAdornment position="end">
+                    <IconButton
+                      aria-label="toggle password visibility"
+                      onClick={() => setShowPassword(!showPassword)}
+                      edge="end"
+                      disabled={isSubmitting}
+                    >
+                      {showPassword ? <VisibilityOff /> : <Visibility />}
+                    </IconButton>
+                  </InputAdornment>
+                ),
+              }}
+            />
+
+            <TextField
+              fullWidth
+              select
+              label="Role"
+              name="role"
+              value={selectedRole}
+              onChange={handleChange}
+              disabled={isSubmitting || rolesLoading}
+              error={!!errors.role}
+              helperText={
+                errors.role ||
+                "Region, store and data access rules are restored as they were"
+              }
+              required
+              InputProps={{
+                endAdornment: rolesLoading ? (
+                  <InputAdornment position="end">
+                    <CircularProgress size={20} />
+                  </InputAdornment>
+                ) : null,
+              }}
+            >
+              {roles.map((role) => (
+                <MenuItem key={role} value={role}>
+                  {role}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+        </DialogContent>
+
+        <DialogActions sx={{ px: 3, py: 2 }}>
+          <Button onClick={onCancel} disabled={isSubmitting} color="inherit">
+            Cancel
+          </Button>
+          <Button type="submit" variant="contained" disabled={isSubmitting}>
+            {isSubmitting ? "Restoring..." : "Restore User"}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,298 @@
+import { useState, type FormEvent, type ChangeEvent } from "react";
+import {
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  MenuItem,
+  IconButton,
+  InputAdornment,
+  Box,
+  Typography,
+  FormControlLabel,
+  FormHelperText,
+  Switch,
+  useMediaQuery,
+  useTheme,
+  CircularProgress,
+} from "@mui/material";
+import { Close } from "@mui/icons-material";
+import { useSelector } from "react-redux";
+import type { UpdateUserData, User } from "../../types/user.types";
+import type { RootState } from "../../store";
+import { selectAssignableRoles } from "../../store/roleSlice";
+import type { SerializedApiError } from "../../utils/apiClient";
+import {
+  issuesByField,
+  updateUserSchema,
+  validate,
+} from "../../utils/validation";
+
+interface UserEditDialogProps {
+  user: User;
+  /** The signed-in user is editing themselves; tenant admin is locked */
+  isSelf: boolean;
+  onSubmit: (data: UpdateUserData) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface EditFormData {
+  role: string;
+  region: string;
+  store_id: string;
+  is_tenant_admin: boolean;
+}
+
+/**
+ * UserEditDialog component - Edits a user's role, region, store and tenant
+ * admin flag
+ * Only changed fields are sent; a blank region or store ID clears it
+ * Validated with the API's updateUserSchema; field errors returned by the
+ * API are shown next to their inputs
+ */
+export default function UserEditDialog({
+  user,
+  isSelf,
+  onSubmit,
+  onCancel,
+}: UserEditDialogProps) {
+  const theme = useTheme();
+  const fullScreen = useMediaQuery(theme.breakpoints.down("md"));
+
+  const rolesLoading = useSelector((state: RootState) => state.roles.loading);
+  const assignableRoles = useSelector(selectAssignableRoles);
+  // Keep the current role selectable even if it is no longer assignable
+  const roles = assignableRoles.includes(user.role)
+    ? assignableRoles
+    : [user.role, ...assignableRoles];
+
+  const initialData: EditFormData = {
+    role: user.role,
+    region: user.region || "",
+    store_id: user.store_id || "",
+    is_tenant_admin: Boolean(user.is_tenant_admin),
+  };
+  const [formData, setFormData] = useState<EditFormData>(initialData);
+  const [errors, setErrors] = useState<Record<string, string | undefined>>(
+    {},
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Handle input field changes
+   */
+  const handleChange = (
+    e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+
+    // Clear error for this field when user starts typing
+    if (errors[name]) {
+      setErrors((prev) => ({
+        ...prev,
+        [name]: undefined,
+      }));
+    }
+  };
+
+  /**
+   * Fields that differ from the user's current values
+   */
+  const getChanges = (): UpdateUserData => {
+    const changes: UpdateUserData = {};
+    if (formData.role !== initialData.role) {
+      changes.role = formData.role;
+    }
+    if (formData.region.trim() !== initialData.region) {
+      changes.region = formData.region.trim() || null;
+    }
+    if (formData.store_id.trim() !== initialData.store_id) {
+      changes.store_id = formData.store_id.trim() || null;
+    }
+    if (formData.is_tenant_admin !== initialData.is_tenant_admin) {
+      changes.is_tenant_admin = formData.is_tenant_admin;
+    }
+    return changes;
+  };
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const changes = getChanges();
+    if (Object.keys(changes).length === 0) {
+      onCancel();
+      return;
+    }
+
+    const issues = validate(updateUserSchema, changes);
+    setErrors(issuesByField(issues));
+    if (issues.length > 0) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await onSubmit(changes);
+      // Dialog will be closed by parent component on success
+    } catch (error) {
+      console.error("Failed to update user:", error);
+      const { errors: apiIssues, message } = error as SerializedApiError;
+      setErrors(
+        apiIssues
+          ? issuesByField(apiIssues)
+          : { _form: message || "Failed to update user" },
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onCancel}
+      maxWidth="sm"
+      fullWidth
+      fullScreen={fullScreen}
+      PaperProps={{
+        sx: {
+          borderRadius: fullScreen ? 0 : 2,
+        },
+      }}
+    >
+      <DialogTitle
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          pb: 1,
+        }}
+      >
+        <Box>
+          <Typography variant="h5" component="div" sx={{ fontWeight: 600 }}>
+            Edit User
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {user.email}
+          </Typography>
+        </Box>
+        <IconButton
+          aria-label="close"
+          onClick={onCancel}
+          sx={{
+            color: (theme) => theme.palette.grey[500],
+          }}
+        >
+          <Close />
+        </IconButton>
+      </DialogTitle>
+
+      <form onSubmit={handleSubmit}>
+        <DialogContent dividers>
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            {errors._form && <Alert severity="error">{errors._form}</Alert>}
+
+            <TextField
+              fullWidth
+              select
+              label="Role"
+              name="role"
+              value={formData.role}
+              onChange={handleChange}
+              disabled={isSubmitting || rolesLoading}
+              error={!!errors.role}
+              helperText={
+                errors.role ||
+                "Select the role that determines dashboard access permissions"
+              }
+              required
+              InputProps={{
+                endAdornment: rolesLoading ? (
+                  <InputAdornment position="end">
+                    <CircularProgress size={20} />
+                  </InputAdornment>
+                ) : null,
+              }}
+            >
+              {roles.map((role) => (
+                <MenuItem key={role} value={role}>
+                  {role}
+                </MenuItem>
+              ))}
+            </TextField>
+
+            <TextField
+              fullWidth
+              label="Region"
+              name="region"
+              value={formData.region}
+              onChange={handleChange}
+              error={!!errors.region}
+              helperText={
+                errors.region || "Leave blank to clear the user's region"
+              }
+              disabled={isSubmitting}
+            />
+
+            <TextField
+              fullWidth
+              label="Store ID"
+              name="store_id"
+              value={formData.store_id}
+              onChange={handleChange}
+              error={!!errors.store_id}
+              helperText={
+                errors.store_id || "Leave blank to clear the user's store"
+              }
+              disabled={isSubmitting}
+            />
+
+            <Box>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={formData.is_tenant_admin}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        is_tenant_admin: e.target.checked,
+                      }))
+                    }
+                    disabled={isSubmitting || isSelf}
+                  />
+                }
+                label="Tenant admin"
+              />
+              <FormHelperText error={!!errors.is_tenant_admin}>
+                {errors.is_tenant_admin ||
+                  (isSelf
+                    ? "You cannot change your own tenant admin access"
+                    : "Tenant admins hold every permission; only tenant admins can change this")}
+              </FormHelperText>
+            </Box>
+          </Box>
+        </DialogContent>
+
+        <DialogActions sx={{ px: 3, py: 2 }}>
+          <Button onClick={onCancel} disabled={isSubmitting} color="inherit">
+            Cancel
+          </Button>
+          <Button type="submit" variant="contained" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : "Save"}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
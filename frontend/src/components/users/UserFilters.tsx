@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { useSelector } from "react-redux";
+import { Box, Button, MenuItem, TextField } from "@mui/material";
+import { selectAssignableRoles } from "../../store/roleSlice";
+import type { UserListFilters } from "../../types/user.types";
+import { USER_LIST_STATUSES } from "../../utils/validation";
+
+type TextFilters = Pick<UserListFilters, "email" | "region" | "store_id">;
+
+// Wait this long after typing before searching
+const SEARCH_DEBOUNCE_MS = 400;
+
+interface UserFiltersProps {
+  filters: UserListFilters;
+  onChange: (filters: Partial<UserListFilters>) => void;
+}
+
+/**
+ * UserFilters component - Email search and role/status/region/store filters
+ * Selects apply at once; text fields apply once typing pauses
+ */
+export default function UserFilters({ filters, onChange }: UserFiltersProps) {
+  const roles = useSelector(selectAssignableRoles);
+  const applied: TextFilters = {
+    email: filters.email,
+    region: filters.region,
+    store_id: filters.store_id,
+  };
+  const [text, setText] = useState<TextFilters>(applied);
+  const [lastApplied, setLastApplied] = useState<TextFilters>(applied);
+
+  // Follow URL changes made elsewhere (Back/Forward, Clear)
+  if (
+    applied.email !== lastApplied.email ||
+    applied.region !== lastApplied.region ||
+    applied.store_id !== lastApplied.store_id
+  ) {
+    setLastApplied(applied);
+    setText(applied);
+  }
+
+  useEffect(() => {
+    const changed = (Object.keys(text) as (keyof TextFilters)[]).filter(
+      (name) => text[name].trim() !== lastApplied[name],
+    );
+    if (changed.length === 0) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      onChange(
+        Object.fromEntries(changed.map((name) => [name, text[name].trim()])),
+      );
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [text, lastApplied, onChange]);
+
+  const hasFilters = Object.values(filters).some((value) => value !== "");
+
+  return (
+    <Box
+      sx={{
+        display: "grid",
+        gridTemplateColumns: {
+          xs: "1fr",
+          sm: "repeat(2, 1fr)",
+          lg: "2fr repeat(4, 1fr) auto",
+        },
+        gap: 2,
+        mb: 2,
+      }}
+    >
+      <TextField
+        size="small"
+        label="Search email"
+        value={text.email}
+        onChange={(e) => setText({ ...text, email: e.target.value })}
+      />
+      <TextField
+        select
+        size="small"
+        label="Role"
+        value={filters.role}
+        onChange={(e) => onChange({ role: e.target.value })}
+      >
+        <MenuItem value="">All roles</MenuItem>
+        {roles.map((role) => (
+          <MenuItem key={role} value={role}>
+            {role}
+          </MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Status"
+        value={filters.status}
+        onChange={(e) => onChange({ status: e.target.value })}
+      >
+        <MenuItem value="">All statuses</MenuItem>
+        {USER_LIST_STATUSES.map((status) => (
+          <MenuItem key={status} value={status}>
+            {status}
+          </MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        size="small"
+        label="Region"
+        value={text.region}
+        onChange={(e) => setText({ ...text, region: e.target.value })}
+      />
+      <TextField
+        size="small"
+        label="Store ID"
+        value={text.store_id}
+        onChange={(e) => setText({ ...text, store_id: e.target.value })}
+      />
+      <Button
+        size="small"
+        disabled={!hasFilters}
+        onClick={() =>
+          onChange({ email: "", role: "", status: "", region: "", store_id: "" })
+        }
+      >
+        Clear
+      </Button>
+    </Box>
+  );
+}
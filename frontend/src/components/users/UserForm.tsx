@@ -20,7 +20,13 @@ import { Close, Visibility, VisibilityOff } from "@mui/icons-material";
 import { useSelector } from "react-redux";
 import type { CreateUserData } from "../../types/user.types";
 import type { RootState } from "../../store";
-import { USER_ROLES } from "../../utils/constants";
+import { selectAssignableRoles } from "../../store/roleSlice";
+import type { SerializedApiError } from "../../utils/apiClient";
+import {
+  createUserSchema,
+  issuesByField,
+  validate,
+} from "../../utils/validation";
 
 interface UserFormProps {
   onSubmit: (userData: CreateUserData) => Promise<void>;
@@ -32,8 +38,8 @@ interface UserFormProps {
  * Features:
  * - Email and password input fields
  * - Role selector dropdown
- * - Email format validation
- * - Password strength validation (min 8 chars, uppercase, lowercase, numbers)
+ * - Validation with the API's createUserSchema, so client and server agree
+ * - Field errors returned by the API are shown next to their inputs
  * - Submit handler calls createUser action
  *
  * Requirements: 9.2, 9.4
@@ -42,9 +48,8 @@ export default function UserForm({ onSubmit, onCancel }: UserFormProps) {
   const theme = useTheme();
   const fullScreen = useMediaQuery(theme.breakpoints.down("md"));
 
-  const { roles, loading: rolesLoading } = useSelector(
-    (state: RootState) => state.roles,
-  );
+  const rolesLoading = useSelector((state: RootState) => state.roles.loading);
+  const roles = useSelector(selectAssignableRoles);
 
   const [formData, setFormData] = useState<CreateUserData>({
     email: "",
@@ -52,10 +57,9 @@ export default function UserForm({ onSubmit, onCancel }: UserFormProps) {
     role: "",
   });
 
-  const [errors, setErrors] = useState<{
-    email?: string;
-    password?: string;
-  }>({});
+  const [errors, setErrors] = useState<Record<string, string | undefined>>(
+    {},
+  );
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
@@ -67,7 +71,7 @@ export default function UserForm({ onSubmit, onCancel }: UserFormProps) {
     if (roles.length > 0 && !formData.role) {
       setFormData((prev: any) => ({
         ...prev,
-        role: roles[0].role,
+        role: roles[0],
       }));
     }
   }, [roles, formData.role]);
@@ -79,43 +83,6 @@ export default function UserForm({ onSubmit, onCancel }: UserFormProps) {
     setShowPassword(!showPassword);
   };
 
-  /**
-   * Validate email format
-   */
-  const validateEmail = (email: string): string | undefined => {
-    if (!email) {
-      return "Email is required";
-    }
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
-      return "Invalid email format";
-    }
-    return undefined;
-  };
-
-  /**
-   * Validate password strength
-   * Requirements: min 8 chars, uppercase, lowercase, numbers
-   */
-  const validatePassword = (password: string): string | undefined => {
-    if (!password) {
-      return "Password is required";
-    }
-    if (password.length < 8) {
-      return "Password must be at least 8 characters";
-    }
-    if (!/[A-Z]/.test(password)) {
-      return "Password must contain at least one uppercase letter";
-    }
-    if (!/[a-z]/.test(password)) {
-      return "Password must contain at least one lowercase letter";
-    }
-    if (!/[0-9]/.test(password)) {
-      return "Password must contain at least one number";
-    }
-    return undefined;
-  };
-
   /**
    * Handle input field changes
    */
@@ -129,7 +96,7 @@ export default function UserForm({ onSubmit, onCancel }: UserFormProps) {
     }));
 
     // Clear error for this field when user starts typing
-    if (errors[name as keyof typeof errors]) {
+    if (errors[name]) {
       setErrors((prev) => ({
         ...prev,
         [name]: undefined,
@@ -141,15 +108,9 @@ export default function UserForm({ onSubmit, onCancel }: UserFormProps) {
    * Validate all form fields
    */
   const validateForm = (): boolean => {
-    const emailError = validateEmail(formData.email);
-    const passwordError = validatePassword(formData.password);
-
-    setErrors({
-      email: emailError,
-      password: passwordError,
-    });
-
-    return !emailError && !passwordError;
+    const issues = validate(createUserSchema, formData);
+    setErrors(issuesByField(issues));
+    return issues.length === 0;
   };
 
   /**
@@ -169,8 +130,12 @@ export default function UserForm({ onSubmit, onCancel }: UserFormProps) {
       await onSubmit(formData);
       // Form will be closed by parent component on success
     } catch (error) {
-      // Error handling is done by parent component
+      // The parent shows the error; field errors also go next to their inputs
       console.error("Failed to create user:", error);
+      const issues = (error as SerializedApiError).errors;
+      if (issues) {
+        setErrors(issuesByField(issues));
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -268,7 +233,11 @@ export default function UserForm({ onSubmit, onCancel }: UserFormProps) {
               value={formData.role}
               onChange={handleChange}
               disabled={isSubmitting || rolesLoading}
-              helperText="Select the role that determines dashboard access permissions"
+              error={!!errors.role}
+              helperText={
+                errors.role ||
+                "Select the role that determines dashboard access permissions"
+              }
               required
               InputProps={{
                 endAdornment: rolesLoading ? (
@@ -278,10 +247,9 @@ export default function UserForm({ onSubmit, onCancel }: UserFormProps) {
                 ) : null,
               }}
             >
-              <MenuItem value={USER_ROLES.ADMIN}>Admin</MenuItem>
               {roles.map((role) => (
-                <MenuItem key={role.role} value={role.role}>
-                  {role.role}
+                <MenuItem key={role} value={role}>
+                  {role}
                 </MenuItem>
               ))}
             </TextField>
@@ -0,0 +1,350 @@
+import { useState, type ChangeEvent } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Link,
+  Paper,
+  Step,
+  StepLabel,
+  Stepper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+  useMediaQuery,
+  useTheme,
+} from "@mui/material";
+import { Close, UploadFile } from "@mui/icons-material";
+import { importUsers } from "../../services/userService";
+import type {
+  ImportRowStatus,
+  ImportUserRowResult,
+  ImportUsersResponse,
+} from "../../types/user.types";
+import { isApiError } from "../../utils/apiClient";
+import {
+  MAX_USER_IMPORT_ROWS,
+  USER_IMPORT_COLUMNS,
+} from "../../utils/validation";
+
+interface UserImportWizardProps {
+  /** Called with the number of users created, so the list can be reloaded */
+  onClose: (created: number) => void;
+}
+
+const STEPS = ["Upload CSV", "Review", "Import"];
+
+const TEMPLATE_CSV = `${USER_IMPORT_COLUMNS.join(",")}\nmanager@example.com,Store Manager,NA,S01,false\n`;
+
+const STATUS_COLORS: Record<ImportRowStatus, "success" | "error" | "default"> =
+  {
+    valid: "success",
+    created: "success",
+    invalid: "error",
+    failed: "error",
+  };
+
+/**
+ * Per-row results of a dry run or an import
+ */
+function ImportResultsTable({ rows }: { rows: ImportUserRowResult[] }) {
+  return (
+    <TableContainer
+      component={Paper}
+      elevation={0}
+      sx={{ border: "1px solid #E5E7EB", borderRadius: 2, maxHeight: 360 }}
+    >
+      <Table size="small" stickyHeader>
+        <TableHead>
+          <TableRow>
+            <TableCell>Line</TableCell>
+            <TableCell>Email</TableCell>
+            <TableCell>Role</TableCell>
+            <TableCell>Status</TableCell>
+            <TableCell>Errors</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.line}>
+              <TableCell>{row.line}</TableCell>
+              <TableCell>{row.email || "—"}</TableCell>
+              <TableCell>{row.role || "—"}</TableCell>
+              <TableCell>
+                <Chip
+                  size="small"
+                  label={row.status}
+                  color={STATUS_COLORS[row.status]}
+                  variant={row.status === "valid" ? "outlined" : "filled"}
+                />
+              </TableCell>
+              <TableCell>
+                {row.errors.map((issue) => (
+                  <Typography
+                    key={`${issue.field}-${issue.message}`}
+                    variant="body2"
+                    color="error"
+                  >
+                    {issue.message}
+                  </Typography>
+                ))}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
+
+/**
+ * UserImportWizard component - Creates users in bulk from a CSV file
+ * 1. Upload: pick the file
+ * 2. Review: a dry run reports every row's validation errors
+ * 3. Import: valid rows are created and receive a Cognito invitation email;
+ *    rows that fail are reported without stopping the rest
+ */
+export default function UserImportWizard({ onClose }: UserImportWizardProps) {
+  const theme = useTheme();
+  const fullScreen = useMediaQuery(theme.breakpoints.down("md"));
+
+  const [activeStep, setActiveStep] = useState(0);
+  const [file, setFile] = useState<{ name: string; csv: string } | null>(
+    null,
+  );
+  const [preview, setPreview] = useState<ImportUsersResponse | null>(null);
+  const [result, setResult] = useState<ImportUsersResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleClose = () => {
+    onClose(result?.created ?? 0);
+  };
+
+  /**
+   * Read the chosen file; a new file discards the previous dry run
+   */
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    // Allow choosing the same file again after editing it
+    e.target.value = "";
+    if (!chosen) {
+      return;
+    }
+
+    setError(null);
+    setPreview(null);
+    try {
+      setFile({ name: chosen.name, csv: await chosen.text() });
+    } catch (readError) {
+      console.error("Failed to read CSV file:", readError);
+      setFile(null);
+      setError("The file could not be read");
+    }
+  };
+
+  /**
+   * Send the file to the API, as a dry run or for real
+   * File-level problems (e.g. unknown columns) come back as an error
+   */
+  const submit = async (dryRun: boolean) => {
+    if (!file) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await importUsers({ csv: file.csv, dry_run: dryRun });
+      if (dryRun) {
+        setPreview(response);
+        setActiveStep(1);
+      } else {
+        setResult(response);
+        setActiveStep(2);
+      }
+    } catch (submitError) {
+      console.error("Failed to import users:", submitError);
+      setError(
+        isApiError(submitError)
+          ? submitError.message
+          : dryRun
+            ? "Failed to validate the file"
+            : "Failed to import users",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={true}
+      onClose={isSubmitting ? undefined : handleClose}
+      maxWidth="md"
+      fullWidth
+      fullScreen={fullScreen}
+      PaperProps={{
+        sx: {
+          borderRadius: fullScreen ? 0 : 2,
+        },
+      }}
+    >
+      <DialogTitle
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          pb: 1,
+        }}
+      >
+        <Typography variant="h5" component="div" sx={{ fontWeight: 600 }}>
+          Import Users
+        </Typography>
+        <IconButton
+          aria-label="close"
+          onClick={handleClose}
+          disabled={isSubmitting}
+          sx={{
+            color: (theme) => theme.palette.grey[500],
+          }}
+        >
+          <Close />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Stepper activeStep={activeStep} sx={{ mb: 3 }}>
+          {STEPS.map((label) => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+
+          {activeStep === 0 && (
+            <>
+              <Typography variant="body2" color="text.secondary">
+                Upload a CSV file with a header row and up to{" "}
+                {MAX_USER_IMPORT_ROWS} users. Columns:{" "}
+                <strong>{USER_IMPORT_COLUMNS.join(", ")}</strong>. Email and
+                role are required; is_tenant_admin is true or false. Each user
+                receives an invitation email with a temporary password.
+              </Typography>
+              <Link
+                href={`data:text/csv;charset=utf-8,${encodeURIComponent(TEMPLATE_CSV)}`}
+                download="users-template.csv"
+                variant="body2"
+              >
+                Download a template
+              </Link>
+              <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+                <Button
+                  variant="outlined"
+                  component="label"
+                  startIcon={<UploadFile />}
+                  disabled={isSubmitting}
+                >
+                  Choose file
+                  <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    hidden
+                    onChange={handleFileChange}
+                  />
+                </Button>
+                <Typography variant="body2" color="text.secondary">
+                  {file ? file.name : "No file chosen"}
+                </Typography>
+              </Box>
+            </>
+          )}
+
+          {activeStep === 1 && preview && (
+            <>
+              <Alert severity={preview.invalid > 0 ? "warning" : "success"}>
+                {preview.valid} of {preview.total} rows are valid.
+                {preview.invalid > 0 &&
+                  " Invalid rows are skipped; fix them and upload the file again to include them."}
+              </Alert>
+              <ImportResultsTable rows={preview.rows} />
+            </>
+          )}
+
+          {activeStep === 2 && result && (
+            <>
+              <Alert severity={result.failed > 0 ? "warning" : "success"}>
+                {result.created} of {result.total} users created.
+                {result.created > 0 &&
+                  " They will receive an invitation email."}
+                {result.failed > 0 &&
+                  ` ${result.failed} could not be created and can be imported again.`}
+              </Alert>
+              <ImportResultsTable rows={result.rows} />
+            </>
+          )}
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        {activeStep === 0 && (
+          <>
+            <Button
+              onClick={handleClose}
+              disabled={isSubmitting}
+              color="inherit"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="contained"
+              onClick={() => submit(true)}
+              disabled={isSubmitting || !file}
+            >
+              {isSubmitting ? "Validating..." : "Validate"}
+            </Button>
+          </>
+        )}
+        {activeStep === 1 && preview && (
+          <>
+            <Button
+              onClick={() => setActiveStep(0)}
+              disabled={isSubmitting}
+              color="inherit"
+            >
+              Back
+            </Button>
+            <Button
+              variant="contained"
+              onClick={() => submit(false)}
+              disabled={isSubmitting || preview.valid === 0}
+            >
+              {isSubmitting
+                ? "Importing..."
+                : `Import ${preview.valid} ${preview.valid === 1 ? "user" : "users"}`}
+            </Button>
+          </>
+        )}
+        {activeStep === 2 && (
+          <Button variant="contained" onClick={handleClose}>
+            Done
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -1,53 +1,132 @@
 /* eslint-disable no-useless-catch */
 import { useEffect, useState } from "react";
 import { useDispatch, useSelector } from "react-redux";
+import { useNavigate } from "react-router-dom";
 import {
   Box,
   Button,
   Alert,
   CircularProgress,
+  MenuItem,
+  TextField,
   Typography,
 } from "@mui/material";
-import { Add, Refresh } from "@mui/icons-material";
+import {
+  Add,
+  ChevronLeft,
+  ChevronRight,
+  DeleteOutline,
+  Refresh,
+  UploadFile,
+} from "@mui/icons-material";
 import type { RootState, AppDispatch } from "../../store";
 import { fetchUsers, createUser, clearError } from "../../store/userSlice";
 import { useAuth } from "../../hooks/useAuth";
-import { USER_ROLES } from "../../utils/constants";
-import type { CreateUserData } from "../../types/user.types";
+import { useUserListQuery } from "../../hooks/useUserListQuery";
+import type {
+  CreateUserData,
+  UserListFilters,
+  UserSortField,
+} from "../../types/user.types";
+import UserFilters from "./UserFilters";
 import UserForm from "./UserForm";
 import UserTable from "./UserTable";
+import UserImportWizard from "./UserImportWizard";
 import { fetchRoles } from "../../store/roleSlice";
 
+const PAGE_SIZE_OPTIONS = [25, 50, 100];
+
 /**
  * UserList component - Displays user table with role and status
- * Only accessible to Admin users
+ * Requires users:read; adding, importing, editing and deleting users require
+ * users:write
+ * Filters, sort and page live in the URL (useUserListQuery); pages are
+ * fetched from the API with its cursor
  * Requirements: 9.1, 9.4
  */
 export default function UserList() {
   const dispatch = useDispatch<AppDispatch>();
-  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { user, permissionsLoaded, hasPermission } = useAuth();
+  const canReadUsers = hasPermission("users:read");
+  const canWriteUsers = hasPermission("users:write");
   const {
     users = [],
+    total,
+    nextCursor,
     loading,
     error,
   } = useSelector((state: RootState) => state.users);
+  const { query, setFilters, toggleSort, setLimit, goToCursor } =
+    useUserListQuery();
   const [showAddUserForm, setShowAddUserForm] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
+  // Cursors of the pages before the current one, for Previous
+  const [previousCursors, setPreviousCursors] = useState<string[]>([]);
 
   useEffect(() => {
-    // Fetch users when component mounts
-    if (user?.role === USER_ROLES.ADMIN) {
-      dispatch(fetchUsers());
+    if (canReadUsers) {
       dispatch(fetchRoles());
     }
-  }, [dispatch, user?.role]);
+  }, [dispatch, canReadUsers]);
+
+  useEffect(() => {
+    // Fetch the page whenever the URL query changes
+    if (canReadUsers) {
+      dispatch(fetchUsers(query));
+    }
+  }, [dispatch, canReadUsers, query]);
 
   /**
    * Handle refresh button click
    */
   const handleRefresh = () => {
-    dispatch(fetchUsers());
+    dispatch(fetchUsers(query));
+  };
+
+  const handleFiltersChange = (filters: Partial<UserListFilters>) => {
+    setPreviousCursors([]);
+    setFilters(filters);
+  };
+
+  const handleSort = (field: UserSortField) => {
+    setPreviousCursors([]);
+    toggleSort(field);
+  };
+
+  const handleLimitChange = (limit: number) => {
+    setPreviousCursors([]);
+    setLimit(limit);
+  };
+
+  const handleNextPage = () => {
+    if (nextCursor) {
+      setPreviousCursors([...previousCursors, query.cursor]);
+      goToCursor(nextCursor);
+    }
   };
 
+  /**
+   * Go back a page; a page opened from a link goes back to the first page
+   */
+  const handlePreviousPage = () => {
+    setPreviousCursors(previousCursors.slice(0, -1));
+    goToCursor(previousCursors[previousCursors.length - 1] || "");
+  };
+
+  const filtered = [
+    query.role,
+    query.status,
+    query.region,
+    query.store_id,
+    query.email,
+  ].some((value) => value !== "");
+  // Row numbers are only known when the earlier pages were visited here
+  const firstRow =
+    query.cursor && previousCursors.length === 0
+      ? null
+      : previousCursors.length * query.limit + 1;
+
   /**
    * Handle user creation
    */
@@ -70,8 +149,18 @@ export default function UserList() {
     dispatch(clearError());
   };
 
-  // Check if user has admin access
-  if (!user) {
+  /**
+   * Close the import wizard, reloading the page if users were created
+   */
+  const handleCloseImport = (created: number) => {
+    setShowImportWizard(false);
+    if (created > 0) {
+      dispatch(fetchUsers(query));
+    }
+  };
+
+  // Check if the user's role may view users
+  if (!user || !permissionsLoaded) {
     return (
       <Box
         sx={{
@@ -86,14 +175,14 @@ export default function UserList() {
     );
   }
 
-  if (user.role !== USER_ROLES.ADMIN) {
+  if (!canReadUsers) {
     return (
       <Box sx={{ textAlign: "center", py: 4 }}>
         <Typography variant="h5" gutterBottom>
           Access Denied
         </Typography>
         <Typography variant="body1" color="text.secondary">
-          Admin role required to access user management.
+          The users:read permission is required to access user management.
         </Typography>
       </Box>
     );
@@ -126,18 +215,43 @@ export default function UserList() {
             Refresh
           </Button>
           <Button
-            variant="contained"
-            startIcon={<Add />}
-            onClick={() => setShowAddUserForm(true)}
-            disabled={loading}
+            variant="outlined"
+            startIcon={<DeleteOutline />}
+            onClick={() => navigate("/users/deleted")}
             size="small"
             sx={{ flex: { xs: 1, sm: "none" } }}
           >
-            Add User
+            Deleted Users
           </Button>
+          {canWriteUsers && (
+            <Button
+              variant="outlined"
+              startIcon={<UploadFile />}
+              onClick={() => setShowImportWizard(true)}
+              disabled={loading}
+              size="small"
+              sx={{ flex: { xs: 1, sm: "none" } }}
+            >
+              Import CSV
+            </Button>
+          )}
+          {canWriteUsers && (
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={() => setShowAddUserForm(true)}
+              disabled={loading}
+              size="small"
+              sx={{ flex: { xs: 1, sm: "none" } }}
+            >
+              Add User
+            </Button>
+          )}
         </Box>
       </Box>
 
+      <UserFilters filters={query} onChange={handleFiltersChange} />
+
       {error && (
         <Alert severity="error" sx={{ mb: 2 }}>
           {error}
@@ -149,12 +263,73 @@ export default function UserList() {
           <CircularProgress />
         </Box>
       ) : (
-        <UserTable users={users} loading={loading} />
+        <UserTable
+          users={users}
+          loading={loading}
+          canEdit={canWriteUsers}
+          sortBy={query.sortBy}
+          sortOrder={query.sortOrder}
+          onSort={handleSort}
+          filtered={filtered}
+        />
+      )}
+
+      {(users.length > 0 || query.cursor) && (
+        <Box
+          sx={{
+            display: "flex",
+            flexWrap: "wrap",
+            justifyContent: "flex-end",
+            alignItems: "center",
+            gap: 2,
+            mt: 2,
+          }}
+        >
+          <TextField
+            select
+            size="small"
+            label="Rows per page"
+            value={query.limit}
+            onChange={(e) => handleLimitChange(Number(e.target.value))}
+            sx={{ minWidth: 130 }}
+          >
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <MenuItem key={size} value={size}>
+                {size}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Typography variant="body2" color="text.secondary">
+            {firstRow === null || users.length === 0
+              ? `${users.length} of ${total} users`
+              : `${firstRow}–${firstRow + users.length - 1} of ${total} users`}
+          </Typography>
+          <Box sx={{ display: "flex", gap: 1 }}>
+            <Button
+              size="small"
+              startIcon={<ChevronLeft />}
+              onClick={handlePreviousPage}
+              disabled={loading || !query.cursor}
+            >
+              Previous
+            </Button>
+            <Button
+              size="small"
+              endIcon={<ChevronRight />}
+              onClick={handleNextPage}
+              disabled={loading || !nextCursor}
+            >
+              Next
+            </Button>
+          </Box>
+        </Box>
       )}
 
       {showAddUserForm && (
         <UserForm onSubmit={handleCreateUser} onCancel={handleCancelForm} />
       )}
+
+      {showImportWizard && <UserImportWizard onClose={handleCloseImport} />}
     </Box>
   );
 }
@@ -1,61 +1,103 @@
 import { useState } from 'react';
 import { useDispatch } from 'react-redux';
 import type { AppDispatch } from '../../store';
-import { updateUserRole, deleteUser } from '../../store/userSlice';
-import type { User } from '../../types/user.types';
-import { USER_ROLES } from '../../utils/constants';
+import {
+  updateUser,
+  deactivateUser,
+  reactivateUser,
+  deleteUser,
+} from '../../store/userSlice';
+import { useAuth } from '../../hooks/useAuth';
+import type { SortOrder, UpdateUserData, User, UserSortField } from '../../types/user.types';
+import UserEditDialog from './UserEditDialog';
 import './UserTable.css';
 
 interface UserTableProps {
   users: User[];
   loading: boolean;
+  /** Show edit, deactivate and delete actions (users:write) */
+  canEdit: boolean;
+  sortBy: UserSortField;
+  sortOrder: SortOrder;
+  onSort: (field: UserSortField) => void;
+  /** Filters are applied, so an empty table means no matches */
+  filtered?: boolean;
 }
 
+/** Columns without a field cannot be sorted by */
+const COLUMNS: { field?: UserSortField; label: string }[] = [
+  { field: 'email', label: 'Email' },
+  { field: 'role', label: 'Role' },
+  { label: 'Region' },
+  { label: 'Store' },
+  { field: 'status', label: 'Status' },
+  { field: 'created_at', label: 'Created At' },
+];
+
 /**
  * UserTable component - Displays users in table format
  * Features:
- * - Inline role editing with dropdown
+ * - Column headers sort the list (on the server; click again to reverse)
+ * - Status chips; inactive users are dimmed
+ * - Edit dialog for role, region, store and tenant admin
+ * - Deactivate (with confirmation) and reactivate buttons
  * - Delete button with confirmation dialog
+ * Editing and deleting are hidden without users:write
  * Requirements: 9.3, 9.4
  */
-export default function UserTable({ users, loading }: UserTableProps) {
+export default function UserTable({
+  users,
+  loading,
+  canEdit,
+  sortBy,
+  sortOrder,
+  onSort,
+  filtered = false,
+}: UserTableProps) {
   const dispatch = useDispatch<AppDispatch>();
-  const [editingUserId, setEditingUserId] = useState<string | null>(null);
-  const [selectedRole, setSelectedRole] = useState<string>('');
+  const { user: currentUser } = useAuth();
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [deactivatingUser, setDeactivatingUser] = useState<User | null>(null);
   const [deletingUserId, setDeletingUserId] = useState<string | null>(null);
 
   /**
-   * Start editing a user's role
-   */
-  const handleStartEdit = (userId: string, currentRole: string) => {
-    setEditingUserId(userId);
-    setSelectedRole(currentRole);
-  };
-
-  /**
-   * Cancel role editing
+   * Save the edit dialog's changes
+   * Errors are rethrown so the dialog can show them next to its fields
    */
-  const handleCancelEdit = () => {
-    setEditingUserId(null);
-    setSelectedRole('');
+  const handleSaveUser = async (data: UpdateUserData) => {
+    if (editingUser) {
+      await dispatch(updateUser({ userId: editingUser.user_id, data })).unwrap();
+      setEditingUser(null);
+    }
   };
 
   /**
-   * Save role changes
+   * Confirm and execute user deactivation
    */
-  const handleSaveRole = async (userId: string) => {
-    if (selectedRole) {
+  const handleConfirmDeactivate = async () => {
+    if (deactivatingUser) {
       try {
-        await dispatch(updateUserRole({ userId, role: selectedRole })).unwrap();
-        setEditingUserId(null);
-        setSelectedRole('');
+        await dispatch(deactivateUser(deactivatingUser.user_id)).unwrap();
+        setDeactivatingUser(null);
       } catch (error) {
         // Error is handled by Redux
-        console.error('Failed to update role:', error);
+        console.error('Failed to deactivate user:', error);
       }
     }
   };
 
+  /**
+   * Reactivate a user; no confirmation since it only restores access
+   */
+  const handleReactivate = async (userId: string) => {
+    try {
+      await dispatch(reactivateUser(userId)).unwrap();
+    } catch (error) {
+      // Error is handled by Redux
+      console.error('Failed to reactivate user:', error);
+    }
+  };
+
   /**
    * Show delete confirmation dialog
    */
@@ -88,7 +130,11 @@ export default function UserTable({ users, loading }: UserTableProps) {
   if (users.length === 0) {
     return (
       <div className="user-table-empty">
-        <p>No users found. Click "Add User" to create one.</p>
+        <p>
+          {filtered
+            ? 'No users match these filters.'
+            : 'No users found. Click "Add User" to create one.'}
+        </p>
       </div>
     );
   }
@@ -99,84 +145,147 @@ export default function UserTable({ users, loading }: UserTableProps) {
         <table className="user-table">
           <thead>
             <tr>
-              <th>Email</th>
-              <th>Role</th>
-              <th>Status</th>
-              <th>Created At</th>
-              <th>Actions</th>
+              {COLUMNS.map(({ field, label }) =>
+                field ? (
+                  <th
+                    key={label}
+                    aria-sort={
+                      sortBy === field ? (sortOrder === 'asc' ? 'ascending' : 'descending') : undefined
+                    }
+                  >
+                    <button
+                      type="button"
+                      className={`sort-header${sortBy === field ? ' sort-header-active' : ''}`}
+                      onClick={() => onSort(field)}
+                      disabled={loading}
+                    >
+                      {label}
+                      <span className="sort-indicator">
+                        {sortBy === field ? (sortOrder === 'asc' ? '▲' : '▼') : ''}
+                      </span>
+                    </button>
+                  </th>
+                ) : (
+                  <th key={label}>{label}</th>
+                )
+              )}
+              {canEdit && <th>Actions</th>}
             </tr>
           </thead>
           <tbody>
             {users.map((user) => (
-              <tr key={user.user_id}>
+              <tr
+                key={user.user_id}
+                className={user.status === 'Inactive' ? 'user-row-inactive' : undefined}
+              >
                 <td>{user.email}</td>
                 <td>
-                  {editingUserId === user.user_id ? (
-                    <div className="role-edit-container">
-                      <select
-                        value={selectedRole}
-                        onChange={(e) => setSelectedRole(e.target.value)}
-                        className="role-select"
-                        disabled={loading}
-                      >
-                        <option value={USER_ROLES.ADMIN}>{USER_ROLES.ADMIN}</option>
-                        <option value={USER_ROLES.FINANCE}>{USER_ROLES.FINANCE}</option>
-                        <option value={USER_ROLES.OPERATIONS}>{USER_ROLES.OPERATIONS}</option>
-                        <option value={USER_ROLES.MARKETING}>{USER_ROLES.MARKETING}</option>
-                      </select>
-                      <button
-                        onClick={() => handleSaveRole(user.user_id)}
-                        className="btn-save"
-                        disabled={loading}
-                      >
-                        Save
-                      </button>
+                  <div className="role-display">
+                    <span className={`role-badge role-${user.role.toLowerCase()}`}>
+                      {user.role}
+                    </span>
+                    {user.is_tenant_admin && (
+                      <span className="tenant-admin-badge" title="Holds every permission">
+                        Tenant admin
+                      </span>
+                    )}
+                  </div>
+                </td>
+                <td>{user.region || '—'}</td>
+                <td>{user.store_id || '—'}</td>
+                <td>
+                  <span className={`status-badge status-${user.status.toLowerCase()}`}>
+                    {user.status}
+                  </span>
+                </td>
+                <td>{new Date(user.created_at).toLocaleDateString()}</td>
+                {canEdit && (
+                  <td>
+                    <div className="user-actions">
                       <button
-                        onClick={handleCancelEdit}
-                        className="btn-cancel"
+                        onClick={() => setEditingUser(user)}
+                        className="btn-edit"
                         disabled={loading}
+                        title="Edit user"
                       >
-                        Cancel
+                        Edit
                       </button>
-                    </div>
-                  ) : (
-                    <div className="role-display">
-                      <span className={`role-badge role-${user.role.toLowerCase()}`}>
-                        {user.role}
-                      </span>
+                      {user.status === 'Inactive' ? (
+                        <button
+                          onClick={() => handleReactivate(user.user_id)}
+                          className="btn-reactivate"
+                          disabled={loading}
+                          title="Restore sign-in and API access"
+                        >
+                          Reactivate
+                        </button>
+                      ) : (
+                        user.email !== currentUser?.email && (
+                          <button
+                            onClick={() => setDeactivatingUser(user)}
+                            className="btn-deactivate"
+                            disabled={loading}
+                            title="Block sign-in and API access"
+                          >
+                            Deactivate
+                          </button>
+                        )
+                      )}
                       <button
-                        onClick={() => handleStartEdit(user.user_id, user.role)}
-                        className="btn-edit-inline"
+                        onClick={() => handleDeleteClick(user.user_id)}
+                        className="btn-delete"
                         disabled={loading}
-                        title="Edit role"
+                        title="Delete user"
                       >
-                        ✏️
+                        Delete
                       </button>
                     </div>
-                  )}
-                </td>
-                <td>
-                  <span className={`status-badge status-${user.status}`}>
-                    {user.status}
-                  </span>
-                </td>
-                <td>{new Date(user.created_at).toLocaleDateString()}</td>
-                <td>
-                  <button
-                    onClick={() => handleDeleteClick(user.user_id)}
-                    className="btn-delete"
-                    disabled={loading}
-                    title="Delete user"
-                  >
-                    Delete
-                  </button>
-                </td>
+                  </td>
+                )}
               </tr>
             ))}
           </tbody>
         </table>
       </div>
 
+      {editingUser && (
+        <UserEditDialog
+          user={editingUser}
+          isSelf={editingUser.email === currentUser?.email}
+          onSubmit={handleSaveUser}
+          onCancel={() => setEditingUser(null)}
+        />
+      )}
+
+      {/* Deactivate Confirmation Dialog */}
+      {deactivatingUser && (
+        <div className="modal-overlay">
+          <div className="modal-content">
+            <h2>Deactivate User</h2>
+            <p>
+              {deactivatingUser.email} will be signed out and unable to sign in, use the API
+              or view dashboards until reactivated. Their data and settings are kept.
+            </p>
+            <div className="modal-actions">
+              <button
+                onClick={handleConfirmDeactivate}
+                className="btn-danger"
+                disabled={loading}
+              >
+                Deactivate
+              </button>
+              <button
+                onClick={() => setDeactivatingUser(null)}
+                className="btn-secondary"
+                disabled={loading}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Dialog */}
       {deletingUserId && (
         <div className="modal-overlay">
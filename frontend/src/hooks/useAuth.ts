@@ -1,17 +1,36 @@
 import { useEffect } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import type { RootState, AppDispatch } from '../store';
-import { checkAuth, login, logout, changePassword, clearPasswordChangeState } from '../store/authSlice';
+import {
+  checkAuth,
+  login,
+  logout,
+  changePassword,
+  clearPasswordChangeState,
+  fetchPermissions,
+} from '../store/authSlice';
 import type { LoginCredentials, ChangePasswordData } from '../types/auth.types';
+import type { Permission } from '../utils/permissions';
 
 /**
  * Custom hook for authentication
  */
 export const useAuth = () => {
   const dispatch = useDispatch<AppDispatch>();
-  const { user, loading, error, requiresPasswordChange, tempCredentials } = useSelector(
-    (state: RootState) => state.auth
-  );
+  const {
+    user,
+    permissions,
+    permissionsLoaded,
+    loading,
+    error,
+    requiresPasswordChange,
+    tempCredentials,
+  } = useSelector((state: RootState) => state.auth);
+
+  /**
+   * Whether the user's role grants a permission; false until permissions load
+   */
+  const hasPermission = (permission: Permission) => permissions.includes(permission);
   
   const handleLogin = async (credentials: LoginCredentials) => {
     await dispatch(login(credentials)).unwrap();
@@ -31,6 +50,9 @@ export const useAuth = () => {
   
   return {
     user,
+    permissions,
+    permissionsLoaded,
+    hasPermission,
     loading,
     error,
     requiresPasswordChange,
@@ -48,8 +70,16 @@ export const useAuth = () => {
  */
 export const useAuthInit = () => {
   const dispatch = useDispatch<AppDispatch>();
+  const { user, permissionsLoaded } = useSelector((state: RootState) => state.auth);
   
   useEffect(() => {
     dispatch(checkAuth());
   }, [dispatch]);
+
+  useEffect(() => {
+    // Load permissions once per sign-in (login, password change or restored session)
+    if (user && !permissionsLoaded) {
+      dispatch(fetchPermissions());
+    }
+  }, [dispatch, user, permissionsLoaded]);
 };
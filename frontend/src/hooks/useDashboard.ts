@@ -1,27 +1,67 @@
 import { useDispatch, useSelector } from 'react-redux';
 import type { RootState, AppDispatch } from '../store';
-import { fetchEmbedUrl, clearEmbedUrl } from '../store/dashboardSlice';
+import {
+  fetchEmbedUrl,
+  fetchDashboards,
+  clearEmbedUrl,
+  setDashboardMode,
+  selectDashboard,
+} from '../store/dashboardSlice';
+import { DASHBOARD_MODE_STORAGE_KEY, type DashboardMode } from '../utils/constants';
 
 /**
  * Custom hook for dashboard management
  */
 export const useDashboard = () => {
   const dispatch = useDispatch<AppDispatch>();
-  const { embedUrl, loading, error } = useSelector((state: RootState) => state.dashboard);
+  const {
+    embedUrl,
+    embedExpiresAt,
+    mode,
+    dashboards,
+    selectedDashboardId,
+    dashboardsLoaded,
+    loading,
+    error,
+  } = useSelector((state: RootState) => state.dashboard);
   
   const loadDashboard = () => {
-    dispatch(fetchEmbedUrl());
+    dispatch(fetchEmbedUrl(selectedDashboardId || undefined));
+  };
+  
+  const loadDashboards = () => {
+    dispatch(fetchDashboards());
   };
   
   const clearDashboard = () => {
     dispatch(clearEmbedUrl());
   };
   
+  /**
+   * Switch between native and embedded mode, remembered per browser
+   */
+  const changeMode = (nextMode: DashboardMode) => {
+    localStorage.setItem(DASHBOARD_MODE_STORAGE_KEY, nextMode);
+    dispatch(setDashboardMode(nextMode));
+  };
+  
+  const chooseDashboard = (dashboardId: string) => {
+    dispatch(selectDashboard(dashboardId));
+  };
+  
   return {
     embedUrl,
+    embedExpiresAt,
+    mode,
+    dashboards,
+    selectedDashboardId,
+    dashboardsLoaded,
     loading,
     error,
     loadDashboard,
+    loadDashboards,
     clearDashboard,
+    changeMode,
+    chooseDashboard,
   };
 };
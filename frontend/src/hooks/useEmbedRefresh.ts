@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import { EMBED_REFRESH_LEAD_TIME } from '../utils/constants';
+
+/**
+ * Custom hook that refreshes an embed URL shortly before it expires
+ * - Schedules the refresh relative to expiresAt instead of a fixed interval
+ * - Pauses while the tab is hidden
+ * - Refreshes immediately when the tab becomes visible again past the refresh time
+ *
+ * @param expiresAt - Expiry timestamp in milliseconds, or null to disable refreshing
+ * @param refresh - Called when the URL is due for refresh
+ */
+export const useEmbedRefresh = (expiresAt: number | null, refresh: () => void) => {
+  const refreshRef = useRef(refresh);
+
+  useEffect(() => {
+    refreshRef.current = refresh;
+  }, [refresh]);
+
+  useEffect(() => {
+    if (expiresAt === null) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const schedule = () => {
+      clearTimeout(timer);
+      if (document.visibilityState === 'hidden') {
+        return;
+      }
+      const delay = Math.max(expiresAt - EMBED_REFRESH_LEAD_TIME - Date.now(), 0);
+      timer = setTimeout(() => refreshRef.current(), delay);
+    };
+
+    // Hidden: stop the timer. Visible: refresh now if due, otherwise reschedule
+    document.addEventListener('visibilitychange', schedule);
+    schedule();
+
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', schedule);
+    };
+  }, [expiresAt]);
+};
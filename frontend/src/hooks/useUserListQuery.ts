@@ -0,0 +1,100 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { SortOrder, UserListFilters, UserListQuery, UserSortField } from '../types/user.types';
+import { DEFAULT_USER_PAGE_SIZE, MAX_USER_PAGE_SIZE, USER_SORT_FIELDS } from '../utils/validation';
+
+const DEFAULT_SORT_BY: UserSortField = 'created_at';
+const DEFAULT_SORT_ORDER: SortOrder = 'desc';
+
+function isSortField(value: string | null): value is UserSortField {
+  return (USER_SORT_FIELDS as readonly (string | null)[]).includes(value);
+}
+
+/**
+ * Reads the user list query from the URL, falling back to defaults for
+ * missing or invalid values
+ */
+function parseQuery(params: URLSearchParams): UserListQuery {
+  const sortBy = params.get('sortBy');
+  const limit = Number(params.get('limit'));
+
+  return {
+    role: params.get('role') || '',
+    status: params.get('status') || '',
+    region: params.get('region') || '',
+    store_id: params.get('store_id') || '',
+    email: params.get('email') || '',
+    sortBy: isSortField(sortBy) ? sortBy : DEFAULT_SORT_BY,
+    sortOrder: params.get('sortOrder') === 'asc' ? 'asc' : DEFAULT_SORT_ORDER,
+    limit:
+      Number.isInteger(limit) && limit >= 1 && limit <= MAX_USER_PAGE_SIZE
+        ? limit
+        : DEFAULT_USER_PAGE_SIZE,
+    cursor: params.get('cursor') || '',
+  };
+}
+
+/**
+ * Writes a query to URL parameters, leaving out empty values and defaults
+ */
+function toSearchParams(query: UserListQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  const defaults: Partial<Record<keyof UserListQuery, string>> = {
+    sortBy: DEFAULT_SORT_BY,
+    sortOrder: DEFAULT_SORT_ORDER,
+    limit: String(DEFAULT_USER_PAGE_SIZE),
+  };
+
+  for (const [name, value] of Object.entries(query) as [keyof UserListQuery, string | number][]) {
+    const text = String(value).trim();
+    if (text && text !== defaults[name]) {
+      params.set(name, text);
+    }
+  }
+  return params;
+}
+
+/**
+ * User list filters, sort and page kept in the URL query string, so the
+ * Users page can be bookmarked, shared and navigated with Back/Forward
+ * Changing filters, sort or page size returns to the first page
+ */
+export const useUserListQuery = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.toString();
+  const query = useMemo(() => parseQuery(new URLSearchParams(search)), [search]);
+
+  const updateQuery = useCallback(
+    (changes: Partial<UserListQuery>, options?: { replace?: boolean }) => {
+      setSearchParams(
+        (current) => toSearchParams({ ...parseQuery(current), cursor: '', ...changes }),
+        options
+      );
+    },
+    [setSearchParams]
+  );
+
+  const setFilters = useCallback(
+    (filters: Partial<UserListFilters>) => updateQuery(filters, { replace: true }),
+    [updateQuery]
+  );
+
+  /**
+   * Sort by a column; sorting by the current column flips the order
+   */
+  const toggleSort = useCallback(
+    (field: UserSortField) => {
+      updateQuery({
+        sortBy: field,
+        sortOrder: query.sortBy === field && query.sortOrder === 'asc' ? 'desc' : 'asc',
+      });
+    },
+    [updateQuery, query.sortBy, query.sortOrder]
+  );
+
+  const setLimit = useCallback((limit: number) => updateQuery({ limit }), [updateQuery]);
+
+  const goToCursor = useCallback((cursor: string) => updateQuery({ cursor }), [updateQuery]);
+
+  return { query, setFilters, toggleSort, setLimit, goToCursor };
+};
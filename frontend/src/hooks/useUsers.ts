@@ -1,15 +1,15 @@
 import { useEffect } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import type { RootState, AppDispatch } from '../store';
-import { fetchUsers, createUser, updateUserRole, deleteUser } from '../store/userSlice';
-import type { CreateUserData } from '../types/user.types';
+import { fetchUsers, createUser, updateUser, deleteUser } from '../store/userSlice';
+import type { CreateUserData, UpdateUserData } from '../types/user.types';
 
 /**
  * Custom hook for user management
  */
 export const useUsers = () => {
   const dispatch = useDispatch<AppDispatch>();
-  const { users, loading, error } = useSelector((state: RootState) => state.users);
+  const { users, total, nextCursor, loading, error } = useSelector((state: RootState) => state.users);
   
   useEffect(() => {
     dispatch(fetchUsers());
@@ -19,8 +19,8 @@ export const useUsers = () => {
     await dispatch(createUser(userData)).unwrap();
   };
   
-  const handleUpdateUserRole = async (userId: string, role: string) => {
-    await dispatch(updateUserRole({ userId, role })).unwrap();
+  const handleUpdateUser = async (userId: string, data: UpdateUserData) => {
+    await dispatch(updateUser({ userId, data })).unwrap();
   };
   
   const handleDeleteUser = async (userId: string) => {
@@ -33,10 +33,12 @@ export const useUsers = () => {
   
   return {
     users,
+    total,
+    nextCursor,
     loading,
     error,
     createUser: handleCreateUser,
-    updateUserRole: handleUpdateUserRole,
+    updateUser: handleUpdateUser,
     deleteUser: handleDeleteUser,
     refreshUsers,
   };
@@ -1,37 +1,89 @@
-import { Box, Typography, Paper } from '@mui/material';
+import { Box, Typography, Paper, ToggleButton, ToggleButtonGroup } from '@mui/material';
+import { Insights as InsightsIcon, Dashboard as DashboardIcon } from '@mui/icons-material';
 import DashboardEmbed from '../components/dashboard/DashboardEmbed';
+import NativeDashboard from '../components/dashboard/NativeDashboard';
+import QnaPanel from '../components/dashboard/QnaPanel';
+import { useDashboard } from '../hooks/useDashboard';
+import { DASHBOARD_MODES, type DashboardMode } from '../utils/constants';
 
 export default function DashboardPage() {
+  const { mode, dashboards, selectedDashboardId, changeMode } = useDashboard();
+  const selectedDashboard = dashboards.find((d) => d.dashboard_id === selectedDashboardId);
+
+  const handleModeChange = (_: React.MouseEvent<HTMLElement>, value: DashboardMode | null) => {
+    if (value) {
+      changeMode(value);
+    }
+  };
+
   return (
     <>
-      <Box sx={{ mb: { xs: 2, sm: 3 } }}>
-        <Typography 
-          variant="h4" 
-          sx={{ 
-            fontWeight: 600, 
-            color: '#1F2937', 
-            mb: 1,
-            fontSize: { xs: '1.5rem', sm: '2rem' }
-          }}
-        >
-          Analytics Dashboard
-        </Typography>
-        <Typography variant="body2" color="text.secondary">
-          Real-time insights and analytics for your business
-        </Typography>
-      </Box>
-
-      <Paper
-        elevation={0}
+      <Box
         sx={{
-          p: { xs: 1, sm: 2 },
-          borderRadius: 2,
-          border: '1px solid #E5E7EB',
-          bgcolor: 'white',
+          mb: { xs: 2, sm: 3 },
+          display: 'flex',
+          flexDirection: { xs: 'column', sm: 'row' },
+          justifyContent: 'space-between',
+          alignItems: { xs: 'stretch', sm: 'flex-end' },
+          gap: 2,
         }}
       >
-        <DashboardEmbed />
-      </Paper>
+        <Box>
+          <Typography 
+            variant="h4" 
+            sx={{ 
+              fontWeight: 600, 
+              color: '#1F2937', 
+              mb: 1,
+              fontSize: { xs: '1.5rem', sm: '2rem' }
+            }}
+          >
+            {mode === DASHBOARD_MODES.EMBEDDED && selectedDashboard
+              ? selectedDashboard.title
+              : 'Analytics Dashboard'}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {mode === DASHBOARD_MODES.EMBEDDED && selectedDashboard
+              ? selectedDashboard.description || selectedDashboard.title
+              : 'Real-time insights and analytics for your business'}
+          </Typography>
+        </Box>
+
+        <ToggleButtonGroup
+          value={mode}
+          exclusive
+          size="small"
+          onChange={handleModeChange}
+          aria-label="Dashboard mode"
+        >
+          <ToggleButton value={DASHBOARD_MODES.NATIVE} aria-label="Native dashboard">
+            <InsightsIcon fontSize="small" sx={{ mr: 1 }} />
+            Native
+          </ToggleButton>
+          <ToggleButton value={DASHBOARD_MODES.EMBEDDED} aria-label="QuickSight dashboard">
+            <DashboardIcon fontSize="small" sx={{ mr: 1 }} />
+            QuickSight
+          </ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      <QnaPanel />
+
+      {mode === DASHBOARD_MODES.NATIVE ? (
+        <NativeDashboard />
+      ) : (
+        <Paper
+          elevation={0}
+          sx={{
+            p: { xs: 1, sm: 2 },
+            borderRadius: 2,
+            border: '1px solid #E5E7EB',
+            bgcolor: 'white',
+          }}
+        >
+          <DashboardEmbed />
+        </Paper>
+      )}
     </>
   );
 }
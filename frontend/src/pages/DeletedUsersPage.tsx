@@ -0,0 +1,18 @@
+import { Paper } from '@mui/material';
+import DeletedUserList from '../components/users/DeletedUserList';
+
+export default function DeletedUsersPage() {
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: { xs: 2, sm: 3 },
+        borderRadius: 2,
+        border: '1px solid #E5E7EB',
+        bgcolor: 'white',
+      }}
+    >
+      <DeletedUserList />
+    </Paper>
+  );
+}
@@ -0,0 +1,39 @@
+import { Box, Typography } from '@mui/material';
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import TenantList from '../components/tenants/TenantList';
+
+/**
+ * Super-admin console for platform operators
+ * Kept apart from the per-tenant Users/Roles admin screens
+ */
+export default function TenantsPage() {
+  const { user } = useAuth();
+
+  if (!user?.isPlatformAdmin) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return (
+    <>
+      <Box sx={{ mb: { xs: 2, sm: 3 } }}>
+        <Typography
+          variant="h4"
+          sx={{
+            fontWeight: 600,
+            color: '#1F2937',
+            mb: 1,
+            fontSize: { xs: '1.5rem', sm: '2rem' }
+          }}
+        >
+          Platform Administration
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Manage tenants across the platform
+        </Typography>
+      </Box>
+
+      <TenantList />
+    </>
+  );
+}
@@ -0,0 +1,35 @@
+import type {
+  ListMetricsResponse,
+  MetricAvailability,
+  MetricKey,
+  MetricQuery,
+  MetricResponse,
+} from '../types/analytics.types';
+import { apiRequest } from '../utils/apiClient';
+import { API_ENDPOINTS } from '../utils/constants';
+
+/**
+ * List KPIs and whether the current user's role may view them
+ */
+export async function listMetrics(): Promise<MetricAvailability[]> {
+  const response = await apiRequest<ListMetricsResponse>(API_ENDPOINTS.METRICS);
+  return response.metrics;
+}
+
+/**
+ * Get summary, time series and breakdown for one KPI
+ */
+export async function getMetric(metric: MetricKey, query: MetricQuery): Promise<MetricResponse> {
+  const params = new URLSearchParams({
+    startDate: query.startDate,
+    endDate: query.endDate,
+    granularity: query.granularity,
+  });
+  if (query.groupBy) {
+    params.set('groupBy', query.groupBy);
+  }
+
+  return apiRequest<MetricResponse>(
+    `${API_ENDPOINTS.METRICS}/${encodeURIComponent(metric)}?${params.toString()}`
+  );
+}
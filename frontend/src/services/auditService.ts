@@ -0,0 +1,28 @@
+import type { AuditFilters, ListAuditEventsResponse } from '../types/audit.types';
+import { apiRequest } from '../utils/apiClient';
+import { API_ENDPOINTS } from '../utils/constants';
+
+/**
+ * List audit events, newest first
+ *
+ * @param cursor - next_cursor of the previous page; omit for the first page
+ */
+export async function listAuditEvents(
+  filters: AuditFilters,
+  cursor?: string
+): Promise<ListAuditEventsResponse> {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(filters)) {
+    if (value.trim()) {
+      params.set(name, value.trim());
+    }
+  }
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+
+  const queryString = params.toString();
+  return apiRequest<ListAuditEventsResponse>(
+    queryString ? `${API_ENDPOINTS.AUDIT}?${queryString}` : API_ENDPOINTS.AUDIT
+  );
+}
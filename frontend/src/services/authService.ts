@@ -1,6 +1,15 @@
 import { signIn, signOut, fetchAuthSession, getCurrentUser } from 'aws-amplify/auth';
-import type { AuthUser, LoginCredentials } from '../types/auth.types';
-import type { UserRole } from '../utils/constants';
+import type { AuthUser, CurrentUserProfile, LoginCredentials } from '../types/auth.types';
+import { apiRequest } from '../utils/apiClient';
+import { API_ENDPOINTS, PLATFORM_ADMIN_GROUP, type UserRole } from '../utils/constants';
+
+/**
+ * Check whether ID token claims include the platform operators' group
+ */
+export function isPlatformAdminPayload(payload: Record<string, unknown>): boolean {
+  const groups = payload['cognito:groups'];
+  return Array.isArray(groups) && groups.includes(PLATFORM_ADMIN_GROUP);
+}
 
 /**
  * Authenticate user with email and password
@@ -37,6 +46,7 @@ export async function getCurrentAuthUser(): Promise<AuthUser> {
     email: (payload.email as string) || '',
     tenantId: (payload['custom:tenant_id'] as string) || '',
     role: (payload['custom:role'] as UserRole) || 'Finance',
+    isPlatformAdmin: isPlatformAdminPayload(payload),
   };
 }
 
@@ -58,3 +68,10 @@ export async function isAuthenticated(): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Get the signed-in user's profile and permissions from the API
+ */
+export async function getCurrentUserProfile(): Promise<CurrentUserProfile> {
+  return await apiRequest<CurrentUserProfile>(API_ENDPOINTS.CURRENT_USER);
+}
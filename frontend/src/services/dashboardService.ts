@@ -1,11 +1,51 @@
-import type { EmbedUrlResponse } from '../types/dashboard.types';
+import type {
+  DashboardSummary,
+  EmbedUrlResponse,
+  ListDashboardsResponse,
+  QnaEmbedUrlResponse,
+} from '../types/dashboard.types';
 import { apiRequest } from '../utils/apiClient';
 import { API_ENDPOINTS } from '../utils/constants';
 
 /**
- * Get QuickSight embed URL for dashboard
+ * List the dashboards available to the current user's role
  */
-export async function getEmbedUrl(): Promise<string> {
-  const response = await apiRequest<EmbedUrlResponse>(API_ENDPOINTS.DASHBOARD_EMBED);
-  return response.embedUrl;
+export async function listDashboards(): Promise<DashboardSummary[]> {
+  const response = await apiRequest<ListDashboardsResponse>(API_ENDPOINTS.DASHBOARDS);
+  return response.dashboards;
+}
+
+/**
+ * Get QuickSight embed URL for a dashboard
+ * Without a dashboardId the role's default dashboard is embedded
+ */
+export async function getEmbedUrl(dashboardId?: string): Promise<EmbedUrlResponse> {
+  const endpoint = dashboardId
+    ? `${API_ENDPOINTS.DASHBOARDS}/${encodeURIComponent(dashboardId)}/embed-url`
+    : API_ENDPOINTS.DASHBOARD_EMBED;
+  return apiRequest<EmbedUrlResponse>(endpoint);
+}
+
+/**
+ * Get QuickSight embed URL for a single visual of a catalog dashboard
+ * Uses the same RLS session tags as the full dashboard
+ */
+export async function getVisualEmbedUrl(
+  dashboardId: string,
+  sheetId: string,
+  visualId: string
+): Promise<EmbedUrlResponse> {
+  const endpoint = `${API_ENDPOINTS.DASHBOARDS}/${encodeURIComponent(dashboardId)}/visuals/${encodeURIComponent(sheetId)}/${encodeURIComponent(visualId)}/embed-url`;
+  return apiRequest<EmbedUrlResponse>(endpoint);
+}
+
+/**
+ * Get QuickSight Q&A embed URL
+ * Without a topicId the role's first Q&A topic opens
+ */
+export async function getQnaEmbedUrl(topicId?: string): Promise<QnaEmbedUrlResponse> {
+  const endpoint = topicId
+    ? `${API_ENDPOINTS.QNA_EMBED}?topicId=${encodeURIComponent(topicId)}`
+    : API_ENDPOINTS.QNA_EMBED;
+  return apiRequest<QnaEmbedUrlResponse>(endpoint);
 }
@@ -1,5 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import type { AddMetricsData, CreateRoleData, Role } from "../types/role.types";
+import type {
+  AddMetricsData,
+  CatalogMetric,
+  CloneRoleData,
+  CreateRoleData,
+  Role,
+  UpdateRoleData,
+  UpdateRoleResponse,
+} from "../types/role.types";
 import { apiRequest } from "../utils/apiClient";
 
 export const roleService = {
@@ -9,6 +17,18 @@ export const roleService = {
     });
   },
 
+  async listMetricCatalog(): Promise<{
+    metrics: CatalogMetric[];
+    count: number;
+  }> {
+    return apiRequest<{ metrics: CatalogMetric[]; count: number }>(
+      "/metric-catalog",
+      {
+        method: "GET",
+      },
+    );
+  },
+
   async getRole(role: string): Promise<Role> {
     return apiRequest<Role>(`/roles/${encodeURIComponent(role)}`, {
       method: "GET",
@@ -22,6 +42,26 @@ export const roleService = {
     });
   },
 
+  async updateRole(
+    role: string,
+    data: UpdateRoleData,
+  ): Promise<UpdateRoleResponse> {
+    return apiRequest<UpdateRoleResponse>(
+      `/roles/${encodeURIComponent(role)}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+    );
+  },
+
+  async cloneRole(role: string, data: CloneRoleData): Promise<Role> {
+    return apiRequest<Role>(`/roles/${encodeURIComponent(role)}/clone`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  },
+
   async addMetrics(
     role: string,
     data: AddMetricsData,
@@ -0,0 +1,37 @@
+import type {
+  CreateTenantData,
+  ListTenantsResponse,
+  Tenant,
+  UpdateTenantData,
+} from '../types/tenant.types';
+import { apiRequest } from '../utils/apiClient';
+import { API_ENDPOINTS } from '../utils/constants';
+
+/**
+ * List all tenants (platform operators only)
+ */
+export async function listTenants(): Promise<Tenant[]> {
+  const response = await apiRequest<ListTenantsResponse>(API_ENDPOINTS.TENANTS);
+  return response.tenants;
+}
+
+/**
+ * Create a new tenant
+ */
+export async function createTenant(data: CreateTenantData): Promise<Tenant> {
+  return apiRequest<Tenant>(API_ENDPOINTS.TENANTS, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Update tenant details or activation state
+ * Deactivating blocks sign-in and dashboards for all of the tenant's users
+ */
+export async function updateTenant(tenantId: string, data: UpdateTenantData): Promise<Tenant> {
+  return apiRequest<Tenant>(`${API_ENDPOINTS.TENANTS}/${encodeURIComponent(tenantId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(data),
+  });
+}
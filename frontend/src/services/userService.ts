@@ -1,12 +1,34 @@
-import type { User, CreateUserData } from '../types/user.types';
+import type {
+  User,
+  CreateUserData,
+  UpdateUserData,
+  ListUsersResponse,
+  UserListQuery,
+  UserStatusResponse,
+  ListDeletedUsersResponse,
+  RestoreUserData,
+  ImportUsersData,
+  ImportUsersResponse,
+} from '../types/user.types';
 import { apiRequest } from '../utils/apiClient';
 import { API_ENDPOINTS } from '../utils/constants';
 
 /**
- * Get all users for the current tenant
+ * Get one page of the current tenant's users
+ * Empty filters and the default sort are left out of the query string
  */
-export async function listUsers(): Promise<User[]> {
-  return await apiRequest<User[]>(API_ENDPOINTS.USERS);
+export async function listUsers(query: Partial<UserListQuery> = {}): Promise<ListUsersResponse> {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (value !== undefined && String(value).trim()) {
+      params.set(name, String(value).trim());
+    }
+  }
+
+  const queryString = params.toString();
+  return await apiRequest<ListUsersResponse>(
+    queryString ? `${API_ENDPOINTS.USERS}?${queryString}` : API_ENDPOINTS.USERS
+  );
 }
 
 /**
@@ -20,12 +42,68 @@ export async function createUser(userData: CreateUserData): Promise<User> {
 }
 
 /**
- * Update user role
+ * Validate (dry run) or create users from a CSV file
+ * Row problems are reported per row; only file-level problems are errors
+ */
+export async function importUsers(data: ImportUsersData): Promise<ImportUsersResponse> {
+  return await apiRequest<ImportUsersResponse>(API_ENDPOINTS.IMPORT_USERS, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Update a user's role, region, store or tenant admin flag
+ */
+export async function updateUser(userId: string, data: UpdateUserData): Promise<User> {
+  return await apiRequest<User>(`${API_ENDPOINTS.USERS}/${userId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Deactivate a user: they can no longer sign in, call the API or embed
+ * dashboards until reactivated
+ */
+export async function deactivateUser(userId: string): Promise<UserStatusResponse> {
+  return await apiRequest<UserStatusResponse>(`${API_ENDPOINTS.USERS}/${userId}/deactivate`, {
+    method: 'POST',
+  });
+}
+
+/**
+ * Reactivate a deactivated user
  */
-export async function updateUserRole(userId: string, role: string): Promise<void> {
-  await apiRequest<void>(`${API_ENDPOINTS.USERS}/${userId}/role`, {
-    method: 'PUT',
-    body: JSON.stringify({ role }),
+export async function reactivateUser(userId: string): Promise<UserStatusResponse> {
+  return await apiRequest<UserStatusResponse>(`${API_ENDPOINTS.USERS}/${userId}/reactivate`, {
+    method: 'POST',
+  });
+}
+
+/**
+ * Get the current tenant's deleted users that have not been purged
+ */
+export async function listDeletedUsers(): Promise<ListDeletedUsersResponse> {
+  return await apiRequest<ListDeletedUsersResponse>(API_ENDPOINTS.DELETED_USERS);
+}
+
+/**
+ * Restore a deleted user with a new temporary password
+ */
+export async function restoreUser(userId: string, data: RestoreUserData): Promise<User> {
+  return await apiRequest<User>(`${API_ENDPOINTS.USERS}/${userId}/restore`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Permanently anonymize a deleted user after the retention period
+ */
+export async function purgeUser(userId: string): Promise<void> {
+  await apiRequest<void>(`${API_ENDPOINTS.USERS}/${userId}/purge`, {
+    method: 'POST',
   });
 }
 
@@ -0,0 +1,108 @@
+import { createSlice, createAsyncThunk, type PayloadAction } from '@reduxjs/toolkit';
+import type {
+  AnalyticsState,
+  MetricAvailability,
+  MetricKey,
+  MetricQuery,
+  MetricResponse,
+} from '../types/analytics.types';
+import { listMetrics, getMetric } from '../services/analyticsService';
+import { DEFAULT_METRIC_RANGE_DAYS } from '../utils/constants';
+
+/**
+ * Formats a Date as YYYY-MM-DD (UTC)
+ */
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Default query: the last DEFAULT_METRIC_RANGE_DAYS days, bucketed by day
+ */
+function defaultQuery(): MetricQuery {
+  const end = new Date();
+  const start = new Date(end.getTime() - (DEFAULT_METRIC_RANGE_DAYS - 1) * 24 * 60 * 60 * 1000);
+  return {
+    startDate: formatDate(start),
+    endDate: formatDate(end),
+    granularity: 'day',
+  };
+}
+
+const initialState: AnalyticsState = {
+  availability: [],
+  results: {},
+  metricErrors: {},
+  query: defaultQuery(),
+  loading: false,
+  error: null,
+};
+
+/**
+ * Fetch the KPI catalog with per-role visibility
+ */
+export const fetchMetricAvailability = createAsyncThunk(
+  'analytics/fetchMetricAvailability',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await listMetrics();
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load metrics');
+    }
+  }
+);
+
+/**
+ * Fetch one KPI for the given query
+ */
+export const fetchMetric = createAsyncThunk(
+  'analytics/fetchMetric',
+  async ({ metric, query }: { metric: MetricKey; query: MetricQuery }, { rejectWithValue }) => {
+    try {
+      return await getMetric(metric, query);
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load metric');
+    }
+  }
+);
+
+const analyticsSlice = createSlice({
+  name: 'analytics',
+  initialState,
+  reducers: {
+    setMetricQuery: (state, action: PayloadAction<Partial<MetricQuery>>) => {
+      state.query = { ...state.query, ...action.payload };
+    },
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchMetricAvailability.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchMetricAvailability.fulfilled, (state, action: PayloadAction<MetricAvailability[]>) => {
+        state.availability = action.payload;
+        state.loading = false;
+      })
+      .addCase(fetchMetricAvailability.rejected, (state, action) => {
+        state.error = (action.payload as string) || action.error.message || 'Failed to load metrics';
+        state.loading = false;
+      })
+      .addCase(fetchMetric.pending, (state, action) => {
+        delete state.metricErrors[action.meta.arg.metric];
+      })
+      .addCase(fetchMetric.fulfilled, (state, action: PayloadAction<MetricResponse>) => {
+        state.results[action.payload.metric] = action.payload;
+      })
+      .addCase(fetchMetric.rejected, (state, action) => {
+        state.metricErrors[action.meta.arg.metric] =
+          (action.payload as string) || action.error.message || 'Failed to load metric';
+      });
+  },
+});
+
+export const { setMetricQuery, clearError } = analyticsSlice.actions;
+export default analyticsSlice.reducer;
@@ -0,0 +1,100 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import type { AuditFilters, AuditState } from '../types/audit.types';
+import * as auditService from '../services/auditService';
+
+export const EMPTY_AUDIT_FILTERS: AuditFilters = {
+  action: '',
+  targetType: '',
+  targetId: '',
+  actor: '',
+  from: '',
+  to: '',
+};
+
+const initialState: AuditState = {
+  events: [],
+  filters: EMPTY_AUDIT_FILTERS,
+  nextCursor: null,
+  loading: false,
+  error: null,
+};
+
+/**
+ * Fetch the first page of audit events for a set of filters
+ */
+export const fetchAuditEvents = createAsyncThunk(
+  'audit/fetchAuditEvents',
+  async (filters: AuditFilters, { rejectWithValue }) => {
+    try {
+      return await auditService.listAuditEvents(filters);
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to fetch audit events');
+    }
+  }
+);
+
+/**
+ * Fetch the page after the loaded events, with the same filters
+ */
+export const fetchMoreAuditEvents = createAsyncThunk<
+  Awaited<ReturnType<typeof auditService.listAuditEvents>>,
+  void,
+  { state: { audit: AuditState } }
+>(
+  'audit/fetchMoreAuditEvents',
+  async (_, { getState, rejectWithValue }) => {
+    const { filters, nextCursor } = getState().audit;
+    try {
+      return await auditService.listAuditEvents(filters, nextCursor ?? undefined);
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to fetch audit events');
+    }
+  }
+);
+
+const auditSlice = createSlice({
+  name: 'audit',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Fetch first page (replaces the loaded events)
+      .addCase(fetchAuditEvents.pending, (state, action) => {
+        state.filters = action.meta.arg;
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchAuditEvents.fulfilled, (state, action) => {
+        state.events = action.payload.events;
+        state.nextCursor = action.payload.next_cursor;
+        state.loading = false;
+      })
+      .addCase(fetchAuditEvents.rejected, (state, action) => {
+        state.events = [];
+        state.nextCursor = null;
+        state.error = (action.payload as string) || action.error.message || 'Failed to fetch audit events';
+        state.loading = false;
+      })
+      // Fetch next page (appends)
+      .addCase(fetchMoreAuditEvents.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchMoreAuditEvents.fulfilled, (state, action) => {
+        state.events.push(...action.payload.events);
+        state.nextCursor = action.payload.next_cursor;
+        state.loading = false;
+      })
+      .addCase(fetchMoreAuditEvents.rejected, (state, action) => {
+        state.error = (action.payload as string) || action.error.message || 'Failed to fetch audit events';
+        state.loading = false;
+      });
+  },
+});
+
+export const { clearError } = auditSlice.actions;
+export default auditSlice.reducer;
@@ -2,9 +2,13 @@ import { createSlice, createAsyncThunk, type PayloadAction } from '@reduxjs/tool
 import { signIn, signOut, fetchAuthSession, getCurrentUser, confirmSignIn } from 'aws-amplify/auth';
 import type { AuthUser, LoginCredentials, AuthState, ChangePasswordData } from '../types/auth.types';
 import type { UserRole } from '../utils/constants';
+import type { Permission } from '../utils/permissions';
+import { getCurrentUserProfile, isPlatformAdminPayload } from '../services/authService';
 
 const initialState: AuthState = {
   user: null,
+  permissions: [],
+  permissionsLoaded: false,
   loading: false,
   error: null,
   requiresPasswordChange: false,
@@ -32,6 +36,7 @@ export const checkAuth = createAsyncThunk('auth/checkAuth', async () => {
     email: (payload.email as string) || attributes || '',
     tenantId: (payload['custom:tenant_id'] as string) || '',
     role: (payload['custom:role'] as UserRole) || 'Finance',
+    isPlatformAdmin: isPlatformAdminPayload(payload),
   } as AuthUser;
 });
 
@@ -74,6 +79,7 @@ export const login = createAsyncThunk(
       email: (payload.email as string) || credentials.email,
       tenantId: (payload['custom:tenant_id'] as string) || '',
       role: (payload['custom:role'] as UserRole) || 'Finance',
+      isPlatformAdmin: isPlatformAdminPayload(payload),
     } as AuthUser;
   }
 );
@@ -109,10 +115,20 @@ export const changePassword = createAsyncThunk(
       email: (payload.email as string) || '',
       tenantId: (payload['custom:tenant_id'] as string) || '',
       role: (payload['custom:role'] as UserRole) || 'Finance',
+      isPlatformAdmin: isPlatformAdminPayload(payload),
     } as AuthUser;
   }
 );
 
+/**
+ * Load the signed-in user's permissions (GET /users/me)
+ * Users without a tenant account, e.g. platform operators, get none
+ */
+export const fetchPermissions = createAsyncThunk('auth/fetchPermissions', async () => {
+  const profile = await getCurrentUserProfile();
+  return profile.permissions;
+});
+
 /**
  * Logout user
  */
@@ -169,7 +185,9 @@ const authSlice = createSlice({
           state.tempCredentials = payload.credentials;
           state.error = null;
         } else {
-          state.error = action.error.message || 'Login failed';
+          // Cognito prefixes trigger errors (e.g. deactivated tenant) with the trigger name
+          state.error =
+            action.error.message?.replace(/^PreAuthentication failed with error\s*/, '') || 'Login failed';
         }
         state.loading = false;
       })
@@ -189,9 +207,20 @@ const authSlice = createSlice({
         state.error = action.error.message || 'Password change failed';
         state.loading = false;
       })
+      // Permissions
+      .addCase(fetchPermissions.fulfilled, (state, action: PayloadAction<Permission[]>) => {
+        state.permissions = action.payload;
+        state.permissionsLoaded = true;
+      })
+      .addCase(fetchPermissions.rejected, (state) => {
+        state.permissions = [];
+        state.permissionsLoaded = true;
+      })
       // Logout
       .addCase(logout.fulfilled, (state) => {
         state.user = null;
+        state.permissions = [];
+        state.permissionsLoaded = false;
         state.error = null;
         state.requiresPasswordChange = false;
         state.tempCredentials = null;
@@ -1,54 +1,143 @@
 import { createSlice, createAsyncThunk, type PayloadAction } from '@reduxjs/toolkit';
-import type { DashboardState } from '../types/dashboard.types';
-import { getEmbedUrl } from '../services/dashboardService';
+import type { DashboardState, DashboardSummary } from '../types/dashboard.types';
+import type { ApiErrorCode } from '../types/api.types';
+import { getEmbedUrl, listDashboards } from '../services/dashboardService';
+import { isApiError } from '../utils/apiClient';
+import { DASHBOARD_MODES, DASHBOARD_MODE_STORAGE_KEY, type DashboardMode } from '../utils/constants';
+
+/**
+ * Restore the last selected dashboard mode, defaulting to native
+ */
+function loadDashboardMode(): DashboardMode {
+  const stored = localStorage.getItem(DASHBOARD_MODE_STORAGE_KEY);
+  return stored === DASHBOARD_MODES.EMBEDDED ? DASHBOARD_MODES.EMBEDDED : DASHBOARD_MODES.NATIVE;
+}
 
 const initialState: DashboardState = {
   embedUrl: null,
+  embedExpiresAt: null,
+  mode: loadDashboardMode(),
+  dashboards: [],
+  selectedDashboardId: null,
+  dashboardsLoaded: false,
   loading: false,
   error: null,
+  errorCode: null,
 };
 
 /**
- * Fetch QuickSight embed URL
+ * Fetch the dashboard catalog for the current user's role
+ */
+export const fetchDashboards = createAsyncThunk(
+  'dashboard/fetchDashboards',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await listDashboards();
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load dashboards');
+    }
+  }
+);
+
+/**
+ * Fetch QuickSight embed URL for a dashboard (or the role's default)
  */
 export const fetchEmbedUrl = createAsyncThunk(
   'dashboard/fetchEmbedUrl',
-  async (_, { rejectWithValue }) => {
+  async (dashboardId: string | undefined, { rejectWithValue }) => {
     try {
-      return await getEmbedUrl();
+      const response = await getEmbedUrl(dashboardId);
+      // expiresIn is in seconds; store an absolute timestamp so refreshes can be scheduled
+      return { embedUrl: response.embedUrl, expiresAt: Date.now() + response.expiresIn * 1000 };
     } catch (error) {
-      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load dashboard');
+      return rejectWithValue({
+        message: error instanceof Error ? error.message : 'Failed to load dashboard',
+        code: isApiError(error) ? error.code : null,
+      });
     }
   }
 );
 
+/**
+ * Whether an embed URL request was for the dashboard that is selected now
+ * (undefined requests the role's default, used when no dashboard is selected)
+ */
+function isForSelectedDashboard(state: DashboardState, dashboardId: string | undefined): boolean {
+  return (dashboardId ?? null) === state.selectedDashboardId;
+}
+
 const dashboardSlice = createSlice({
   name: 'dashboard',
   initialState,
   reducers: {
     clearError: (state) => {
       state.error = null;
+      state.errorCode = null;
     },
     clearEmbedUrl: (state) => {
       state.embedUrl = null;
+      state.embedExpiresAt = null;
+    },
+    setDashboardMode: (state, action: PayloadAction<DashboardMode>) => {
+      state.mode = action.payload;
+    },
+    selectDashboard: (state, action: PayloadAction<string>) => {
+      if (state.selectedDashboardId !== action.payload) {
+        state.selectedDashboardId = action.payload;
+        state.embedUrl = null;
+        state.embedExpiresAt = null;
+      }
     },
   },
   extraReducers: (builder) => {
     builder
+      .addCase(fetchDashboards.fulfilled, (state, action: PayloadAction<DashboardSummary[]>) => {
+        state.dashboards = action.payload;
+        state.dashboardsLoaded = true;
+        // Land on the role's default dashboard unless a valid one is already selected
+        const stillAvailable = action.payload.some(
+          (dashboard) => dashboard.dashboard_id === state.selectedDashboardId
+        );
+        if (!stillAvailable) {
+          const fallback = action.payload.find((dashboard) => dashboard.is_default) || action.payload[0];
+          state.selectedDashboardId = fallback ? fallback.dashboard_id : null;
+        }
+      })
+      .addCase(fetchDashboards.rejected, (state) => {
+        // The embed falls back to the role's default dashboard without a catalog
+        state.dashboards = [];
+        state.dashboardsLoaded = true;
+      })
       .addCase(fetchEmbedUrl.pending, (state) => {
         state.loading = true;
         state.error = null;
+        state.errorCode = null;
       })
-      .addCase(fetchEmbedUrl.fulfilled, (state, action: PayloadAction<string>) => {
-        state.embedUrl = action.payload;
+      .addCase(fetchEmbedUrl.fulfilled, (state, action) => {
+        // The user switched dashboards while this request was in flight
+        if (!isForSelectedDashboard(state, action.meta.arg)) {
+          return;
+        }
+        state.embedUrl = action.payload.embedUrl;
+        state.embedExpiresAt = action.payload.expiresAt;
         state.loading = false;
       })
       .addCase(fetchEmbedUrl.rejected, (state, action) => {
-        state.error = (action.payload as string) || action.error.message || 'Failed to load dashboard';
+        if (!isForSelectedDashboard(state, action.meta.arg)) {
+          return;
+        }
         state.loading = false;
+        // A failed background refresh keeps the dashboard on screen; its session
+        // stays valid until it expires, and returning to the tab retries
+        if (state.embedUrl) {
+          return;
+        }
+        const payload = action.payload as { message: string; code: ApiErrorCode | null } | undefined;
+        state.error = payload?.message || action.error.message || 'Failed to load dashboard';
+        state.errorCode = payload?.code ?? null;
       });
   },
 });
 
-export const { clearError, clearEmbedUrl } = dashboardSlice.actions;
+export const { clearError, clearEmbedUrl, setDashboardMode, selectDashboard } = dashboardSlice.actions;
 export default dashboardSlice.reducer;
@@ -3,6 +3,9 @@ import authReducer from './authSlice';
 import userReducer from './userSlice';
 import roleReducer from './roleSlice';
 import dashboardReducer from './dashboardSlice';
+import analyticsReducer from './analyticsSlice';
+import tenantReducer from './tenantSlice';
+import auditReducer from './auditSlice';
 
 export const store = configureStore({
   reducer: {
@@ -10,6 +13,9 @@ export const store = configureStore({
     users: userReducer,
     roles: roleReducer,
     dashboard: dashboardReducer,
+    analytics: analyticsReducer,
+    tenants: tenantReducer,
+    audit: auditReducer,
   },
 });
 
@@ -1,15 +1,32 @@
-import { createSlice, createAsyncThunk, type PayloadAction } from "@reduxjs/toolkit";
+import {
+  createSelector,
+  createSlice,
+  createAsyncThunk,
+  type PayloadAction,
+} from "@reduxjs/toolkit";
 import { roleService } from "../services/roleService";
-import type { CreateRoleData, Role } from "../types/role.types";
+import type {
+  CatalogMetric,
+  CloneRoleData,
+  CreateRoleData,
+  Role,
+  RoleMetric,
+  UpdateRoleData,
+} from "../types/role.types";
+import { serializeApiError, type SerializedApiError } from "../utils/apiClient";
+import { USER_ROLES } from "../utils/constants";
 
 interface RoleState {
   roles: Role[];
+  /** Metrics a role can be granted, in display order */
+  metricCatalog: CatalogMetric[];
   loading: boolean;
   error: string | null;
 }
 
 const initialState: RoleState = {
   roles: [],
+  metricCatalog: [],
   loading: false,
   error: null,
 };
@@ -19,11 +36,49 @@ export const fetchRoles = createAsyncThunk("roles/fetchRoles", async () => {
   return response.roles;
 });
 
-export const createRole = createAsyncThunk(
+export const fetchMetricCatalog = createAsyncThunk(
+  "roles/fetchMetricCatalog",
+  async () => {
+    const response = await roleService.listMetricCatalog();
+    return response.metrics;
+  },
+);
+
+export const createRole = createAsyncThunk<
+  Role,
+  CreateRoleData,
+  { serializedErrorType: SerializedApiError }
+>(
   "roles/createRole",
-  async (data: CreateRoleData) => {
+  async (data) => {
     return await roleService.createRole(data);
   },
+  { serializeError: serializeApiError },
+);
+
+export const updateRole = createAsyncThunk<
+  { previousRole: string; role: Role },
+  { role: string; data: UpdateRoleData },
+  { serializedErrorType: SerializedApiError }
+>(
+  "roles/updateRole",
+  async ({ role, data }) => {
+    const updated = await roleService.updateRole(role, data);
+    return { previousRole: role, role: updated };
+  },
+  { serializeError: serializeApiError },
+);
+
+export const cloneRole = createAsyncThunk<
+  Role,
+  { role: string; data: CloneRoleData },
+  { serializedErrorType: SerializedApiError }
+>(
+  "roles/cloneRole",
+  async ({ role, data }) => {
+    return await roleService.cloneRole(role, data);
+  },
+  { serializeError: serializeApiError },
 );
 
 export const addMetrics = createAsyncThunk(
@@ -73,6 +128,17 @@ const roleSlice = createSlice({
         state.error = action.error.message || "Failed to fetch roles";
         state.loading = false;
       })
+      // Fetch metric catalog
+      .addCase(
+        fetchMetricCatalog.fulfilled,
+        (state, action: PayloadAction<CatalogMetric[]>) => {
+          state.metricCatalog = action.payload;
+        },
+      )
+      .addCase(fetchMetricCatalog.rejected, (state, action) => {
+        state.error =
+          action.error.message || "Failed to fetch metric catalog";
+      })
       // Create role
       .addCase(createRole.pending, (state) => {
         state.loading = true;
@@ -86,11 +152,31 @@ const roleSlice = createSlice({
         state.error = action.error.message || "Failed to create role";
         state.loading = false;
       })
+      // Update (rename) role
+      .addCase(updateRole.fulfilled, (state, action) => {
+        const index = state.roles.findIndex(
+          (r) => r.role === action.payload.previousRole,
+        );
+        if (index !== -1) {
+          state.roles[index] = action.payload.role;
+        }
+      })
+      // Clone role
+      .addCase(cloneRole.fulfilled, (state, action: PayloadAction<Role>) => {
+        state.roles.push(action.payload);
+      })
       // Add metrics
       .addCase(addMetrics.fulfilled, (state, action) => {
         const role = state.roles.find((r) => r.role === action.payload.role);
         if (role) {
-          role.metrics.push(...action.payload.added);
+          // Hidden metrics come back with is_visible set; replace their rows
+          const added = new Set(
+            action.payload.added.map((m: RoleMetric) => m.metric_name),
+          );
+          role.metrics = [
+            ...role.metrics.filter((m) => !added.has(m.metric_name)),
+            ...action.payload.added,
+          ];
         }
       })
       // Remove metric
@@ -109,5 +195,18 @@ const roleSlice = createSlice({
   },
 });
 
+/**
+ * Roles a user can be assigned: the tenant's roles, always including the
+ * built-in Admin role even before the role list has loaded
+ * The API rejects anything else
+ */
+export const selectAssignableRoles = createSelector(
+  [(state: { roles: RoleState }) => state.roles.roles],
+  (roles): string[] => [
+    USER_ROLES.ADMIN,
+    ...roles.map((r) => r.role).filter((role) => role !== USER_ROLES.ADMIN),
+  ],
+);
+
 export const { clearError } = roleSlice.actions;
 export default roleSlice.reducer;
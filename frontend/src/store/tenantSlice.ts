@@ -0,0 +1,114 @@
+import { createSlice, createAsyncThunk, type PayloadAction } from '@reduxjs/toolkit';
+import type {
+  CreateTenantData,
+  Tenant,
+  TenantState,
+  UpdateTenantData,
+} from '../types/tenant.types';
+import * as tenantService from '../services/tenantService';
+
+const initialState: TenantState = {
+  tenants: [],
+  loading: false,
+  error: null,
+};
+
+/**
+ * Fetch all tenants
+ */
+export const fetchTenants = createAsyncThunk(
+  'tenants/fetchTenants',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await tenantService.listTenants();
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to fetch tenants');
+    }
+  }
+);
+
+/**
+ * Create a new tenant
+ */
+export const createTenant = createAsyncThunk(
+  'tenants/createTenant',
+  async (data: CreateTenantData, { rejectWithValue }) => {
+    try {
+      return await tenantService.createTenant(data);
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to create tenant');
+    }
+  }
+);
+
+/**
+ * Update tenant details or activation state
+ */
+export const updateTenant = createAsyncThunk(
+  'tenants/updateTenant',
+  async ({ tenantId, data }: { tenantId: string; data: UpdateTenantData }, { rejectWithValue }) => {
+    try {
+      return await tenantService.updateTenant(tenantId, data);
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to update tenant');
+    }
+  }
+);
+
+const tenantSlice = createSlice({
+  name: 'tenants',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Fetch tenants
+      .addCase(fetchTenants.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchTenants.fulfilled, (state, action: PayloadAction<Tenant[]>) => {
+        state.tenants = action.payload;
+        state.loading = false;
+      })
+      .addCase(fetchTenants.rejected, (state, action) => {
+        state.error = (action.payload as string) || action.error.message || 'Failed to fetch tenants';
+        state.loading = false;
+      })
+      // Create tenant
+      .addCase(createTenant.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(createTenant.fulfilled, (state, action: PayloadAction<Tenant>) => {
+        state.tenants.push(action.payload);
+        state.loading = false;
+      })
+      .addCase(createTenant.rejected, (state, action) => {
+        state.error = (action.payload as string) || action.error.message || 'Failed to create tenant';
+        state.loading = false;
+      })
+      // Update tenant (keeps the list's user_count, which PATCH does not return)
+      .addCase(updateTenant.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(updateTenant.fulfilled, (state, action: PayloadAction<Tenant>) => {
+        const index = state.tenants.findIndex((t) => t.tenant_id === action.payload.tenant_id);
+        if (index !== -1) {
+          state.tenants[index] = { ...state.tenants[index], ...action.payload };
+        }
+        state.loading = false;
+      })
+      .addCase(updateTenant.rejected, (state, action) => {
+        state.error = (action.payload as string) || action.error.message || 'Failed to update tenant';
+        state.loading = false;
+      });
+  },
+});
+
+export const { clearError } = tenantSlice.actions;
+export default tenantSlice.reducer;
@@ -1,50 +1,96 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import {
   createSlice,
   createAsyncThunk,
   type PayloadAction,
 } from "@reduxjs/toolkit";
-import type { User, CreateUserData, UserState } from "../types/user.types";
-import { apiRequest } from "../utils/apiClient";
+import type {
+  User,
+  CreateUserData,
+  UpdateUserData,
+  UserListQuery,
+  UserState,
+  UserStatusResponse,
+  ListDeletedUsersResponse,
+  RestoreUserData,
+} from "../types/user.types";
+import * as userService from "../services/userService";
+import {
+  apiRequest,
+  serializeApiError,
+  type SerializedApiError,
+} from "../utils/apiClient";
 import { API_ENDPOINTS } from "../utils/constants";
 
 const initialState: UserState = {
   users: [],
+  total: 0,
+  nextCursor: null,
+  deletedUsers: [],
+  purgeRetentionDays: null,
   loading: false,
   error: null,
 };
 
 /**
- * Fetch all users for the current tenant
+ * Fetch one page of users for the current tenant
  */
-export const fetchUsers = createAsyncThunk("users/fetchUsers", async () => {
-  return await apiRequest(API_ENDPOINTS.USERS);
-});
+export const fetchUsers = createAsyncThunk(
+  "users/fetchUsers",
+  async (query: Partial<UserListQuery> | undefined) => {
+    return await userService.listUsers(query);
+  },
+);
 
 /**
  * Create a new user
  */
-export const createUser = createAsyncThunk(
+export const createUser = createAsyncThunk<
+  User,
+  CreateUserData,
+  { serializedErrorType: SerializedApiError }
+>(
   "users/createUser",
-  async (userData: CreateUserData) => {
+  async (userData) => {
     return await apiRequest<User>(API_ENDPOINTS.USERS, {
       method: "POST",
       body: JSON.stringify(userData),
     });
   },
+  { serializeError: serializeApiError },
 );
 
 /**
- * Update user role
+ * Update a user's role, region, store or tenant admin flag
  */
-export const updateUserRole = createAsyncThunk(
-  "users/updateUserRole",
-  async ({ userId, role }: { userId: string; role: string }) => {
-    await apiRequest<void>(`${API_ENDPOINTS.USERS}/${userId}/role`, {
-      method: "PUT",
-      body: JSON.stringify({ role }),
-    });
-    return { userId, role };
+export const updateUser = createAsyncThunk<
+  User,
+  { userId: string; data: UpdateUserData },
+  { serializedErrorType: SerializedApiError }
+>(
+  "users/updateUser",
+  async ({ userId, data }) => {
+    return await userService.updateUser(userId, data);
+  },
+  { serializeError: serializeApiError },
+);
+
+/**
+ * Deactivate a user (reversible, unlike delete)
+ */
+export const deactivateUser = createAsyncThunk(
+  "users/deactivateUser",
+  async (userId: string) => {
+    return await userService.deactivateUser(userId);
+  },
+);
+
+/**
+ * Reactivate a deactivated user
+ */
+export const reactivateUser = createAsyncThunk(
+  "users/reactivateUser",
+  async (userId: string) => {
+    return await userService.reactivateUser(userId);
   },
 );
 
@@ -61,6 +107,42 @@ export const deleteUser = createAsyncThunk(
   },
 );
 
+/**
+ * Fetch deleted users that can still be restored or purged
+ */
+export const fetchDeletedUsers = createAsyncThunk(
+  "users/fetchDeletedUsers",
+  async () => {
+    return await userService.listDeletedUsers();
+  },
+);
+
+/**
+ * Restore a deleted user with a new Cognito account
+ */
+export const restoreUser = createAsyncThunk<
+  User,
+  { userId: string; data: RestoreUserData },
+  { serializedErrorType: SerializedApiError }
+>(
+  "users/restoreUser",
+  async ({ userId, data }) => {
+    return await userService.restoreUser(userId, data);
+  },
+  { serializeError: serializeApiError },
+);
+
+/**
+ * Permanently anonymize a deleted user
+ */
+export const purgeUser = createAsyncThunk(
+  "users/purgeUser",
+  async (userId: string) => {
+    await userService.purgeUser(userId);
+    return userId;
+  },
+);
+
 const userSlice = createSlice({
   name: "users",
   initialState,
@@ -76,8 +158,10 @@ const userSlice = createSlice({
         state.loading = true;
         state.error = null;
       })
-      .addCase(fetchUsers.fulfilled, (state, action: any) => {
+      .addCase(fetchUsers.fulfilled, (state, action) => {
         state.users = action.payload.users;
+        state.total = action.payload.total;
+        state.nextCursor = action.payload.next_cursor;
         state.loading = false;
       })
       .addCase(fetchUsers.rejected, (state, action) => {
@@ -91,28 +175,118 @@ const userSlice = createSlice({
       })
       .addCase(createUser.fulfilled, (state, action: PayloadAction<User>) => {
         state.users.unshift(action.payload);
+        state.total += 1;
         state.loading = false;
       })
       .addCase(createUser.rejected, (state, action) => {
         state.error = action.error.message || "Failed to create user";
         state.loading = false;
       })
-      // Update user role
-      .addCase(updateUserRole.pending, (state) => {
+      // Update user
+      .addCase(updateUser.pending, (state) => {
         state.loading = true;
         state.error = null;
       })
-      .addCase(updateUserRole.fulfilled, (state, action) => {
-        const user = state.users.find(
-          (u) => u.user_id === action.payload.userId,
+      .addCase(updateUser.fulfilled, (state, action: PayloadAction<User>) => {
+        const index = state.users.findIndex(
+          (u) => u.user_id === action.payload.user_id,
         );
-        if (user) {
-          user.role = action.payload.role as typeof user.role;
+        if (index !== -1) {
+          state.users[index] = action.payload;
         }
         state.loading = false;
       })
-      .addCase(updateUserRole.rejected, (state, action) => {
-        state.error = action.error.message || "Failed to update user role";
+      .addCase(updateUser.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to update user";
+        state.loading = false;
+      })
+      // Deactivate user
+      .addCase(deactivateUser.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(
+        deactivateUser.fulfilled,
+        (state, action: PayloadAction<UserStatusResponse>) => {
+          const user = state.users.find(
+            (u) => u.user_id === action.payload.userId,
+          );
+          if (user) {
+            user.status = action.payload.status;
+          }
+          state.loading = false;
+        },
+      )
+      .addCase(deactivateUser.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to deactivate user";
+        state.loading = false;
+      })
+      // Reactivate user
+      .addCase(reactivateUser.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(
+        reactivateUser.fulfilled,
+        (state, action: PayloadAction<UserStatusResponse>) => {
+          const user = state.users.find(
+            (u) => u.user_id === action.payload.userId,
+          );
+          if (user) {
+            user.status = action.payload.status;
+          }
+          state.loading = false;
+        },
+      )
+      .addCase(reactivateUser.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to reactivate user";
+        state.loading = false;
+      })
+      // Fetch deleted users
+      .addCase(fetchDeletedUsers.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(
+        fetchDeletedUsers.fulfilled,
+        (state, action: PayloadAction<ListDeletedUsersResponse>) => {
+          state.deletedUsers = action.payload.users;
+          state.purgeRetentionDays = action.payload.retention_days;
+          state.loading = false;
+        },
+      )
+      .addCase(fetchDeletedUsers.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to fetch deleted users";
+        state.loading = false;
+      })
+      // Restore user
+      .addCase(restoreUser.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(restoreUser.fulfilled, (state, action: PayloadAction<User>) => {
+        state.deletedUsers = state.deletedUsers.filter(
+          (u) => u.user_id !== action.payload.user_id,
+        );
+        state.loading = false;
+      })
+      .addCase(restoreUser.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to restore user";
+        state.loading = false;
+      })
+      // Purge user
+      .addCase(purgeUser.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(purgeUser.fulfilled, (state, action: PayloadAction<string>) => {
+        state.deletedUsers = state.deletedUsers.filter(
+          (u) => u.user_id !== action.payload,
+        );
+        state.loading = false;
+      })
+      .addCase(purgeUser.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to purge user";
         state.loading = false;
       })
       // Delete user
@@ -122,6 +296,7 @@ const userSlice = createSlice({
       })
       .addCase(deleteUser.fulfilled, (state, action: PayloadAction<string>) => {
         state.users = state.users.filter((u) => u.user_id !== action.payload);
+        state.total = Math.max(state.total - 1, 0);
         state.loading = false;
       })
       .addCase(deleteUser.rejected, (state, action) => {
@@ -0,0 +1,49 @@
+export type MetricKey = 'revenue' | 'margin' | 'fulfillment-sla' | 'campaign-roi';
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export type MetricValues = Record<string, number | null>;
+
+export interface SeriesPoint {
+  period: string;
+  values: MetricValues;
+}
+
+export interface BreakdownRow {
+  key: string;
+  values: MetricValues;
+}
+
+export interface MetricQuery {
+  startDate: string;
+  endDate: string;
+  granularity: Granularity;
+  groupBy?: string;
+}
+
+export interface MetricResponse {
+  metric: MetricKey;
+  filters: MetricQuery & { groupBy: string };
+  summary: MetricValues;
+  series: SeriesPoint[];
+  breakdown: BreakdownRow[];
+}
+
+export interface MetricAvailability {
+  metric: MetricKey;
+  visible: boolean;
+}
+
+export interface ListMetricsResponse {
+  metrics: MetricAvailability[];
+  count: number;
+}
+
+export interface AnalyticsState {
+  availability: MetricAvailability[];
+  results: Partial<Record<MetricKey, MetricResponse>>;
+  metricErrors: Partial<Record<MetricKey, string>>;
+  query: MetricQuery;
+  loading: boolean;
+  error: string | null;
+}
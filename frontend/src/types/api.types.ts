@@ -0,0 +1,29 @@
+import type { FieldIssue } from '@shared/validation/schema';
+
+/**
+ * Error codes returned by the API in the `code` field of error responses
+ * Mirrors backend/src/shared/http/codes.ts
+ */
+export type ApiErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'TENANT_INACTIVE'
+  | 'PLAN_LIMIT_REACHED'
+  | 'PLAN_FEATURE_UNAVAILABLE'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'THROTTLED'
+  | 'UPSTREAM_ERROR'
+  | 'SERVICE_UNAVAILABLE'
+  | 'INTERNAL_ERROR';
+
+export interface ApiErrorBody {
+  error: string;
+  message?: string;
+  code?: ApiErrorCode;
+  field?: string;
+  retryable?: boolean;
+  /** Every invalid field, for VALIDATION_FAILED */
+  errors?: FieldIssue[];
+}
@@ -0,0 +1,46 @@
+import type { AuditAction, AuditTargetType } from '../utils/audit';
+
+/**
+ * One administrative action from GET /audit
+ * `before` is null for creations and `after` for deletions
+ */
+export interface AuditEvent {
+  event_id: string;
+  actor_user_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  target_type: AuditTargetType;
+  target_id: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  request_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Audit log filters; empty strings are left out of the query
+ * from/to are dates (YYYY-MM-DD), to is inclusive
+ */
+export interface AuditFilters {
+  action: AuditAction | '';
+  targetType: AuditTargetType | '';
+  targetId: string;
+  actor: string;
+  from: string;
+  to: string;
+}
+
+export interface ListAuditEventsResponse {
+  events: AuditEvent[];
+  /** Cursor for the next page, null on the last page */
+  next_cursor: string | null;
+}
+
+export interface AuditState {
+  events: AuditEvent[];
+  /** Filters the loaded events were fetched with */
+  filters: AuditFilters;
+  nextCursor: string | null;
+  loading: boolean;
+  error: string | null;
+}
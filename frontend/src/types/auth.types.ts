@@ -1,10 +1,24 @@
 import type { UserRole } from '../utils/constants';
+import type { Permission } from '../utils/permissions';
 
 export interface AuthUser {
   id: string;
   email: string;
   tenantId: string;
   role: UserRole;
+  /** Member of the platform operators' Cognito group (tenant management) */
+  isPlatformAdmin: boolean;
+}
+
+/**
+ * GET /users/me: the signed-in user's database profile and permissions
+ */
+export interface CurrentUserProfile {
+  user_id: string;
+  email: string;
+  role: string;
+  is_tenant_admin: boolean;
+  permissions: Permission[];
 }
 
 export interface LoginCredentials {
@@ -18,6 +32,9 @@ export interface ChangePasswordData {
 
 export interface AuthState {
   user: AuthUser | null;
+  /** From GET /users/me; drives menus and buttons */
+  permissions: Permission[];
+  permissionsLoaded: boolean;
   loading: boolean;
   error: string | null;
   requiresPasswordChange: boolean;
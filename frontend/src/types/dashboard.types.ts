@@ -1,9 +1,46 @@
+import type { DashboardMode } from '../utils/constants';
+import type { ApiErrorCode } from './api.types';
+
 export interface EmbedUrlResponse {
   embedUrl: string;
+  expiresIn: number;
+  dashboardId: string | null;
+}
+
+export interface DashboardSummary {
+  dashboard_id: string;
+  title: string;
+  description: string | null;
+  is_default: boolean;
+}
+
+export interface ListDashboardsResponse {
+  dashboards: DashboardSummary[];
+  count: number;
+}
+
+export interface QnaTopic {
+  topic_id: string;
+  title: string;
+}
+
+export interface QnaEmbedUrlResponse {
+  embedUrl: string;
+  expiresIn: number;
+  topicId: string;
+  topics: QnaTopic[];
 }
 
 export interface DashboardState {
   embedUrl: string | null;
+  /** Expiry of embedUrl in milliseconds, derived from the backend's expiresIn */
+  embedExpiresAt: number | null;
+  mode: DashboardMode;
+  dashboards: DashboardSummary[];
+  selectedDashboardId: string | null;
+  dashboardsLoaded: boolean;
   loading: boolean;
   error: string | null;
+  /** API error code for `error`, when the failure came from the API */
+  errorCode: ApiErrorCode | null;
 }
@@ -1,3 +1,5 @@
+import type { Permission } from '../utils/permissions';
+
 export interface RoleMetric {
   id: number;
   metric_name: string;
@@ -8,14 +10,55 @@ export interface RoleMetric {
 
 export interface Role {
   role: string;
+  description: string | null;
+  /** Named permissions granted to users with this role */
+  permissions: Permission[];
+  /** Built-in role (Admin) that cannot be renamed, deleted or have its permissions changed */
+  is_system: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
   metrics: RoleMetric[];
+  /** Users whose Cognito role still holds a previous name of this role */
+  cognito_sync_pending: number;
+}
+
+/**
+ * Entry in the metric catalog (GET /metric-catalog)
+ */
+export interface CatalogMetric {
+  metric_key: string;
+  display_name: string;
+  category: string;
+  source_table: string;
+  sort_order: number;
 }
 
 export interface CreateRoleData {
   role: string;
+  description?: string;
+  permissions: Permission[];
   metrics: string[];
 }
 
+/**
+ * PATCH /roles/{role}: rename and/or change the description and permissions
+ */
+export interface UpdateRoleData {
+  role?: string;
+  description?: string | null;
+  permissions?: Permission[];
+}
+
+export interface UpdateRoleResponse extends Role {
+  users_updated: number;
+}
+
+export interface CloneRoleData {
+  role: string;
+  description?: string | null;
+}
+
 export interface AddMetricsData {
   metrics: string[];
 }
@@ -0,0 +1,42 @@
+import type { PlanTier } from '../utils/constants';
+
+export interface Tenant {
+  tenant_id: string;
+  tenant_name: string;
+  industry: string | null;
+  plan_tier: PlanTier | null;
+  country: string | null;
+  created_date: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  user_count?: number;
+}
+
+export interface CreateTenantData {
+  tenant_name: string;
+  industry?: string;
+  plan_tier: PlanTier;
+  country?: string;
+  /** Creates the tenant's first tenant admin, who is emailed a temporary password */
+  admin_email?: string;
+}
+
+export interface UpdateTenantData {
+  tenant_name?: string;
+  industry?: string | null;
+  plan_tier?: PlanTier;
+  country?: string | null;
+  is_active?: boolean;
+}
+
+export interface ListTenantsResponse {
+  tenants: Tenant[];
+  count: number;
+}
+
+export interface TenantState {
+  tenants: Tenant[];
+  loading: boolean;
+  error: string | null;
+}
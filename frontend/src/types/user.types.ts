@@ -1,9 +1,13 @@
 import type { UserRole, UserStatus } from '../utils/constants';
+import type { FieldIssue, USER_SORT_FIELDS } from '../utils/validation';
 
 export interface User {
   user_id: string;
   email: string;
   role: UserRole;
+  region?: string | null;
+  store_id?: string | null;
+  is_tenant_admin?: boolean;
   status: UserStatus;
   created_at: string;
 }
@@ -18,8 +22,129 @@ export interface UpdateUserRoleData {
   role: UserRole;
 }
 
+/**
+ * PATCH /users/{userId}: only the fields present are changed
+ * null (or a blank string) clears region or store_id
+ */
+export interface UpdateUserData {
+  role?: UserRole;
+  region?: string | null;
+  store_id?: string | null;
+  is_tenant_admin?: boolean;
+}
+
+/**
+ * POST /users/{userId}/deactivate and /reactivate response
+ */
+export interface UserStatusResponse {
+  success: boolean;
+  userId: string;
+  status: UserStatus;
+}
+
+/**
+ * A deleted user that can still be restored (GET /users/deleted)
+ * can_purge turns true once purge_after has passed
+ */
+export interface DeletedUser {
+  user_id: string;
+  email: string;
+  role: UserRole;
+  region?: string | null;
+  store_id?: string | null;
+  deleted_at: string;
+  purge_after: string;
+  can_purge: boolean;
+}
+
+export interface ListDeletedUsersResponse {
+  users: DeletedUser[];
+  count: number;
+  /** Days after deletion before a user can be purged */
+  retention_days: number;
+}
+
+/**
+ * POST /users/{userId}/restore: a new temporary password, and a role if the
+ * user's old one no longer exists
+ */
+export interface RestoreUserData {
+  password: string;
+  role?: UserRole;
+}
+
+/**
+ * POST /users/import: CSV text with a header row (see USER_IMPORT_COLUMNS)
+ * A dry run only validates the rows
+ */
+export interface ImportUsersData {
+  csv: string;
+  dry_run: boolean;
+}
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'created' | 'failed';
+
+export interface ImportUserRowResult {
+  /** CSV line the row starts on */
+  line: number;
+  email: string;
+  role: string;
+  status: ImportRowStatus;
+  user_id?: string;
+  errors: FieldIssue[];
+}
+
+export interface ImportUsersResponse {
+  dry_run: boolean;
+  total: number;
+  /** Rows that passed validation, whether or not they were created */
+  valid: number;
+  invalid: number;
+  created: number;
+  failed: number;
+  rows: ImportUserRowResult[];
+}
+
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * GET /users query, mirrored in the Users page URL
+ * Empty filters are left out of the request
+ */
+export interface UserListQuery {
+  role: string;
+  status: string;
+  region: string;
+  store_id: string;
+  /** Substring of the email, case-insensitive */
+  email: string;
+  sortBy: UserSortField;
+  sortOrder: SortOrder;
+  limit: number;
+  /** next_cursor of the previous page; empty for the first page */
+  cursor: string;
+}
+
+export type UserListFilters = Pick<UserListQuery, 'role' | 'status' | 'region' | 'store_id' | 'email'>;
+
+export interface ListUsersResponse {
+  users: User[];
+  /** Users on this page */
+  count: number;
+  /** Users matching the filters, across all pages */
+  total: number;
+  next_cursor: string | null;
+}
+
 export interface UserState {
   users: User[];
+  total: number;
+  nextCursor: string | null;
+  /** Deleted users view; loaded separately from the user list */
+  deletedUsers: DeletedUser[];
+  purgeRetentionDays: number | null;
   loading: boolean;
   error: string | null;
 }
@@ -1,5 +1,83 @@
 import { fetchAuthSession } from 'aws-amplify/auth';
+import { miniSerializeError, type SerializedError } from '@reduxjs/toolkit';
 import { API_BASE_URL } from './constants';
+import type { FieldIssue } from './validation';
+import type { ApiErrorBody, ApiErrorCode } from '../types/api.types';
+
+/**
+ * Code for responses without one, e.g. API Gateway authorizer rejections
+ */
+function codeForStatus(status: number): ApiErrorCode {
+  switch (status) {
+    case 400:
+      return 'VALIDATION_FAILED';
+    case 401:
+      return 'UNAUTHORIZED';
+    case 403:
+      return 'FORBIDDEN';
+    case 404:
+      return 'NOT_FOUND';
+    case 409:
+      return 'CONFLICT';
+    case 429:
+      return 'THROTTLED';
+    case 502:
+      return 'UPSTREAM_ERROR';
+    case 503:
+      return 'SERVICE_UNAVAILABLE';
+    default:
+      return 'INTERNAL_ERROR';
+  }
+}
+
+/**
+ * Error thrown by apiRequest for non-2xx responses
+ * Branch on `code` rather than on the message text
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly field?: string;
+  readonly retryable: boolean;
+  /** Every invalid field; a single `field` error is listed here too */
+  readonly errors: FieldIssue[];
+
+  constructor(status: number, message: string, body: Partial<ApiErrorBody> = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = body.code ?? codeForStatus(status);
+    this.field = body.field;
+    this.retryable = body.retryable ?? status >= 500;
+    this.errors = body.errors ?? (body.field ? [{ field: body.field, message }] : []);
+  }
+}
+
+/**
+ * Whether an error came from the API, optionally with a specific code
+ */
+export function isApiError(error: unknown, code?: ApiErrorCode): error is ApiError {
+  return error instanceof ApiError && (code === undefined || error.code === code);
+}
+
+/**
+ * Rejection of a thunk created with `serializeError: serializeApiError`
+ * Keeps the API's field errors, which the default serializer drops
+ */
+export interface SerializedApiError extends SerializedError {
+  errors?: FieldIssue[];
+}
+
+/**
+ * serializeError option for createAsyncThunk
+ */
+export function serializeApiError(error: unknown): SerializedApiError {
+  const serialized: SerializedApiError = miniSerializeError(error);
+  if (isApiError(error)) {
+    serialized.errors = error.errors;
+  }
+  return serialized;
+}
 
 /**
  * Get authentication headers with JWT token
@@ -39,16 +117,17 @@ export async function apiRequest<T>(
   
   if (!response.ok) {
     let errorMessage = 'API request failed';
+    let errorBody: Partial<ApiErrorBody> = {};
     
     try {
-      const error = await response.json();
-      errorMessage = error.message || error.error || errorMessage;
+      errorBody = await response.json();
+      errorMessage = errorBody.message || errorBody.error || errorMessage;
     } catch {
       // If response is not JSON, use status text
       errorMessage = response.statusText || errorMessage;
     }
     
-    throw new Error(errorMessage);
+    throw new ApiError(response.status, errorMessage, errorBody);
   }
   
   // Handle empty responses
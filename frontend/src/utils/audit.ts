@@ -0,0 +1,6 @@
+/**
+ * Audit log actions and target types shared with the backend
+ * The audit Lambda accepts the same values as filters
+ */
+export { AUDIT_ACTIONS, AUDIT_ACTION_LABELS, AUDIT_TARGET_TYPES } from '@shared/validation/audit';
+export type { AuditAction, AuditTargetType } from '@shared/validation/audit';
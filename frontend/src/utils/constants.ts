@@ -4,11 +4,11 @@ export const COGNITO_USER_POOL_ID = import.meta.env.VITE_COGNITO_USER_POOL_ID ||
 export const COGNITO_CLIENT_ID = import.meta.env.VITE_COGNITO_CLIENT_ID || '';
 export const AWS_REGION = import.meta.env.VITE_AWS_REGION || 'us-east-1';
 
-// User roles
+// Default roles (names must match role_metric_visibility.role)
 export const USER_ROLES = {
   ADMIN: 'Admin',
   FINANCE: 'Finance',
-  OPERATIONS: 'Ops',
+  OPERATIONS: 'Operations',
   MARKETING: 'Marketing',
 } as const;
 
@@ -16,9 +16,9 @@ export type UserRole = typeof USER_ROLES[keyof typeof USER_ROLES] | string;
 
 // User status
 export const USER_STATUS = {
-  ACTIVE: 'active',
-  INACTIVE: 'inactive',
-  DELETED: 'deleted',
+  ACTIVE: 'Active',
+  INACTIVE: 'Inactive',
+  DELETED: 'Deleted',
 } as const;
 
 export type UserStatus = typeof USER_STATUS[keyof typeof USER_STATUS];
@@ -26,18 +26,45 @@ export type UserStatus = typeof USER_STATUS[keyof typeof USER_STATUS];
 // API endpoints
 export const API_ENDPOINTS = {
   USERS: '/users',
+  CURRENT_USER: '/users/me',
+  DELETED_USERS: '/users/deleted',
+  IMPORT_USERS: '/users/import',
   ROLES: '/roles',
+  DASHBOARDS: '/dashboards',
   DASHBOARD_EMBED: '/dashboards/embed-url',
+  QNA_EMBED: '/qna/embed-url',
   GOVERNANCE_RULES: '/governance/rules',
+  METRICS: '/metrics',
+  TENANTS: '/tenants',
+  AUDIT: '/audit',
 } as const;
 
-// Dashboard refresh interval (10 minutes in milliseconds)
-export const DASHBOARD_REFRESH_INTERVAL = 10 * 60 * 1000;
+// Cognito group for platform operators (super-admin console)
+export const PLATFORM_ADMIN_GROUP = 'platform-admins';
 
-// Embed URL expiration (15 minutes in milliseconds)
-export const EMBED_URL_EXPIRATION = 15 * 60 * 1000;
+// Tenant plan tiers
+export const PLAN_TIERS = ['Standard', 'Premium', 'Enterprise'] as const;
 
-// Available metrics for role assignment
+export type PlanTier = typeof PLAN_TIERS[number];
+
+// Refresh embed URLs this long before the backend-reported expiry (2 minutes in milliseconds)
+export const EMBED_REFRESH_LEAD_TIME = 2 * 60 * 1000;
+
+// Dashboard display modes
+export const DASHBOARD_MODES = {
+  NATIVE: 'native',
+  EMBEDDED: 'embedded',
+} as const;
+
+export type DashboardMode = typeof DASHBOARD_MODES[keyof typeof DASHBOARD_MODES];
+
+// localStorage key for the selected dashboard mode
+export const DASHBOARD_MODE_STORAGE_KEY = 'shoppulse.dashboardMode';
+
+// Default native dashboard date range (days, inclusive)
+export const DEFAULT_METRIC_RANGE_DAYS = 30;
+
+// Metrics shown on the native dashboard (role metrics come from the API's metric catalog)
 export const AVAILABLE_METRICS = [
   'Net_Revenue',
   'Margin',
@@ -0,0 +1,6 @@
+/**
+ * Named permissions shared with the backend
+ * The Lambdas check the same list, so menus and buttons match what the API allows
+ */
+export { PERMISSIONS, PERMISSION_LABELS, isPermission } from '@shared/validation/permissions';
+export type { Permission } from '@shared/validation/permissions';
@@ -0,0 +1,24 @@
+/**
+ * Request schemas shared with the backend
+ * The Lambdas enforce the same schemas, so form checks cannot drift from the API
+ */
+export { validate, validateField, issuesByField } from '@shared/validation/schema';
+export type { FieldIssue, Schema } from '@shared/validation/schema';
+export {
+  createUserSchema,
+  updateUserRoleSchema,
+  updateUserSchema,
+  restoreUserSchema,
+  createRoleSchema,
+  updateRoleSchema,
+  cloneRoleSchema,
+  addMetricsSchema,
+  auditQuerySchema,
+  listUsersQuerySchema,
+  USER_SORT_FIELDS,
+  USER_LIST_STATUSES,
+  DEFAULT_USER_PAGE_SIZE,
+  MAX_USER_PAGE_SIZE,
+  USER_IMPORT_COLUMNS,
+  MAX_USER_IMPORT_ROWS,
+} from '@shared/validation/schemas';
@@ -1,9 +1,23 @@
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Request schemas shared with the backend (see src/utils/validation.ts)
+const sharedValidation = fileURLToPath(new URL('../backend/src/shared/validation', import.meta.url))
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    alias: {
+      '@shared/validation': sharedValidation,
+    },
+  },
+  server: {
+    fs: {
+      allow: ['.', sharedValidation],
+    },
+  },
   test: {
     globals: true,
     environment: 'jsdom',
@@ -42,7 +42,7 @@ resource "aws_api_gateway_authorizer" "cognito" {
 #     aws_api_gateway_integration.user_id_options,
 #     aws_api_gateway_integration.user_role_options,
 #     aws_api_gateway_integration.dashboards_embed_url_options,
-#     aws_api_gateway_integration.dashboards_list_options,
+#     aws_api_gateway_integration.dashboards_options,
 #     aws_api_gateway_integration.governance_rules_options,
 #   ]
 # }
@@ -172,6 +172,13 @@ resource "aws_api_gateway_resource" "users" {
   path_part   = "users"
 }
 
+# /users/me resource (the caller's profile and permissions)
+resource "aws_api_gateway_resource" "user_me" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.users.id
+  path_part   = "me"
+}
+
 # /users/{userId} resource
 resource "aws_api_gateway_resource" "user_id" {
   rest_api_id = aws_api_gateway_rest_api.main.id
@@ -186,6 +193,48 @@ resource "aws_api_gateway_resource" "user_role" {
   path_part   = "role"
 }
 
+# /users/{userId}/deactivate resource
+resource "aws_api_gateway_resource" "user_deactivate" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.user_id.id
+  path_part   = "deactivate"
+}
+
+# /users/{userId}/reactivate resource
+resource "aws_api_gateway_resource" "user_reactivate" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.user_id.id
+  path_part   = "reactivate"
+}
+
+# /users/deleted resource
+resource "aws_api_gateway_resource" "users_deleted" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.users.id
+  path_part   = "deleted"
+}
+
+# /users/{userId}/restore resource
+resource "aws_api_gateway_resource" "user_restore" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.user_id.id
+  path_part   = "restore"
+}
+
+# /users/{userId}/purge resource
+resource "aws_api_gateway_resource" "user_purge" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.user_id.id
+  path_part   = "purge"
+}
+
+# /users/import resource
+resource "aws_api_gateway_resource" "users_import" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.users.id
+  path_part   = "import"
+}
+
 # /dashboards resource
 resource "aws_api_gateway_resource" "dashboards" {
   rest_api_id = aws_api_gateway_rest_api.main.id
@@ -200,11 +249,60 @@ resource "aws_api_gateway_resource" "dashboards_embed_url" {
   path_part   = "embed-url"
 }
 
-# /dashboards/list resource
-resource "aws_api_gateway_resource" "dashboards_list" {
+# /dashboards/{dashboardId} resource
+resource "aws_api_gateway_resource" "dashboard_id" {
   rest_api_id = aws_api_gateway_rest_api.main.id
   parent_id   = aws_api_gateway_resource.dashboards.id
-  path_part   = "list"
+  path_part   = "{dashboardId}"
+}
+
+# /dashboards/{dashboardId}/embed-url resource
+resource "aws_api_gateway_resource" "dashboard_id_embed_url" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.dashboard_id.id
+  path_part   = "embed-url"
+}
+
+# /dashboards/{dashboardId}/visuals resource
+resource "aws_api_gateway_resource" "dashboard_visuals" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.dashboard_id.id
+  path_part   = "visuals"
+}
+
+# /dashboards/{dashboardId}/visuals/{sheetId} resource
+resource "aws_api_gateway_resource" "dashboard_visual_sheet_id" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.dashboard_visuals.id
+  path_part   = "{sheetId}"
+}
+
+# /dashboards/{dashboardId}/visuals/{sheetId}/{visualId} resource
+resource "aws_api_gateway_resource" "dashboard_visual_id" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.dashboard_visual_sheet_id.id
+  path_part   = "{visualId}"
+}
+
+# /dashboards/{dashboardId}/visuals/{sheetId}/{visualId}/embed-url resource
+resource "aws_api_gateway_resource" "dashboard_visual_embed_url" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.dashboard_visual_id.id
+  path_part   = "embed-url"
+}
+
+# /qna resource
+resource "aws_api_gateway_resource" "qna" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_rest_api.main.root_resource_id
+  path_part   = "qna"
+}
+
+# /qna/embed-url resource
+resource "aws_api_gateway_resource" "qna_embed_url" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.qna.id
+  path_part   = "embed-url"
 }
 
 # /governance resource
@@ -221,6 +319,13 @@ resource "aws_api_gateway_resource" "governance_rules" {
   path_part   = "rules"
 }
 
+# /governance/rules/{ruleId} resource
+resource "aws_api_gateway_resource" "governance_rule_id" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.governance_rules.id
+  path_part   = "{ruleId}"
+}
+
 # /roles resource
 resource "aws_api_gateway_resource" "roles" {
   rest_api_id = aws_api_gateway_rest_api.main.id
@@ -235,6 +340,13 @@ resource "aws_api_gateway_resource" "role_id" {
   path_part   = "{role}"
 }
 
+# /roles/{role}/clone resource
+resource "aws_api_gateway_resource" "role_clone" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.role_id.id
+  path_part   = "clone"
+}
+
 # /roles/{role}/metrics resource
 resource "aws_api_gateway_resource" "role_metrics" {
   rest_api_id = aws_api_gateway_rest_api.main.id
@@ -249,6 +361,13 @@ resource "aws_api_gateway_resource" "role_metric_name" {
   path_part   = "{metricName}"
 }
 
+# /metric-catalog resource (served by the role management Lambda)
+resource "aws_api_gateway_resource" "metric_catalog" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_rest_api.main.root_resource_id
+  path_part   = "metric-catalog"
+}
+
 # ============================================================================
 # API Methods with CORS
 # ============================================================================
@@ -262,7 +381,16 @@ resource "aws_api_gateway_method" "users_get" {
   authorizer_id = aws_api_gateway_authorizer.cognito.id
 
   request_parameters = {
-    "method.request.header.Authorization" = true
+    "method.request.header.Authorization"  = true
+    "method.request.querystring.role"      = false
+    "method.request.querystring.status"    = false
+    "method.request.querystring.region"    = false
+    "method.request.querystring.store_id"  = false
+    "method.request.querystring.email"     = false
+    "method.request.querystring.sortBy"    = false
+    "method.request.querystring.sortOrder" = false
+    "method.request.querystring.limit"     = false
+    "method.request.querystring.cursor"    = false
   }
 }
 
@@ -281,6 +409,19 @@ resource "aws_api_gateway_method" "users_post" {
   }
 }
 
+# GET /users/me
+resource "aws_api_gateway_method" "user_me_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_me.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+  }
+}
+
 # GET /users/{userId}
 resource "aws_api_gateway_method" "user_id_get" {
   rest_api_id   = aws_api_gateway_rest_api.main.id
@@ -311,6 +452,22 @@ resource "aws_api_gateway_method" "user_id_put" {
   }
 }
 
+# PATCH /users/{userId}
+resource "aws_api_gateway_method" "user_id_patch" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_id.id
+  http_method   = "PATCH"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_validator_id = aws_api_gateway_request_validator.main.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+    "method.request.path.userId"          = true
+  }
+}
+
 # DELETE /users/{userId}
 resource "aws_api_gateway_method" "user_id_delete" {
   rest_api_id   = aws_api_gateway_rest_api.main.id
@@ -341,6 +498,88 @@ resource "aws_api_gateway_method" "user_role_put" {
   }
 }
 
+# POST /users/{userId}/deactivate
+resource "aws_api_gateway_method" "user_deactivate_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_deactivate.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+    "method.request.path.userId"          = true
+  }
+}
+
+# POST /users/{userId}/reactivate
+resource "aws_api_gateway_method" "user_reactivate_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_reactivate.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+    "method.request.path.userId"          = true
+  }
+}
+
+# GET /users/deleted
+resource "aws_api_gateway_method" "users_deleted_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.users_deleted.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+  }
+}
+
+# POST /users/{userId}/restore
+resource "aws_api_gateway_method" "user_restore_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_restore.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+    "method.request.path.userId"          = true
+  }
+}
+
+# POST /users/{userId}/purge
+resource "aws_api_gateway_method" "user_purge_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_purge.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+    "method.request.path.userId"          = true
+  }
+}
+
+# POST /users/import
+resource "aws_api_gateway_method" "users_import_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.users_import.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+  }
+}
+
 # GET /dashboards/embed-url
 resource "aws_api_gateway_method" "dashboards_embed_url_get" {
   rest_api_id   = aws_api_gateway_rest_api.main.id
@@ -354,16 +593,60 @@ resource "aws_api_gateway_method" "dashboards_embed_url_get" {
   }
 }
 
-# GET /dashboards/list
-resource "aws_api_gateway_method" "dashboards_list_get" {
+# GET /dashboards
+resource "aws_api_gateway_method" "dashboards_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.dashboards.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+  }
+}
+
+# GET /dashboards/{dashboardId}/embed-url
+resource "aws_api_gateway_method" "dashboard_id_embed_url_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.dashboard_id_embed_url.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+    "method.request.path.dashboardId"     = true
+  }
+}
+
+# GET /dashboards/{dashboardId}/visuals/{sheetId}/{visualId}/embed-url
+resource "aws_api_gateway_method" "dashboard_visual_embed_url_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.dashboard_visual_embed_url.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+    "method.request.path.dashboardId"     = true
+    "method.request.path.sheetId"         = true
+    "method.request.path.visualId"        = true
+  }
+}
+
+# GET /qna/embed-url
+resource "aws_api_gateway_method" "qna_embed_url_get" {
   rest_api_id   = aws_api_gateway_rest_api.main.id
-  resource_id   = aws_api_gateway_resource.dashboards_list.id
+  resource_id   = aws_api_gateway_resource.qna_embed_url.id
   http_method   = "GET"
   authorization = "COGNITO_USER_POOLS"
   authorizer_id = aws_api_gateway_authorizer.cognito.id
 
   request_parameters = {
     "method.request.header.Authorization" = true
+    "method.request.querystring.topicId"  = false
   }
 }
 
@@ -380,10 +663,25 @@ resource "aws_api_gateway_method" "governance_rules_get" {
   }
 }
 
-# PUT /governance/rules
-resource "aws_api_gateway_method" "governance_rules_put" {
+# POST /governance/rules
+resource "aws_api_gateway_method" "governance_rules_post" {
   rest_api_id   = aws_api_gateway_rest_api.main.id
   resource_id   = aws_api_gateway_resource.governance_rules.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_validator_id = aws_api_gateway_request_validator.main.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+  }
+}
+
+# PUT /governance/rules/{ruleId}
+resource "aws_api_gateway_method" "governance_rule_id_put" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.governance_rule_id.id
   http_method   = "PUT"
   authorization = "COGNITO_USER_POOLS"
   authorizer_id = aws_api_gateway_authorizer.cognito.id
@@ -392,6 +690,21 @@ resource "aws_api_gateway_method" "governance_rules_put" {
 
   request_parameters = {
     "method.request.header.Authorization" = true
+    "method.request.path.ruleId"          = true
+  }
+}
+
+# DELETE /governance/rules/{ruleId}
+resource "aws_api_gateway_method" "governance_rule_id_delete" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.governance_rule_id.id
+  http_method   = "DELETE"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+    "method.request.path.ruleId"          = true
   }
 }
 
@@ -423,81 +736,636 @@ resource "aws_api_gateway_method" "roles_post" {
   }
 }
 
-# GET /roles/{role}
-resource "aws_api_gateway_method" "role_id_get" {
+# GET /roles/{role}
+resource "aws_api_gateway_method" "role_id_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.role_id.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+    "method.request.path.role"            = true
+  }
+}
+
+# PATCH /roles/{role}
+resource "aws_api_gateway_method" "role_id_patch" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.role_id.id
+  http_method   = "PATCH"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_validator_id = aws_api_gateway_request_validator.main.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+    "method.request.path.role"            = true
+  }
+}
+
+# DELETE /roles/{role}
+resource "aws_api_gateway_method" "role_id_delete" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.role_id.id
+  http_method   = "DELETE"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+    "method.request.path.role"            = true
+  }
+}
+
+# POST /roles/{role}/clone
+resource "aws_api_gateway_method" "role_clone_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.role_clone.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_validator_id = aws_api_gateway_request_validator.main.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+    "method.request.path.role"            = true
+  }
+}
+
+# POST /roles/{role}/metrics
+resource "aws_api_gateway_method" "role_metrics_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.role_metrics.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_validator_id = aws_api_gateway_request_validator.main.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+    "method.request.path.role"            = true
+  }
+}
+
+# DELETE /roles/{role}/metrics/{metricName}
+resource "aws_api_gateway_method" "role_metric_name_delete" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.role_metric_name.id
+  http_method   = "DELETE"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+    "method.request.path.role"            = true
+    "method.request.path.metricName"      = true
+  }
+}
+
+# GET /metric-catalog
+resource "aws_api_gateway_method" "metric_catalog_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.metric_catalog.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+  }
+}
+
+# ============================================================================
+# CORS OPTIONS Methods
+# ============================================================================
+
+# OPTIONS /users
+resource "aws_api_gateway_method" "users_options" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.users.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "users_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.users.id
+  http_method = aws_api_gateway_method.users_options.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
+  }
+}
+
+resource "aws_api_gateway_method_response" "users_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.users.id
+  http_method = aws_api_gateway_method.users_options.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+
+  response_models = {
+    "application/json" = "Empty"
+  }
+}
+
+resource "aws_api_gateway_integration_response" "users_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.users.id
+  http_method = aws_api_gateway_method.users_options.http_method
+  status_code = aws_api_gateway_method_response.users_options.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'GET,POST,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.users_options]
+}
+
+# OPTIONS /users/me
+resource "aws_api_gateway_method" "user_me_options" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_me.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "user_me_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_me.id
+  http_method = aws_api_gateway_method.user_me_options.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
+  }
+}
+
+resource "aws_api_gateway_method_response" "user_me_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_me.id
+  http_method = aws_api_gateway_method.user_me_options.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+
+  response_models = {
+    "application/json" = "Empty"
+  }
+}
+
+resource "aws_api_gateway_integration_response" "user_me_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_me.id
+  http_method = aws_api_gateway_method.user_me_options.http_method
+  status_code = aws_api_gateway_method_response.user_me_options.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'GET,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.user_me_options]
+}
+
+# OPTIONS /users/{userId}
+resource "aws_api_gateway_method" "user_id_options" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_id.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "user_id_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_id.id
+  http_method = aws_api_gateway_method.user_id_options.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
+  }
+}
+
+resource "aws_api_gateway_method_response" "user_id_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_id.id
+  http_method = aws_api_gateway_method.user_id_options.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+
+  response_models = {
+    "application/json" = "Empty"
+  }
+}
+
+resource "aws_api_gateway_integration_response" "user_id_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_id.id
+  http_method = aws_api_gateway_method.user_id_options.http_method
+  status_code = aws_api_gateway_method_response.user_id_options.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'GET,PUT,PATCH,DELETE,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.user_id_options]
+}
+
+# OPTIONS /users/{userId}/role
+resource "aws_api_gateway_method" "user_role_options" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_role.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "user_role_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_role.id
+  http_method = aws_api_gateway_method.user_role_options.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
+  }
+}
+
+resource "aws_api_gateway_method_response" "user_role_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_role.id
+  http_method = aws_api_gateway_method.user_role_options.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+
+  response_models = {
+    "application/json" = "Empty"
+  }
+}
+
+resource "aws_api_gateway_integration_response" "user_role_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_role.id
+  http_method = aws_api_gateway_method.user_role_options.http_method
+  status_code = aws_api_gateway_method_response.user_role_options.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'PUT,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.user_role_options]
+}
+
+# OPTIONS /users/{userId}/deactivate
+resource "aws_api_gateway_method" "user_deactivate_options" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_deactivate.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "user_deactivate_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_deactivate.id
+  http_method = aws_api_gateway_method.user_deactivate_options.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
+  }
+}
+
+resource "aws_api_gateway_method_response" "user_deactivate_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_deactivate.id
+  http_method = aws_api_gateway_method.user_deactivate_options.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+
+  response_models = {
+    "application/json" = "Empty"
+  }
+}
+
+resource "aws_api_gateway_integration_response" "user_deactivate_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_deactivate.id
+  http_method = aws_api_gateway_method.user_deactivate_options.http_method
+  status_code = aws_api_gateway_method_response.user_deactivate_options.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'POST,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.user_deactivate_options]
+}
+
+# OPTIONS /users/{userId}/reactivate
+resource "aws_api_gateway_method" "user_reactivate_options" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_reactivate.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "user_reactivate_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_reactivate.id
+  http_method = aws_api_gateway_method.user_reactivate_options.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
+  }
+}
+
+resource "aws_api_gateway_method_response" "user_reactivate_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_reactivate.id
+  http_method = aws_api_gateway_method.user_reactivate_options.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+
+  response_models = {
+    "application/json" = "Empty"
+  }
+}
+
+resource "aws_api_gateway_integration_response" "user_reactivate_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_reactivate.id
+  http_method = aws_api_gateway_method.user_reactivate_options.http_method
+  status_code = aws_api_gateway_method_response.user_reactivate_options.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'POST,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.user_reactivate_options]
+}
+
+# OPTIONS /users/deleted
+resource "aws_api_gateway_method" "users_deleted_options" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.users_deleted.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "users_deleted_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.users_deleted.id
+  http_method = aws_api_gateway_method.users_deleted_options.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
+  }
+}
+
+resource "aws_api_gateway_method_response" "users_deleted_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.users_deleted.id
+  http_method = aws_api_gateway_method.users_deleted_options.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+
+  response_models = {
+    "application/json" = "Empty"
+  }
+}
+
+resource "aws_api_gateway_integration_response" "users_deleted_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.users_deleted.id
+  http_method = aws_api_gateway_method.users_deleted_options.http_method
+  status_code = aws_api_gateway_method_response.users_deleted_options.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'GET,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.users_deleted_options]
+}
+
+# OPTIONS /users/{userId}/restore
+resource "aws_api_gateway_method" "user_restore_options" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_restore.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "user_restore_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_restore.id
+  http_method = aws_api_gateway_method.user_restore_options.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
+  }
+}
+
+resource "aws_api_gateway_method_response" "user_restore_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_restore.id
+  http_method = aws_api_gateway_method.user_restore_options.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+
+  response_models = {
+    "application/json" = "Empty"
+  }
+}
+
+resource "aws_api_gateway_integration_response" "user_restore_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_restore.id
+  http_method = aws_api_gateway_method.user_restore_options.http_method
+  status_code = aws_api_gateway_method_response.user_restore_options.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'POST,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.user_restore_options]
+}
+
+# OPTIONS /users/{userId}/purge
+resource "aws_api_gateway_method" "user_purge_options" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_purge.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "user_purge_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_purge.id
+  http_method = aws_api_gateway_method.user_purge_options.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
+  }
+}
+
+resource "aws_api_gateway_method_response" "user_purge_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_purge.id
+  http_method = aws_api_gateway_method.user_purge_options.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+
+  response_models = {
+    "application/json" = "Empty"
+  }
+}
+
+resource "aws_api_gateway_integration_response" "user_purge_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_purge.id
+  http_method = aws_api_gateway_method.user_purge_options.http_method
+  status_code = aws_api_gateway_method_response.user_purge_options.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'POST,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.user_purge_options]
+}
+
+# OPTIONS /users/import
+resource "aws_api_gateway_method" "users_import_options" {
   rest_api_id   = aws_api_gateway_rest_api.main.id
-  resource_id   = aws_api_gateway_resource.role_id.id
-  http_method   = "GET"
-  authorization = "COGNITO_USER_POOLS"
-  authorizer_id = aws_api_gateway_authorizer.cognito.id
-
-  request_parameters = {
-    "method.request.header.Authorization" = true
-    "method.request.path.role"            = true
-  }
+  resource_id   = aws_api_gateway_resource.users_import.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
 }
 
-# DELETE /roles/{role}
-resource "aws_api_gateway_method" "role_id_delete" {
-  rest_api_id   = aws_api_gateway_rest_api.main.id
-  resource_id   = aws_api_gateway_resource.role_id.id
-  http_method   = "DELETE"
-  authorization = "COGNITO_USER_POOLS"
-  authorizer_id = aws_api_gateway_authorizer.cognito.id
+resource "aws_api_gateway_integration" "users_import_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.users_import.id
+  http_method = aws_api_gateway_method.users_import_options.http_method
+  type        = "MOCK"
 
-  request_parameters = {
-    "method.request.header.Authorization" = true
-    "method.request.path.role"            = true
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
   }
 }
 
-# POST /roles/{role}/metrics
-resource "aws_api_gateway_method" "role_metrics_post" {
-  rest_api_id   = aws_api_gateway_rest_api.main.id
-  resource_id   = aws_api_gateway_resource.role_metrics.id
-  http_method   = "POST"
-  authorization = "COGNITO_USER_POOLS"
-  authorizer_id = aws_api_gateway_authorizer.cognito.id
+resource "aws_api_gateway_method_response" "users_import_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.users_import.id
+  http_method = aws_api_gateway_method.users_import_options.http_method
+  status_code = "200"
 
-  request_validator_id = aws_api_gateway_request_validator.main.id
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
 
-  request_parameters = {
-    "method.request.header.Authorization" = true
-    "method.request.path.role"            = true
+  response_models = {
+    "application/json" = "Empty"
   }
 }
 
-# DELETE /roles/{role}/metrics/{metricName}
-resource "aws_api_gateway_method" "role_metric_name_delete" {
-  rest_api_id   = aws_api_gateway_rest_api.main.id
-  resource_id   = aws_api_gateway_resource.role_metric_name.id
-  http_method   = "DELETE"
-  authorization = "COGNITO_USER_POOLS"
-  authorizer_id = aws_api_gateway_authorizer.cognito.id
+resource "aws_api_gateway_integration_response" "users_import_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.users_import.id
+  http_method = aws_api_gateway_method.users_import_options.http_method
+  status_code = aws_api_gateway_method_response.users_import_options.status_code
 
-  request_parameters = {
-    "method.request.header.Authorization" = true
-    "method.request.path.role"            = true
-    "method.request.path.metricName"      = true
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'POST,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
   }
-}
 
-# ============================================================================
-# CORS OPTIONS Methods
-# ============================================================================
+  depends_on = [aws_api_gateway_integration.users_import_options]
+}
 
-# OPTIONS /users
-resource "aws_api_gateway_method" "users_options" {
+# OPTIONS /dashboards/embed-url
+resource "aws_api_gateway_method" "dashboards_embed_url_options" {
   rest_api_id   = aws_api_gateway_rest_api.main.id
-  resource_id   = aws_api_gateway_resource.users.id
+  resource_id   = aws_api_gateway_resource.dashboards_embed_url.id
   http_method   = "OPTIONS"
   authorization = "NONE"
 }
 
-resource "aws_api_gateway_integration" "users_options" {
+resource "aws_api_gateway_integration" "dashboards_embed_url_options" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.users.id
-  http_method = aws_api_gateway_method.users_options.http_method
+  resource_id = aws_api_gateway_resource.dashboards_embed_url.id
+  http_method = aws_api_gateway_method.dashboards_embed_url_options.http_method
   type        = "MOCK"
 
   request_templates = {
@@ -505,10 +1373,10 @@ resource "aws_api_gateway_integration" "users_options" {
   }
 }
 
-resource "aws_api_gateway_method_response" "users_options" {
+resource "aws_api_gateway_method_response" "dashboards_embed_url_options" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.users.id
-  http_method = aws_api_gateway_method.users_options.http_method
+  resource_id = aws_api_gateway_resource.dashboards_embed_url.id
+  http_method = aws_api_gateway_method.dashboards_embed_url_options.http_method
   status_code = "200"
 
   response_parameters = {
@@ -522,33 +1390,33 @@ resource "aws_api_gateway_method_response" "users_options" {
   }
 }
 
-resource "aws_api_gateway_integration_response" "users_options" {
+resource "aws_api_gateway_integration_response" "dashboards_embed_url_options" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.users.id
-  http_method = aws_api_gateway_method.users_options.http_method
-  status_code = aws_api_gateway_method_response.users_options.status_code
+  resource_id = aws_api_gateway_resource.dashboards_embed_url.id
+  http_method = aws_api_gateway_method.dashboards_embed_url_options.http_method
+  status_code = aws_api_gateway_method_response.dashboards_embed_url_options.status_code
 
   response_parameters = {
     "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
-    "method.response.header.Access-Control-Allow-Methods" = "'GET,POST,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Methods" = "'GET,OPTIONS'"
     "method.response.header.Access-Control-Allow-Origin"  = "'*'"
   }
 
-  depends_on = [aws_api_gateway_integration.users_options]
+  depends_on = [aws_api_gateway_integration.dashboards_embed_url_options]
 }
 
-# OPTIONS /users/{userId}
-resource "aws_api_gateway_method" "user_id_options" {
+# OPTIONS /dashboards
+resource "aws_api_gateway_method" "dashboards_options" {
   rest_api_id   = aws_api_gateway_rest_api.main.id
-  resource_id   = aws_api_gateway_resource.user_id.id
+  resource_id   = aws_api_gateway_resource.dashboards.id
   http_method   = "OPTIONS"
   authorization = "NONE"
 }
 
-resource "aws_api_gateway_integration" "user_id_options" {
+resource "aws_api_gateway_integration" "dashboards_options" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.user_id.id
-  http_method = aws_api_gateway_method.user_id_options.http_method
+  resource_id = aws_api_gateway_resource.dashboards.id
+  http_method = aws_api_gateway_method.dashboards_options.http_method
   type        = "MOCK"
 
   request_templates = {
@@ -556,10 +1424,10 @@ resource "aws_api_gateway_integration" "user_id_options" {
   }
 }
 
-resource "aws_api_gateway_method_response" "user_id_options" {
+resource "aws_api_gateway_method_response" "dashboards_options" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.user_id.id
-  http_method = aws_api_gateway_method.user_id_options.http_method
+  resource_id = aws_api_gateway_resource.dashboards.id
+  http_method = aws_api_gateway_method.dashboards_options.http_method
   status_code = "200"
 
   response_parameters = {
@@ -573,33 +1441,33 @@ resource "aws_api_gateway_method_response" "user_id_options" {
   }
 }
 
-resource "aws_api_gateway_integration_response" "user_id_options" {
+resource "aws_api_gateway_integration_response" "dashboards_options" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.user_id.id
-  http_method = aws_api_gateway_method.user_id_options.http_method
-  status_code = aws_api_gateway_method_response.user_id_options.status_code
+  resource_id = aws_api_gateway_resource.dashboards.id
+  http_method = aws_api_gateway_method.dashboards_options.http_method
+  status_code = aws_api_gateway_method_response.dashboards_options.status_code
 
   response_parameters = {
     "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
-    "method.response.header.Access-Control-Allow-Methods" = "'GET,PUT,DELETE,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Methods" = "'GET,OPTIONS'"
     "method.response.header.Access-Control-Allow-Origin"  = "'*'"
   }
 
-  depends_on = [aws_api_gateway_integration.user_id_options]
+  depends_on = [aws_api_gateway_integration.dashboards_options]
 }
 
-# OPTIONS /users/{userId}/role
-resource "aws_api_gateway_method" "user_role_options" {
+# OPTIONS /dashboards/{dashboardId}/embed-url
+resource "aws_api_gateway_method" "dashboard_id_embed_url_options" {
   rest_api_id   = aws_api_gateway_rest_api.main.id
-  resource_id   = aws_api_gateway_resource.user_role.id
+  resource_id   = aws_api_gateway_resource.dashboard_id_embed_url.id
   http_method   = "OPTIONS"
   authorization = "NONE"
 }
 
-resource "aws_api_gateway_integration" "user_role_options" {
+resource "aws_api_gateway_integration" "dashboard_id_embed_url_options" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.user_role.id
-  http_method = aws_api_gateway_method.user_role_options.http_method
+  resource_id = aws_api_gateway_resource.dashboard_id_embed_url.id
+  http_method = aws_api_gateway_method.dashboard_id_embed_url_options.http_method
   type        = "MOCK"
 
   request_templates = {
@@ -607,10 +1475,10 @@ resource "aws_api_gateway_integration" "user_role_options" {
   }
 }
 
-resource "aws_api_gateway_method_response" "user_role_options" {
+resource "aws_api_gateway_method_response" "dashboard_id_embed_url_options" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.user_role.id
-  http_method = aws_api_gateway_method.user_role_options.http_method
+  resource_id = aws_api_gateway_resource.dashboard_id_embed_url.id
+  http_method = aws_api_gateway_method.dashboard_id_embed_url_options.http_method
   status_code = "200"
 
   response_parameters = {
@@ -624,33 +1492,33 @@ resource "aws_api_gateway_method_response" "user_role_options" {
   }
 }
 
-resource "aws_api_gateway_integration_response" "user_role_options" {
+resource "aws_api_gateway_integration_response" "dashboard_id_embed_url_options" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.user_role.id
-  http_method = aws_api_gateway_method.user_role_options.http_method
-  status_code = aws_api_gateway_method_response.user_role_options.status_code
+  resource_id = aws_api_gateway_resource.dashboard_id_embed_url.id
+  http_method = aws_api_gateway_method.dashboard_id_embed_url_options.http_method
+  status_code = aws_api_gateway_method_response.dashboard_id_embed_url_options.status_code
 
   response_parameters = {
     "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
-    "method.response.header.Access-Control-Allow-Methods" = "'PUT,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Methods" = "'GET,OPTIONS'"
     "method.response.header.Access-Control-Allow-Origin"  = "'*'"
   }
 
-  depends_on = [aws_api_gateway_integration.user_role_options]
+  depends_on = [aws_api_gateway_integration.dashboard_id_embed_url_options]
 }
 
-# OPTIONS /dashboards/embed-url
-resource "aws_api_gateway_method" "dashboards_embed_url_options" {
+# OPTIONS /dashboards/{dashboardId}/visuals/{sheetId}/{visualId}/embed-url
+resource "aws_api_gateway_method" "dashboard_visual_embed_url_options" {
   rest_api_id   = aws_api_gateway_rest_api.main.id
-  resource_id   = aws_api_gateway_resource.dashboards_embed_url.id
+  resource_id   = aws_api_gateway_resource.dashboard_visual_embed_url.id
   http_method   = "OPTIONS"
   authorization = "NONE"
 }
 
-resource "aws_api_gateway_integration" "dashboards_embed_url_options" {
+resource "aws_api_gateway_integration" "dashboard_visual_embed_url_options" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.dashboards_embed_url.id
-  http_method = aws_api_gateway_method.dashboards_embed_url_options.http_method
+  resource_id = aws_api_gateway_resource.dashboard_visual_embed_url.id
+  http_method = aws_api_gateway_method.dashboard_visual_embed_url_options.http_method
   type        = "MOCK"
 
   request_templates = {
@@ -658,10 +1526,10 @@ resource "aws_api_gateway_integration" "dashboards_embed_url_options" {
   }
 }
 
-resource "aws_api_gateway_method_response" "dashboards_embed_url_options" {
+resource "aws_api_gateway_method_response" "dashboard_visual_embed_url_options" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.dashboards_embed_url.id
-  http_method = aws_api_gateway_method.dashboards_embed_url_options.http_method
+  resource_id = aws_api_gateway_resource.dashboard_visual_embed_url.id
+  http_method = aws_api_gateway_method.dashboard_visual_embed_url_options.http_method
   status_code = "200"
 
   response_parameters = {
@@ -675,11 +1543,11 @@ resource "aws_api_gateway_method_response" "dashboards_embed_url_options" {
   }
 }
 
-resource "aws_api_gateway_integration_response" "dashboards_embed_url_options" {
+resource "aws_api_gateway_integration_response" "dashboard_visual_embed_url_options" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.dashboards_embed_url.id
-  http_method = aws_api_gateway_method.dashboards_embed_url_options.http_method
-  status_code = aws_api_gateway_method_response.dashboards_embed_url_options.status_code
+  resource_id = aws_api_gateway_resource.dashboard_visual_embed_url.id
+  http_method = aws_api_gateway_method.dashboard_visual_embed_url_options.http_method
+  status_code = aws_api_gateway_method_response.dashboard_visual_embed_url_options.status_code
 
   response_parameters = {
     "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
@@ -687,21 +1555,21 @@ resource "aws_api_gateway_integration_response" "dashboards_embed_url_options" {
     "method.response.header.Access-Control-Allow-Origin"  = "'*'"
   }
 
-  depends_on = [aws_api_gateway_integration.dashboards_embed_url_options]
+  depends_on = [aws_api_gateway_integration.dashboard_visual_embed_url_options]
 }
 
-# OPTIONS /dashboards/list
-resource "aws_api_gateway_method" "dashboards_list_options" {
+# OPTIONS /qna/embed-url
+resource "aws_api_gateway_method" "qna_embed_url_options" {
   rest_api_id   = aws_api_gateway_rest_api.main.id
-  resource_id   = aws_api_gateway_resource.dashboards_list.id
+  resource_id   = aws_api_gateway_resource.qna_embed_url.id
   http_method   = "OPTIONS"
   authorization = "NONE"
 }
 
-resource "aws_api_gateway_integration" "dashboards_list_options" {
+resource "aws_api_gateway_integration" "qna_embed_url_options" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.dashboards_list.id
-  http_method = aws_api_gateway_method.dashboards_list_options.http_method
+  resource_id = aws_api_gateway_resource.qna_embed_url.id
+  http_method = aws_api_gateway_method.qna_embed_url_options.http_method
   type        = "MOCK"
 
   request_templates = {
@@ -709,10 +1577,10 @@ resource "aws_api_gateway_integration" "dashboards_list_options" {
   }
 }
 
-resource "aws_api_gateway_method_response" "dashboards_list_options" {
+resource "aws_api_gateway_method_response" "qna_embed_url_options" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.dashboards_list.id
-  http_method = aws_api_gateway_method.dashboards_list_options.http_method
+  resource_id = aws_api_gateway_resource.qna_embed_url.id
+  http_method = aws_api_gateway_method.qna_embed_url_options.http_method
   status_code = "200"
 
   response_parameters = {
@@ -726,11 +1594,11 @@ resource "aws_api_gateway_method_response" "dashboards_list_options" {
   }
 }
 
-resource "aws_api_gateway_integration_response" "dashboards_list_options" {
+resource "aws_api_gateway_integration_response" "qna_embed_url_options" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.dashboards_list.id
-  http_method = aws_api_gateway_method.dashboards_list_options.http_method
-  status_code = aws_api_gateway_method_response.dashboards_list_options.status_code
+  resource_id = aws_api_gateway_resource.qna_embed_url.id
+  http_method = aws_api_gateway_method.qna_embed_url_options.http_method
+  status_code = aws_api_gateway_method_response.qna_embed_url_options.status_code
 
   response_parameters = {
     "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
@@ -738,7 +1606,7 @@ resource "aws_api_gateway_integration_response" "dashboards_list_options" {
     "method.response.header.Access-Control-Allow-Origin"  = "'*'"
   }
 
-  depends_on = [aws_api_gateway_integration.dashboards_list_options]
+  depends_on = [aws_api_gateway_integration.qna_embed_url_options]
 }
 
 # OPTIONS /governance/rules
@@ -785,13 +1653,64 @@ resource "aws_api_gateway_integration_response" "governance_rules_options" {
 
   response_parameters = {
     "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
-    "method.response.header.Access-Control-Allow-Methods" = "'GET,PUT,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Methods" = "'GET,POST,OPTIONS'"
     "method.response.header.Access-Control-Allow-Origin"  = "'*'"
   }
 
   depends_on = [aws_api_gateway_integration.governance_rules_options]
 }
 
+# OPTIONS /governance/rules/{ruleId}
+resource "aws_api_gateway_method" "governance_rule_id_options" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.governance_rule_id.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "governance_rule_id_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.governance_rule_id.id
+  http_method = aws_api_gateway_method.governance_rule_id_options.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
+  }
+}
+
+resource "aws_api_gateway_method_response" "governance_rule_id_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.governance_rule_id.id
+  http_method = aws_api_gateway_method.governance_rule_id_options.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+
+  response_models = {
+    "application/json" = "Empty"
+  }
+}
+
+resource "aws_api_gateway_integration_response" "governance_rule_id_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.governance_rule_id.id
+  http_method = aws_api_gateway_method.governance_rule_id_options.http_method
+  status_code = aws_api_gateway_method_response.governance_rule_id_options.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'PUT,DELETE,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.governance_rule_id_options]
+}
+
 # ============================================================================
 # CORS OPTIONS Methods for /roles
 # ============================================================================
@@ -891,13 +1810,64 @@ resource "aws_api_gateway_integration_response" "role_id_options" {
 
   response_parameters = {
     "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
-    "method.response.header.Access-Control-Allow-Methods" = "'GET,DELETE,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Methods" = "'GET,PATCH,DELETE,OPTIONS'"
     "method.response.header.Access-Control-Allow-Origin"  = "'*'"
   }
 
   depends_on = [aws_api_gateway_integration.role_id_options]
 }
 
+# OPTIONS /roles/{role}/clone
+resource "aws_api_gateway_method" "role_clone_options" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.role_clone.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "role_clone_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.role_clone.id
+  http_method = aws_api_gateway_method.role_clone_options.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
+  }
+}
+
+resource "aws_api_gateway_method_response" "role_clone_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.role_clone.id
+  http_method = aws_api_gateway_method.role_clone_options.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+
+  response_models = {
+    "application/json" = "Empty"
+  }
+}
+
+resource "aws_api_gateway_integration_response" "role_clone_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.role_clone.id
+  http_method = aws_api_gateway_method.role_clone_options.http_method
+  status_code = aws_api_gateway_method_response.role_clone_options.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'POST,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.role_clone_options]
+}
+
 # OPTIONS /roles/{role}/metrics
 resource "aws_api_gateway_method" "role_metrics_options" {
   rest_api_id   = aws_api_gateway_rest_api.main.id
@@ -999,3 +1969,54 @@ resource "aws_api_gateway_integration_response" "role_metric_name_options" {
 
   depends_on = [aws_api_gateway_integration.role_metric_name_options]
 }
+
+# OPTIONS /metric-catalog
+resource "aws_api_gateway_method" "metric_catalog_options" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.metric_catalog.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "metric_catalog_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.metric_catalog.id
+  http_method = aws_api_gateway_method.metric_catalog_options.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
+  }
+}
+
+resource "aws_api_gateway_method_response" "metric_catalog_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.metric_catalog.id
+  http_method = aws_api_gateway_method.metric_catalog_options.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+
+  response_models = {
+    "application/json" = "Empty"
+  }
+}
+
+resource "aws_api_gateway_integration_response" "metric_catalog_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.metric_catalog.id
+  http_method = aws_api_gateway_method.metric_catalog_options.http_method
+  status_code = aws_api_gateway_method_response.metric_catalog_options.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'GET,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.metric_catalog_options]
+}
@@ -0,0 +1,109 @@
+# ============================================================================
+# Audit Log Lambda Integration
+# Tenant API: GET /audit lists administrative actions (audit:read permission)
+# ============================================================================
+
+# Data source to get the deployed Lambda function
+data "aws_lambda_function" "audit_log" {
+  function_name = "${var.environment}-shoppulse-audit-log"
+}
+
+# Lambda permission for API Gateway to invoke Audit Log Lambda
+resource "aws_lambda_permission" "audit_log_api_gateway" {
+  statement_id  = "AllowAPIGatewayInvoke"
+  action        = "lambda:InvokeFunction"
+  function_name = data.aws_lambda_function.audit_log.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+# /audit resource
+resource "aws_api_gateway_resource" "audit" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_rest_api.main.root_resource_id
+  path_part   = "audit"
+}
+
+# GET /audit
+resource "aws_api_gateway_method" "audit_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.audit.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization"   = true
+    "method.request.querystring.action"     = false
+    "method.request.querystring.targetType" = false
+    "method.request.querystring.targetId"   = false
+    "method.request.querystring.actor"      = false
+    "method.request.querystring.from"       = false
+    "method.request.querystring.to"         = false
+    "method.request.querystring.limit"      = false
+    "method.request.querystring.cursor"     = false
+  }
+}
+
+# GET /audit integration
+resource "aws_api_gateway_integration" "audit_get" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.audit.id
+  http_method             = aws_api_gateway_method.audit_get.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.audit_log.invoke_arn
+
+  depends_on = [aws_lambda_permission.audit_log_api_gateway]
+}
+
+# OPTIONS /audit
+resource "aws_api_gateway_method" "audit_options" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.audit.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "audit_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.audit.id
+  http_method = aws_api_gateway_method.audit_options.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
+  }
+}
+
+resource "aws_api_gateway_method_response" "audit_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.audit.id
+  http_method = aws_api_gateway_method.audit_options.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+
+  response_models = {
+    "application/json" = "Empty"
+  }
+}
+
+resource "aws_api_gateway_integration_response" "audit_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.audit.id
+  http_method = aws_api_gateway_method.audit_options.http_method
+  status_code = aws_api_gateway_method_response.audit_options.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'GET,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.audit_options]
+}
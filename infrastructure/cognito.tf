@@ -6,7 +6,7 @@
 resource "aws_cognito_user_pool" "main" {
   name = "${var.project_name}-${var.environment}-user-pool"
 
-  # Custom attributes for tenant_id and role
+  # Custom attributes for tenant_id, role, region and store_id
   schema {
     name                = "tenant_id"
     attribute_data_type = "String"
@@ -31,6 +31,31 @@ resource "aws_cognito_user_pool" "main" {
     }
   }
 
+  # Mirrors of users.region and users.store_id, kept in step by the user management Lambda
+  schema {
+    name                = "region"
+    attribute_data_type = "String"
+    required            = false
+    mutable             = true
+
+    string_attribute_constraints {
+      min_length = 1
+      max_length = 10
+    }
+  }
+
+  schema {
+    name                = "store_id"
+    attribute_data_type = "String"
+    required            = false
+    mutable             = true
+
+    string_attribute_constraints {
+      min_length = 1
+      max_length = 10
+    }
+  }
+
   # Password policy: min 8 chars, uppercase, lowercase, numbers
   password_policy {
     minimum_length                   = 8
@@ -79,6 +104,14 @@ resource "aws_cognito_user_pool" "main" {
     device_only_remembered_on_user_prompt = true
   }
 
+  # Pre-authentication trigger - blocks sign-in for deactivated tenants
+  dynamic "lambda_config" {
+    for_each = var.enable_pre_authentication_trigger ? [1] : []
+    content {
+      pre_authentication = data.aws_lambda_function.pre_authentication[0].arn
+    }
+  }
+
   # Deletion protection
   deletion_protection = var.environment == "prod" ? "ACTIVE" : "INACTIVE"
 
@@ -118,7 +151,9 @@ resource "aws_cognito_user_pool_client" "web_client" {
     "email",
     "email_verified",
     "custom:tenant_id",
-    "custom:role"
+    "custom:role",
+    "custom:region",
+    "custom:store_id"
   ]
 
   write_attributes = [
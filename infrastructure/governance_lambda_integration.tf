@@ -0,0 +1,66 @@
+# ============================================================================
+# Governance Management Lambda Integration
+# Replaces the temporary MOCK integrations for /governance/rules
+# ============================================================================
+
+# Data source to get the deployed Lambda function
+data "aws_lambda_function" "governance_management" {
+  function_name = "${var.environment}-shoppulse-governance-management"
+}
+
+# Lambda permission for API Gateway to invoke Governance Management Lambda
+resource "aws_lambda_permission" "governance_management_api_gateway" {
+  statement_id  = "AllowAPIGatewayInvoke"
+  action        = "lambda:InvokeFunction"
+  function_name = data.aws_lambda_function.governance_management.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+# GET /governance/rules integration
+resource "aws_api_gateway_integration" "governance_rules_get" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.governance_rules.id
+  http_method             = aws_api_gateway_method.governance_rules_get.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.governance_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.governance_management_api_gateway]
+}
+
+# POST /governance/rules integration
+resource "aws_api_gateway_integration" "governance_rules_post" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.governance_rules.id
+  http_method             = aws_api_gateway_method.governance_rules_post.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.governance_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.governance_management_api_gateway]
+}
+
+# PUT /governance/rules/{ruleId} integration
+resource "aws_api_gateway_integration" "governance_rule_id_put" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.governance_rule_id.id
+  http_method             = aws_api_gateway_method.governance_rule_id_put.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.governance_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.governance_management_api_gateway]
+}
+
+# DELETE /governance/rules/{ruleId} integration
+resource "aws_api_gateway_integration" "governance_rule_id_delete" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.governance_rule_id.id
+  http_method             = aws_api_gateway_method.governance_rule_id_delete.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.governance_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.governance_management_api_gateway]
+}
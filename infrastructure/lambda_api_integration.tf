@@ -100,6 +100,18 @@ resource "aws_api_gateway_integration" "users_post" {
   depends_on = [aws_lambda_permission.api_gateway_user_management]
 }
 
+# GET /users/me integration
+resource "aws_api_gateway_integration" "user_me_get" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.user_me.id
+  http_method             = aws_api_gateway_method.user_me_get.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.user_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.api_gateway_user_management]
+}
+
 # GET /users/{userId} integration
 resource "aws_api_gateway_integration" "user_id_get" {
   rest_api_id             = aws_api_gateway_rest_api.main.id
@@ -124,6 +136,18 @@ resource "aws_api_gateway_integration" "user_id_put" {
   depends_on = [aws_lambda_permission.api_gateway_user_management]
 }
 
+# PATCH /users/{userId} integration
+resource "aws_api_gateway_integration" "user_id_patch" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.user_id.id
+  http_method             = aws_api_gateway_method.user_id_patch.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.user_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.api_gateway_user_management]
+}
+
 # DELETE /users/{userId} integration
 resource "aws_api_gateway_integration" "user_id_delete" {
   rest_api_id             = aws_api_gateway_rest_api.main.id
@@ -148,6 +172,78 @@ resource "aws_api_gateway_integration" "user_role_put" {
   depends_on = [aws_lambda_permission.api_gateway_user_management]
 }
 
+# POST /users/{userId}/deactivate integration
+resource "aws_api_gateway_integration" "user_deactivate_post" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.user_deactivate.id
+  http_method             = aws_api_gateway_method.user_deactivate_post.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.user_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.api_gateway_user_management]
+}
+
+# POST /users/{userId}/reactivate integration
+resource "aws_api_gateway_integration" "user_reactivate_post" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.user_reactivate.id
+  http_method             = aws_api_gateway_method.user_reactivate_post.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.user_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.api_gateway_user_management]
+}
+
+# GET /users/deleted integration
+resource "aws_api_gateway_integration" "users_deleted_get" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.users_deleted.id
+  http_method             = aws_api_gateway_method.users_deleted_get.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.user_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.api_gateway_user_management]
+}
+
+# POST /users/{userId}/restore integration
+resource "aws_api_gateway_integration" "user_restore_post" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.user_restore.id
+  http_method             = aws_api_gateway_method.user_restore_post.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.user_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.api_gateway_user_management]
+}
+
+# POST /users/{userId}/purge integration
+resource "aws_api_gateway_integration" "user_purge_post" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.user_purge.id
+  http_method             = aws_api_gateway_method.user_purge_post.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.user_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.api_gateway_user_management]
+}
+
+# POST /users/import integration
+resource "aws_api_gateway_integration" "users_import_post" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.users_import.id
+  http_method             = aws_api_gateway_method.users_import_post.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.user_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.api_gateway_user_management]
+}
+
 # ============================================================================
 # API Gateway Integrations for Role Management Endpoints
 # ============================================================================
@@ -188,6 +284,18 @@ resource "aws_api_gateway_integration" "role_id_get" {
   depends_on = [aws_lambda_permission.api_gateway_role_management]
 }
 
+# PATCH /roles/{role} integration
+resource "aws_api_gateway_integration" "role_id_patch" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.role_id.id
+  http_method             = aws_api_gateway_method.role_id_patch.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.role_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.api_gateway_role_management]
+}
+
 # DELETE /roles/{role} integration
 resource "aws_api_gateway_integration" "role_id_delete" {
   rest_api_id             = aws_api_gateway_rest_api.main.id
@@ -200,6 +308,18 @@ resource "aws_api_gateway_integration" "role_id_delete" {
   depends_on = [aws_lambda_permission.api_gateway_role_management]
 }
 
+# POST /roles/{role}/clone integration
+resource "aws_api_gateway_integration" "role_clone_post" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.role_clone.id
+  http_method             = aws_api_gateway_method.role_clone_post.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.role_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.api_gateway_role_management]
+}
+
 # POST /roles/{role}/metrics integration
 resource "aws_api_gateway_integration" "role_metrics_post" {
   rest_api_id             = aws_api_gateway_rest_api.main.id
@@ -224,6 +344,18 @@ resource "aws_api_gateway_integration" "role_metric_name_delete" {
   depends_on = [aws_lambda_permission.api_gateway_role_management]
 }
 
+# GET /metric-catalog integration
+resource "aws_api_gateway_integration" "metric_catalog_get" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.metric_catalog.id
+  http_method             = aws_api_gateway_method.metric_catalog_get.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.role_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.api_gateway_role_management]
+}
+
 # ============================================================================
 # API Gateway Deployment
 # ============================================================================
@@ -237,25 +369,75 @@ resource "aws_api_gateway_deployment" "main" {
       # User management integrations
       aws_api_gateway_integration.users_get.id,
       aws_api_gateway_integration.users_post.id,
+      aws_api_gateway_integration.user_me_get.id,
       aws_api_gateway_integration.user_id_get.id,
       aws_api_gateway_integration.user_id_put.id,
+      aws_api_gateway_integration.user_id_patch.id,
       aws_api_gateway_integration.user_id_delete.id,
       aws_api_gateway_integration.user_role_put.id,
+      aws_api_gateway_integration.user_deactivate_post.id,
+      aws_api_gateway_integration.user_reactivate_post.id,
+      aws_api_gateway_integration.users_deleted_get.id,
+      aws_api_gateway_integration.user_restore_post.id,
+      aws_api_gateway_integration.user_purge_post.id,
+      aws_api_gateway_integration.users_import_post.id,
       # Role management integrations
       aws_api_gateway_integration.roles_get.id,
       aws_api_gateway_integration.roles_post.id,
       aws_api_gateway_integration.role_id_get.id,
+      aws_api_gateway_integration.role_id_patch.id,
       aws_api_gateway_integration.role_id_delete.id,
+      aws_api_gateway_integration.role_clone_post.id,
       aws_api_gateway_integration.role_metrics_post.id,
       aws_api_gateway_integration.role_metric_name_delete.id,
+      aws_api_gateway_integration.metric_catalog_get.id,
       # Include OPTIONS integrations
       aws_api_gateway_integration.users_options.id,
+      aws_api_gateway_integration.user_me_options.id,
       aws_api_gateway_integration.user_id_options.id,
       aws_api_gateway_integration.user_role_options.id,
+      aws_api_gateway_integration.user_deactivate_options.id,
+      aws_api_gateway_integration.user_reactivate_options.id,
+      aws_api_gateway_integration.users_deleted_options.id,
+      aws_api_gateway_integration.user_restore_options.id,
+      aws_api_gateway_integration.user_purge_options.id,
+      aws_api_gateway_integration.users_import_options.id,
       aws_api_gateway_integration.roles_options.id,
       aws_api_gateway_integration.role_id_options.id,
+      aws_api_gateway_integration.role_clone_options.id,
       aws_api_gateway_integration.role_metrics_options.id,
       aws_api_gateway_integration.role_metric_name_options.id,
+      aws_api_gateway_integration.metric_catalog_options.id,
+      # QuickSight embed integrations
+      aws_api_gateway_integration.dashboards_embed_url_get.id,
+      aws_api_gateway_integration.dashboards_get.id,
+      aws_api_gateway_integration.dashboard_id_embed_url_get.id,
+      aws_api_gateway_integration.dashboard_visual_embed_url_get.id,
+      aws_api_gateway_integration.qna_embed_url_get.id,
+      aws_api_gateway_integration.dashboards_options.id,
+      aws_api_gateway_integration.dashboard_id_embed_url_options.id,
+      aws_api_gateway_integration.dashboard_visual_embed_url_options.id,
+      aws_api_gateway_integration.qna_embed_url_options.id,
+      # Governance management integrations
+      aws_api_gateway_integration.governance_rules_get.id,
+      aws_api_gateway_integration.governance_rules_post.id,
+      aws_api_gateway_integration.governance_rule_id_put.id,
+      aws_api_gateway_integration.governance_rule_id_delete.id,
+      aws_api_gateway_integration.governance_rule_id_options.id,
+      # Analytics integrations
+      aws_api_gateway_integration.metrics_get.id,
+      aws_api_gateway_integration.metric_name_get.id,
+      aws_api_gateway_integration.metrics_options.id,
+      aws_api_gateway_integration.metric_name_options.id,
+      # Tenant management integrations
+      aws_api_gateway_integration.tenants_get.id,
+      aws_api_gateway_integration.tenants_post.id,
+      aws_api_gateway_integration.tenant_id_patch.id,
+      aws_api_gateway_integration.tenants_options.id,
+      aws_api_gateway_integration.tenant_id_options.id,
+      # Audit log integrations
+      aws_api_gateway_integration.audit_get.id,
+      aws_api_gateway_integration.audit_options.id,
     ]))
   }
 
@@ -267,36 +449,79 @@ resource "aws_api_gateway_deployment" "main" {
     # User management integrations
     aws_api_gateway_integration.users_get,
     aws_api_gateway_integration.users_post,
+    aws_api_gateway_integration.user_me_get,
     aws_api_gateway_integration.user_id_get,
     aws_api_gateway_integration.user_id_put,
+    aws_api_gateway_integration.user_id_patch,
     aws_api_gateway_integration.user_id_delete,
     aws_api_gateway_integration.user_role_put,
+    aws_api_gateway_integration.user_deactivate_post,
+    aws_api_gateway_integration.user_reactivate_post,
+    aws_api_gateway_integration.users_deleted_get,
+    aws_api_gateway_integration.user_restore_post,
+    aws_api_gateway_integration.user_purge_post,
+    aws_api_gateway_integration.users_import_post,
     # Role management integrations
     aws_api_gateway_integration.roles_get,
     aws_api_gateway_integration.roles_post,
     aws_api_gateway_integration.role_id_get,
+    aws_api_gateway_integration.role_id_patch,
     aws_api_gateway_integration.role_id_delete,
+    aws_api_gateway_integration.role_clone_post,
     aws_api_gateway_integration.role_metrics_post,
     aws_api_gateway_integration.role_metric_name_delete,
+    aws_api_gateway_integration.metric_catalog_get,
     # CORS OPTIONS integrations
     aws_api_gateway_integration.users_options,
+    aws_api_gateway_integration.user_me_options,
     aws_api_gateway_integration.user_id_options,
     aws_api_gateway_integration.user_role_options,
+    aws_api_gateway_integration.user_deactivate_options,
+    aws_api_gateway_integration.user_reactivate_options,
+    aws_api_gateway_integration.users_deleted_options,
+    aws_api_gateway_integration.user_restore_options,
+    aws_api_gateway_integration.user_purge_options,
+    aws_api_gateway_integration.users_import_options,
     aws_api_gateway_integration.roles_options,
     aws_api_gateway_integration.role_id_options,
+    aws_api_gateway_integration.role_clone_options,
     aws_api_gateway_integration.role_metrics_options,
     aws_api_gateway_integration.role_metric_name_options,
+    aws_api_gateway_integration.metric_catalog_options,
     # Dashboard OPTIONS integrations (MOCK - no Lambda needed)
     aws_api_gateway_integration.dashboards_embed_url_options,
-    aws_api_gateway_integration.dashboards_list_options,
+    aws_api_gateway_integration.dashboards_options,
+    aws_api_gateway_integration.dashboard_id_embed_url_options,
+    aws_api_gateway_integration.dashboard_visual_embed_url_options,
+    aws_api_gateway_integration.qna_embed_url_options,
     # Governance OPTIONS integrations (MOCK - no Lambda needed)
     aws_api_gateway_integration.governance_rules_options,
-    # QuickSight Embed Lambda integration
+    aws_api_gateway_integration.governance_rule_id_options,
+    # QuickSight Embed Lambda integrations
     aws_api_gateway_integration.dashboards_embed_url_get,
-    # Temporary MOCK integrations for not-yet-implemented endpoints
-    aws_api_gateway_integration.dashboards_list_get_temp,
-    aws_api_gateway_integration.governance_rules_get_temp,
-    aws_api_gateway_integration.governance_rules_put_temp,
+    aws_api_gateway_integration.dashboards_get,
+    aws_api_gateway_integration.dashboard_id_embed_url_get,
+    aws_api_gateway_integration.dashboard_visual_embed_url_get,
+    aws_api_gateway_integration.qna_embed_url_get,
+    # Governance Management Lambda integrations
+    aws_api_gateway_integration.governance_rules_get,
+    aws_api_gateway_integration.governance_rules_post,
+    aws_api_gateway_integration.governance_rule_id_put,
+    aws_api_gateway_integration.governance_rule_id_delete,
+    # Analytics Lambda integrations
+    aws_api_gateway_integration.metrics_get,
+    aws_api_gateway_integration.metric_name_get,
+    aws_api_gateway_integration.metrics_options,
+    aws_api_gateway_integration.metric_name_options,
+    # Tenant Management Lambda integrations
+    aws_api_gateway_integration.tenants_get,
+    aws_api_gateway_integration.tenants_post,
+    aws_api_gateway_integration.tenant_id_patch,
+    aws_api_gateway_integration.tenants_options,
+    aws_api_gateway_integration.tenant_id_options,
+    # Audit Log Lambda integrations
+    aws_api_gateway_integration.audit_get,
+    aws_api_gateway_integration.audit_options,
   ]
 }
 
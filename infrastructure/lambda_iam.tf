@@ -117,11 +117,13 @@ data "aws_iam_policy_document" "user_management_lambda" {
     actions = [
       "cognito-idp:AdminCreateUser",
       "cognito-idp:AdminUpdateUserAttributes",
+      "cognito-idp:AdminDeleteUserAttributes",
       "cognito-idp:AdminDeleteUser",
       "cognito-idp:AdminGetUser",
       "cognito-idp:AdminSetUserPassword",
       "cognito-idp:AdminDisableUser",
-      "cognito-idp:AdminEnableUser"
+      "cognito-idp:AdminEnableUser",
+      "cognito-idp:AdminUserGlobalSignOut"
     ]
 
     resources = [
@@ -163,6 +165,7 @@ data "aws_iam_policy_document" "quicksight_embed_lambda" {
 
     resources = [
       "arn:aws:quicksight:${var.aws_region}:${data.aws_caller_identity.current.account_id}:dashboard/*",
+      "arn:aws:quicksight:${var.aws_region}:${data.aws_caller_identity.current.account_id}:topic/*",
       "arn:aws:quicksight:${var.aws_region}:${data.aws_caller_identity.current.account_id}:namespace/default"
     ]
   }
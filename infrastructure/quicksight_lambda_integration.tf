@@ -29,5 +29,53 @@ resource "aws_api_gateway_integration" "dashboards_embed_url_get" {
   depends_on = [aws_lambda_permission.quicksight_embed_api_gateway]
 }
 
+# API Gateway Integration for GET /dashboards
+resource "aws_api_gateway_integration" "dashboards_get" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.dashboards.id
+  http_method             = aws_api_gateway_method.dashboards_get.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.quicksight_embed.invoke_arn
+
+  depends_on = [aws_lambda_permission.quicksight_embed_api_gateway]
+}
+
+# API Gateway Integration for GET /dashboards/{dashboardId}/embed-url
+resource "aws_api_gateway_integration" "dashboard_id_embed_url_get" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.dashboard_id_embed_url.id
+  http_method             = aws_api_gateway_method.dashboard_id_embed_url_get.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.quicksight_embed.invoke_arn
+
+  depends_on = [aws_lambda_permission.quicksight_embed_api_gateway]
+}
+
+# API Gateway Integration for GET /dashboards/{dashboardId}/visuals/{sheetId}/{visualId}/embed-url
+resource "aws_api_gateway_integration" "dashboard_visual_embed_url_get" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.dashboard_visual_embed_url.id
+  http_method             = aws_api_gateway_method.dashboard_visual_embed_url_get.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.quicksight_embed.invoke_arn
+
+  depends_on = [aws_lambda_permission.quicksight_embed_api_gateway]
+}
+
+# API Gateway Integration for GET /qna/embed-url
+resource "aws_api_gateway_integration" "qna_embed_url_get" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.qna_embed_url.id
+  http_method             = aws_api_gateway_method.qna_embed_url_get.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.quicksight_embed.invoke_arn
+
+  depends_on = [aws_lambda_permission.quicksight_embed_api_gateway]
+}
+
 # Note: AWS_PROXY integration automatically handles responses
 # No need for method_response or integration_response resources
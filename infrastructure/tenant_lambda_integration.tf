@@ -0,0 +1,243 @@
+# ============================================================================
+# Tenant Management Lambda Integration
+# Platform-operator API: GET/POST /tenants and PATCH /tenants/{tenantId}
+# Cognito pre-authentication trigger blocking deactivated tenants
+# ============================================================================
+
+# Data source to get the deployed Lambda function
+data "aws_lambda_function" "tenant_management" {
+  function_name = "${var.environment}-shoppulse-tenant-management"
+}
+
+# Lambda permission for API Gateway to invoke Tenant Management Lambda
+resource "aws_lambda_permission" "tenant_management_api_gateway" {
+  statement_id  = "AllowAPIGatewayInvoke"
+  action        = "lambda:InvokeFunction"
+  function_name = data.aws_lambda_function.tenant_management.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+# Cognito group for platform operators (members can manage tenants)
+resource "aws_cognito_user_group" "platform_admins" {
+  name         = "platform-admins"
+  user_pool_id = aws_cognito_user_pool.main.id
+  description  = "Platform operators allowed to manage tenants"
+}
+
+# /tenants resource
+resource "aws_api_gateway_resource" "tenants" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_rest_api.main.root_resource_id
+  path_part   = "tenants"
+}
+
+# /tenants/{tenantId} resource
+resource "aws_api_gateway_resource" "tenant_id" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.tenants.id
+  path_part   = "{tenantId}"
+}
+
+# GET /tenants
+resource "aws_api_gateway_method" "tenants_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.tenants.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+  }
+}
+
+# POST /tenants
+resource "aws_api_gateway_method" "tenants_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.tenants.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_validator_id = aws_api_gateway_request_validator.main.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+  }
+}
+
+# PATCH /tenants/{tenantId}
+resource "aws_api_gateway_method" "tenant_id_patch" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.tenant_id.id
+  http_method   = "PATCH"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+
+  request_validator_id = aws_api_gateway_request_validator.main.id
+
+  request_parameters = {
+    "method.request.header.Authorization" = true
+    "method.request.path.tenantId"        = true
+  }
+}
+
+# GET /tenants integration
+resource "aws_api_gateway_integration" "tenants_get" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.tenants.id
+  http_method             = aws_api_gateway_method.tenants_get.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.tenant_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.tenant_management_api_gateway]
+}
+
+# POST /tenants integration
+resource "aws_api_gateway_integration" "tenants_post" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.tenants.id
+  http_method             = aws_api_gateway_method.tenants_post.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.tenant_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.tenant_management_api_gateway]
+}
+
+# PATCH /tenants/{tenantId} integration
+resource "aws_api_gateway_integration" "tenant_id_patch" {
+  rest_api_id             = aws_api_gateway_rest_api.main.id
+  resource_id             = aws_api_gateway_resource.tenant_id.id
+  http_method             = aws_api_gateway_method.tenant_id_patch.http_method
+  integration_http_method = "POST"
+  type                    = "AWS_PROXY"
+  uri                     = data.aws_lambda_function.tenant_management.invoke_arn
+
+  depends_on = [aws_lambda_permission.tenant_management_api_gateway]
+}
+
+# OPTIONS /tenants
+resource "aws_api_gateway_method" "tenants_options" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.tenants.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "tenants_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.tenants.id
+  http_method = aws_api_gateway_method.tenants_options.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
+  }
+}
+
+resource "aws_api_gateway_method_response" "tenants_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.tenants.id
+  http_method = aws_api_gateway_method.tenants_options.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+
+  response_models = {
+    "application/json" = "Empty"
+  }
+}
+
+resource "aws_api_gateway_integration_response" "tenants_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.tenants.id
+  http_method = aws_api_gateway_method.tenants_options.http_method
+  status_code = aws_api_gateway_method_response.tenants_options.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'GET,POST,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.tenants_options]
+}
+
+# OPTIONS /tenants/{tenantId}
+resource "aws_api_gateway_method" "tenant_id_options" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.tenant_id.id
+  http_method   = "OPTIONS"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_integration" "tenant_id_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.tenant_id.id
+  http_method = aws_api_gateway_method.tenant_id_options.http_method
+  type        = "MOCK"
+
+  request_templates = {
+    "application/json" = "{\"statusCode\": 200}"
+  }
+}
+
+resource "aws_api_gateway_method_response" "tenant_id_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.tenant_id.id
+  http_method = aws_api_gateway_method.tenant_id_options.http_method
+  status_code = "200"
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = true
+    "method.response.header.Access-Control-Allow-Methods" = true
+    "method.response.header.Access-Control-Allow-Origin"  = true
+  }
+
+  response_models = {
+    "application/json" = "Empty"
+  }
+}
+
+resource "aws_api_gateway_integration_response" "tenant_id_options" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.tenant_id.id
+  http_method = aws_api_gateway_method.tenant_id_options.http_method
+  status_code = aws_api_gateway_method_response.tenant_id_options.status_code
+
+  response_parameters = {
+    "method.response.header.Access-Control-Allow-Headers" = "'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token'"
+    "method.response.header.Access-Control-Allow-Methods" = "'PATCH,OPTIONS'"
+    "method.response.header.Access-Control-Allow-Origin"  = "'*'"
+  }
+
+  depends_on = [aws_api_gateway_integration.tenant_id_options]
+}
+
+# ============================================================================
+# Cognito Pre Authentication trigger
+# Enabled with var.enable_pre_authentication_trigger once the backend is
+# deployed, since the user pool cannot reference a function that does not exist
+# ============================================================================
+
+data "aws_lambda_function" "pre_authentication" {
+  count         = var.enable_pre_authentication_trigger ? 1 : 0
+  function_name = "${var.environment}-shoppulse-pre-authentication"
+}
+
+# Lambda permission for Cognito to invoke the trigger
+resource "aws_lambda_permission" "pre_authentication_cognito" {
+  count         = var.enable_pre_authentication_trigger ? 1 : 0
+  statement_id  = "AllowCognitoInvoke"
+  action        = "lambda:InvokeFunction"
+  function_name = data.aws_lambda_function.pre_authentication[0].function_name
+  principal     = "cognito-idp.amazonaws.com"
+  source_arn    = aws_cognito_user_pool.main.arn
+}
@@ -45,3 +45,13 @@ variable "db_username" {
   type        = string
   default     = "shoppulse_admin"
 }
+
+# Off by default because the user pool cannot reference the trigger before
+# the backend has deployed it. Until it is on, users of a deactivated tenant
+# can still sign in; their API calls and embed URLs are refused. Set it to
+# true in terraform.tfvars and apply again once the backend is deployed.
+variable "enable_pre_authentication_trigger" {
+  description = "Attach the tenant pre-authentication Lambda to the user pool (deploy the backend first)"
+  type        = bool
+  default     = false
+}